@@ -1,55 +1,59 @@
 /**
  * AdminGate.tsx
- * Route-level guard that requires a query key (?key=...) to match the configured admin key.
- * If the key is missing/incorrect, renders an access-restricted screen with a small unlock form.
+ * Route-level guard that requires an admin session (see lib/auth).
+ * If not signed in, renders an access-restricted screen with a small sign-in form.
  */
 
-import { useMemo, useState } from 'react'
-import { useLocation, useNavigate } from 'react-router'
+import { useState } from 'react'
 import { Input } from './ui/input'
 import { Button } from './ui/button'
 import { Lock, ArrowLeft, Unlock } from 'lucide-react'
-import { adminEditKey } from '../config/remote'
+import { adminAuthConfig } from '../config/remote'
+import { isAuthConfigured, signIn } from '../lib/auth'
+import useAuthSession from '../lib/useAuthSession'
 
 /**
  * AdminGateProps
- * Wrap a protected page with this component to require a key for access.
+ * Wrap a protected page with this component to require sign-in for access.
  */
 interface AdminGateProps {
   /** The protected page content. */
   children: React.ReactNode
 }
 
-/**
- * useQuery
- * Lightweight helper to parse the current location.search.
- */
-function useQuery() {
-  const location = useLocation()
-  return useMemo(() => new URLSearchParams(location.search.replace(/^\?/, '')), [location.search])
-}
-
 /**
  * AdminGate
- * Verifies ?key matches adminEditKey. If not, shows an inline unlock UI.
+ * Shows children for a signed-in session; otherwise an inline sign-in UI.
  */
 export default function AdminGate({ children }: AdminGateProps) {
-  const query = useQuery()
-  const navigate = useNavigate()
-  const [entered, setEntered] = useState<string>('')
-
-  // If adminEditKey is empty, do not gate (but we make it non-empty in config to enforce).
-  const requiredKey = (adminEditKey || '').trim()
-  const providedKey = (query.get('key') || '').trim()
-  const granted = !!requiredKey && providedKey === requiredKey
+  const session = useAuthSession()
+  const [user, setUser] = useState<string>('')
+  const [passphrase, setPassphrase] = useState<string>('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
 
-  if (!requiredKey) {
-    // No key configured => allow (fallback behavior)
+  if (session) {
     return <>{children}</>
   }
 
-  if (granted) {
-    return <>{children}</>
+  const configured = isAuthConfigured()
+  // Ask for a user name only when there is more than one account to choose from
+  const askUser = adminAuthConfig.credentials.length !== 1
+
+  /** Verifies the passphrase; the session event re-renders this gate on success. */
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setBusy(true)
+    setError(null)
+    try {
+      const ok = await signIn(user, passphrase)
+      if (!ok) setError('Sign-in failed. Check the user name and passphrase.')
+    } catch {
+      setError('Sign-in is unavailable in this browser (WebCrypto required).')
+    } finally {
+      setBusy(false)
+      setPassphrase('')
+    }
   }
 
   // Access denied UI (no Layout wrapper to avoid nesting inside page Layouts)
@@ -60,41 +64,74 @@ export default function AdminGate({ children }: AdminGateProps) {
           <Lock className="size-5 text-foreground/80" />
           <h1 className="text-lg font-semibold">Access restricted</h1>
         </div>
-        <p className="mt-2 text-sm text-muted-foreground">
-          This page requires an admin key. Enter the key to continue, or go back to the Home page.
-        </p>
 
-        <div className="mt-4 grid gap-2">
-          <label className="text-xs text-muted-foreground">Admin key</label>
-          <Input
-            value={entered}
-            onChange={(e) => setEntered(e.target.value)}
-            placeholder="Enter key and press Unlock"
-          />
-          <div className="flex gap-2">
-            <Button
-              className="gap-2"
-              onClick={() => {
-                const p = new URLSearchParams(window.location.search)
-                p.set('key', entered.trim())
-                navigate({ search: `?${p.toString()}` }, { replace: true })
-              }}
-            >
-              <Unlock className="size-4" />
-              Unlock
-            </Button>
-            <a href="#/">
-              <Button variant="outline" className="bg-transparent gap-2">
-                <ArrowLeft className="size-4" />
-                Back to Home
-              </Button>
-            </a>
-          </div>
-        </div>
+        {configured ? (
+          <>
+            <p className="mt-2 text-sm text-muted-foreground">
+              This page requires an admin sign-in. Enter your passphrase to continue, or go back to the Home page.
+            </p>
+
+            <form className="mt-4 grid gap-2" onSubmit={onSubmit}>
+              {askUser && (
+                <>
+                  <label className="text-xs text-muted-foreground" htmlFor="admin-user">
+                    User
+                  </label>
+                  <Input
+                    id="admin-user"
+                    autoComplete="username"
+                    value={user}
+                    onChange={(e) => setUser(e.target.value)}
+                  />
+                </>
+              )}
+              <label className="text-xs text-muted-foreground" htmlFor="admin-passphrase">
+                Passphrase
+              </label>
+              <Input
+                id="admin-passphrase"
+                type="password"
+                autoComplete="current-password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder="Enter passphrase and press Sign in"
+              />
+              {error && <p className="text-xs text-destructive">{error}</p>}
+              <div className="flex gap-2">
+                <Button type="submit" className="gap-2" disabled={busy || !passphrase}>
+                  <Unlock className="size-4" />
+                  {busy ? 'Checking…' : 'Sign in'}
+                </Button>
+                <a href="#/">
+                  <Button type="button" variant="outline" className="bg-transparent gap-2">
+                    <ArrowLeft className="size-4" />
+                    Back to Home
+                  </Button>
+                </a>
+              </div>
+            </form>
 
-        <p className="mt-3 text-xs text-muted-foreground">
-          Tip: you can also open this page as <code>?key=YOUR_KEY</code> in the URL.
-        </p>
+            <p className="mt-3 text-xs text-muted-foreground">
+              Sessions last for this browser tab only and end automatically.
+            </p>
+          </>
+        ) : (
+          <>
+            <p className="mt-2 text-sm text-muted-foreground">
+              Admin sign-in is not configured. Generate a salted hash with{' '}
+              <code>npm run hash-passphrase -- &lt;user&gt; &lt;passphrase&gt;</code> and add it to{' '}
+              <code>adminAuthConfig.credentials</code> in src/config/remote.ts.
+            </p>
+            <div className="mt-4">
+              <a href="#/">
+                <Button variant="outline" className="bg-transparent gap-2">
+                  <ArrowLeft className="size-4" />
+                  Back to Home
+                </Button>
+              </a>
+            </div>
+          </>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,33 @@
+/**
+ * AdminSessionBar.tsx
+ * Compact "signed in as" strip for the editor pages, with session expiry and sign-out.
+ */
+
+import { LogOut, UserCheck } from 'lucide-react'
+import { Button } from './ui/button'
+import { signOut } from '../lib/auth'
+import useAuthSession from '../lib/useAuthSession'
+
+/**
+ * AdminSessionBar
+ * Renders nothing when signed out.
+ */
+export default function AdminSessionBar() {
+  const session = useAuthSession()
+  if (!session) return null
+
+  const expires = new Date(session.expiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+
+  return (
+    <div className="mt-3 flex flex-wrap items-center justify-between gap-2 rounded-lg border bg-muted/40 px-3 py-2 text-xs">
+      <span className="inline-flex items-center gap-2 text-muted-foreground">
+        <UserCheck className="size-3.5" />
+        Signed in as <strong className="text-foreground">{session.user}</strong> • session ends at {expires}
+      </span>
+      <Button size="sm" variant="outline" className="bg-transparent gap-2 h-7" onClick={signOut}>
+        <LogOut className="size-3.5" />
+        Sign out
+      </Button>
+    </div>
+  )
+}
@@ -1,12 +1,15 @@
 /**
  * App.tsx
  * Main application router and providers. Sets up theming and route structure.
+ * The providers and route table are exported separately so the prerender script can reuse them.
  */
 
-import { HashRouter, Route, Routes } from 'react-router'
+import { BrowserRouter, HashRouter, Route, Routes } from 'react-router'
 import { ThemeProvider } from 'next-themes'
+import { useTranslation } from 'react-i18next'
 import HomePage from './pages/Home'
 import ArticlesPage from './pages/Articles'
+import ArticlesArchivePage from './pages/ArticlesArchive'
 import TopicsPage from './pages/Topics'
 import AboutPage from './pages/About'
 import DailyPage from './pages/Daily'
@@ -16,56 +19,138 @@ import ArticleDetailPage from './pages/ArticleDetail'
 import TopicDetailPage from './pages/TopicDetail'
 import { UIPrefsProvider } from './contexts/UIPrefsContext'
 import ResourcesPage from './pages/Resources'
-import { useEffect } from 'react'
+import React, { useEffect } from 'react'
 import { initRemoteImages } from './lib/remoteImages'
+import { initRemoteContent } from './lib/remoteContent'
+import { initLibrary } from './lib/libraryStore'
+import { initJournal } from './lib/journal'
+import { initLocale } from './lib/i18n'
 import ImageryEditorPage from './pages/ImageryEditor'
 import ContentEditorPage from './pages/ContentEditor'
+import AuthoredArticlesEditorPage from './pages/AuthoredArticlesEditor'
+import NewsletterPage from './pages/Newsletter'
 import ConnectLinkCleanup from './components/ConnectLinkCleanup'
 import HeadSEO from './components/HeadSEO'
 import WWWEnforcer from './components/WWWEnforcer'
 import AdminGate from './components/AdminGate'
+import SearchPage from './pages/Search'
+import ScripturePassagePage from './pages/ScripturePassage'
+import LibraryPage from './pages/Library'
+import JournalPage from './pages/Journal'
+import SearchPalette from './components/SearchPalette'
+import { isPathRouting } from './lib/routing'
+import { Toaster } from './components/ui/sonner'
+
+/**
+ * AppProviders
+ * UI preferences, theming, toasts, and global head/cleanup helpers shared by the browser app and prerendering.
+ */
+export function AppProviders({ children }: { children: React.ReactNode }) {
+  return (
+    <UIPrefsProvider>
+      <ThemeProvider attribute="class" defaultTheme="system" enableSystem>
+        {/* Global cleanup to remove the undesired "External" connect link */}
+        <ConnectLinkCleanup />
+        {/* Client-side safety net to force apex -> www canonical host */}
+        <WWWEnforcer />
+        {children}
+        <Toaster />
+      </ThemeProvider>
+    </UIPrefsProvider>
+  )
+}
+
+/**
+ * AppRoute
+ * One entry of the route table. `admin` routes sit behind AdminGate and are kept out of
+ * sitemaps and crawlers; `noindex` routes are public but not worth indexing (e.g., search results).
+ */
+export interface AppRoute {
+  path: string
+  element: React.ReactNode
+  admin?: boolean
+  noindex?: boolean
+}
+
+/**
+ * routeTable
+ * Every route of the app, in match order. Exported so build scripts (sitemap, robots) can walk it.
+ */
+export const routeTable: AppRoute[] = [
+  { path: '/', element: <HomePage /> },
+  { path: '/articles', element: <ArticlesPage /> },
+  { path: '/articles/archive', element: <ArticlesArchivePage /> },
+  { path: '/articles/:id', element: <ArticleDetailPage /> },
+  { path: '/topics', element: <TopicsPage /> },
+  { path: '/topics/:topic', element: <TopicDetailPage /> },
+  { path: '/daily', element: <DailyPage /> },
+  // Path form of /daily?t=<theme>, used by prerendered pages
+  { path: '/daily/:theme', element: <DailyPage /> },
+  { path: '/mindfulness', element: <MindfulnessPage /> },
+  { path: '/questions', element: <QuestionsPage /> },
+  { path: '/about', element: <AboutPage /> },
+  { path: '/resources', element: <ResourcesPage /> },
+  { path: '/search', element: <SearchPage />, noindex: true },
+  { path: '/scripture/:book/:chapter', element: <ScripturePassagePage /> },
+  // Per-device reading history, bookmarks, and journal
+  { path: '/library', element: <LibraryPage />, noindex: true },
+  { path: '/journal', element: <JournalPage />, noindex: true },
+  // Admin/editor pages require an admin sign-in via AdminGate (accounts in adminAuthConfig)
+  { path: '/imagery', element: <AdminGate><ImageryEditorPage /></AdminGate>, admin: true },
+  { path: '/content', element: <AdminGate><ContentEditorPage /></AdminGate>, admin: true },
+  { path: '/content/articles', element: <AdminGate><AuthoredArticlesEditorPage /></AdminGate>, admin: true },
+  { path: '/newsletter', element: <AdminGate><NewsletterPage /></AdminGate>, admin: true },
+]
+
+/**
+ * AppRoutes
+ * The route table plus router-aware globals (SEO tags, search palette).
+ * Must be rendered inside a router (Hash/Browser in the app, Static when prerendering).
+ * Routes are keyed by language so generated content is rebuilt when the locale changes.
+ */
+export function AppRoutes() {
+  const { i18n } = useTranslation()
+  return (
+    <>
+      {/* SEO head tags for canonical and og:url using the configured base URL */}
+      <HeadSEO />
+      {/* Global Cmd-K search palette (needs router context for navigation) */}
+      <SearchPalette />
+      <Routes key={i18n.language}>
+        {routeTable.map(r => (
+          <Route key={r.path} path={r.path} element={r.element} />
+        ))}
+      </Routes>
+    </>
+  )
+}
 
 /**
  * App
- * Wraps the app with ThemeProvider and defines the primary routes.
+ * Wraps the app with providers and picks the router for the configured routing mode.
  * The Imagery Settings route has been removed per request.
  */
 export default function App() {
   /**
-   * Initialize remote image loader once on mount.
-   * It is no-op if the feature is disabled in config.
+   * Initialize remote image and content loaders once on mount.
+   * Each is a no-op if the feature is disabled in config.
+   * The reader's library, journal, and language are loaded from localStorage here too (after the first render).
    */
   useEffect(() => {
+    initLocale()
     initRemoteImages()
+    initRemoteContent()
+    initLibrary()
+    initJournal()
   }, [])
 
+  const Router = isPathRouting() ? BrowserRouter : HashRouter
+
   return (
-    <UIPrefsProvider>
-      <ThemeProvider attribute="class" defaultTheme="system" enableSystem>
-        {/* Global cleanup to remove the undesired "External" connect link */}
-        <ConnectLinkCleanup />
-        {/* SEO head tags for canonical and og:url using the configured base URL */}
-        <HeadSEO />
-        {/* Client-side safety net to force apex -> www canonical host */}
-        <WWWEnforcer />
-        <HashRouter>
-          <Routes>
-            <Route path="/" element={<HomePage />} />
-            <Route path="/articles" element={<ArticlesPage />} />
-            <Route path="/articles/:id" element={<ArticleDetailPage />} />
-            <Route path="/topics" element={<TopicsPage />} />
-            <Route path="/topics/:topic" element={<TopicDetailPage />} />
-            <Route path="/daily" element={<DailyPage />} />
-            <Route path="/mindfulness" element={<MindfulnessPage />} />
-            <Route path="/questions" element={<QuestionsPage />} />
-            <Route path="/about" element={<AboutPage />} />
-            <Route path="/resources" element={<ResourcesPage />} />
-            {/* Admin/editor pages require a key via AdminGate */}
-            <Route path="/imagery" element={<AdminGate><ImageryEditorPage /></AdminGate>} />
-            <Route path="/content" element={<AdminGate><ContentEditorPage /></AdminGate>} />
-          </Routes>
-        </HashRouter>
-      </ThemeProvider>
-    </UIPrefsProvider>
+    <AppProviders>
+      <Router>
+        <AppRoutes />
+      </Router>
+    </AppProviders>
   )
 }
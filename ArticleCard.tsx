@@ -11,6 +11,7 @@ import useOverridesVersion from '../lib/useOverridesVersion'
 import { getArticleImage } from '../lib/imageOverrides'
 import type { TopicKey } from '../lib/articleEngine'
 import ImageWithFallback from './ImageWithFallback'
+import BookmarkButton from './BookmarkButton'
 import { getContentOverride } from '../lib/contentOverrides'
 
 /**
@@ -26,6 +27,8 @@ export type Article = {
   path: string
   /** Optional topic key to allow topic-level overrides to apply to this article image. */
   topic?: TopicKey
+  /** Publication date (YYYY-MM-DD), recorded with bookmarks */
+  dateISO?: string
 }
 
 /**
@@ -55,41 +58,54 @@ export default function ArticleCard({ article }: ArticleCardProps) {
   const displayTags = contentOv?.tags?.length ? contentOv.tags : article.tags
 
   return (
-    <Link
-      to={article.path}
-      className="group block overflow-hidden rounded-xl border bg-card transition-shadow hover:shadow-md"
-      aria-label={`Open article: ${displayTitle}`}
-    >
-      {/* Media */}
-      {prefs.images === 'on' && (
-        <div className="aspect-[16/9] w-full bg-muted overflow-hidden">
-          <ImageWithFallback
-            src={resolvedImage}
-            topicKey={article.topic}
-            label={displayTitle}
-            alt=""
-            className="object-cover w-full h-full transition-transform duration-300 group-hover:scale-[1.02]"
-          />
-        </div>
-      )}
-
-      {/* Body */}
-      <div className="p-4">
-        <h3 className="text-sm font-medium line-clamp-2 group-hover:text-foreground transition-colors">
-          {displayTitle}
-        </h3>
-        <p className="mt-1 text-xs text-muted-foreground line-clamp-2">{displayExcerpt}</p>
-        {displayTags?.length > 0 && (
-          <div className="mt-3 flex flex-wrap items-center gap-1.5">
-            <Tag className="size-3.5 text-foreground/60" />
-            {displayTags.map((t, i) => (
-              <span key={i} className="rounded bg-muted px-2 py-0.5 text-[10px] text-muted-foreground">
-                {t}
-              </span>
-            ))}
+    <div className="group relative overflow-hidden rounded-xl border bg-card transition-shadow hover:shadow-md">
+      <Link to={article.path} className="block" aria-label={`Open article: ${displayTitle}`}>
+        {/* Media */}
+        {prefs.images === 'on' && (
+          <div className="aspect-[16/9] w-full bg-muted overflow-hidden">
+            <ImageWithFallback
+              src={resolvedImage}
+              topicKey={article.topic}
+              label={displayTitle}
+              alt=""
+              className="object-cover w-full h-full transition-transform duration-300 group-hover:scale-[1.02]"
+            />
           </div>
         )}
-      </div>
-    </Link>
+
+        {/* Body */}
+        <div className="p-4">
+          <h3 className="pr-8 text-sm font-medium line-clamp-2 group-hover:text-foreground transition-colors">
+            {displayTitle}
+          </h3>
+          <p className="mt-1 text-xs text-muted-foreground line-clamp-2">{displayExcerpt}</p>
+          {displayTags?.length > 0 && (
+            <div className="mt-3 flex flex-wrap items-center gap-1.5">
+              <Tag className="size-3.5 text-foreground/60" />
+              {displayTags.map((t, i) => (
+                <span key={i} className="rounded bg-muted px-2 py-0.5 text-[10px] text-muted-foreground">
+                  {t}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      </Link>
+
+      {/* Bookmark toggle sits outside the link so it is not a nested interactive element */}
+      <BookmarkButton
+        compact
+        className="absolute right-2 top-2"
+        item={{
+          id: article.id,
+          kind: 'article',
+          title: displayTitle,
+          path: article.path,
+          dateISO: article.dateISO,
+          topic: article.topic,
+          excerpt: displayExcerpt,
+        }}
+      />
+    </div>
   )
 }
@@ -3,42 +3,109 @@
  * Detailed article view with breadcrumb, optional hero image, body, and quote.
  * Respects UI preferences, image overrides, and content overrides.
  * Editor action buttons (Customize image/Edit text) removed per request.
+ * Visits and reading progress are recorded in the reader's library.
  */
 
 import Layout from '../components/Layout'
 import Breadcrumbs from '../components/Breadcrumbs'
+import { useRef } from 'react'
 import { Link, useParams } from 'react-router'
 import { Button } from '../components/ui/button'
 import { ArrowLeft, Quote } from 'lucide-react'
-import { getArticleDetailById, humanLabel } from '../lib/articleEngine'
+import { useTranslation } from 'react-i18next'
+import { getArticleDetailById, humanLabel, type ArticleCore } from '../lib/articleEngine'
+import { authoredStatus, findAuthoredArticle } from '../lib/authoredArticles'
+import useAuthSession from '../lib/useAuthSession'
 import { getArticleImage } from '../lib/imageOverrides'
 import useOverridesVersion from '../lib/useOverridesVersion'
 import { useUIPrefs } from '../contexts/UIPrefsContext'
 import ImageWithFallback from '../components/ImageWithFallback'
+import MarkdownBody from '../components/MarkdownBody'
+import BookmarkButton from '../components/BookmarkButton'
 import { getContentOverride } from '../lib/contentOverrides'
+import usePageHead from '../lib/usePageHead'
+import useReadingTracker from '../lib/useReadingTracker'
+import type { LibraryItem } from '../lib/libraryStore'
+import { articleJsonLd, breadcrumbJsonLd, type PageHead } from '../lib/head'
+
+/**
+ * articleHead
+ * Head tags for an article: overridden title/excerpt, resolved image, publish date, and JSON-LD.
+ */
+function articleHead(core: ArticleCore, path: string): PageHead {
+  const ov = getContentOverride(core.id)
+  const title = ov?.title ?? core.title
+  const description = ov?.excerpt ?? core.excerpt
+  const image = getArticleImage(core.id, core.image, core.topic)
+  return {
+    title,
+    description,
+    image,
+    type: 'article',
+    publishedTime: core.dateISO,
+    jsonLd: [
+      articleJsonLd({
+        title,
+        description,
+        path,
+        datePublished: core.dateISO,
+        image,
+        keywords: core.tags,
+        author: core.author,
+      }),
+      breadcrumbJsonLd(
+        [{ label: 'Home', to: '/' }, { label: 'Articles', to: '/articles' }, { label: humanLabel(core.topic) }],
+        path
+      ),
+    ],
+  }
+}
+
+/**
+ * libraryItem
+ * Library entry for an article, using the displayed (override-aware) title and excerpt.
+ */
+function libraryItem(core: ArticleCore): LibraryItem {
+  const ov = getContentOverride(core.id)
+  return {
+    id: core.id,
+    kind: 'article',
+    title: ov?.title ?? core.title,
+    path: `/articles/${core.slug ?? core.id}`,
+    dateISO: core.dateISO,
+    topic: core.topic,
+    excerpt: ov?.excerpt ?? core.excerpt,
+  }
+}
 
 /**
  * ArticleDetailPage
  * Renders an article by ID or a not-found state.
  */
 export default function ArticleDetailPage() {
+  const { t } = useTranslation()
   const params = useParams()
   const id = params.id || ''
-  const core = id ? getArticleDetailById(id) : null
+  // Signed-in editors can preview drafts and scheduled pieces by URL
+  const session = useAuthSession()
+  const core = id ? getArticleDetailById(id, { includeDrafts: !!session }) : null
   const { prefs } = useUIPrefs()
   useOverridesVersion()
+  usePageHead(core ? articleHead(core, `/articles/${core.slug ?? core.id}`) : { title: t('article.notFoundTitle') })
+  const articleRef = useRef<HTMLElement>(null)
+  useReadingTracker(core ? libraryItem(core) : null, articleRef)
 
   if (!core) {
     return (
       <Layout>
         <section className="mx-auto max-w-3xl px-4 py-10">
-          <Breadcrumbs items={[{ label: 'Home', to: '/' }, { label: 'Articles', to: '/articles' }, { label: 'Not found' }]} />
-          <p className="mt-3 text-sm text-muted-foreground">The article you’re looking for was not found.</p>
+          <Breadcrumbs items={[{ label: t('common.home'), to: '/' }, { label: t('common.articles'), to: '/articles' }, { label: t('article.notFound') }]} />
+          <p className="mt-3 text-sm text-muted-foreground">{t('article.notFoundText')}</p>
           <div className="mt-4">
             <Link to="/articles">
               <Button variant="outline" className="bg-transparent gap-2">
                 <ArrowLeft className="size-4" />
-                Back to Articles
+                {t('article.backToArticles')}
               </Button>
             </Link>
           </div>
@@ -52,26 +119,40 @@ export default function ArticleDetailPage() {
   const displayTitle = ov?.title ?? core.title
   const displayExcerpt = ov?.excerpt ?? core.excerpt
   const displayBody = ov?.body && ov.body.length ? ov.body : core.body
+  const displayFormat = ov?.body && ov.body.length ? ov.bodyFormat : core.bodyFormat
   const displayQuote = ov?.quote ?? core.quote
 
   const label = humanLabel(core.topic)
   const resolvedImage = getArticleImage(core.id, core.image, core.topic)
+  const authored = core.slug ? findAuthoredArticle(core.id) : undefined
+  const status = authored ? authoredStatus(authored) : 'published'
 
   return (
     <Layout>
       <section className="mx-auto max-w-3xl px-4 py-8 md:py-10">
-        <Breadcrumbs items={[{ label: 'Home', to: '/' }, { label: 'Articles', to: '/articles' }, { label }]} />
+        <Breadcrumbs items={[{ label: t('common.home'), to: '/' }, { label: t('common.articles'), to: '/articles' }, { label }]} />
 
         <div className="mt-3 flex items-start justify-between gap-4">
           <div>
+            {status !== 'published' && (
+              <div className="mb-2 inline-flex rounded-full border border-amber-500/40 bg-amber-500/10 px-2 py-0.5 text-xs text-amber-700 dark:text-amber-300">
+                {status === 'draft' ? t('article.draft') : t('article.scheduled', { date: core.dateISO })}
+              </div>
+            )}
             <h1 className="text-2xl md:text-3xl font-semibold">{displayTitle}</h1>
             <p className="mt-2 text-muted-foreground text-sm">{displayExcerpt}</p>
+            {core.author && (
+              <p className="mt-1 text-xs text-muted-foreground">
+                {t('article.byline', { author: core.author, date: core.dateISO })}
+              </p>
+            )}
           </div>
           <div className="flex gap-2">
+            <BookmarkButton item={libraryItem(core)} />
             <Link to="/articles">
               <Button variant="outline" className="bg-transparent gap-2">
                 <ArrowLeft className="size-4" />
-                Back
+                {t('common.back')}
               </Button>
             </Link>
             {/* Editor action buttons removed per request:
@@ -92,12 +173,8 @@ export default function ArticleDetailPage() {
           </div>
         )}
 
-        <article className="prose prose-sm md:prose-base dark:prose-invert max-w-none">
-          <div className="mt-6 grid gap-4">
-            {displayBody.map((p, i) => (
-              <p key={i}>{p}</p>
-            ))}
-          </div>
+        <article ref={articleRef} className="prose prose-sm md:prose-base dark:prose-invert max-w-none">
+          <MarkdownBody body={displayBody} format={displayFormat} className="mt-6 grid gap-4" />
         </article>
 
         {/* Quote block */}
@@ -1,6 +1,7 @@
 /**
  * Articles.tsx
  * Articles index with breadcrumb and today's generated readings.
+ * Links to the dated archive for earlier days.
  * Respects UI preferences and uses ArticleCard.
  * Editor links were removed per request.
  */
@@ -9,27 +10,41 @@ import Layout from '../components/Layout'
 import Breadcrumbs from '../components/Breadcrumbs'
 import ArticleCard from '../components/ArticleCard'
 import { listArticlesForDate } from '../lib/articleEngine'
+import { siteToday } from '../lib/calendarDate'
 import { useMemo } from 'react'
+import { Link } from 'react-router'
+import { Button } from '../components/ui/button'
+import { History } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
 
 /**
  * ArticlesPage
  * Lists deterministic daily articles across topics.
  */
 export default function ArticlesPage() {
-  const today = useMemo(() => new Date(), [])
+  const { t } = useTranslation()
+  const today = useMemo(() => siteToday(), [])
   const articles = useMemo(() => listArticlesForDate(today, 2), [today])
 
   return (
     <Layout>
       <section className="mx-auto max-w-6xl px-4 py-10">
-        <Breadcrumbs items={[{ label: 'Home', to: '/' }, { label: 'Articles' }]} />
+        <Breadcrumbs items={[{ label: t('common.home'), to: '/' }, { label: t('common.articles') }]} />
 
-        {/* Header without editor/action buttons */}
-        <div className="mt-4">
-          <h1 className="text-2xl md:text-3xl font-semibold">Articles</h1>
-          <p className="mt-2 text-muted-foreground text-sm">
-            Fresh readings across our core topics—new each day.
-          </p>
+        {/* Header without editor/action buttons; the archive link browses past days */}
+        <div className="mt-4 flex items-end justify-between gap-4">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-semibold">{t('common.articles')}</h1>
+            <p className="mt-2 text-muted-foreground text-sm">
+              {t('articles.intro')}
+            </p>
+          </div>
+          <Link to="/articles/archive">
+            <Button variant="outline" className="bg-transparent gap-2">
+              <History className="size-4" />
+              {t('articles.archive')}
+            </Button>
+          </Link>
         </div>
 
         <div className="mt-6 grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
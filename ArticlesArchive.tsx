@@ -0,0 +1,140 @@
+/**
+ * ArticlesArchive.tsx
+ * Dated archive of generated readings with previous/next day paging and a calendar picker.
+ * The selected day lives in the ?date=YYYY-MM-DD query so any past day can be linked directly.
+ */
+
+import { useMemo } from 'react'
+import { Link, useLocation, useNavigate } from 'react-router'
+import Layout from '../components/Layout'
+import Breadcrumbs from '../components/Breadcrumbs'
+import ArticleCard from '../components/ArticleCard'
+import { Button } from '../components/ui/button'
+import { Separator } from '../components/ui/separator'
+import { Calendar } from '../components/ui/calendar'
+import { Popover, PopoverContent, PopoverTrigger } from '../components/ui/popover'
+import { CalendarDays, ChevronLeft, ChevronRight } from 'lucide-react'
+import { listArticlesForDate } from '../lib/articleEngine'
+import {
+  addDays,
+  calendarDateToLocal,
+  formatCalendarDate,
+  localCalendarDate,
+  parseCalendarDate,
+  siteToday,
+  type CalendarDate,
+} from '../lib/calendarDate'
+
+/**
+ * formatLongDate
+ * Human-friendly heading for a day (e.g., Sunday, August 10, 2025).
+ */
+function formatLongDate(iso: CalendarDate): string {
+  return formatCalendarDate(iso, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })
+}
+
+/**
+ * ArticlesArchivePage
+ * Lists the generated articles for the selected day; future days are refused.
+ */
+export default function ArticlesArchivePage() {
+  const location = useLocation()
+  const navigate = useNavigate()
+
+  const todayISO = useMemo(() => siteToday(), [])
+  const requested = useMemo(
+    () => parseCalendarDate(new URLSearchParams(location.search.replace(/^\?/, '')).get('date')),
+    [location.search]
+  )
+
+  const isFuture = !!requested && requested > todayISO
+  const dateISO = requested ?? todayISO
+  const articles = useMemo(
+    () => (isFuture ? [] : listArticlesForDate(dateISO, 2)),
+    [dateISO, isFuture]
+  )
+
+  /** Navigates to the given day, keeping the archive route. */
+  function goTo(iso: CalendarDate) {
+    navigate({ pathname: '/articles/archive', search: `?date=${iso}` })
+  }
+
+  const prevISO = addDays(dateISO, -1)
+  const nextISO = addDays(dateISO, 1)
+  const canGoNext = nextISO <= todayISO
+
+  return (
+    <Layout>
+      <section className="mx-auto max-w-6xl px-4 py-10">
+        <Breadcrumbs
+          items={[{ label: 'Home', to: '/' }, { label: 'Articles', to: '/articles' }, { label: 'Archive' }]}
+        />
+
+        <div className="mt-4 flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-semibold">Archive</h1>
+            <p className="mt-2 text-muted-foreground text-sm">
+              {isFuture ? 'Choose a past day to browse its readings.' : `Readings for ${formatLongDate(dateISO)}.`}
+            </p>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="outline" className="bg-transparent gap-2" onClick={() => goTo(prevISO)}>
+              <ChevronLeft className="size-4" />
+              Previous day
+            </Button>
+
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="bg-transparent gap-2">
+                  <CalendarDays className="size-4" />
+                  {dateISO}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="end">
+                <Calendar
+                  mode="single"
+                  selected={calendarDateToLocal(dateISO)}
+                  defaultMonth={calendarDateToLocal(dateISO)}
+                  onSelect={d => {
+                    if (d) goTo(localCalendarDate(d))
+                  }}
+                  disabled={{ after: calendarDateToLocal(todayISO) }}
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+
+            <Button
+              variant="outline"
+              className="bg-transparent gap-2"
+              onClick={() => goTo(nextISO)}
+              disabled={!canGoNext}
+            >
+              Next day
+              <ChevronRight className="size-4" />
+            </Button>
+          </div>
+        </div>
+
+        <Separator className="my-6" />
+
+        {isFuture ? (
+          <div className="rounded-lg border p-8 text-center text-sm text-muted-foreground">
+            Readings for {requested} are not available yet.{' '}
+            <Link to="/articles/archive" className="underline underline-offset-4 hover:text-foreground">
+              Go to today
+            </Link>
+            .
+          </div>
+        ) : (
+          <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+            {articles.map(a => (
+              <ArticleCard key={a.id} article={a} />
+            ))}
+          </div>
+        )}
+      </section>
+    </Layout>
+  )
+}
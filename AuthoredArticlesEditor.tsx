@@ -0,0 +1,403 @@
+/**
+ * AuthoredArticlesEditor.tsx
+ * Editor for hand-authored articles: write, schedule, and keep drafts.
+ * Saves to this browser; "Publish to remote" writes published and scheduled pieces to the
+ * remote content file so every visitor sees them (drafts never leave this browser).
+ */
+
+import { useMemo, useState } from 'react'
+import { Link } from 'react-router'
+import Layout from '../components/Layout'
+import AdminSessionBar from '../components/AdminSessionBar'
+import BodyEditor from '../components/BodyEditor'
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
+import { Input } from '../components/ui/input'
+import { Button } from '../components/ui/button'
+import { Separator } from '../components/ui/separator'
+import { ArrowLeft, CloudUpload, Eye, FilePlus2, Save, Trash2 } from 'lucide-react'
+import { topics, type TopicKey } from '../lib/articleEngine'
+import { siteToday } from '../lib/calendarDate'
+import type { AuthoredArticle } from '../config/authored'
+import {
+  authoredStatus,
+  deleteAuthoredArticle,
+  getAllAuthoredArticles,
+  getLocalAuthoredArticles,
+  getPublishableAuthoredArticles,
+  newAuthoredId,
+  saveAuthoredArticle,
+  slugify,
+  validateAuthoredArticle,
+  type AuthoredStatus,
+} from '../lib/authoredArticles'
+import { getEffectiveContentOverrides } from '../lib/contentOverrides'
+import { splitBodyText, type BodyFormat } from '../lib/markdown'
+import { refreshRemoteContent, saveRemoteContent } from '../lib/remoteContent'
+import { remoteContentUpdateConfig } from '../config/remote'
+import { siteConfig } from '../config/site'
+import useOverridesVersion from '../lib/useOverridesVersion'
+import useAuthSession from '../lib/useAuthSession'
+
+/**
+ * ArticleForm
+ * Editable fields as strings (body, tags) for the form.
+ */
+interface ArticleForm {
+  id: string
+  title: string
+  slug: string
+  slugTouched: boolean
+  topic: TopicKey
+  publishDate: string
+  status: 'draft' | 'published'
+  author: string
+  excerpt: string
+  image: string
+  body: string
+  bodyFormat: BodyFormat
+  quoteText: string
+  quoteAuthor: string
+  tags: string
+}
+
+/** Empty form for a new draft dated today. */
+function blankForm(author: string): ArticleForm {
+  return {
+    id: newAuthoredId(),
+    title: '',
+    slug: '',
+    slugTouched: false,
+    topic: topics[0].key,
+    publishDate: siteToday(),
+    status: 'draft',
+    author,
+    excerpt: '',
+    image: '',
+    body: '',
+    bodyFormat: 'markdown',
+    quoteText: '',
+    quoteAuthor: '',
+    tags: '',
+  }
+}
+
+/** Loads an article into the form. */
+function toForm(a: AuthoredArticle): ArticleForm {
+  return {
+    id: a.id,
+    title: a.title,
+    slug: a.slug,
+    slugTouched: true,
+    topic: a.topic,
+    publishDate: a.publishDate,
+    status: a.status,
+    author: a.author ?? '',
+    excerpt: a.excerpt ?? '',
+    image: a.image ?? '',
+    body: a.body.join('\n\n'),
+    bodyFormat: a.bodyFormat ?? 'plain',
+    quoteText: a.quote?.text ?? '',
+    quoteAuthor: a.quote?.author ?? '',
+    tags: (a.tags ?? []).join(', '),
+  }
+}
+
+/** Builds the stored article from the form (empty optional fields are dropped). */
+function fromForm(f: ArticleForm): AuthoredArticle {
+  return {
+    id: f.id,
+    slug: f.slug.trim(),
+    topic: f.topic,
+    publishDate: f.publishDate,
+    status: f.status,
+    author: f.author.trim() || undefined,
+    title: f.title.trim(),
+    excerpt: f.excerpt.trim() || undefined,
+    body: splitBodyText(f.body, f.bodyFormat),
+    bodyFormat: f.bodyFormat === 'markdown' ? 'markdown' : undefined,
+    quote: f.quoteText.trim() ? { text: f.quoteText.trim(), author: f.quoteAuthor.trim() } : undefined,
+    tags: f.tags.split(',').map(s => s.trim()).filter(Boolean),
+    image: f.image.trim() || undefined,
+  }
+}
+
+/** Badge styling per status. */
+const statusClass: Record<AuthoredStatus, string> = {
+  draft: 'bg-muted text-muted-foreground',
+  scheduled: 'bg-amber-500/15 text-amber-700 dark:text-amber-300',
+  published: 'bg-emerald-500/15 text-emerald-700 dark:text-emerald-300',
+}
+
+/**
+ * AuthoredArticlesEditorPage
+ * Article list with status, and a form to create or edit one piece.
+ */
+export default function AuthoredArticlesEditorPage() {
+  const version = useOverridesVersion()
+  const session = useAuthSession()
+  const all = useMemo(() => getAllAuthoredArticles(), [version])
+  const localIds = useMemo(() => new Set(getLocalAuthoredArticles().map(a => a.id)), [version])
+
+  const [form, setForm] = useState<ArticleForm>(() => blankForm(session?.user ?? ''))
+  const [error, setError] = useState<string | null>(null)
+  const [publishing, setPublishing] = useState(false)
+
+  /** Updates one field; the slug follows the title until edited by hand. */
+  function update<K extends keyof ArticleForm>(key: K, value: ArticleForm[K]) {
+    setForm(prev => {
+      const next = { ...prev, [key]: value }
+      if (key === 'title' && !prev.slugTouched) next.slug = slugify(String(value))
+      if (key === 'slug') next.slugTouched = true
+      return next
+    })
+  }
+
+  /** Validates and saves the form in this browser. */
+  function onSave() {
+    const article = fromForm(form)
+    const problem = validateAuthoredArticle(article)
+    setError(problem)
+    if (problem) return
+    saveAuthoredArticle(article)
+    alert(
+      article.status === 'draft'
+        ? 'Draft saved in this browser.'
+        : 'Saved in this browser. Use “Publish to remote” to make it visible to every visitor.'
+    )
+  }
+
+  /** Deletes this browser's copy of the current article. */
+  function onDelete() {
+    if (!localIds.has(form.id)) return
+    if (!confirm('Delete this article from this browser?')) return
+    deleteAuthoredArticle(form.id)
+    setForm(blankForm(session?.user ?? ''))
+  }
+
+  /** Publishes non-draft authored articles together with the content overrides. */
+  async function onPublish() {
+    setPublishing(true)
+    const ok = await saveRemoteContent({
+      articles: getEffectiveContentOverrides(),
+      authored: getPublishableAuthoredArticles(),
+    })
+    setPublishing(false)
+    if (!ok) {
+      alert(
+        'Publish endpoint not configured or write failed. Configure remoteContentUpdateConfig in src/config/remote.ts, or add the article to src/config/authored.ts.'
+      )
+    } else {
+      await refreshRemoteContent()
+      alert('Published. Scheduled articles appear on their publish date.')
+    }
+  }
+
+  const currentStatus = authoredStatus(fromForm(form))
+
+  return (
+    <Layout>
+      <section className="mx-auto max-w-6xl px-4 py-10">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h1 className="text-2xl md:text-3xl font-semibold">Authored Articles</h1>
+          <div className="flex flex-wrap items-center gap-2">
+            <Link to="/content">
+              <Button variant="outline" className="bg-transparent gap-2">
+                <ArrowLeft className="size-4" />
+                Content Editor
+              </Button>
+            </Link>
+            {remoteContentUpdateConfig.enabled && (
+              <Button className="gap-2" onClick={onPublish} disabled={publishing}>
+                <CloudUpload className="size-4" />
+                {publishing ? 'Publishing…' : 'Publish to remote'}
+              </Button>
+            )}
+          </div>
+        </div>
+        <AdminSessionBar />
+
+        <p className="mt-2 text-sm text-muted-foreground">
+          Write original pieces. Drafts stay hidden; a future publish date schedules the article for that day.
+        </p>
+
+        <Separator className="my-6" />
+
+        <div className="grid gap-6 lg:grid-cols-[300px_1fr]">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Articles</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <Button
+                variant="outline"
+                className="bg-transparent w-full gap-2"
+                onClick={() => {
+                  setError(null)
+                  setForm(blankForm(session?.user ?? ''))
+                }}
+              >
+                <FilePlus2 className="size-4" />
+                New article
+              </Button>
+              {all.length === 0 && <p className="text-xs text-muted-foreground">No authored articles yet.</p>}
+              <ul className="flex flex-col gap-1 max-h-[28rem] overflow-auto pr-1">
+                {all.map(a => {
+                  const st = authoredStatus(a)
+                  return (
+                    <li key={a.id}>
+                      <button
+                        className={[
+                          'w-full rounded-md border px-3 py-2 text-left text-sm hover:bg-accent',
+                          a.id === form.id ? 'border-primary' : '',
+                        ].join(' ')}
+                        onClick={() => {
+                          setError(null)
+                          setForm(toForm(a))
+                        }}
+                      >
+                        <div className="font-medium line-clamp-1">{a.title}</div>
+                        <div className="mt-1 flex items-center gap-2 text-[10px] uppercase tracking-wide">
+                          <span className={`rounded px-1.5 py-0.5 ${statusClass[st]}`}>{st}</span>
+                          <span className="text-muted-foreground">{a.publishDate}</span>
+                          {localIds.has(a.id) && <span className="text-muted-foreground">• this browser</span>}
+                        </div>
+                      </button>
+                    </li>
+                  )
+                })}
+              </ul>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center gap-2">
+                Edit article
+                <span className={`rounded px-1.5 py-0.5 text-[10px] uppercase tracking-wide ${statusClass[currentStatus]}`}>
+                  {currentStatus}
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Title</div>
+                <Input value={form.title} onChange={e => update('title', e.target.value)} placeholder="Title" />
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <div>
+                  <div className="text-xs text-muted-foreground mb-1">Slug (/articles/…)</div>
+                  <Input value={form.slug} onChange={e => update('slug', e.target.value.trim())} placeholder="my-article" />
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground mb-1">Topic</div>
+                  <select
+                    value={form.topic}
+                    onChange={e => update('topic', e.target.value as TopicKey)}
+                    className="h-9 w-full rounded-md border bg-background px-3 text-sm outline-none focus:ring-1 focus:ring-ring"
+                  >
+                    {topics.map(t => (
+                      <option key={t.key} value={t.key}>
+                        {t.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-3">
+                <div>
+                  <div className="text-xs text-muted-foreground mb-1">Publish date ({siteConfig.timeZone})</div>
+                  <Input type="date" value={form.publishDate} onChange={e => update('publishDate', e.target.value)} />
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground mb-1">Status</div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant={form.status === 'draft' ? 'default' : 'outline'}
+                      className={form.status === 'draft' ? '' : 'bg-transparent'}
+                      onClick={() => update('status', 'draft')}
+                    >
+                      Draft
+                    </Button>
+                    <Button
+                      variant={form.status === 'published' ? 'default' : 'outline'}
+                      className={form.status === 'published' ? '' : 'bg-transparent'}
+                      onClick={() => update('status', 'published')}
+                    >
+                      Ready
+                    </Button>
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground mb-1">Author</div>
+                  <Input value={form.author} onChange={e => update('author', e.target.value)} placeholder="Byline" />
+                </div>
+              </div>
+
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Excerpt</div>
+                <Input value={form.excerpt} onChange={e => update('excerpt', e.target.value)} placeholder="Short summary…" />
+              </div>
+
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Image URL (optional)</div>
+                <Input value={form.image} onChange={e => update('image', e.target.value)} placeholder="https://…" />
+              </div>
+
+              <BodyEditor
+                value={form.body}
+                onChange={v => update('body', v)}
+                format={form.bodyFormat}
+                onFormatChange={f => update('bodyFormat', f)}
+                placeholder="Write your article here…"
+              />
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <div>
+                  <div className="text-xs text-muted-foreground mb-1">Quote text (optional)</div>
+                  <Input value={form.quoteText} onChange={e => update('quoteText', e.target.value)} />
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground mb-1">Quote author</div>
+                  <Input value={form.quoteAuthor} onChange={e => update('quoteAuthor', e.target.value)} />
+                </div>
+              </div>
+
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Tags (comma separated)</div>
+                <Input value={form.tags} onChange={e => update('tags', e.target.value)} placeholder="e.g., Ethics, virtue" />
+              </div>
+
+              {error && <p className="text-sm text-destructive">{error}</p>}
+
+              <div className="flex flex-wrap gap-2">
+                <Button className="gap-2" onClick={onSave}>
+                  <Save className="size-4" />
+                  Save
+                </Button>
+                {all.some(a => a.id === form.id) && (
+                  <Link to={`/articles/${form.slug}`}>
+                    <Button variant="outline" className="bg-transparent gap-2">
+                      <Eye className="size-4" />
+                      Preview
+                    </Button>
+                  </Link>
+                )}
+                <Button
+                  variant="outline"
+                  className="bg-transparent gap-2"
+                  onClick={onDelete}
+                  disabled={!localIds.has(form.id)}
+                >
+                  <Trash2 className="size-4" />
+                  Delete from this browser
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </section>
+    </Layout>
+  )
+}
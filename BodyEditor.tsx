@@ -0,0 +1,86 @@
+/**
+ * BodyEditor.tsx
+ * Article body field for the content editors: a textarea and a live preview side by side
+ * (resizable), with a Plain/Markdown format switch.
+ */
+
+import { Button } from './ui/button'
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from './ui/resizable'
+import MarkdownBody from './MarkdownBody'
+import { splitBodyText, type BodyFormat } from '../lib/markdown'
+
+/**
+ * BodyEditorProps
+ * Controlled text plus its format.
+ */
+export interface BodyEditorProps {
+  value: string
+  onChange: (value: string) => void
+  format: BodyFormat
+  onFormatChange: (format: BodyFormat) => void
+  placeholder?: string
+}
+
+/** Short syntax reminder shown under the field in Markdown mode. */
+const MARKDOWN_HINT = '## Heading · **bold** · *italic* · [link](https://…) · - list · 1. list · > quote · `code` · footnote[^1] + [^1]: note'
+
+/**
+ * BodyEditor
+ * The preview is rendered exactly as the article page will (same pipeline and split rules).
+ */
+export default function BodyEditor({ value, onChange, format, onFormatChange, placeholder }: BodyEditorProps) {
+  const preview = splitBodyText(value, format)
+
+  return (
+    <div>
+      <div className="mb-1 flex flex-wrap items-center justify-between gap-2">
+        <div className="text-xs text-muted-foreground">
+          Body {format === 'markdown' ? '(Markdown)' : '(paragraphs, separate with a blank line)'}
+        </div>
+        <div className="flex gap-1">
+          {(['plain', 'markdown'] as BodyFormat[]).map(f => (
+            <Button
+              key={f}
+              size="sm"
+              variant={format === f ? 'default' : 'outline'}
+              className={format === f ? 'h-7 px-2 text-xs' : 'h-7 px-2 text-xs bg-transparent'}
+              onClick={() => onFormatChange(f)}
+            >
+              {f === 'plain' ? 'Plain' : 'Markdown'}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <ResizablePanelGroup direction="horizontal" className="min-h-[320px] rounded-md border">
+        <ResizablePanel defaultSize={50} minSize={25}>
+          <textarea
+            value={value}
+            onChange={e => onChange(e.target.value)}
+            placeholder={placeholder}
+            aria-label="Body"
+            className="h-full min-h-[320px] w-full resize-none bg-background px-3 py-2 font-mono text-sm outline-none focus:ring-1 focus:ring-ring"
+          />
+        </ResizablePanel>
+        <ResizableHandle withHandle />
+        <ResizablePanel defaultSize={50} minSize={25}>
+          <div className="h-full max-h-[640px] overflow-auto px-4 py-3">
+            <div className="mb-2 text-[11px] uppercase tracking-wide text-muted-foreground">Preview</div>
+            {preview.length ? (
+              <MarkdownBody
+                body={preview}
+                format={format}
+                idPrefix="preview"
+                className="prose prose-sm dark:prose-invert max-w-none grid gap-3"
+              />
+            ) : (
+              <p className="text-sm text-muted-foreground">Nothing to preview yet.</p>
+            )}
+          </div>
+        </ResizablePanel>
+      </ResizablePanelGroup>
+
+      {format === 'markdown' && <div className="mt-1 text-[11px] text-muted-foreground">{MARKDOWN_HINT}</div>}
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+/**
+ * BookmarkButton.tsx
+ * Toggles a bookmark for an article or reflection in the reader's library.
+ */
+
+import { Bookmark as BookmarkIcon, BookmarkCheck } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Button } from './ui/button'
+import { useLibraryStore, type LibraryItem } from '../lib/libraryStore'
+
+/**
+ * BookmarkButtonProps
+ * Item to save, plus an optional compact style for overlays on cards.
+ */
+export interface BookmarkButtonProps {
+  item: LibraryItem
+  compact?: boolean
+  className?: string
+}
+
+/**
+ * BookmarkButton
+ * Stops click propagation so it can sit on top of a card link.
+ */
+export default function BookmarkButton({ item, compact, className }: BookmarkButtonProps) {
+  const { t } = useTranslation()
+  const saved = useLibraryStore(s => s.bookmarks.some(b => b.id === item.id))
+  const toggleBookmark = useLibraryStore(s => s.toggleBookmark)
+  const label = saved ? t('bookmark.remove') : t('bookmark.add')
+
+  return (
+    <Button
+      type="button"
+      variant="outline"
+      size={compact ? 'icon' : 'default'}
+      className={[compact ? 'size-8 bg-background/80 backdrop-blur' : 'bg-transparent gap-2', className ?? ''].join(' ')}
+      aria-pressed={saved}
+      aria-label={label}
+      title={label}
+      onClick={e => {
+        e.preventDefault()
+        e.stopPropagation()
+        toggleBookmark(item)
+      }}
+    >
+      {saved ? <BookmarkCheck className="size-4 text-primary" /> : <BookmarkIcon className="size-4" />}
+      {!compact && (saved ? t('bookmark.saved') : t('bookmark.save'))}
+    </Button>
+  )
+}
@@ -13,15 +13,24 @@ import { Button } from '../components/ui/button'
 import { Separator } from '../components/ui/separator'
 import { Link, useLocation } from 'react-router'
 import { listArticlesForDate, getArticleDetailById } from '../lib/articleEngine'
+import { siteToday } from '../lib/calendarDate'
 import {
   getAllContentOverrides,
   setAllContentOverrides,
   getContentOverride,
+  getEffectiveContentOverrides,
   setContentOverride,
   clearContentOverride,
   type ArticleContentOverride,
 } from '../lib/contentOverrides'
-import { Download, Upload, Save, Trash2, Plus, AlertTriangle } from 'lucide-react'
+import { Download, Upload, Save, Trash2, Plus, AlertTriangle, RefreshCw, CloudUpload, FilePlus2 } from 'lucide-react'
+import { refreshRemoteContent, saveRemoteContent } from '../lib/remoteContent'
+import { getPublishableAuthoredArticles } from '../lib/authoredArticles'
+import { remoteContentConfig, remoteContentUpdateConfig } from '../config/remote'
+import AdminSessionBar from '../components/AdminSessionBar'
+import BodyEditor from '../components/BodyEditor'
+import { downloadFile } from '../lib/download'
+import { splitBodyText, type BodyFormat } from '../lib/markdown'
 
 /**
  * useQuery
@@ -40,40 +49,12 @@ function buildBodyText(paras: string[]): string {
   return (paras || []).join('\n\n')
 }
 
-/**
- * splitBodyText
- * Splits textarea input into body paragraphs (blank line separates paragraphs).
- */
-function splitBodyText(text: string): string[] {
-  return text
-    .replace(/\r\n/g, '\n')
-    .split(/\n{2,}/)
-    .map(s => s.trim())
-    .filter(Boolean)
-}
-
-/**
- * downloadFile
- * Triggers a file download for given content.
- */
-function downloadFile(filename: string, content: string, mime = 'application/json') {
-  const blob = new Blob([content], { type: mime })
-  const url = URL.createObjectURL(blob)
-  const a = document.createElement('a')
-  a.href = url
-  a.download = filename
-  document.body.appendChild(a)
-  a.click()
-  a.remove()
-  URL.revokeObjectURL(url)
-}
-
 /**
  * ContentEditorPage
  * Public-facing editor for article content overrides with local persistence.
  */
 export default function ContentEditorPage() {
-  const today = useMemo(() => new Date(), [])
+  const today = useMemo(() => siteToday(), [])
   const todays = useMemo(() => listArticlesForDate(today, 2), [today])
 
   const query = useQuery()
@@ -86,8 +67,11 @@ export default function ContentEditorPage() {
   const [quoteText, setQuoteText] = useState<string>('')
   const [quoteAuthor, setQuoteAuthor] = useState<string>('')
   const [bodyText, setBodyText] = useState<string>('')
+  const [bodyFormat, setBodyFormat] = useState<BodyFormat>('markdown')
   const [tags, setTags] = useState<string>('') // comma-separated for UI
   const [validId, setValidId] = useState<boolean>(true)
+  const [loading, setLoading] = useState(false)
+  const [publishing, setPublishing] = useState(false)
 
   /** loadArticle
    * Loads base (generated) content + current override for a given article ID into the form.
@@ -103,6 +87,8 @@ export default function ContentEditorPage() {
     setQuoteText(ov?.quote?.text ?? (core ? core.quote.text : ''))
     setQuoteAuthor(ov?.quote?.author ?? (core ? core.quote.author : ''))
     setBodyText(ov?.body ? buildBodyText(ov.body) : (core ? buildBodyText(core.body) : ''))
+    // Existing overrides keep their format; new edits of generated text default to Markdown
+    setBodyFormat(ov?.body ? (ov.bodyFormat ?? 'plain') : 'markdown')
     setTags((ov?.tags ?? (core ? core.tags : [])).join(', '))
   }
 
@@ -122,7 +108,8 @@ export default function ContentEditorPage() {
       quote: (quoteText.trim() || quoteAuthor.trim())
         ? { text: quoteText.trim(), author: quoteAuthor.trim() }
         : undefined,
-      body: splitBodyText(bodyText),
+      body: splitBodyText(bodyText, bodyFormat),
+      bodyFormat: bodyFormat === 'markdown' ? 'markdown' : undefined,
       tags: tags.split(',').map(s => s.trim()).filter(Boolean),
     }
     setContentOverride(articleId.trim(), ov)
@@ -139,6 +126,32 @@ export default function ContentEditorPage() {
     alert('Override removed for this article.')
   }
 
+  /** Pull the latest published overrides and reload the form. Local edits stay on top. */
+  async function pullRemote() {
+    setLoading(true)
+    await refreshRemoteContent()
+    if (articleId) loadArticle(articleId)
+    setLoading(false)
+  }
+
+  /** Publish the effective overrides (remote + local) and authored articles via write-back if configured. */
+  async function onPublish() {
+    setPublishing(true)
+    const ok = await saveRemoteContent({
+      articles: getEffectiveContentOverrides(),
+      authored: getPublishableAuthoredArticles(),
+    })
+    setPublishing(false)
+    if (!ok) {
+      alert(
+        'Publish endpoint not configured or write failed. Use "Download JSON" and upload the file to the URL configured in src/config/remote.ts (remoteContentConfig).'
+      )
+    } else {
+      await refreshRemoteContent()
+      alert('Published. Visitors will see these edits after their next refresh.')
+    }
+  }
+
   /** onImport
    * Imports JSON mapping from a file and replaces all overrides.
    */
@@ -168,7 +181,25 @@ export default function ContentEditorPage() {
       <section className="mx-auto max-w-6xl px-4 py-10">
         <div className="flex items-center justify-between">
           <h1 className="text-2xl md:text-3xl font-semibold">Content Editor</h1>
-          <div className="flex items-center gap-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <Link to="/content/articles">
+              <Button variant="outline" className="bg-transparent gap-2">
+                <FilePlus2 className="size-4" />
+                New articles
+              </Button>
+            </Link>
+            {remoteContentConfig.enabled && (
+              <Button variant="outline" className="bg-transparent gap-2" onClick={pullRemote} disabled={loading}>
+                <RefreshCw className="size-4" />
+                {loading ? 'Refreshing…' : 'Load current remote'}
+              </Button>
+            )}
+            {remoteContentUpdateConfig.enabled && (
+              <Button className="gap-2" onClick={onPublish} disabled={publishing}>
+                <CloudUpload className="size-4" />
+                {publishing ? 'Publishing…' : 'Publish to remote'}
+              </Button>
+            )}
             <Button
               variant="outline"
               className="bg-transparent gap-2"
@@ -201,10 +232,16 @@ export default function ContentEditorPage() {
             </Button>
           </div>
         </div>
+        <AdminSessionBar />
 
         <p className="mt-2 text-sm text-muted-foreground">
           Edit article text in your browser. Changes are saved locally and persist after refresh. Use JSON export/import to move or publish.
         </p>
+        <p className="mt-1 text-xs text-muted-foreground">
+          Remote source: {remoteContentConfig.enabled ? remoteContentConfig.url || 'not set' : 'Disabled'}
+          {' · '}
+          Write-back: {remoteContentUpdateConfig.enabled ? remoteContentUpdateConfig.url || 'enabled (URL not set)' : 'Disabled'}
+        </p>
 
         <Separator className="my-6" />
 
@@ -282,15 +319,13 @@ export default function ContentEditorPage() {
                 </div>
               </div>
 
-              <div>
-                <div className="text-xs text-muted-foreground mb-1">Body (paragraphs, separate with a blank line)</div>
-                <textarea
-                  value={bodyText}
-                  onChange={e => setBodyText(e.target.value)}
-                  placeholder="Write your article body here…"
-                  className="w-full min-h-[220px] rounded-md border bg-background px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-ring"
-                />
-              </div>
+              <BodyEditor
+                value={bodyText}
+                onChange={setBodyText}
+                format={bodyFormat}
+                onFormatChange={setBodyFormat}
+                placeholder="Write your article body here…"
+              />
 
               <div>
                 <div className="text-xs text-muted-foreground mb-1">Tags (comma separated)</div>
@@ -1,28 +1,71 @@
 /**
  * Daily.tsx
  * Daily Reflection page that generates contemplative content deterministically by date and theme.
+ * The day comes from ?date=YYYY-MM-DD (today when absent), so any day's reflection can be linked,
+ * and ?view=all shows the same day across every theme.
+ * Opened reflections (and how far they were read) are recorded in the reader's library;
+ * answers to the questions go to the private journal.
  */
 
-import { useMemo, useState } from 'react'
+import { useMemo, useRef, useState } from 'react'
 import Layout from '../components/Layout'
 import { Separator } from '../components/ui/separator'
 import { Button } from '../components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
-import { Link, useLocation, useNavigate } from 'react-router'
-import { CalendarDays, Copy, RefreshCw } from 'lucide-react'
-import { getReflectionForDate, themes, humanizeTheme, type ReflectionTheme } from '../lib/contentEngine'
+import { Calendar } from '../components/ui/calendar'
+import { Popover, PopoverContent, PopoverTrigger } from '../components/ui/popover'
+import MarkdownBody from '../components/MarkdownBody'
+import ScriptureText from '../components/ScriptureText'
+import BookmarkButton from '../components/BookmarkButton'
+import ReflectionJournal from '../components/ReflectionJournal'
+import NewsletterForm from '../components/NewsletterForm'
+import { Link, useLocation, useNavigate, useParams } from 'react-router'
+import { useTranslation } from 'react-i18next'
+import { CalendarDays, ChevronLeft, ChevronRight, Copy, LayoutGrid, RefreshCw } from 'lucide-react'
+import {
+  generateReflection,
+  getReflectionForDate,
+  themes,
+  humanizeTheme,
+  reflectionPath,
+  type ReflectionTheme,
+} from '../lib/contentEngine'
+import usePageHead from '../lib/usePageHead'
+import useReadingTracker from '../lib/useReadingTracker'
+import type { LibraryItem } from '../lib/libraryStore'
+import { articleJsonLd, breadcrumbJsonLd } from '../lib/head'
+import { buildRouteUrl } from '../lib/routing'
+import {
+  addDays,
+  calendarDateToLocal,
+  formatCalendarDate,
+  localCalendarDate,
+  parseCalendarDate,
+  siteToday,
+  type CalendarDate,
+} from '../lib/calendarDate'
 
 /**
  * parseQuery
- * Parses the hash-based search string to extract theme parameter.
+ * Parses the search string for the theme (t), day (date), and grid view (view=all) parameters.
  */
 function parseQuery(search: string) {
   const params = new URLSearchParams(search.replace(/^\?/, ''))
   return {
     t: (params.get('t') as ReflectionTheme | null) ?? null,
+    date: parseCalendarDate(params.get('date')),
+    all: params.get('view') === 'all',
   }
 }
 
+/**
+ * formatLongDate
+ * Human-friendly label for a day (e.g., Sunday, August 10, 2025).
+ */
+function formatLongDate(iso: CalendarDate): string {
+  return formatCalendarDate(iso, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })
+}
+
 /**
  * ThemePill
  * Small button-like pill to switch themes.
@@ -42,35 +85,126 @@ function ThemePill({ theme, active, onClick }: { theme: ReflectionTheme; active:
   )
 }
 
+/**
+ * AllThemesGrid
+ * The same day's reflection in every theme, each linking to its permalink.
+ */
+function AllThemesGrid({ dateISO, linkFor }: { dateISO: CalendarDate; linkFor: (theme: ReflectionTheme) => string }) {
+  const reflections = useMemo(() => themes.map(th => generateReflection(dateISO, th)), [dateISO])
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      {reflections.map(r => (
+        <Link
+          key={r.theme}
+          to={linkFor(r.theme)}
+          className="group rounded-xl border bg-card p-4 transition-shadow hover:shadow-md"
+        >
+          <div className="text-[10px] uppercase tracking-wide text-muted-foreground">{humanizeTheme(r.theme)}</div>
+          <h2 className="mt-1 font-medium group-hover:underline underline-offset-4">{r.title}</h2>
+          <p className="mt-2 text-xs text-muted-foreground">
+            “{r.scripture.text}” — {r.scripture.ref}
+          </p>
+          <p className="mt-2 text-sm text-muted-foreground line-clamp-3">{r.body[0]}</p>
+        </Link>
+      ))}
+    </div>
+  )
+}
+
 /**
  * DailyPage
- * Shows today's generated reflection and allows theme switching and copy.
+ * Shows the reflection for the selected day and theme (today by default), with day paging,
+ * a calendar picker, theme switching, and copy.
  */
 export default function DailyPage() {
+  const { t: tr } = useTranslation()
   const location = useLocation()
   const navigate = useNavigate()
-  const { t } = useMemo(() => parseQuery(location.search), [location.search])
+  const params = useParams()
+  const { t: queryTheme, date, all } = useMemo(() => parseQuery(location.search), [location.search])
+  // The /daily/:theme path form (prerendered pages) takes precedence over ?t=
+  const t = (params.theme as ReflectionTheme | undefined) ?? queryTheme
 
   const theme: ReflectionTheme = (t && themes.includes(t) ? t : 'mindfulness')
-  const today = useMemo(() => new Date(), [])
-  const reflection = useMemo(() => getReflectionForDate(today, theme), [today, theme])
+  // The site's "today" (siteConfig.timeZone), the same day every generator uses
+  const todayISO = useMemo(() => siteToday(), [])
+  const dateISO = date ?? todayISO
+  const isToday = dateISO === todayISO
+  const reflection = useMemo(
+    () => getReflectionForDate(dateISO, theme),
+    [dateISO, theme]
+  )
+
+  /** Link for a theme on the selected day (today keeps the short, prerendered path). */
+  function linkFor(th: ReflectionTheme, iso: CalendarDate = dateISO): string {
+    return iso === todayISO ? `/daily/${th}` : reflectionPath(iso, th)
+  }
+
+  /** Moves to another day, keeping the theme and the current view. */
+  function goToDate(iso: CalendarDate) {
+    if (!all) {
+      navigate(linkFor(theme, iso))
+      return
+    }
+    navigate({ pathname: '/daily', search: `?date=${iso}&view=all` })
+  }
+
+  const permalink = reflectionPath(reflection.dateISO, theme)
+  const headTitle = all
+    ? tr('daily.headTitleAll', { date: formatLongDate(dateISO) })
+    : tr('daily.headTitle', { title: reflection.title })
+  const headDescription = all
+    ? tr('daily.headDescriptionAll', { date: formatLongDate(dateISO) })
+    : `“${reflection.scripture.text}” (${reflection.scripture.ref})`
+  const headPath = isToday ? `/daily/${theme}` : permalink
+  usePageHead({
+    title: headTitle,
+    description: headDescription,
+    type: 'article',
+    publishedTime: reflection.dateISO,
+    jsonLd: [
+      articleJsonLd({
+        title: headTitle,
+        description: headDescription,
+        path: headPath,
+        datePublished: reflection.dateISO,
+        keywords: reflection.tags,
+      }),
+      breadcrumbJsonLd([{ label: 'Home', to: '/' }, { label: 'Daily Reflection', to: '/daily' }, { label: humanizeTheme(theme) }], headPath),
+    ],
+  })
+
+  const libraryItem: LibraryItem = {
+    id: `reflection:${reflection.dateISO}:${theme}`,
+    kind: 'reflection',
+    title: reflection.title,
+    path: permalink,
+    dateISO: reflection.dateISO,
+    theme,
+    excerpt: reflection.scripture.ref,
+  }
+  const cardRef = useRef<HTMLDivElement>(null)
+  // The grid view is an overview; only a single opened reflection counts as a visit
+  useReadingTracker(all ? null : libraryItem, cardRef)
 
   const [copied, setCopied] = useState(false)
 
-  /** Copies the reflection content to the clipboard for sharing. */
+  /** Copies the reflection content to the clipboard for sharing, ending with its permalink. */
   async function copyToClipboard() {
     const text = [
       `${reflection.title} — ${reflection.dateISO}`,
-      `Theme: ${humanizeTheme(reflection.theme)}`,
-      `Scripture: "${reflection.scripture.text}" (${reflection.scripture.ref})`,
-      `Quote: "${reflection.quote.text}" — ${reflection.quote.author}`,
+      `${tr('daily.share.theme')}: ${humanizeTheme(reflection.theme)}`,
+      `${tr('daily.share.scripture')}: "${reflection.scripture.text}" (${reflection.scripture.ref})`,
+      `${tr('daily.share.quote')}: "${reflection.quote.text}" — ${reflection.quote.author}`,
       '',
       ...reflection.body,
       '',
-      `Questions:`,
+      `${tr('daily.share.questions')}:`,
       ...reflection.questions.map(q => `• ${q}`),
       '',
-      `Prayer: ${reflection.prayer}`,
+      `${tr('daily.share.prayer')}: ${reflection.prayer}`,
+      '',
+      buildRouteUrl(window.location.origin, permalink),
     ].join('\n')
     try {
       await navigator.clipboard.writeText(text)
@@ -81,13 +215,10 @@ export default function DailyPage() {
     }
   }
 
-  /** Cycles to the next theme in the list by updating the query param. */
+  /** Cycles to the next theme in the list, staying on the selected day. */
   function nextTheme() {
     const idx = themes.indexOf(theme)
-    const next = themes[(idx + 1) % themes.length]
-    const params = new URLSearchParams(location.search.replace(/^\?/, ''))
-    params.set('t', next)
-    navigate({ pathname: '/daily', search: `?${params.toString()}` })
+    navigate(linkFor(themes[(idx + 1) % themes.length]))
   }
 
   return (
@@ -95,77 +226,128 @@ export default function DailyPage() {
       <section className="mx-auto max-w-3xl px-4 py-10">
         <div className="flex items-center gap-3">
           <CalendarDays className="size-5 text-primary" />
-          <h1 className="text-2xl md:text-3xl font-semibold">Daily Reflection</h1>
+          <h1 className="text-2xl md:text-3xl font-semibold">{tr('common.dailyReflection')}</h1>
         </div>
         <p className="mt-2 text-sm text-muted-foreground">
-          A contemplative, Christ-centered practice generated fresh each day. Choose a theme and begin.
+          {tr('daily.intro')}
         </p>
 
-        <div className="mt-5 flex flex-wrap gap-2">
+        {/* Day paging and picker */}
+        <div className="mt-5 flex flex-wrap items-center gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            className="bg-transparent"
+            aria-label={tr('daily.previousDay')}
+            onClick={() => goToDate(addDays(dateISO, -1))}
+          >
+            <ChevronLeft className="size-4" />
+          </Button>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" className="bg-transparent gap-2">
+                <CalendarDays className="size-4" />
+                {isToday ? tr('common.today') : formatLongDate(dateISO)}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="single"
+                selected={calendarDateToLocal(dateISO)}
+                defaultMonth={calendarDateToLocal(dateISO)}
+                onSelect={d => {
+                  if (d) goToDate(localCalendarDate(d))
+                }}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+          <Button
+            variant="outline"
+            size="icon"
+            className="bg-transparent"
+            aria-label={tr('daily.nextDay')}
+            onClick={() => goToDate(addDays(dateISO, 1))}
+          >
+            <ChevronRight className="size-4" />
+          </Button>
+          {!isToday && (
+            <Button variant="ghost" onClick={() => goToDate(todayISO)}>
+              {tr('common.today')}
+            </Button>
+          )}
+          <Button
+            variant={all ? 'default' : 'outline'}
+            className={['gap-2', all ? '' : 'bg-transparent'].join(' ')}
+            aria-pressed={all}
+            onClick={() => (all ? navigate(linkFor(theme)) : navigate({ pathname: '/daily', search: `?date=${dateISO}&view=all` }))}
+          >
+            <LayoutGrid className="size-4" />
+            {tr('daily.allThemes')}
+          </Button>
+        </div>
+
+        <div className="mt-4 flex flex-wrap gap-2">
           {themes.map(th => (
-            <ThemePill key={th} theme={th} active={th === theme} onClick={() => navigate(`/daily?t=${th}`)} />
+            <ThemePill key={th} theme={th} active={!all && th === theme} onClick={() => navigate(linkFor(th))} />
           ))}
         </div>
 
         <Separator className="my-6" />
 
-        <Card>
-          <CardHeader>
-            <CardTitle className="text-xl">{reflection.title}</CardTitle>
-            <div className="mt-1 text-xs text-muted-foreground">
-              {reflection.dateISO} • {humanizeTheme(reflection.theme)}
-            </div>
-          </CardHeader>
-          <CardContent className="space-y-5 text-sm leading-7">
-            <div>
-              <p className="font-medium">Scripture</p>
-              <p className="text-muted-foreground">“{reflection.scripture.text}” — {reflection.scripture.ref}</p>
-            </div>
-
-            <div>
-              <p className="font-medium">Companion Quote</p>
-              <p className="text-muted-foreground">“{reflection.quote.text}” — {reflection.quote.author}</p>
-            </div>
-
-            {reflection.body.map((para, i) => (
-              <p key={i}>{para}</p>
-            ))}
-
-            <div>
-              <p className="font-medium">Questions for Reflection</p>
-              <ul className="mt-2 list-disc pl-5 space-y-1">
-                {reflection.questions.map((q, i) => (
-                  <li key={i} className="text-muted-foreground">{q}</li>
+        {all ? (
+          <AllThemesGrid dateISO={dateISO} linkFor={th => linkFor(th)} />
+        ) : (
+          <Card ref={cardRef}>
+            <CardHeader>
+              <CardTitle className="text-xl">{reflection.title}</CardTitle>
+              <div className="mt-1 text-xs text-muted-foreground">
+                {reflection.dateISO} • {humanizeTheme(reflection.theme)}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-5 text-sm leading-7">
+              <div>
+                <p className="font-medium">{tr('common.scripture')}</p>
+                <p className="text-muted-foreground">
+                  “{reflection.scripture.text}” — <ScriptureText text={reflection.scripture.ref} fallbackText={reflection.scripture.text} />
+                </p>
+              </div>
+
+              <div>
+                <p className="font-medium">{tr('common.companionQuote')}</p>
+                <p className="text-muted-foreground">“{reflection.quote.text}” — {reflection.quote.author}</p>
+              </div>
+
+              <MarkdownBody body={reflection.body} className="space-y-5" />
+
+              {/* Questions and prayer, with the reader's private journal responses */}
+              <ReflectionJournal key={libraryItem.id} reflection={reflection} />
+
+              <div className="pt-2 flex flex-wrap gap-2">
+                {reflection.tags.map(tag => (
+                  <span key={tag} className="text-xs rounded-full border px-2 py-0.5 text-foreground/80">{tag}</span>
                 ))}
-              </ul>
-            </div>
-
-            <div>
-              <p className="font-medium">Prayer</p>
-              <p className="text-muted-foreground">{reflection.prayer}</p>
-            </div>
-
-            <div className="pt-2 flex flex-wrap gap-2">
-              {reflection.tags.map(tag => (
-                <span key={tag} className="text-xs rounded-full border px-2 py-0.5 text-foreground/80">{tag}</span>
-              ))}
-            </div>
-
-            <div className="pt-4 flex flex-wrap gap-2">
-              <Button onClick={copyToClipboard} className="gap-2">
-                <Copy className="size-4" />
-                {copied ? 'Copied' : 'Copy'}
-              </Button>
-              <Button variant="outline" className="bg-transparent gap-2" onClick={nextTheme}>
-                <RefreshCw className="size-4" />
-                Next theme
-              </Button>
-              <Link to="/mindfulness">
-                <Button variant="outline" className="bg-transparent">Mindfulness &amp; Prayer Guide</Button>
-              </Link>
-            </div>
-          </CardContent>
-        </Card>
+              </div>
+
+              <div className="pt-4 flex flex-wrap gap-2">
+                <Button onClick={copyToClipboard} className="gap-2">
+                  <Copy className="size-4" />
+                  {copied ? tr('daily.copied') : tr('daily.copy')}
+                </Button>
+                <Button variant="outline" className="bg-transparent gap-2" onClick={nextTheme}>
+                  <RefreshCw className="size-4" />
+                  {tr('daily.nextTheme')}
+                </Button>
+                <BookmarkButton item={libraryItem} />
+                <Link to="/mindfulness">
+                  <Button variant="outline" className="bg-transparent">{tr('daily.guide')}</Button>
+                </Link>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <NewsletterForm source="daily" className="mt-8" />
       </section>
     </Layout>
   )
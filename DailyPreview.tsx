@@ -7,9 +7,12 @@ import React, { useMemo } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Button } from './ui/button'
 import { Separator } from './ui/separator'
+import ScriptureText from './ScriptureText'
 import { Link } from 'react-router'
+import { useTranslation } from 'react-i18next'
 import { CalendarDays, BookOpen, Tag } from 'lucide-react'
-import { getReflectionForDate, humanizeTheme, type ReflectionTheme } from '../lib/contentEngine'
+import { getReflectionForDate, humanizeTheme, reflectionPath, type ReflectionTheme } from '../lib/contentEngine'
+import { siteToday } from '../lib/calendarDate'
 
 /**
  * DailyPreviewProps
@@ -27,7 +30,8 @@ export interface DailyPreviewProps {
  * Renders a concise snapshot of today's reflection with scripture, short excerpt, tags, and CTA.
  */
 export default function DailyPreview({ theme = 'mindfulness', showQuote = true }: DailyPreviewProps) {
-  const today = useMemo(() => new Date(), [])
+  const { t } = useTranslation()
+  const today = useMemo(() => siteToday(), [])
   const reflection = useMemo(() => getReflectionForDate(today, theme), [today, theme])
 
   return (
@@ -35,7 +39,7 @@ export default function DailyPreview({ theme = 'mindfulness', showQuote = true }
       <CardHeader>
         <div className="flex items-center gap-2">
           <CalendarDays className="size-5 text-primary" />
-          <CardTitle className="text-xl">Today’s Daily Reflection</CardTitle>
+          <CardTitle className="text-xl">{t('home.todaysReflection')}</CardTitle>
         </div>
         <div className="mt-1 text-xs text-muted-foreground">
           {reflection.dateISO} • {humanizeTheme(reflection.theme)}
@@ -43,18 +47,20 @@ export default function DailyPreview({ theme = 'mindfulness', showQuote = true }
       </CardHeader>
       <CardContent className="space-y-4 text-sm leading-7">
         <div>
-          <p className="font-medium">Title</p>
+          <p className="font-medium">{t('common.title')}</p>
           <p className="text-foreground">{reflection.title}</p>
         </div>
 
         <div>
-          <p className="font-medium">Scripture</p>
-          <p className="text-muted-foreground">“{reflection.scripture.text}” — {reflection.scripture.ref}</p>
+          <p className="font-medium">{t('common.scripture')}</p>
+          <p className="text-muted-foreground">
+            “{reflection.scripture.text}” — <ScriptureText text={reflection.scripture.ref} fallbackText={reflection.scripture.text} />
+          </p>
         </div>
 
         {showQuote && (
           <div>
-            <p className="font-medium">Companion Quote</p>
+            <p className="font-medium">{t('common.companionQuote')}</p>
             <p className="text-muted-foreground">“{reflection.quote.text}” — {reflection.quote.author}</p>
           </div>
         )}
@@ -63,7 +69,7 @@ export default function DailyPreview({ theme = 'mindfulness', showQuote = true }
 
         {/* Show a short excerpt from the body */}
         <div>
-          <p className="font-medium">Reflection</p>
+          <p className="font-medium">{t('common.reflection')}</p>
           <p className="text-muted-foreground line-clamp-3">{reflection.body[0]}</p>
         </div>
 
@@ -81,10 +87,10 @@ export default function DailyPreview({ theme = 'mindfulness', showQuote = true }
 
         {/* CTA */}
         <div className="pt-2">
-          <Link to="/daily">
+          <Link to={reflectionPath(reflection.dateISO, reflection.theme)}>
             <Button className="gap-2">
               <BookOpen className="size-4" />
-              Read the full reflection
+              {t('daily.readFull')}
             </Button>
           </Link>
         </div>
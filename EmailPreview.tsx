@@ -0,0 +1,134 @@
+/**
+ * EmailPreview.tsx
+ * Inbox-style preview of a rendered email: sender/subject header over the HTML in a sandboxed frame,
+ * at desktop or phone width, in light mode or one of two dark modes mail clients use.
+ */
+
+import { useCallback, useMemo, useRef, useState } from 'react'
+import { Monitor, Moon, Smartphone, Sun, SunMoon } from 'lucide-react'
+import { Button } from './ui/button'
+
+/**
+ * PreviewTheme
+ * 'dark' lets the email's own prefers-color-scheme styles apply (Apple Mail, iOS);
+ * 'forced' inverts colors the way clients without dark styles do (Gmail, Outlook apps).
+ */
+export type PreviewTheme = 'light' | 'dark' | 'forced'
+
+/** Frame widths for the two viewport presets. */
+const WIDTHS = { desktop: 680, mobile: 375 } as const
+
+/** Injected in forced dark mode: invert the page, then re-invert images so they look normal. */
+const FORCED_DARK_STYLE =
+  '<style>html{filter:invert(1) hue-rotate(180deg);background:#fff}img{filter:invert(1) hue-rotate(180deg)}</style>'
+
+/**
+ * EmailPreviewProps
+ * Header fields are display-only; `html` is rendered as the message body.
+ */
+interface EmailPreviewProps {
+  from: string
+  to: string
+  subject: string
+  date: string
+  /** Preview line shown under the subject, like an inbox list snippet */
+  snippet: string
+  html: string
+}
+
+/**
+ * EmailPreview
+ * Toolbar for width and theme, then the message header and body frame.
+ */
+export default function EmailPreview({ from, to, subject, date, snippet, html }: EmailPreviewProps) {
+  const [viewport, setViewport] = useState<keyof typeof WIDTHS>('desktop')
+  const [theme, setTheme] = useState<PreviewTheme>('light')
+  const [height, setHeight] = useState(600)
+  const frameRef = useRef<HTMLIFrameElement | null>(null)
+
+  // Links open in a new tab; forced dark adds the inversion stylesheet
+  const srcDoc = useMemo(() => {
+    const head = `<base target="_blank">${theme === 'forced' ? FORCED_DARK_STYLE : ''}`
+    return /<head[^>]*>/i.test(html) ? html.replace(/<head[^>]*>/i, m => m + head) : head + html
+  }, [html, theme])
+
+  /** Grows the frame to its content so the preview scrolls with the page. */
+  const fitHeight = useCallback(() => {
+    const doc = frameRef.current?.contentDocument
+    if (doc?.documentElement) setHeight(Math.max(200, doc.documentElement.scrollHeight))
+  }, [])
+
+  const dark = theme !== 'light'
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          variant={viewport === 'desktop' ? 'default' : 'outline'}
+          className={['gap-2', viewport === 'desktop' ? '' : 'bg-transparent'].join(' ')}
+          onClick={() => setViewport('desktop')}
+        >
+          <Monitor className="size-4" /> Desktop
+        </Button>
+        <Button
+          variant={viewport === 'mobile' ? 'default' : 'outline'}
+          className={['gap-2', viewport === 'mobile' ? '' : 'bg-transparent'].join(' ')}
+          onClick={() => setViewport('mobile')}
+        >
+          <Smartphone className="size-4" /> Mobile
+        </Button>
+        <div className="ml-auto flex flex-wrap gap-2">
+          <Button
+            variant={theme === 'light' ? 'default' : 'outline'}
+            className={['gap-2', theme === 'light' ? '' : 'bg-transparent'].join(' ')}
+            onClick={() => setTheme('light')}
+          >
+            <Sun className="size-4" /> Light
+          </Button>
+          <Button
+            variant={theme === 'dark' ? 'default' : 'outline'}
+            className={['gap-2', theme === 'dark' ? '' : 'bg-transparent'].join(' ')}
+            onClick={() => setTheme('dark')}
+            title="Email's own dark styles (Apple Mail, iOS)"
+          >
+            <Moon className="size-4" /> Dark
+          </Button>
+          <Button
+            variant={theme === 'forced' ? 'default' : 'outline'}
+            className={['gap-2', theme === 'forced' ? '' : 'bg-transparent'].join(' ')}
+            onClick={() => setTheme('forced')}
+            title="Colors inverted by the client (Gmail, Outlook apps)"
+          >
+            <SunMoon className="size-4" /> Forced dark
+          </Button>
+        </div>
+      </div>
+
+      <div className={['rounded-lg border p-3 md:p-4', dark ? 'bg-neutral-900 text-neutral-100' : 'bg-neutral-50 text-neutral-900'].join(' ')}>
+        <div className="mx-auto transition-[max-width]" style={{ maxWidth: WIDTHS[viewport] }}>
+          <div className={['rounded-t-md border-b px-4 py-3 text-sm', dark ? 'bg-neutral-800 border-neutral-700' : 'bg-white'].join(' ')}>
+            <p className="font-semibold break-words">{subject}</p>
+            <p className={['mt-1 text-xs break-words', dark ? 'text-neutral-400' : 'text-neutral-500'].join(' ')}>{snippet}</p>
+            <div className={['mt-3 grid grid-cols-[auto,1fr] gap-x-3 gap-y-0.5 text-xs', dark ? 'text-neutral-300' : 'text-neutral-600'].join(' ')}>
+              <span>From</span>
+              <span className="break-all">{from}</span>
+              <span>To</span>
+              <span className="break-all">{to}</span>
+              <span>Date</span>
+              <span>{date}</span>
+            </div>
+          </div>
+          <iframe
+            ref={frameRef}
+            title="Email preview"
+            srcDoc={srcDoc}
+            onLoad={fitHeight}
+            sandbox="allow-same-origin allow-popups allow-popups-to-escape-sandbox"
+            className="block w-full rounded-b-md border-0 bg-white"
+            style={{ height, colorScheme: theme === 'dark' ? 'dark' : 'light' }}
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
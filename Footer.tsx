@@ -4,34 +4,40 @@
  */
 
 import { Link } from 'react-router'
+import { useTranslation } from 'react-i18next'
 import { Separator } from '../components/ui/separator'
 import { siteConfig, getContactMailto } from '../config/site'
+import NewsletterForm from './NewsletterForm'
 
 /**
  * Footer
  * Minimal, centered footer with supporting links and contact email.
  */
 export default function Footer() {
+  const { t } = useTranslation()
+
   return (
     <footer className="border-t">
       <div className="mx-auto max-w-6xl px-4 py-10">
         <div className="grid gap-6 md:grid-cols-3">
           <div className="text-sm text-muted-foreground">
             <p className="font-medium text-foreground">{siteConfig.name}</p>
-            <p className="mt-2">Where philosophy meets Christian thought.</p>
+            <p className="mt-2">{t('footer.tagline')}</p>
           </div>
 
           <div className="text-sm">
-            <p className="font-medium">Explore</p>
+            <p className="font-medium">{t('footer.explore')}</p>
             <div className="mt-2 flex flex-col gap-2">
-              <Link to="/articles" className="text-muted-foreground hover:text-foreground">Articles</Link>
-              <Link to="/topics" className="text-muted-foreground hover:text-foreground">Topics</Link>
-              <Link to="/about" className="text-muted-foreground hover:text-foreground">About</Link>
+              <Link to="/articles" className="text-muted-foreground hover:text-foreground">{t('common.articles')}</Link>
+              <Link to="/topics" className="text-muted-foreground hover:text-foreground">{t('footer.topics')}</Link>
+              <Link to="/about" className="text-muted-foreground hover:text-foreground">{t('footer.about')}</Link>
+              {/* Feeds are static files generated at build time (outside the hash router) */}
+              <a href="/feed.xml" className="text-muted-foreground hover:text-foreground">{t('footer.rss')}</a>
             </div>
           </div>
 
           <div className="text-sm">
-            <p className="font-medium">Connect</p>
+            <p className="font-medium">{t('footer.connect')}</p>
             <div className="mt-2 flex flex-col gap-2">
               {/* Mailto uses centralized contact email */}
               <a
@@ -46,14 +52,15 @@ export default function Footer() {
                 rel="noreferrer"
                 className="text-muted-foreground hover:text-foreground"
               >
-                External
+                {t('footer.external')}
               </a>
             </div>
+            <NewsletterForm source="footer" variant="compact" className="mt-6" />
           </div>
         </div>
 
         <Separator className="my-8" />
-        <div className="text-xs text-muted-foreground">© {new Date().getFullYear()} {siteConfig.name}. All rights reserved.</div>
+        <div className="text-xs text-muted-foreground">{t('footer.rights', { year: new Date().getFullYear(), name: siteConfig.name })}</div>
       </div>
     </footer>
   )
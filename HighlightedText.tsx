@@ -0,0 +1,49 @@
+/**
+ * HighlightedText.tsx
+ * Renders a search snippet with its matched ranges wrapped in <mark>.
+ */
+
+import type { Snippet } from '../lib/search'
+
+/**
+ * HighlightedTextProps
+ * Snippet to render and optional class names for the wrapper and marks.
+ */
+export interface HighlightedTextProps {
+  snippet: Snippet
+  className?: string
+  markClassName?: string
+}
+
+/**
+ * HighlightedText
+ * Splits the snippet text at highlight boundaries; ranges are assumed sorted and non-overlapping.
+ */
+export default function HighlightedText({
+  snippet,
+  className,
+  markClassName = 'rounded-sm bg-amber-200/70 px-0.5 text-foreground dark:bg-amber-500/30',
+}: HighlightedTextProps) {
+  const parts: Array<{ text: string; hit: boolean }> = []
+  let cursor = 0
+  snippet.highlights.forEach(([start, end]) => {
+    if (start > cursor) parts.push({ text: snippet.text.slice(cursor, start), hit: false })
+    parts.push({ text: snippet.text.slice(start, end), hit: true })
+    cursor = end
+  })
+  if (cursor < snippet.text.length) parts.push({ text: snippet.text.slice(cursor), hit: false })
+
+  return (
+    <span className={className}>
+      {parts.map((p, i) =>
+        p.hit ? (
+          <mark key={i} className={markClassName}>
+            {p.text}
+          </mark>
+        ) : (
+          <span key={i}>{p.text}</span>
+        )
+      )}
+    </span>
+  )
+}
@@ -12,21 +12,26 @@ import QuoteCarousel from '../components/QuoteCarousel'
 import ArticleCard, { Article } from '../components/ArticleCard'
 import TopicCard from '../components/TopicCard'
 import { Link } from 'react-router'
-import { listArticlesForDate } from '../lib/articleEngine'
+import { useTranslation } from 'react-i18next'
+import { humanLabel, listArticlesForDate } from '../lib/articleEngine'
+import { siteToday } from '../lib/calendarDate'
 import DailyPreview from '../components/DailyPreview'
+import NewsletterForm from '../components/NewsletterForm'
 
 /**
  * HomePage
  * Composes the homepage hero, quotes, daily preview, featured articles, topics grid.
  */
 export default function HomePage() {
+  const { t } = useTranslation()
+
   /**
    * Featured articles:
    * - Use generated articles for today so IDs are valid (topic-YYYYMMDD-index).
    * - This ensures per-article and per-topic image overrides apply automatically.
    */
   const featuredArticles: Article[] = useMemo(() => {
-    const today = new Date()
+    const today = siteToday()
     // Generate 1 per topic, then take the first 3 to feature.
     // listArticlesForDate returns items with correct paths (/articles/:id).
     return listArticlesForDate(today, 1).slice(0, 3)
@@ -44,35 +49,37 @@ export default function HomePage() {
           <div className="grid gap-10 md:grid-cols-2 md:items-center">
             <div>
               <h1 className="text-4xl md:text-5xl font-bold tracking-tight">
-                Where <span className="bg-gradient-to-r from-indigo-500 via-sky-500 to-emerald-500 bg-clip-text text-transparent">philosophy</span> meets{' '}
-                <span className="bg-gradient-to-r from-emerald-500 via-teal-500 to-sky-500 bg-clip-text text-transparent">Christian thought</span>
+                {t('home.heroLead')}
+                <span className="bg-gradient-to-r from-indigo-500 via-sky-500 to-emerald-500 bg-clip-text text-transparent">{t('home.heroPhilosophy')}</span>
+                {t('home.heroMiddle')}
+                <span className="bg-gradient-to-r from-emerald-500 via-teal-500 to-sky-500 bg-clip-text text-transparent">{t('home.heroChristian')}</span>
+                {t('home.heroEnd')}
               </h1>
               <p className="mt-4 text-muted-foreground text-base md:text-lg">
-                Logos &amp; Light is a contemplative space for essays, reflections, and resources at the
-                intersection of classical philosophy and the Christian tradition.
+                {t('home.intro')}
               </p>
               <div className="mt-6 flex flex-wrap gap-3">
                 <Link to="/articles">
                   <Button className="gap-2">
-                    Read Articles
+                    {t('home.readArticles')}
                     <ArrowRight className="size-4" />
                   </Button>
                 </Link>
                 <Link to="/topics">
                   <Button variant="outline" className="bg-transparent gap-2">
-                    Explore Topics
+                    {t('home.exploreTopics')}
                     <Compass className="size-4" />
                   </Button>
                 </Link>
                 <Link to="/daily">
                   <Button variant="outline" className="bg-transparent gap-2">
-                    Daily Reflection
+                    {t('common.dailyReflection')}
                     <Heart className="size-4" />
                   </Button>
                 </Link>
                 <Link to="/resources">
                   <Button variant="outline" className="bg-transparent gap-2">
-                    Resources
+                    {t('home.resources')}
                     <BookOpen className="size-4" />
                   </Button>
                 </Link>
@@ -88,17 +95,18 @@ export default function HomePage() {
 
       {/* Daily Reflection Preview */}
       <section className="mx-auto max-w-6xl px-4 pb-4">
-        <h2 className="text-xl md:text-2xl font-semibold">Today’s Daily Reflection</h2>
+        <h2 className="text-xl md:text-2xl font-semibold">{t('home.todaysReflection')}</h2>
         <Separator className="my-6" />
         <DailyPreview />
+        <NewsletterForm source="home" className="mt-6" />
       </section>
 
       {/* Featured Articles */}
       <section className="mx-auto max-w-6xl px-4 py-12">
         <div className="flex items-center justify-between">
-          <h2 className="text-xl md:text-2xl font-semibold">Featured readings</h2>
+          <h2 className="text-xl md:text-2xl font-semibold">{t('home.featured')}</h2>
           <Link to="/articles" className="text-sm text-muted-foreground hover:text-foreground flex items-center gap-1">
-            View all
+            {t('home.viewAll')}
             <ArrowRight className="size-3.5" />
           </Link>
         </div>
@@ -112,7 +120,7 @@ export default function HomePage() {
 
       {/* Practice & Reflection (Daily card previously removed) */}
       <section className="mx-auto max-w-6xl px-4 py-12">
-        <h2 className="text-xl md:text-2xl font-semibold">Practice &amp; Reflection</h2>
+        <h2 className="text-xl md:text-2xl font-semibold">{t('home.practice')}</h2>
         <Separator className="my-6" />
         {/* With a single item, use a single-column grid for full-width presentation */}
         <div className="grid gap-5">
@@ -125,9 +133,9 @@ export default function HomePage() {
               <div className="text-white drop-shadow">
                 <div className="flex items-center gap-2">
                   <Wind className="size-4" />
-                  <p className="font-medium">Mindfulness &amp; Christian Prayer</p>
+                  <p className="font-medium">{t('home.mindfulnessTitle')}</p>
                 </div>
-                <p className="text-xs text-white/90 mt-1">Attention as communion with Christ—practices and guidance.</p>
+                <p className="text-xs text-white/90 mt-1">{t('home.mindfulnessText')}</p>
               </div>
             </div>
           </Link>
@@ -136,29 +144,29 @@ export default function HomePage() {
 
       {/* Topics */}
       <section className="mx-auto max-w-6xl px-4 py-12">
-        <h2 className="text-xl md:text-2xl font-semibold">Explore topics</h2>
+        <h2 className="text-xl md:text-2xl font-semibold">{t('home.topicsHeading')}</h2>
         <Separator className="my-6" />
         <div className="grid gap-5 sm:grid-cols-2 lg:grid-cols-4">
           <TopicCard
-            title="Faith & Reason"
+            title={humanLabel('faith-and-reason')}
             imageKeyword="compass"
             to="/topics/faith-and-reason"
             topicKey="faith-and-reason"
           />
           <TopicCard
-            title="Ethics"
+            title={humanLabel('ethics')}
             imageKeyword="scales"
             to="/topics?topic=ethics"
             topicKey="ethics"
           />
           <TopicCard
-            title="Metaphysics"
+            title={humanLabel('metaphysics')}
             imageKeyword="galaxy"
             to="/topics?topic=metaphysics"
             topicKey="metaphysics"
           />
           <TopicCard
-            title="Theology"
+            title={humanLabel('theology')}
             imageKeyword="stained glass"
             to="/topics/theology"
             topicKey="theology"
@@ -2,10 +2,12 @@
  * ImageWithFallback.tsx
  * Reusable image component that falls back to a topic-colored SVG placeholder (data URL)
  * when the main image fails to load (CSP, ad-blockers, network).
+ * Intrinsic width/height (explicit, or recorded for mirrored images) let the browser reserve space before loading.
  */
 
 import React, { useMemo, useState } from 'react'
 import type { TopicKey } from '../lib/articleEngine'
+import { getRemoteImageSize } from '../lib/remoteImages'
 
 /**
  * ImageWithFallbackProps
@@ -22,6 +24,10 @@ export interface ImageWithFallbackProps {
   topicKey?: TopicKey
   /** Optional label used in the placeholder (e.g., title or topic label) */
   label?: string
+  /** Intrinsic width in pixels (default: size recorded by scripts/mirror-images.ts, if any) */
+  width?: number
+  /** Intrinsic height in pixels (default: size recorded by scripts/mirror-images.ts, if any) */
+  height?: number
 }
 
 /**
@@ -111,9 +117,14 @@ export default function ImageWithFallback({
   className = '',
   topicKey,
   label,
+  width,
+  height,
 }: ImageWithFallbackProps) {
   const [failed, setFailed] = useState(false)
 
+  // Explicit size wins; the placeholder keeps its own 16:9 box
+  const size = width && height ? { width, height } : getRemoteImageSize(src)
+
   // Build placeholder only when needed/when inputs change
   const placeholder = useMemo(() => {
     const { from, to } = topicGradient(topicKey)
@@ -126,6 +137,8 @@ export default function ImageWithFallback({
       onError={() => setFailed(true)}
       alt={alt}
       className={className}
+      width={failed ? undefined : size?.width}
+      height={failed ? undefined : size?.height}
       // Decoding async helps avoid layout jank when many images appear.
       decoding="async"
       // Let browser lazily load below-the-fold images for lists
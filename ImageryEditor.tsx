@@ -17,6 +17,7 @@ import { Separator } from '../components/ui/separator'
 import { AlertTriangle, CloudDownload, Save, Upload, Plus, Trash2, RefreshCw, ImagePlus, XCircle } from 'lucide-react'
 import { listArticlesForDate, type TopicKey, topics as topicRegistry } from '../lib/articleEngine'
 import { IS_PUBLIC } from '../lib/env'
+import { siteToday } from '../lib/calendarDate'
 import { Link, useLocation } from 'react-router'
 import {
   getEffectiveMaps,
@@ -27,8 +28,11 @@ import {
   persistLocalMaps,
   clearLocalMaps,
 } from '../lib/remoteImages'
-import { adminEditKey, remoteImagesConfig, remoteUpdateConfig } from '../config/remote'
+import { remoteImagesConfig, remoteUpdateConfig } from '../config/remote'
 import UploadDropzone from '../components/UploadDropzone'
+import AdminSessionBar from '../components/AdminSessionBar'
+import useAuthSession from '../lib/useAuthSession'
+import { downloadFile } from '../lib/download'
 
 /** Row entry representing a single editable mapping item. */
 interface MappingRow {
@@ -74,19 +78,6 @@ function toCSV(maps: RemoteMaps): string {
   return lines.join('\n')
 }
 
-/** Triggers a file download for given content. */
-function downloadFile(filename: string, content: string, mime = 'application/json') {
-  const blob = new Blob([content], { type: mime })
-  const url = URL.createObjectURL(blob)
-  const a = document.createElement('a')
-  a.href = url
-  a.download = filename
-  document.body.appendChild(a)
-  a.click()
-  a.remove()
-  URL.revokeObjectURL(url)
-}
-
 /** useQuery helper. */
 function useQuery() {
   const location = useLocation()
@@ -99,8 +90,8 @@ function useQuery() {
  */
 export default function ImageryEditorPage() {
   const query = useQuery()
-  const hasKey = (adminEditKey && query.get('key') === adminEditKey) || !adminEditKey
-  const canEdit = !IS_PUBLIC || hasKey
+  const session = useAuthSession()
+  const canEdit = !IS_PUBLIC || !!session
 
   // Optional prefill from query (?article=... or ?topic=...)
   const prefillArticle = (query.get('article') || '').trim()
@@ -181,7 +172,7 @@ export default function ImageryEditorPage() {
   }
 
   /** Generate helpful suggestions: today's articles and known topics. */
-  const today = useMemo(() => new Date(), [])
+  const today = useMemo(() => siteToday(), [])
   const todaysArticles = useMemo(() => listArticlesForDate(today, 2), [today])
 
   /**
@@ -222,6 +213,7 @@ export default function ImageryEditorPage() {
             )}
           </div>
         </div>
+        <AdminSessionBar />
 
         <p className="mt-2 text-sm text-muted-foreground">
           Remote source: {remoteImagesConfig.enabled ? `${remoteImagesConfig.source.toUpperCase()} at ${remoteImagesConfig.url || 'not set'}` : 'Disabled'}
@@ -231,7 +223,7 @@ export default function ImageryEditorPage() {
             <>
               {' · '}
               <span className="inline-flex items-center gap-1 text-amber-600 dark:text-amber-400">
-                <AlertTriangle className="size-4" /> read-only (provide ?key=…)
+                <AlertTriangle className="size-4" /> read-only (sign in required)
               </span>
             </>
           )}
@@ -475,7 +467,8 @@ export default function ImageryEditorPage() {
             To publish globally, set a public URL in src/config/remote.ts and either enable write-back or upload the JSON/CSV you download here.
           </p>
           <p>
-            Security tip: set an admin key in src/config/remote.ts and open this page as /#/imagery?key=YOUR_KEY to enable editing on public.
+            Access: this page asks for an admin sign-in. Add accounts to adminAuthConfig in src/config/remote.ts
+            (npm run hash-passphrase prints an entry); a session lasts for this tab only and expires after sessionMinutes.
           </p>
         </div>
 
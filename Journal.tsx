@@ -0,0 +1,324 @@
+/**
+ * Journal.tsx
+ * The reader's private reflection journal: streaks, a heatmap calendar of journaled days,
+ * entries for the selected day, Markdown/JSON export, and optional passphrase encryption.
+ */
+
+import { useMemo, useState } from 'react'
+import { Link } from 'react-router'
+import Layout from '../components/Layout'
+import Breadcrumbs from '../components/Breadcrumbs'
+import JournalUnlock from '../components/JournalUnlock'
+import { Button } from '../components/ui/button'
+import { Calendar } from '../components/ui/calendar'
+import { Input } from '../components/ui/input'
+import { Separator } from '../components/ui/separator'
+import { Check, Download, Flame, Lock, NotebookPen, ShieldCheck, Trophy } from 'lucide-react'
+import { humanizeTheme, reflectionPath } from '../lib/contentEngine'
+import { downloadFile } from '../lib/download'
+import { calendarDateToLocal, formatCalendarDate, localCalendarDate, siteToday } from '../lib/calendarDate'
+import {
+  computeStreaks,
+  eraseJournal,
+  journalActivityByDay,
+  journalToJson,
+  journalToMarkdown,
+  lockJournal,
+  setJournalPassphrase,
+  useJournalStore,
+  type JournalEntry,
+} from '../lib/journal'
+import usePageHead from '../lib/usePageHead'
+
+/** Minimum passphrase length accepted for encryption. */
+const MIN_PASSPHRASE_LENGTH = 8
+
+/** Heatmap buckets by day activity (answers + prayers); classes are applied through calendar modifiers. */
+const HEAT_LEVELS = [
+  { name: 'heat1', min: 1, className: 'bg-emerald-500/20' },
+  { name: 'heat2', min: 3, className: 'bg-emerald-500/45' },
+  { name: 'heat3', min: 5, className: 'bg-emerald-500/75 text-white' },
+]
+
+/**
+ * StatCard
+ * One streak figure.
+ */
+function StatCard({ icon, label, value }: { icon: React.ReactNode; label: string; value: string }) {
+  return (
+    <div className="rounded-xl border bg-card p-4">
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        {icon}
+        {label}
+      </div>
+      <div className="mt-1 text-2xl font-semibold">{value}</div>
+    </div>
+  )
+}
+
+/**
+ * EntryCard
+ * Read-only view of one journal entry.
+ */
+function EntryCard({ entry }: { entry: JournalEntry }) {
+  return (
+    <li className="rounded-xl border bg-card p-4">
+      <div className="flex flex-wrap items-center gap-2 text-[10px] uppercase tracking-wide text-muted-foreground">
+        <span>{humanizeTheme(entry.theme)}</span>
+        {entry.prayed && (
+          <span className="inline-flex items-center gap-1 normal-case tracking-normal text-emerald-600 dark:text-emerald-400">
+            <Check className="size-3" />
+            Prayed
+          </span>
+        )}
+      </div>
+      <Link to={reflectionPath(entry.dateISO, entry.theme)} className="mt-1 block font-medium hover:underline underline-offset-4">
+        {entry.title || humanizeTheme(entry.theme)}
+      </Link>
+      <dl className="mt-3 grid gap-3 text-sm">
+        {entry.questions.map((q, i) =>
+          entry.answers[i]?.trim() ? (
+            <div key={i}>
+              <dt className="text-muted-foreground">{q}</dt>
+              <dd className="mt-1 whitespace-pre-wrap">{entry.answers[i]}</dd>
+            </div>
+          ) : null
+        )}
+      </dl>
+    </li>
+  )
+}
+
+/**
+ * EncryptionSettings
+ * Turns passphrase encryption on, changes the passphrase, or turns it off.
+ */
+function EncryptionSettings({ encrypted }: { encrypted: boolean }) {
+  const [passphrase, setPassphrase] = useState('')
+  const [confirmation, setConfirmation] = useState('')
+  const [busy, setBusy] = useState(false)
+  const valid = passphrase.length >= MIN_PASSPHRASE_LENGTH && passphrase === confirmation
+
+  /** Applies a new passphrase (or null to remove encryption). */
+  async function apply(next: string | null) {
+    setBusy(true)
+    try {
+      await setJournalPassphrase(next)
+      setPassphrase('')
+      setConfirmation('')
+      alert(next ? 'Journal encrypted. You will need this passphrase to open it on your next visit.' : 'Encryption removed.')
+    } catch (e: unknown) {
+      alert(`Could not update encryption: ${e instanceof Error ? e.message : String(e)}`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="rounded-xl border bg-card p-4">
+      <p className="flex items-center gap-2 text-sm font-medium">
+        <ShieldCheck className="size-4 text-primary" />
+        {encrypted ? 'Encrypted with a passphrase' : 'Passphrase encryption'}
+      </p>
+      <p className="mt-1 text-xs text-muted-foreground">
+        {encrypted
+          ? 'Entries are stored encrypted in this browser. A forgotten passphrase cannot be recovered.'
+          : 'Optionally encrypt entries in this browser. The passphrase is never stored and cannot be recovered.'}
+      </p>
+      <div className="mt-3 grid gap-2 sm:grid-cols-2">
+        <Input
+          type="password"
+          autoComplete="new-password"
+          placeholder={encrypted ? 'New passphrase' : 'Passphrase'}
+          value={passphrase}
+          onChange={e => setPassphrase(e.target.value)}
+        />
+        <Input
+          type="password"
+          autoComplete="new-password"
+          placeholder="Repeat passphrase"
+          value={confirmation}
+          onChange={e => setConfirmation(e.target.value)}
+        />
+      </div>
+      <p className="mt-1 text-[11px] text-muted-foreground">At least {MIN_PASSPHRASE_LENGTH} characters.</p>
+      <div className="mt-3 flex flex-wrap gap-2">
+        <Button onClick={() => apply(passphrase)} disabled={busy || !valid}>
+          {encrypted ? 'Change passphrase' : 'Encrypt journal'}
+        </Button>
+        {encrypted && (
+          <>
+            <Button variant="outline" className="bg-transparent gap-2" onClick={lockJournal} disabled={busy}>
+              <Lock className="size-4" />
+              Lock now
+            </Button>
+            <Button
+              variant="outline"
+              className="bg-transparent"
+              disabled={busy}
+              onClick={() => {
+                if (confirm('Store the journal unencrypted in this browser?')) void apply(null)
+              }}
+            >
+              Remove encryption
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * JournalPage
+ * Route: /journal (noindex; entries live in this browser only).
+ */
+export default function JournalPage() {
+  usePageHead({
+    title: 'Reflection Journal',
+    description: 'Your private responses to the daily reflections, saved in this browser.',
+  })
+  const status = useJournalStore(s => s.status)
+  const encrypted = useJournalStore(s => s.encrypted)
+  const entries = useJournalStore(s => s.entries)
+  const [selected, setSelected] = useState<Date | undefined>(() => calendarDateToLocal(siteToday()))
+
+  const activity = useMemo(() => journalActivityByDay(entries), [entries])
+  const streaks = useMemo(() => computeStreaks(activity.keys()), [activity])
+  const heatModifiers = useMemo(() => {
+    const mods: Record<string, Date[]> = {}
+    HEAT_LEVELS.forEach((level, i) => {
+      const next = HEAT_LEVELS[i + 1]
+      mods[level.name] = Array.from(activity)
+        .filter(([, n]) => n >= level.min && (!next || n < next.min))
+        .map(([day]) => calendarDateToLocal(day))
+    })
+    return mods
+  }, [activity])
+
+  const selectedISO = selected ? localCalendarDate(selected) : ''
+  const dayEntries = Object.values(entries).filter(e => e.dateISO === selectedISO)
+  const hasEntries = activity.size > 0
+
+  return (
+    <Layout>
+      <section className="mx-auto max-w-3xl px-4 py-8 md:py-10">
+        <Breadcrumbs items={[{ label: 'Home', to: '/' }, { label: 'Daily Reflection', to: '/daily' }, { label: 'Journal' }]} />
+
+        <div className="mt-3 flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="flex items-center gap-2 text-2xl md:text-3xl font-semibold">
+              <NotebookPen className="size-6 text-primary" />
+              Reflection Journal
+            </h1>
+            <p className="mt-2 text-sm text-muted-foreground">
+              Private responses to the daily questions, kept in this browser only.
+            </p>
+          </div>
+          {status === 'ready' && hasEntries && (
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                className="bg-transparent gap-2"
+                onClick={() => downloadFile('reflection-journal.md', journalToMarkdown(entries), 'text/markdown')}
+              >
+                <Download className="size-4" />
+                Markdown
+              </Button>
+              <Button
+                variant="outline"
+                className="bg-transparent gap-2"
+                onClick={() => downloadFile('reflection-journal.json', journalToJson(entries), 'application/json')}
+              >
+                <Download className="size-4" />
+                JSON
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {status === 'locked' && (
+          <div className="mt-6 grid gap-3">
+            <JournalUnlock />
+            <p className="text-xs text-muted-foreground">
+              Forgot the passphrase?{' '}
+              <button
+                className="underline underline-offset-4 hover:text-foreground"
+                onClick={() => {
+                  if (confirm('Erase every journal entry in this browser? This cannot be undone.')) eraseJournal()
+                }}
+              >
+                Erase the journal
+              </button>{' '}
+              and start again.
+            </p>
+          </div>
+        )}
+
+        {status === 'ready' && (
+          <>
+            <div className="mt-6 grid gap-3 sm:grid-cols-3">
+              <StatCard
+                icon={<Flame className="size-4 text-orange-500" />}
+                label="Current streak"
+                value={`${streaks.current} ${streaks.current === 1 ? 'day' : 'days'}`}
+              />
+              <StatCard
+                icon={<Trophy className="size-4 text-amber-500" />}
+                label="Longest streak"
+                value={`${streaks.longest} ${streaks.longest === 1 ? 'day' : 'days'}`}
+              />
+              <StatCard
+                icon={<Check className="size-4 text-emerald-500" />}
+                label="Days journaled"
+                value={String(activity.size)}
+              />
+            </div>
+
+            <div className="mt-6 grid gap-6 md:grid-cols-[auto,1fr]">
+              <div className="rounded-xl border bg-card">
+                <Calendar
+                  mode="single"
+                  selected={selected}
+                  onSelect={setSelected}
+                  modifiers={heatModifiers}
+                  modifiersClassNames={Object.fromEntries(HEAT_LEVELS.map(l => [l.name, l.className]))}
+                />
+                <div className="flex items-center justify-end gap-1 px-3 pb-3 text-[10px] text-muted-foreground">
+                  Less
+                  <span className="size-3 rounded-sm border" />
+                  {HEAT_LEVELS.map(l => (
+                    <span key={l.name} className={`size-3 rounded-sm ${l.className}`} />
+                  ))}
+                  More
+                </div>
+              </div>
+
+              <div>
+                <h2 className="text-sm font-medium">{selected ? formatCalendarDate(selectedISO, { dateStyle: 'full' }) : 'Pick a day'}</h2>
+                {dayEntries.length > 0 ? (
+                  <ul className="mt-3 grid gap-3">
+                    {dayEntries.map(e => (
+                      <EntryCard key={`${e.dateISO}:${e.theme}`} entry={e} />
+                    ))}
+                  </ul>
+                ) : (
+                  <div className="mt-3 rounded-lg border p-6 text-center text-sm text-muted-foreground">
+                    No journal entries for this day.{' '}
+                    <Link to="/daily" className="underline underline-offset-4 hover:text-foreground">
+                      Open today’s reflection
+                    </Link>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <Separator className="my-6" />
+
+            <EncryptionSettings encrypted={encrypted} />
+          </>
+        )}
+      </section>
+    </Layout>
+  )
+}
@@ -0,0 +1,54 @@
+/**
+ * JournalUnlock.tsx
+ * Passphrase form for an encrypted journal. Shared by the Daily page and the Journal page.
+ */
+
+import { useState } from 'react'
+import { Lock } from 'lucide-react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { unlockJournal } from '../lib/journal'
+
+/**
+ * JournalUnlock
+ * Unlocks the journal for this visit; shows an inline error on a wrong passphrase.
+ */
+export default function JournalUnlock({ className }: { className?: string }) {
+  const [passphrase, setPassphrase] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState(false)
+
+  /** Attempts to decrypt the stored journal. */
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    if (!passphrase) return
+    setBusy(true)
+    const ok = await unlockJournal(passphrase)
+    setBusy(false)
+    setError(!ok)
+    if (ok) setPassphrase('')
+  }
+
+  return (
+    <form onSubmit={onSubmit} className={['rounded-lg border p-3', className ?? ''].join(' ')}>
+      <p className="flex items-center gap-2 text-sm font-medium">
+        <Lock className="size-4 text-primary" />
+        Your journal is encrypted
+      </p>
+      <div className="mt-2 flex gap-2">
+        <Input
+          type="password"
+          autoComplete="current-password"
+          placeholder="Passphrase"
+          value={passphrase}
+          onChange={e => setPassphrase(e.target.value)}
+          aria-label="Journal passphrase"
+        />
+        <Button type="submit" disabled={busy || !passphrase}>
+          {busy ? 'Unlocking…' : 'Unlock'}
+        </Button>
+      </div>
+      {error && <p className="mt-2 text-xs text-destructive">That passphrase did not unlock the journal.</p>}
+    </form>
+  )
+}
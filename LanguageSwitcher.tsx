@@ -0,0 +1,36 @@
+/**
+ * LanguageSwitcher.tsx
+ * Navbar menu for choosing the interface and content language.
+ */
+
+import { Check, Languages } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Button } from './ui/button'
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from './ui/dropdown-menu'
+import { locales, setLocale } from '../lib/i18n'
+
+/**
+ * LanguageSwitcher
+ * Lists each locale in its own language; the active one is checked.
+ */
+export default function LanguageSwitcher() {
+  const { t, i18n } = useTranslation()
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="bg-transparent" aria-label={t('language.label')} title={t('language.label')}>
+          <Languages className="size-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {locales.map(l => (
+          <DropdownMenuItem key={l.code} lang={l.code} onSelect={() => setLocale(l.code)} className="gap-2">
+            <Check className={['size-4', i18n.language === l.code ? '' : 'invisible'].join(' ')} />
+            {l.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,307 @@
+/**
+ * Library.tsx
+ * The reader's library on this device: continue reading, bookmarks, and reading history grouped
+ * by day and topic with progress. Nothing leaves the browser; JSON export/import moves it between devices.
+ */
+
+import { useRef } from 'react'
+import { Link } from 'react-router'
+import Layout from '../components/Layout'
+import Breadcrumbs from '../components/Breadcrumbs'
+import { Button } from '../components/ui/button'
+import { Progress } from '../components/ui/progress'
+import { Separator } from '../components/ui/separator'
+import { BookmarkCheck, Download, History, Library as LibraryIcon, Trash2, Upload, X } from 'lucide-react'
+import { humanLabel } from '../lib/articleEngine'
+import { humanizeTheme } from '../lib/contentEngine'
+import { downloadFile } from '../lib/download'
+import { addDays, formatCalendarDate, localCalendarDate, type CalendarDate } from '../lib/calendarDate'
+import {
+  FINISHED_PROGRESS,
+  exportLibrary,
+  parseLibraryFile,
+  useLibraryStore,
+  type HistoryEntry,
+  type LibraryItem,
+} from '../lib/libraryStore'
+import usePageHead from '../lib/usePageHead'
+
+/** Items shown under "Continue reading". */
+const CONTINUE_LIMIT = 4
+
+/** Progress below this is treated as "opened, not started". */
+const STARTED_PROGRESS = 5
+
+/**
+ * HistoryGroup
+ * Visits on one local day, split by topic (articles) or "Reflections".
+ */
+interface HistoryGroup {
+  day: CalendarDate
+  sections: Array<{ label: string; entries: HistoryEntry[] }>
+}
+
+/** The reader's local calendar day of an ISO timestamp (visits group by when they happened for the reader). */
+function localDay(iso: string): CalendarDate {
+  return localCalendarDate(new Date(iso))
+}
+
+/** Heading for a day group ("Today", "Yesterday", or the date). */
+function dayLabel(day: CalendarDate): string {
+  const today = localCalendarDate(new Date())
+  if (day === today) return 'Today'
+  if (day === addDays(today, -1)) return 'Yesterday'
+  return formatCalendarDate(day, {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+  })
+}
+
+/** Section label for an item: its topic, or "Reflections". */
+function sectionLabel(item: LibraryItem): string {
+  if (item.kind === 'reflection') return 'Reflections'
+  return item.topic ? humanLabel(item.topic) : 'Articles'
+}
+
+/** Secondary line for an item (theme or topic, plus content date). */
+function itemMeta(item: LibraryItem): string {
+  const parts = [item.kind === 'reflection' && item.theme ? humanizeTheme(item.theme) : sectionLabel(item)]
+  if (item.dateISO) parts.push(item.dateISO)
+  return parts.join(' • ')
+}
+
+/**
+ * groupHistory
+ * Groups history (already newest first) by local visit day, then by section in first-seen order.
+ */
+function groupHistory(history: HistoryEntry[]): HistoryGroup[] {
+  const groups: HistoryGroup[] = []
+  history.forEach(entry => {
+    const day = localDay(entry.visitedAt)
+    let group = groups[groups.length - 1]
+    if (!group || group.day !== day) {
+      group = { day, sections: [] }
+      groups.push(group)
+    }
+    const label = sectionLabel(entry)
+    let section = group.sections.find(s => s.label === label)
+    if (!section) {
+      section = { label, entries: [] }
+      group.sections.push(section)
+    }
+    section.entries.push(entry)
+  })
+  return groups
+}
+
+/**
+ * ProgressLine
+ * Progress bar with its percentage ("Finished" past the threshold).
+ */
+function ProgressLine({ progress }: { progress: number }) {
+  return (
+    <div className="mt-2 flex items-center gap-3">
+      <Progress value={progress} className="h-1.5" aria-label="Reading progress" />
+      <span className="w-16 shrink-0 text-right text-[11px] text-muted-foreground">
+        {progress >= FINISHED_PROGRESS ? 'Finished' : `${progress}%`}
+      </span>
+    </div>
+  )
+}
+
+/**
+ * LibraryPage
+ * Route: /library (noindex; content is per device).
+ */
+export default function LibraryPage() {
+  usePageHead({
+    title: 'Your Library',
+    description: 'Bookmarks and reading history saved in this browser.',
+  })
+  const history = useLibraryStore(s => s.history)
+  const bookmarks = useLibraryStore(s => s.bookmarks)
+  const removeBookmark = useLibraryStore(s => s.removeBookmark)
+  const removeHistoryEntry = useLibraryStore(s => s.removeHistoryEntry)
+  const clearHistory = useLibraryStore(s => s.clearHistory)
+  const importData = useLibraryStore(s => s.importData)
+  const fileInputRef = useRef<HTMLInputElement | null>(null)
+
+  const continueReading = history
+    .filter(h => h.progress >= STARTED_PROGRESS && h.progress < FINISHED_PROGRESS)
+    .slice(0, CONTINUE_LIMIT)
+  const groups = groupHistory(history)
+
+  /** onImport
+   * Merges an exported library file into this device's library.
+   */
+  function onImport(file: File) {
+    const reader = new FileReader()
+    reader.onload = () => {
+      const data = parseLibraryFile(String(reader.result || ''))
+      if (!data) {
+        alert('Invalid library file.')
+        return
+      }
+      importData(data)
+      alert(`Imported ${data.bookmarks.length} bookmarks and ${data.history.length} history entries.`)
+    }
+    reader.readAsText(file)
+  }
+
+  return (
+    <Layout>
+      <section className="mx-auto max-w-3xl px-4 py-8 md:py-10">
+        <Breadcrumbs items={[{ label: 'Home', to: '/' }, { label: 'Library' }]} />
+
+        <div className="mt-3 flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="flex items-center gap-2 text-2xl md:text-3xl font-semibold">
+              <LibraryIcon className="size-6 text-primary" />
+              Your Library
+            </h1>
+            <p className="mt-2 text-sm text-muted-foreground">
+              Saved in this browser only. Export a copy to move it to another device.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              className="bg-transparent gap-2"
+              onClick={() => downloadFile('library.json', exportLibrary(), 'application/json')}
+            >
+              <Download className="size-4" />
+              Export JSON
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json"
+              className="hidden"
+              onChange={e => {
+                const f = e.target.files?.[0]
+                if (f) onImport(f)
+                e.currentTarget.value = ''
+              }}
+            />
+            <Button variant="outline" className="bg-transparent gap-2" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="size-4" />
+              Import JSON
+            </Button>
+          </div>
+        </div>
+
+        {continueReading.length > 0 && (
+          <>
+            <h2 className="mt-8 text-lg font-semibold">Continue reading</h2>
+            <ul className="mt-4 grid gap-3 sm:grid-cols-2">
+              {continueReading.map(h => (
+                <li key={h.id} className="rounded-xl border bg-card p-4">
+                  <div className="text-[10px] uppercase tracking-wide text-muted-foreground">{itemMeta(h)}</div>
+                  <Link to={h.path} className="mt-1 block font-medium hover:underline underline-offset-4">
+                    {h.title}
+                  </Link>
+                  <ProgressLine progress={h.progress} />
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+
+        <Separator className="my-6" />
+
+        <h2 className="flex items-center gap-2 text-lg font-semibold">
+          <BookmarkCheck className="size-5 text-primary" />
+          Bookmarks
+        </h2>
+        {bookmarks.length > 0 ? (
+          <ul className="mt-4 grid gap-3">
+            {bookmarks.map(b => (
+              <li key={b.id} className="flex items-start justify-between gap-3 rounded-xl border bg-card p-4">
+                <div className="min-w-0">
+                  <div className="text-[10px] uppercase tracking-wide text-muted-foreground">{itemMeta(b)}</div>
+                  <Link to={b.path} className="mt-1 block font-medium hover:underline underline-offset-4">
+                    {b.title}
+                  </Link>
+                  {b.excerpt && <p className="mt-1 text-xs text-muted-foreground line-clamp-2">{b.excerpt}</p>}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="shrink-0"
+                  aria-label={`Remove bookmark: ${b.title}`}
+                  onClick={() => removeBookmark(b.id)}
+                >
+                  <X className="size-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="mt-4 rounded-lg border p-8 text-center text-sm text-muted-foreground">
+            No bookmarks yet. Use the bookmark icon on any article or reflection to save it here.
+          </div>
+        )}
+
+        <Separator className="my-6" />
+
+        <div className="flex items-center justify-between gap-4">
+          <h2 className="flex items-center gap-2 text-lg font-semibold">
+            <History className="size-5 text-primary" />
+            History
+          </h2>
+          {history.length > 0 && (
+            <Button
+              variant="outline"
+              className="bg-transparent gap-2"
+              onClick={() => {
+                if (confirm('Clear your reading history on this device? Bookmarks are kept.')) clearHistory()
+              }}
+            >
+              <Trash2 className="size-4" />
+              Clear history
+            </Button>
+          )}
+        </div>
+        {groups.length > 0 ? (
+          <div className="mt-4 grid gap-6">
+            {groups.map(group => (
+              <div key={group.day}>
+                <h3 className="text-sm font-medium">{dayLabel(group.day)}</h3>
+                {group.sections.map(section => (
+                  <div key={section.label} className="mt-3">
+                    <div className="text-[10px] uppercase tracking-wide text-muted-foreground">{section.label}</div>
+                    <ul className="mt-2 grid gap-2">
+                      {section.entries.map(h => (
+                        <li key={h.id} className="rounded-lg border bg-card px-4 py-3">
+                          <div className="flex items-start justify-between gap-3">
+                            <Link to={h.path} className="text-sm font-medium hover:underline underline-offset-4">
+                              {h.title}
+                            </Link>
+                            <button
+                              className="shrink-0 text-muted-foreground hover:text-foreground"
+                              aria-label={`Remove from history: ${h.title}`}
+                              onClick={() => removeHistoryEntry(h.id)}
+                            >
+                              <X className="size-3.5" />
+                            </button>
+                          </div>
+                          <ProgressLine progress={h.progress} />
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="mt-4 rounded-lg border p-8 text-center text-sm text-muted-foreground">
+            Articles and reflections you open will appear here.
+          </div>
+        )}
+      </section>
+    </Layout>
+  )
+}
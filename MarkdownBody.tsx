@@ -0,0 +1,78 @@
+/**
+ * MarkdownBody.tsx
+ * Renders a string[] body: plain paragraphs as before, or Markdown through lib/markdown
+ * (escaped and sanitized there, so the HTML is safe to inject).
+ * Scripture references become chips (plain) or links to the chapter page (Markdown).
+ */
+
+import { useMemo, type MouseEvent } from 'react'
+import ScriptureText from './ScriptureText'
+import { renderMarkdown, type BodyFormat, type TextLink } from '../lib/markdown'
+import { chapterPath, findReferences, formatReference, getPassageText } from '../lib/scripture'
+import { buildRouteUrl } from '../lib/routing'
+
+/**
+ * MarkdownBodyProps
+ * Body entries, their format, and the wrapper class (spacing between blocks).
+ */
+export interface MarkdownBodyProps {
+  body: string[]
+  format?: BodyFormat
+  className?: string
+  /** Footnote id prefix when several bodies share a page */
+  idPrefix?: string
+}
+
+/** Links scripture references in Markdown text; the verse text becomes the link title. */
+function scriptureLinks(text: string): TextLink[] {
+  return findReferences(text).map(m => {
+    const verses = m.refs.flatMap(getPassageText)
+    const heading = m.refs.map(formatReference).join('; ')
+    return {
+      start: m.start,
+      end: m.end,
+      href: buildRouteUrl('', chapterPath(m.refs[0])),
+      title: verses.length ? `${heading} — ${verses.map(v => v.text).join(' ')}` : heading,
+      className: 'scripture-ref',
+    }
+  })
+}
+
+/**
+ * scrollToFootnote
+ * Footnote links are in-page anchors (#fn-…). Under hash routing the browser would treat them as
+ * routes and leave the article, so scroll to the target here instead of following the link.
+ */
+function scrollToFootnote(e: MouseEvent<HTMLDivElement>) {
+  const link = (e.target as Element).closest?.('a[href^="#"]')
+  const id = link?.getAttribute('href')?.slice(1)
+  const target = id ? document.getElementById(id) : null
+  if (!target || !e.currentTarget.contains(target)) return
+  e.preventDefault()
+  target.scrollIntoView({ behavior: 'smooth', block: 'center' })
+}
+
+/**
+ * MarkdownBody
+ * Plain format keeps one <p> per entry, so existing content renders unchanged.
+ */
+export default function MarkdownBody({ body, format = 'plain', className, idPrefix }: MarkdownBodyProps) {
+  const html = useMemo(
+    () => (format === 'markdown' ? renderMarkdown(body.join('\n\n'), { idPrefix, textLinks: scriptureLinks }) : ''),
+    [body, format, idPrefix]
+  )
+
+  if (format !== 'markdown') {
+    return (
+      <div className={className}>
+        {body.map((p, i) => (
+          <p key={i}>
+            <ScriptureText text={p} />
+          </p>
+        ))}
+      </div>
+    )
+  }
+
+  return <div className={className} onClick={scrollToFootnote} dangerouslySetInnerHTML={{ __html: html }} />
+}
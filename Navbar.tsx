@@ -1,15 +1,18 @@
 /**
  * Navbar.tsx
- * Top navigation bar with branding, primary links, and theme toggle.
+ * Top navigation bar with branding, primary links, search, library, language, and theme toggle.
  */
 
 import { useState } from 'react'
 import { Link, NavLink } from 'react-router'
-import { BookText, Menu, Moon, Sun } from 'lucide-react'
+import { BookText, Library, Menu, Moon, Search, Sun } from 'lucide-react'
 import { Button } from '../components/ui/button'
 import { Separator } from '../components/ui/separator'
 import { useTheme } from 'next-themes'
+import { useTranslation } from 'react-i18next'
+import LanguageSwitcher from './LanguageSwitcher'
 import { siteConfig } from '../config/site'
+import { openSearchPalette } from '../lib/search'
 
 /**
  * NavItem
@@ -27,6 +30,7 @@ interface NavItem {
  */
 export default function Navbar() {
   const { theme, setTheme } = useTheme()
+  const { t } = useTranslation()
   const [open, setOpen] = useState(false)
 
   // Settings link removed; no top-level nav items for now.
@@ -64,22 +68,52 @@ export default function Navbar() {
               </NavLink>
             ))}
             {nav.length > 0 && <Separator orientation="vertical" className="h-6" />}
+            <Button
+              variant="outline"
+              className="bg-transparent gap-2 text-muted-foreground"
+              onClick={openSearchPalette}
+              aria-label={t('nav.search')}
+            >
+              <Search className="size-4" />
+              <span className="text-xs">{t('nav.search')}</span>
+              <kbd className="rounded border bg-muted px-1.5 text-[10px]">⌘K</kbd>
+            </Button>
+            <Link to="/library">
+              <Button variant="outline" className="bg-transparent" aria-label={t('nav.library')}>
+                <Library className="size-4" />
+              </Button>
+            </Link>
+            <LanguageSwitcher />
             <Button
               variant="outline"
               className="bg-transparent"
               onClick={toggleTheme}
-              aria-label="Toggle theme"
+              aria-label={t('nav.toggleTheme')}
             >
               {theme === 'dark' ? <Sun className="size-4" /> : <Moon className="size-4" />}
             </Button>
           </nav>
 
           <div className="md:hidden flex items-center gap-2">
+            <Button
+              variant="outline"
+              className="bg-transparent"
+              onClick={openSearchPalette}
+              aria-label={t('nav.search')}
+            >
+              <Search className="size-4" />
+            </Button>
+            <Link to="/library">
+              <Button variant="outline" className="bg-transparent" aria-label={t('nav.library')}>
+                <Library className="size-4" />
+              </Button>
+            </Link>
+            <LanguageSwitcher />
             <Button
               variant="outline"
               className="bg-transparent"
               onClick={toggleTheme}
-              aria-label="Toggle theme"
+              aria-label={t('nav.toggleTheme')}
             >
               {theme === 'dark' ? <Sun className="size-4" /> : <Moon className="size-4" />}
             </Button>
@@ -88,7 +122,7 @@ export default function Navbar() {
                 variant="outline"
                 className="bg-transparent"
                 onClick={() => setOpen(v => !v)}
-                aria-label="Open menu"
+                aria-label={t('nav.openMenu')}
               >
                 <Menu className="size-4" />
               </Button>
@@ -1,52 +1,73 @@
 /**
  * Newsletter.tsx
- * Newsletter Builder: creates Daily or Weekly digests from generated content with copy/export actions.
+ * Newsletter Builder (admin): previews the Daily or Weekly issue exactly as the sending script
+ * renders it for a given MODE, BASE_DATE, and BASE_URL, in an inbox-style frame, with copy,
+ * mail-draft, and .eml exports.
  */
 
 import { useMemo, useState } from 'react'
 import Layout from '../components/Layout'
+import EmailPreview from '../components/EmailPreview'
 import { Separator } from '../components/ui/separator'
 import { Button } from '../components/ui/button'
+import { Input } from '../components/ui/input'
+import { Calendar } from '../components/ui/calendar'
+import { Popover, PopoverContent, PopoverTrigger } from '../components/ui/popover'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs'
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
-import { CalendarDays, Copy, Mail, RefreshCw } from 'lucide-react'
+import { CalendarDays, ChevronLeft, ChevronRight, Copy, Download, Mail, RefreshCw } from 'lucide-react'
 import { humanizeTheme } from '../lib/contentEngine'
-import { buildDailyDigest, buildWeeklyDigest, buildEmailHtml, buildEmailText } from '../lib/newsletterDigest'
-
-/**
- * formatISO
- * Formats a Date as YYYY-MM-DD for the UI label.
- */
-function formatISO(d: Date): string {
-  return d.toISOString().slice(0, 10)
-}
-
-/**
- * DigestMode
- * Supported digest modes for newsletter generation.
- */
-type DigestMode = 'daily' | 'weekly'
+import { buildNewsletterIssue, type DigestMode } from '../lib/newsletterDigest'
+import { buildEml } from '../lib/eml'
+import { downloadFile } from '../lib/download'
+import {
+  addDays,
+  calendarDateToLocal,
+  calendarDateToSiteInstant,
+  formatCalendarDate,
+  localCalendarDate,
+  siteToday,
+  type CalendarDate,
+} from '../lib/calendarDate'
+import { DEFAULT_LOCALE, withLocale } from '../lib/i18n'
+import { siteConfig } from '../config/site'
+
+/** Recipient shown in the preview and written to exported drafts. */
+const SAMPLE_RECIPIENT = 'subscriber@example.com'
 
 /**
  * NewsletterPage
- * Main UI for building and exporting newsletters.
+ * Main UI for previewing and exporting newsletters.
  */
 export default function NewsletterPage() {
   const [mode, setMode] = useState<DigestMode>('daily')
-  const [baseDate, setBaseDate] = useState<Date>(() => new Date())
+  const [baseDate, setBaseDate] = useState<CalendarDate>(() => siteToday())
+  const [baseUrl, setBaseUrl] = useState<string>(siteConfig.baseUrl)
+  const [copied, setCopied] = useState<string | null>(null)
 
-  // Recompute digest based on mode and base date
-  const digest = useMemo(() => {
-    return mode === 'daily' ? buildDailyDigest(baseDate) : buildWeeklyDigest(baseDate)
-  }, [mode, baseDate])
+  // Same call and locale as the sending script (always English), so the preview is what would go out
+  const issue = useMemo(() => buildNewsletterIssue(mode, baseDate, baseUrl, DEFAULT_LOCALE), [mode, baseDate, baseUrl])
+  const { subject, text, html, digest } = issue
+  const { reflection, articles } = digest
+  const themeLabel = withLocale(DEFAULT_LOCALE, () => humanizeTheme(reflection.theme))
 
-  const { subject, reflection, articles } = digest
+  const from = `${siteConfig.name} <${siteConfig.contactEmail}>`
+  const sendInstant = useMemo(() => calendarDateToSiteInstant(baseDate), [baseDate])
+  const envLine = `MODE=${mode} BASE_DATE=${baseDate}${baseUrl ? ` BASE_URL=${baseUrl}` : ''}`
+  const snippet = `${reflection.title} — ${reflection.body[0] ?? ''}`
 
   /**
    * copyToClipboard
-   * Copies provided text to clipboard with simple visual feedback handled by button label.
+   * Copies provided text to clipboard; the button label confirms briefly.
    */
-  async function copyToClipboard(text: string) {
-    await navigator.clipboard.writeText(text)
+  async function copyToClipboard(value: string, label: string) {
+    try {
+      await navigator.clipboard.writeText(value)
+      setCopied(label)
+      window.setTimeout(() => setCopied(null), 1500)
+    } catch {
+      alert('Copy failed. Your browser may block clipboard access.')
+    }
   }
 
   /**
@@ -54,37 +75,31 @@ export default function NewsletterPage() {
    * Opens the user's mail client with a pre-filled subject and body (plain text).
    */
   function openMailDraft() {
-    const body = buildEmailText(subject, reflection as any, articles.map(a => ({ title: a.title, path: a.path })))
-    const url = `mailto:?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`
+    const url = `mailto:?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(text)}`
     window.location.href = url
   }
 
+  /** Downloads the issue as an .eml draft with plain-text and HTML parts. */
+  function downloadEml() {
+    const eml = buildEml({ from, to: SAMPLE_RECIPIENT, subject, date: sendInstant, text, html, draft: true })
+    downloadFile(`newsletter-${mode}-${baseDate}.eml`, eml, 'message/rfc822')
+  }
+
   /** Go to previous/next period depending on selected mode. */
   function shiftPeriod(delta: number) {
-    const d = new Date(baseDate)
-    d.setDate(baseDate.getDate() + (mode === 'daily' ? delta : delta * 7))
-    setBaseDate(d)
+    setBaseDate(addDays(baseDate, mode === 'daily' ? delta : delta * 7))
   }
 
-  // Prepare derived text/html for export
-  const textExport = useMemo(
-    () => buildEmailText(subject, reflection as any, articles.map(a => ({ title: a.title, path: a.path }))),
-    [subject, reflection, articles]
-  )
-  const htmlExport = useMemo(
-    () => buildEmailHtml(subject, reflection as any, articles.map(a => ({ title: a.title, path: a.path }))),
-    [subject, reflection, articles]
-  )
-
   return (
     <Layout>
       <section className="mx-auto max-w-4xl px-4 py-10">
         <div className="flex items-center gap-3">
-          <CalendarDays className="size-5 text-primary" />
+          <Mail className="size-5 text-primary" />
           <h1 className="text-2xl md:text-3xl font-semibold">Newsletter Builder</h1>
         </div>
         <p className="mt-2 text-sm text-muted-foreground">
-          Compose a Daily or Weekly digest from your self-generating content. Copy HTML/text or open a pre-filled email draft.
+          Preview the Daily or Weekly issue for any send date, exactly as the scheduled sender renders it. Copy the
+          HTML or text, open a pre-filled draft, or download an .eml file.
         </p>
 
         <Separator className="my-6" />
@@ -105,77 +120,116 @@ export default function NewsletterPage() {
             Weekly
           </Button>
 
-          <div className="ml-auto flex items-center gap-2">
-            <Button variant="outline" className="bg-transparent" onClick={() => shiftPeriod(-1)}>
-              Prev {mode === 'daily' ? 'day' : 'week'}
+          <div className="ml-auto flex flex-wrap items-center gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              className="bg-transparent"
+              onClick={() => shiftPeriod(-1)}
+              aria-label={`Previous ${mode === 'daily' ? 'day' : 'week'}`}
+              title={`Previous ${mode === 'daily' ? 'day' : 'week'}`}
+            >
+              <ChevronLeft className="size-4" />
             </Button>
-            <div className="text-sm text-muted-foreground">
-              Base date: <span className="font-medium text-foreground">{formatISO(baseDate)}</span>
-            </div>
-            <Button variant="outline" className="bg-transparent" onClick={() => shiftPeriod(1)}>
-              Next {mode === 'daily' ? 'day' : 'week'}
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="bg-transparent gap-2" title="Send date (BASE_DATE)">
+                  <CalendarDays className="size-4" />
+                  {baseDate}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="end">
+                <Calendar
+                  mode="single"
+                  selected={calendarDateToLocal(baseDate)}
+                  defaultMonth={calendarDateToLocal(baseDate)}
+                  onSelect={d => {
+                    if (d) setBaseDate(localCalendarDate(d))
+                  }}
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+            <Button
+              variant="outline"
+              size="icon"
+              className="bg-transparent"
+              onClick={() => shiftPeriod(1)}
+              aria-label={`Next ${mode === 'daily' ? 'day' : 'week'}`}
+              title={`Next ${mode === 'daily' ? 'day' : 'week'}`}
+            >
+              <ChevronRight className="size-4" />
+            </Button>
+            <Button variant="outline" className="bg-transparent gap-2" onClick={() => setBaseDate(siteToday())}>
+              <RefreshCw className="size-4" /> Today
             </Button>
           </div>
         </div>
 
-        <Separator className="my-6" />
-
-        <Card>
+        <Card className="mt-6">
           <CardHeader>
-            <CardTitle className="text-xl">{subject}</CardTitle>
-            <div className="mt-1 text-xs text-muted-foreground">
-              Reflection: {reflection.title} • {reflection.dateISO} • {humanizeTheme(reflection.theme)}
-            </div>
+            <CardTitle className="text-base">Scheduled send</CardTitle>
+            <p className="text-xs text-muted-foreground">
+              {formatCalendarDate(baseDate, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' }, 'en')} (
+              {siteConfig.timeZone}) • Reflection: {reflection.title} • {themeLabel} • {articles.length}{' '}
+              {articles.length === 1 ? 'article' : 'articles'}
+            </p>
           </CardHeader>
-          <CardContent className="space-y-5 text-sm leading-7">
-            <div>
-              <p className="font-medium">Scripture</p>
-              <p className="text-muted-foreground">“{reflection.scripture.text}” — {reflection.scripture.ref}</p>
-            </div>
-
-            <div>
-              <p className="font-medium">Quote</p>
-              <p className="text-muted-foreground">“{reflection.quote.text}” — {reflection.quote.author}</p>
-            </div>
-
-            {reflection.body.map((p, i) => (
-              <p key={i}>{p}</p>
-            ))}
-
-            <div>
-              <p className="font-medium">Articles in this {mode}</p>
-              <ul className="mt-2 list-disc pl-5 space-y-1">
-                {articles.map(a => (
-                  <li key={a.path}>
-                    <a
-                      className="text-foreground/80 hover:text-foreground underline-offset-4 hover:underline"
-                      href={`/#${a.path}`}
-                      target="_blank"
-                      rel="noreferrer"
-                    >
-                      {a.title}
-                    </a>
-                  </li>
-                ))}
-              </ul>
+          <CardContent className="space-y-3 text-sm">
+            <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+              <label htmlFor="nl-base-url" className="shrink-0 font-mono text-xs text-muted-foreground">
+                BASE_URL
+              </label>
+              <Input
+                id="nl-base-url"
+                value={baseUrl}
+                onChange={e => setBaseUrl(e.target.value)}
+                placeholder="https://yourdomain.com (empty: links use this browser's origin)"
+              />
             </div>
-
-            <div className="pt-2 flex flex-wrap gap-2">
-              <Button className="gap-2" onClick={() => copyToClipboard(textExport)}>
-                <Copy className="size-4" /> Copy Text
-              </Button>
-              <Button className="gap-2" onClick={() => copyToClipboard(htmlExport)}>
-                <Copy className="size-4" /> Copy HTML
-              </Button>
-              <Button variant="outline" className="bg-transparent gap-2" onClick={openMailDraft}>
-                <Mail className="size-4" /> Open email draft
-              </Button>
-              <Button variant="outline" className="bg-transparent gap-2" onClick={() => setBaseDate(new Date())}>
-                <RefreshCw className="size-4" /> Today
+            <div className="flex items-center gap-2">
+              <code className="flex-1 overflow-x-auto whitespace-nowrap rounded-md bg-muted px-3 py-2 text-xs">{envLine}</code>
+              <Button variant="outline" size="sm" className="bg-transparent gap-2" onClick={() => copyToClipboard(envLine, 'env')}>
+                <Copy className="size-3.5" /> {copied === 'env' ? 'Copied' : 'Copy'}
               </Button>
             </div>
           </CardContent>
         </Card>
+
+        <Tabs defaultValue="html" className="mt-6">
+          <TabsList>
+            <TabsTrigger value="html">Email</TabsTrigger>
+            <TabsTrigger value="text">Plain text</TabsTrigger>
+          </TabsList>
+          <TabsContent value="html" className="mt-4">
+            <EmailPreview
+              from={from}
+              to={SAMPLE_RECIPIENT}
+              subject={subject}
+              date={sendInstant.toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short', timeZone: siteConfig.timeZone })}
+              snippet={snippet}
+              html={html}
+            />
+          </TabsContent>
+          <TabsContent value="text" className="mt-4">
+            <pre className="max-h-[640px] overflow-auto whitespace-pre-wrap rounded-lg border bg-muted/40 p-4 text-xs leading-6">{text}</pre>
+          </TabsContent>
+        </Tabs>
+
+        <div className="mt-6 flex flex-wrap gap-2">
+          <Button className="gap-2" onClick={() => copyToClipboard(text, 'text')}>
+            <Copy className="size-4" /> {copied === 'text' ? 'Copied' : 'Copy Text'}
+          </Button>
+          <Button className="gap-2" onClick={() => copyToClipboard(html, 'html')}>
+            <Copy className="size-4" /> {copied === 'html' ? 'Copied' : 'Copy HTML'}
+          </Button>
+          <Button variant="outline" className="bg-transparent gap-2" onClick={downloadEml}>
+            <Download className="size-4" /> Download .eml
+          </Button>
+          <Button variant="outline" className="bg-transparent gap-2" onClick={openMailDraft}>
+            <Mail className="size-4" /> Open email draft
+          </Button>
+        </div>
       </section>
     </Layout>
   )
@@ -1,24 +1,131 @@
 /**
  * NewsletterForm.tsx
- * Disabled placeholder: newsletter feature fully removed.
- * This no-op component ensures any remaining imports won't render UI or cause build errors.
+ * Email subscribe form backed by the configured newsletter provider (siteConfig.newsletter).
+ * Renders nothing when the provider is 'none' or incomplete. Results are shown as toasts and,
+ * after a successful signup, in place of the form.
  */
 
-import React from 'react'
+import { useState, type FormEvent } from 'react'
+import { MailCheck } from 'lucide-react'
+import { toast } from 'sonner'
+import { useTranslation } from 'react-i18next'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { siteConfig } from '../config/site'
+import { HONEYPOT_FIELD, getSubscribeProvider, subscribe } from '../lib/newsletterSubscribe'
 
 /**
  * NewsletterFormProps
- * Retained for compatibility with any existing imports.
+ * `source` names the placement (home, daily, footer) and is passed to the provider.
+ * 'card' is a standalone block with heading; 'compact' fits a footer column.
  */
 export interface NewsletterFormProps {
   placeholder?: string
   cta?: string
+  source?: string
+  variant?: 'card' | 'compact'
+  className?: string
 }
 
 /**
  * NewsletterForm
- * Returns null to render nothing; newsletter functionality is removed.
+ * Email field, hidden honeypot, and submit button with pending, success, and error states.
  */
-export default function NewsletterForm(_: NewsletterFormProps) {
-  return null
+export default function NewsletterForm({ placeholder, cta, source, variant = 'card', className }: NewsletterFormProps) {
+  const { t } = useTranslation()
+  const [provider] = useState(() => getSubscribeProvider())
+  const [email, setEmail] = useState('')
+  const [honeypot, setHoneypot] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [done, setDone] = useState<'confirm' | 'subscribed' | null>(null)
+
+  if (!provider) return null
+
+  async function onSubmit(e: FormEvent) {
+    e.preventDefault()
+    if (busy) return
+    setBusy(true)
+    const result = await subscribe({ email, source, honeypot })
+    setBusy(false)
+
+    if (result.ok) {
+      setDone(result.outcome)
+      if (result.outcome === 'confirm') {
+        toast.success(t('newsletter.confirmTitle'), { description: t('newsletter.confirmText', { email: email.trim() }) })
+      } else {
+        toast.success(t('newsletter.subscribedTitle'), { description: t('newsletter.subscribedText', { email: email.trim() }) })
+      }
+      return
+    }
+    const description =
+      result.error === 'invalid'
+        ? t('newsletter.invalid')
+        : result.error === 'rejected'
+          ? result.message || t('newsletter.rejected')
+          : t('newsletter.network')
+    toast.error(t('newsletter.failed'), { description })
+  }
+
+  const compact = variant === 'compact'
+
+  const body = done ? (
+    <p className="flex items-start gap-2 text-sm text-muted-foreground" role="status">
+      <MailCheck className="mt-0.5 size-4 shrink-0 text-foreground" />
+      {done === 'confirm' ? t('newsletter.confirmText', { email: email.trim() }) : t('newsletter.subscribedText', { email: email.trim() })}
+    </p>
+  ) : (
+    <form onSubmit={onSubmit} className={compact ? 'space-y-2' : 'space-y-3'} noValidate>
+      <div className={compact ? 'flex flex-col gap-2' : 'flex flex-col gap-2 sm:flex-row'}>
+        <label htmlFor={`newsletter-email-${source ?? variant}`} className="sr-only">
+          {t('newsletter.emailLabel')}
+        </label>
+        <Input
+          id={`newsletter-email-${source ?? variant}`}
+          type="email"
+          inputMode="email"
+          autoComplete="email"
+          required
+          value={email}
+          onChange={e => setEmail(e.target.value)}
+          placeholder={placeholder ?? t('newsletter.placeholder')}
+          disabled={busy}
+        />
+        {/* Honeypot: hidden from people and assistive tech; bots that fill it are dropped silently */}
+        <div aria-hidden="true" className="absolute -left-[9999px] h-px w-px overflow-hidden">
+          <input
+            type="text"
+            name={HONEYPOT_FIELD}
+            tabIndex={-1}
+            autoComplete="off"
+            value={honeypot}
+            onChange={e => setHoneypot(e.target.value)}
+          />
+        </div>
+        <Button type="submit" disabled={busy} className={compact ? 'w-full' : 'shrink-0'}>
+          {busy ? t('newsletter.subscribing') : cta ?? t('newsletter.subscribe')}
+        </Button>
+      </div>
+      {siteConfig.newsletter.doubleOptIn && <p className="text-xs text-muted-foreground">{t('newsletter.optInNote')}</p>}
+    </form>
+  )
+
+  if (compact) {
+    return (
+      <div className={className}>
+        <p className="font-medium">{t('newsletter.compactTitle')}</p>
+        <div className="mt-2">{body}</div>
+      </div>
+    )
+  }
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-lg">{t('newsletter.title')}</CardTitle>
+        <p className="text-sm text-muted-foreground">{t('newsletter.description')}</p>
+      </CardHeader>
+      <CardContent>{body}</CardContent>
+    </Card>
+  )
 }
@@ -0,0 +1,120 @@
+/**
+ * ReflectionJournal.tsx
+ * The reflection's questions with a private response box under each, and its prayer with a
+ * "prayed" mark. Responses are saved to the on-device journal as the reader types.
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import { Link } from 'react-router'
+import { Flame, NotebookPen } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Checkbox } from './ui/checkbox'
+import { Textarea } from './ui/textarea'
+import JournalUnlock from './JournalUnlock'
+import type { Reflection } from '../lib/contentEngine'
+import { computeStreaks, journalActivityByDay, journalKey, saveJournalEntry, useJournalStore } from '../lib/journal'
+
+/** Delay before typed answers are written to storage. */
+const SAVE_DELAY_MS = 500
+
+/**
+ * ReflectionJournal
+ * Render with key={dateISO:theme} so drafts reset when the reflection changes.
+ */
+export default function ReflectionJournal({ reflection }: { reflection: Reflection }) {
+  const { t } = useTranslation()
+  const status = useJournalStore(s => s.status)
+  const entry = useJournalStore(s => s.entries[journalKey(reflection.dateISO, reflection.theme)])
+  const entries = useJournalStore(s => s.entries)
+  const [answers, setAnswers] = useState<string[]>(() => entry?.answers ?? [])
+  const saveTimer = useRef<number | null>(null)
+  const pending = useRef<string[] | null>(null)
+  const ready = status === 'ready'
+
+  // Entries arrive after mount (storage load or unlock); adopt them while nothing is being typed
+  useEffect(() => {
+    if (saveTimer.current === null) setAnswers(entry?.answers ?? [])
+  }, [entry])
+
+  /** Writes typed answers now instead of waiting for the timer. */
+  function flush() {
+    if (saveTimer.current !== null) window.clearTimeout(saveTimer.current)
+    saveTimer.current = null
+    if (pending.current) saveJournalEntry(reflection, { answers: pending.current })
+    pending.current = null
+  }
+
+  // Save anything still pending when leaving the page or switching reflections
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  useEffect(() => flush, [])
+
+  /** Updates one answer and schedules a save. */
+  function onAnswer(index: number, value: string) {
+    const next = reflection.questions.map((_, i) => (i === index ? value : answers[i] ?? ''))
+    setAnswers(next)
+    pending.current = next
+    if (saveTimer.current !== null) window.clearTimeout(saveTimer.current)
+    saveTimer.current = window.setTimeout(flush, SAVE_DELAY_MS)
+  }
+
+  const streak = ready ? computeStreaks(journalActivityByDay(entries).keys()).current : 0
+
+  return (
+    <>
+      <div>
+        <p className="font-medium">{t('journal.questions')}</p>
+        {status === 'locked' && <JournalUnlock className="mt-2" />}
+        <ol className="mt-2 list-decimal pl-5 space-y-3">
+          {reflection.questions.map((q, i) => (
+            <li key={i} className="text-muted-foreground">
+              <label htmlFor={`journal-q${i}`}>{q}</label>
+              {ready && (
+                <Textarea
+                  id={`journal-q${i}`}
+                  className="mt-2 text-foreground"
+                  rows={3}
+                  placeholder={t('journal.placeholder')}
+                  value={answers[i] ?? ''}
+                  onChange={e => onAnswer(i, e.target.value)}
+                  onBlur={flush}
+                />
+              )}
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      <div>
+        <p className="font-medium">{t('common.prayer')}</p>
+        <p className="text-muted-foreground">{reflection.prayer}</p>
+        {ready && (
+          <label className="mt-3 flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={!!entry?.prayed}
+              onCheckedChange={v => {
+                flush()
+                saveJournalEntry(reflection, { prayed: v === true })
+              }}
+            />
+            {t('journal.prayed')}
+          </label>
+        )}
+      </div>
+
+      {ready && (
+        <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+          {streak > 0 && (
+            <span className="inline-flex items-center gap-1">
+              <Flame className="size-3.5 text-orange-500" />
+              {t('journal.streak', { count: streak })}
+            </span>
+          )}
+          <Link to="/journal" className="inline-flex items-center gap-1 hover:text-foreground hover:underline underline-offset-4">
+            <NotebookPen className="size-3.5" />
+            {t('journal.open')}
+          </Link>
+        </div>
+      )}
+    </>
+  )
+}
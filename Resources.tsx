@@ -11,144 +11,19 @@ import { Separator } from '../components/ui/separator'
 import { BookOpen, GraduationCap, Headphones, Globe, ScrollText, ExternalLink, Mail, Copy } from 'lucide-react'
 import ResourceCard from '../components/ResourceCard'
 import { getContactMailto, siteConfig } from '../config/site'
+import usePageHead from '../lib/usePageHead'
+import { breadcrumbJsonLd } from '../lib/head'
+import { allResources, resourceCategories, type ResourceCategory, type ResourceIcon } from '../config/curatedResources'
 
-/**
- * Resource
- * Descriptor for a single external resource item.
- */
-export interface Resource {
-  id: string
-  title: string
-  description: string
-  url: string
-  category: ResourceCategory
-  /** Optional: source or owner, displayed as subtle caption */
-  source?: string
-  /** Optional: icon to represent the resource */
-  icon?: React.ReactNode
+/** Icon component for each resource icon name. */
+const resourceIcons: Record<ResourceIcon, React.ReactNode> = {
+  book: <BookOpen className="size-5" />,
+  graduation: <GraduationCap className="size-5" />,
+  globe: <Globe className="size-5" />,
+  scroll: <ScrollText className="size-5" />,
+  headphones: <Headphones className="size-5" />,
 }
 
-/**
- * ResourceCategory
- * Categories used to group resources and filter.
- */
-export type ResourceCategory = 'Beginner' | 'Reference' | 'Reading' | 'Tools' | 'Media'
-
-/**
- * categories
- * Ordered list for the filter controls.
- */
-const categories: ResourceCategory[] = ['Beginner', 'Reference', 'Reading', 'Tools', 'Media']
-
-/**
- * allResources
- * Curated list of useful external links across philosophy and Christian thought.
- * Note: The "Faith & Reason: A Gentle Introduction" now links to an in-site primer for full content.
- */
-const allResources: Resource[] = [
-  {
-    id: 'intro-faith-reason',
-    title: 'Faith & Reason: A Gentle Introduction',
-    description:
-      'A short primer on how classical philosophy and Christian theology converse. Read an on-site overview with Scripture and a simple practice.',
-    // Link internally to the generated primer (full content), not to an image file.
-    url: '/articles/faith-and-reason-primer',
-    category: 'Beginner',
-    source: 'Primer',
-    icon: <BookOpen className="size-5" />,
-  },
-  {
-    id: 'sep',
-    title: 'Stanford Encyclopedia of Philosophy',
-    description: 'Authoritative, peer-reviewed reference entries on philosophers and topics.',
-    url: 'https://plato.stanford.edu/',
-    category: 'Reference',
-    source: 'Stanford',
-    icon: <GraduationCap className="size-5" />,
-  },
-  {
-    id: 'newadvent-catholic-encyclopedia',
-    title: 'Catholic Encyclopedia',
-    description: 'Classic reference work covering Catholic doctrine, history, and theology.',
-    url: 'https://www.newadvent.org/cathen/',
-    category: 'Reference',
-    source: 'New Advent',
-    icon: <Globe className="size-5" />,
-  },
-  {
-    id: 'bible-gateway',
-    title: 'Bible Gateway',
-    description: 'Multiple translations with powerful search—ideal for quick references.',
-    url: 'https://www.biblegateway.com/',
-    category: 'Tools',
-    source: 'Bible Gateway',
-    icon: <Globe className="size-5" />,
-  },
-  {
-    id: 'step-bible',
-    title: 'STEP Bible',
-    description: 'Study tool with original language helps, lexicons, and cross references.',
-    url: 'https://www.stepbible.org/',
-    category: 'Tools',
-    source: 'STEP',
-    icon: <Globe className="size-5" />,
-  },
-  {
-    id: 'early-christian-writings',
-    title: 'Early Christian Writings',
-    description: 'The New Testament and early patristic texts with introductions and links.',
-    url: 'http://www.earlychristianwritings.com/',
-    category: 'Reading',
-    source: 'ECW',
-    icon: <ScrollText className="size-5" />,
-  },
-  {
-    id: 'aquinas-summa',
-    title: 'Aquinas: Summa Theologiae',
-    description: 'Accessible HTML edition of Aquinas’s Summa with indexed articles.',
-    url: 'https://www.newadvent.org/summa/',
-    category: 'Reading',
-    source: 'New Advent',
-    icon: <ScrollText className="size-5" />,
-  },
-  {
-    id: 'augustine-confessions',
-    title: 'Augustine: Confessions',
-    description: 'Full text editions online; a cornerstone of Christian philosophical reflection.',
-    url: 'https://www.ccel.org/ccel/augustine/confess.html',
-    category: 'Reading',
-    source: 'CCEL',
-    icon: <ScrollText className="size-5" />,
-  },
-  {
-    id: 'bibleproject',
-    title: 'The Bible Project',
-    description: 'Animated videos and study notes connecting biblical themes across Scripture.',
-    url: 'https://bibleproject.com/',
-    category: 'Media',
-    source: 'BibleProject',
-    icon: <Headphones className="size-5" />,
-  },
-  {
-    id: 'pints-with-aquinas',
-    title: 'Pints With Aquinas',
-    description: 'Long-form conversations on theology, philosophy, and culture.',
-    url: 'https://pintswithaquinas.com/',
-    category: 'Media',
-    source: 'Podcast',
-    icon: <Headphones className="size-5" />,
-  },
-  {
-    id: 'philosophy-bites',
-    title: 'Philosophy Bites',
-    description: 'Short interviews with leading philosophers—great for quick overviews.',
-    url: 'https://philosophybites.com/',
-    category: 'Media',
-    source: 'Podcast',
-    icon: <Headphones className="size-5" />,
-  },
-]
-
 /**
  * ResourcesPage
  * Displays filters, search, and a responsive grid of resource cards.
@@ -165,6 +40,12 @@ export default function ResourcesPage() {
   const [sNotes, setSNotes] = useState('')
   const [copied, setCopied] = useState<'email' | 'draft' | null>(null)
 
+  usePageHead({
+    title: 'Resources',
+    description: 'Curated references, tools, and media for exploring philosophy and Christian thought.',
+    jsonLd: [breadcrumbJsonLd([{ label: 'Home', to: '/' }, { label: 'Resources' }], '/resources')],
+  })
+
   /**
    * buildDraft
    * Builds the email body content for the suggestion.
@@ -274,7 +155,7 @@ export default function ResourcesPage() {
           >
             All
           </Button>
-          {categories.map((c) => (
+          {resourceCategories.map((c) => (
             <Button
               key={c}
               variant="outline"
@@ -290,7 +171,7 @@ export default function ResourcesPage() {
         {/* Results */}
         <div className="mt-8 grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
           {filtered.map((res) => (
-            <ResourceCard key={res.id} resource={res} />
+            <ResourceCard key={res.id} resource={{ ...res, icon: res.icon && resourceIcons[res.icon] }} />
           ))}
         </div>
 
@@ -0,0 +1,78 @@
+/**
+ * ScriptureChip.tsx
+ * Inline chip for a scripture reference: links to the chapter page and shows the verse
+ * text (bundled KJV) in a hover card.
+ */
+
+import { Link } from 'react-router'
+import { BookOpen } from 'lucide-react'
+import { HoverCard, HoverCardContent, HoverCardTrigger } from './ui/hover-card'
+import {
+  BUNDLED_TRANSLATION,
+  chapterPath,
+  formatReference,
+  getPassageText,
+  type ScriptureRef,
+} from '../lib/scripture'
+
+/**
+ * ScriptureChipProps
+ * Parsed references, the text to show on the chip, and an optional quoted text to use
+ * when the passage is not bundled.
+ */
+export interface ScriptureChipProps {
+  refs: ScriptureRef[]
+  label: string
+  fallbackText?: string
+}
+
+/**
+ * ScriptureChip
+ * The chip keeps the original wording ("Ps 46:10"); the card shows the normalized reference.
+ */
+export default function ScriptureChip({ refs, label, fallbackText }: ScriptureChipProps) {
+  const passages = refs.map(ref => ({ ref, verses: getPassageText(ref) }))
+  const bundled = passages.some(p => p.verses.length > 0)
+
+  return (
+    <HoverCard openDelay={150} closeDelay={100}>
+      <HoverCardTrigger asChild>
+        <Link
+          to={chapterPath(refs[0])}
+          className="inline-flex items-baseline gap-1 rounded-full border border-primary/30 bg-primary/5 px-1.5 text-[0.9em] text-foreground no-underline hover:bg-primary/10"
+        >
+          <BookOpen className="size-3 self-center text-primary" aria-hidden="true" />
+          {label}
+        </Link>
+      </HoverCardTrigger>
+      <HoverCardContent className="w-80 text-sm">
+        {passages.map(({ ref, verses }) => (
+          <div key={formatReference(ref)} className="mb-2 last:mb-0">
+            <div className="text-xs font-medium text-muted-foreground">{formatReference(ref)}</div>
+            {verses.length > 0 && (
+              <p className="mt-1 leading-6">
+                {verses.map(v => (
+                  <span key={`${v.chapter}:${v.verse}`}>
+                    <sup className="mr-0.5 text-[10px] text-muted-foreground">{v.verse}</sup>
+                    {v.text}{' '}
+                  </span>
+                ))}
+              </p>
+            )}
+          </div>
+        ))}
+        {!bundled && (
+          <p className={fallbackText ? 'italic leading-6' : 'text-muted-foreground'}>
+            {fallbackText ? `“${fallbackText}”` : 'Text not available offline.'}
+          </p>
+        )}
+        <div className="mt-2 flex items-center justify-between text-[11px] text-muted-foreground">
+          <span>{bundled ? BUNDLED_TRANSLATION : 'Quoted in the text'}</span>
+          <Link to={chapterPath(refs[0])} className="underline underline-offset-2">
+            Where it’s cited →
+          </Link>
+        </div>
+      </HoverCardContent>
+    </HoverCard>
+  )
+}
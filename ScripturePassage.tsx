@@ -0,0 +1,174 @@
+/**
+ * ScripturePassage.tsx
+ * Chapter page for scripture references: bundled verse text and every article, reflection,
+ * and question that cites the chapter. Reached from the reference chips.
+ */
+
+import { useMemo } from 'react'
+import { Link, useParams } from 'react-router'
+import Layout from '../components/Layout'
+import Breadcrumbs from '../components/Breadcrumbs'
+import { Button } from '../components/ui/button'
+import { Separator } from '../components/ui/separator'
+import { ArrowLeft, ArrowRight, BookOpen } from 'lucide-react'
+import {
+  BUNDLED_TRANSLATION,
+  chapterPath,
+  formatReference,
+  getBook,
+  getPassageText,
+  referenceId,
+  type BibleBook,
+} from '../lib/scripture'
+import { listCitationsForChapter } from '../lib/scriptureCitations'
+import { kindLabel } from '../lib/search'
+import { humanLabel } from '../lib/articleEngine'
+import useOverridesVersion from '../lib/useOverridesVersion'
+import usePageHead from '../lib/usePageHead'
+import { breadcrumbJsonLd, type PageHead } from '../lib/head'
+
+/** Display title for a chapter ("Psalm 46", "John 1"). */
+function chapterTitle(book: BibleBook, chapter: number): string {
+  return formatReference({ book: book.id, chapter })
+}
+
+/**
+ * passageHead
+ * Head tags for a chapter page.
+ */
+function passageHead(book: BibleBook, chapter: number): PageHead {
+  const title = chapterTitle(book, chapter)
+  const path = chapterPath({ book: book.id, chapter })
+  return {
+    title,
+    description: `Articles and daily reflections citing ${title}, with the ${BUNDLED_TRANSLATION} text.`,
+    jsonLd: [breadcrumbJsonLd([{ label: 'Home', to: '/' }, { label: title }], path)],
+  }
+}
+
+/**
+ * ScripturePassagePage
+ * Route: /scripture/:book/:chapter (book is the slug from the book table, e.g., "1-peter").
+ */
+export default function ScripturePassagePage() {
+  const params = useParams()
+  const book = getBook(params.book || '')
+  const chapter = parseInt(params.chapter || '', 10)
+  const valid = !!book && chapter >= 1 && chapter <= book.chapters
+  const version = useOverridesVersion()
+  usePageHead(book && valid ? passageHead(book, chapter) : { title: 'Passage not found' })
+
+  const verses = useMemo(() => (book && valid ? getPassageText({ book: book.id, chapter }) : []), [valid, book, chapter])
+  const citations = useMemo(
+    () => (book && valid ? listCitationsForChapter(book.id, chapter, version) : []),
+    [valid, book, chapter, version]
+  )
+
+  if (!book || !valid) {
+    return (
+      <Layout>
+        <section className="mx-auto max-w-3xl px-4 py-10">
+          <Breadcrumbs items={[{ label: 'Home', to: '/' }, { label: 'Scripture' }, { label: 'Not found' }]} />
+          <p className="mt-3 text-sm text-muted-foreground">That book or chapter was not found.</p>
+          <div className="mt-4">
+            <Link to="/">
+              <Button variant="outline" className="bg-transparent gap-2">
+                <ArrowLeft className="size-4" />
+                Back Home
+              </Button>
+            </Link>
+          </div>
+        </section>
+      </Layout>
+    )
+  }
+
+  const title = chapterTitle(book, chapter)
+
+  return (
+    <Layout>
+      <section className="mx-auto max-w-3xl px-4 py-8 md:py-10">
+        <Breadcrumbs items={[{ label: 'Home', to: '/' }, { label: 'Scripture' }, { label: title }]} />
+
+        <div className="mt-3 flex items-start justify-between gap-4">
+          <div>
+            <h1 className="flex items-center gap-2 text-2xl md:text-3xl font-semibold">
+              <BookOpen className="size-6 text-primary" />
+              {title}
+            </h1>
+            <p className="mt-2 text-sm text-muted-foreground">
+              {book.testament === 'old' ? 'Old Testament' : 'New Testament'} • {book.name}, chapter {chapter} of {book.chapters}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {chapter > 1 && (
+              <Link to={chapterPath({ book: book.id, chapter: chapter - 1 })}>
+                <Button variant="outline" size="icon" className="bg-transparent" aria-label="Previous chapter">
+                  <ArrowLeft className="size-4" />
+                </Button>
+              </Link>
+            )}
+            {chapter < book.chapters && (
+              <Link to={chapterPath({ book: book.id, chapter: chapter + 1 })}>
+                <Button variant="outline" size="icon" className="bg-transparent" aria-label="Next chapter">
+                  <ArrowRight className="size-4" />
+                </Button>
+              </Link>
+            )}
+          </div>
+        </div>
+
+        <div className="mt-6 rounded-xl border bg-card p-4">
+          {verses.length > 0 ? (
+            <>
+              <p className="text-sm leading-7">
+                {verses.map(v => (
+                  <span key={v.verse} id={`v${v.verse}`}>
+                    <sup className="mr-1 text-[10px] font-medium text-muted-foreground">{v.verse}</sup>
+                    {v.text}{' '}
+                  </span>
+                ))}
+              </p>
+              <p className="mt-3 text-[11px] text-muted-foreground">
+                {BUNDLED_TRANSLATION} (public domain). Only verses cited on this site are included.
+              </p>
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">No verses from this chapter are bundled with the site yet.</p>
+          )}
+        </div>
+
+        <Separator className="my-6" />
+
+        <h2 className="text-lg font-semibold">Cited in</h2>
+        {citations.length > 0 ? (
+          <ul className="mt-4 grid gap-3">
+            {citations.map(({ doc, refs }) => (
+              <li key={doc.id} className="rounded-xl border bg-card p-4">
+                <div className="flex flex-wrap items-center gap-2 text-[10px] uppercase tracking-wide text-muted-foreground">
+                  <span>{kindLabel(doc.kind)}</span>
+                  {doc.topic && <span>• {humanLabel(doc.topic)}</span>}
+                  {doc.dateISO && <span>• {doc.dateISO}</span>}
+                </div>
+                <Link to={doc.path} className="mt-1 block font-medium hover:underline underline-offset-4">
+                  {doc.title}
+                </Link>
+                <div className="mt-2 flex flex-wrap gap-1.5">
+                  {Array.from(new Map(refs.map(r => [referenceId(r), r])).values()).map(r => (
+                    <span key={referenceId(r)} className="rounded-full border px-2 py-0.5 text-xs text-foreground/80">
+                      {formatReference(r)}
+                    </span>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="mt-4 rounded-lg border p-8 text-center text-sm text-muted-foreground">
+            Nothing on the site cites {title} right now.
+          </div>
+        )}
+      </section>
+    </Layout>
+  )
+}
@@ -0,0 +1,37 @@
+/**
+ * ScriptureText.tsx
+ * Renders free text with every scripture reference turned into a ScriptureChip.
+ */
+
+import { Fragment, useMemo } from 'react'
+import ScriptureChip from './ScriptureChip'
+import { findReferences } from '../lib/scripture'
+
+/**
+ * ScriptureTextProps
+ * Text to scan; fallbackText is shown in the card when a passage is not bundled
+ * (e.g., the quotation that accompanies a single reference).
+ */
+export interface ScriptureTextProps {
+  text: string
+  fallbackText?: string
+}
+
+/**
+ * ScriptureText
+ * Text without references renders as-is (no wrapper element).
+ */
+export default function ScriptureText({ text, fallbackText }: ScriptureTextProps) {
+  const matches = useMemo(() => findReferences(text), [text])
+  if (matches.length === 0) return <>{text}</>
+
+  const parts: React.ReactNode[] = []
+  let cursor = 0
+  matches.forEach((m, i) => {
+    if (m.start > cursor) parts.push(<Fragment key={`t${i}`}>{text.slice(cursor, m.start)}</Fragment>)
+    parts.push(<ScriptureChip key={`r${i}`} refs={m.refs} label={m.raw} fallbackText={fallbackText} />)
+    cursor = m.end
+  })
+  if (cursor < text.length) parts.push(<Fragment key="tail">{text.slice(cursor)}</Fragment>)
+  return <>{parts}</>
+}
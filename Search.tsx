@@ -0,0 +1,170 @@
+/**
+ * Search.tsx
+ * Full search results page driven by ?q=, with filters by kind (&kind=) and topic (&topic=).
+ * Uses the shared client-side index from lib/search.
+ */
+
+import { useEffect, useMemo, useState } from 'react'
+import { Link, useLocation, useNavigate } from 'react-router'
+import Layout from '../components/Layout'
+import Breadcrumbs from '../components/Breadcrumbs'
+import HighlightedText from '../components/HighlightedText'
+import { Button } from '../components/ui/button'
+import { Input } from '../components/ui/input'
+import { Separator } from '../components/ui/separator'
+import { ExternalLink, Search as SearchIcon } from 'lucide-react'
+import useOverridesVersion from '../lib/useOverridesVersion'
+import { topics, humanLabel, type TopicKey } from '../lib/articleEngine'
+import { getSearchIndex, searchDocs, searchKinds, kindLabel, isExternalPath, type SearchKind } from '../lib/search'
+
+/**
+ * parseQuery
+ * Reads q, kind, and topic from the hash-based search string.
+ */
+function parseQuery(search: string) {
+  const params = new URLSearchParams(search.replace(/^\?/, ''))
+  const kind = params.get('kind') as SearchKind | null
+  const topic = params.get('topic') as TopicKey | null
+  return {
+    q: params.get('q') ?? '',
+    kind: kind && searchKinds.includes(kind) ? kind : null,
+    topic: topic && topics.some(t => t.key === topic) ? topic : null,
+  }
+}
+
+/**
+ * FilterPill
+ * Small toggle pill used for kind/topic filters.
+ */
+function FilterPill({ label, active, onClick }: { label: string; active: boolean; onClick: () => void }) {
+  return (
+    <button
+      className={[
+        'px-3 py-1 rounded-full text-xs transition-colors border',
+        active ? 'bg-primary text-primary-foreground border-transparent' : 'bg-background hover:bg-accent text-foreground/80',
+      ].join(' ')}
+      onClick={onClick}
+      aria-pressed={active}
+    >
+      {label}
+    </button>
+  )
+}
+
+/**
+ * SearchPage
+ * Search box, filters, and ranked results with highlighted snippets.
+ */
+export default function SearchPage() {
+  const location = useLocation()
+  const navigate = useNavigate()
+  const version = useOverridesVersion()
+  const { q, kind, topic } = useMemo(() => parseQuery(location.search), [location.search])
+  const [draft, setDraft] = useState(q)
+
+  // Keep the input in sync when the query changes via navigation (e.g., from the palette)
+  useEffect(() => {
+    setDraft(q)
+  }, [q])
+
+  const results = useMemo(
+    () => searchDocs(getSearchIndex(version), q, { kinds: kind ? [kind] : undefined, topic: topic ?? undefined }),
+    [q, kind, topic, version]
+  )
+
+  /** Updates one query param and navigates, dropping empty values. */
+  function setParam(name: 'q' | 'kind' | 'topic', value: string | null) {
+    const params = new URLSearchParams(location.search.replace(/^\?/, ''))
+    if (value) params.set(name, value)
+    else params.delete(name)
+    navigate({ pathname: '/search', search: `?${params.toString()}` })
+  }
+
+  return (
+    <Layout>
+      <section className="mx-auto max-w-4xl px-4 py-10">
+        <Breadcrumbs items={[{ label: 'Home', to: '/' }, { label: 'Search' }]} />
+
+        <h1 className="mt-4 text-2xl md:text-3xl font-semibold">Search</h1>
+        <form
+          className="mt-4 flex gap-2"
+          onSubmit={e => {
+            e.preventDefault()
+            setParam('q', draft.trim() || null)
+          }}
+        >
+          <Input
+            aria-label="Search the site"
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            placeholder="Try “beatitudes”, “lectio”, or “hope”"
+          />
+          <Button type="submit" className="gap-2">
+            <SearchIcon className="size-4" />
+            Search
+          </Button>
+        </form>
+        <p className="mt-2 text-xs text-muted-foreground">Tip: press Ctrl K (⌘K on Mac) anywhere to search.</p>
+
+        <div className="mt-5 flex flex-wrap gap-2">
+          <FilterPill label="All" active={!kind} onClick={() => setParam('kind', null)} />
+          {searchKinds.map(k => (
+            <FilterPill key={k} label={kindLabel(k)} active={kind === k} onClick={() => setParam('kind', k)} />
+          ))}
+        </div>
+        <div className="mt-2 flex flex-wrap gap-2">
+          <FilterPill label="Any topic" active={!topic} onClick={() => setParam('topic', null)} />
+          {topics.map(t => (
+            <FilterPill key={t.key} label={t.label} active={topic === t.key} onClick={() => setParam('topic', t.key)} />
+          ))}
+        </div>
+
+        <Separator className="my-6" />
+
+        {q.trim() ? (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {results.length} {results.length === 1 ? 'result' : 'results'} for “{q.trim()}”
+            </p>
+            <ul className="mt-4 grid gap-4">
+              {results.map(r => (
+                <li key={r.doc.id} className="rounded-xl border bg-card p-4">
+                  <div className="flex flex-wrap items-center gap-2 text-[10px] uppercase tracking-wide text-muted-foreground">
+                    <span>{kindLabel(r.doc.kind)}</span>
+                    {r.doc.topic && <span>• {humanLabel(r.doc.topic)}</span>}
+                    {r.doc.dateISO && <span>• {r.doc.dateISO}</span>}
+                  </div>
+                  {isExternalPath(r.doc.path) ? (
+                    <a
+                      href={r.doc.path}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="mt-1 inline-flex items-center gap-1 font-medium hover:underline underline-offset-4"
+                    >
+                      <HighlightedText snippet={r.title} />
+                      <ExternalLink className="size-3.5" />
+                    </a>
+                  ) : (
+                    <Link to={r.doc.path} className="mt-1 block font-medium hover:underline underline-offset-4">
+                      <HighlightedText snippet={r.title} />
+                    </Link>
+                  )}
+                  <HighlightedText snippet={r.snippet} className="mt-1 block text-sm text-muted-foreground" />
+                </li>
+              ))}
+            </ul>
+            {results.length === 0 && (
+              <div className="mt-6 rounded-lg border p-8 text-center text-sm text-muted-foreground">
+                No matches. Try fewer words or clear the filters.
+              </div>
+            )}
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Search across recent articles and reflections, topics, Big Questions, and resources.
+          </p>
+        )}
+      </section>
+    </Layout>
+  )
+}
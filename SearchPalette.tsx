@@ -0,0 +1,148 @@
+/**
+ * SearchPalette.tsx
+ * Global Cmd-K / Ctrl-K search palette built on the command UI component.
+ * Shows the top matches grouped by kind and links through to the full /search page.
+ */
+
+import { useEffect, useMemo, useState } from 'react'
+import { useNavigate } from 'react-router'
+import { Dialog, DialogContent, DialogTitle } from './ui/dialog'
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from './ui/command'
+import { BookOpen, CalendarDays, Compass, ExternalLink, HelpCircle, Search } from 'lucide-react'
+import HighlightedText from './HighlightedText'
+import useOverridesVersion from '../lib/useOverridesVersion'
+import {
+  getSearchIndex,
+  searchDocs,
+  searchKinds,
+  kindLabel,
+  isExternalPath,
+  SEARCH_OPEN_EVENT,
+  type SearchKind,
+  type SearchResult,
+} from '../lib/search'
+
+/** Max results shown per kind in the palette. */
+const PER_KIND = 4
+
+/**
+ * iconFor
+ * Small icon per result kind.
+ */
+function iconFor(kind: SearchKind) {
+  switch (kind) {
+    case 'article':
+      return <BookOpen />
+    case 'reflection':
+      return <CalendarDays />
+    case 'topic':
+      return <Compass />
+    case 'question':
+      return <HelpCircle />
+    case 'resource':
+      return <ExternalLink />
+  }
+}
+
+/**
+ * SearchPalette
+ * Mount once inside the router; opens on Cmd/Ctrl-K or SEARCH_OPEN_EVENT.
+ */
+export default function SearchPalette() {
+  const navigate = useNavigate()
+  const version = useOverridesVersion()
+  const [open, setOpen] = useState(false)
+  const [query, setQuery] = useState('')
+
+  // Keyboard shortcut + programmatic open
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault()
+        setOpen(v => !v)
+      }
+    }
+    const onOpen = () => setOpen(true)
+    window.addEventListener('keydown', onKey)
+    window.addEventListener(SEARCH_OPEN_EVENT, onOpen as EventListener)
+    return () => {
+      window.removeEventListener('keydown', onKey)
+      window.removeEventListener(SEARCH_OPEN_EVENT, onOpen as EventListener)
+    }
+  }, [])
+
+  // Build the index lazily, only once the palette is first used
+  const grouped = useMemo(() => {
+    if (!open || !query.trim()) return [] as Array<{ kind: SearchKind; items: SearchResult[] }>
+    const results = searchDocs(getSearchIndex(version), query)
+    return searchKinds
+      .map(kind => ({ kind, items: results.filter(r => r.doc.kind === kind).slice(0, PER_KIND) }))
+      .filter(g => g.items.length > 0)
+  }, [open, query, version])
+
+  /** Opens a result: internal routes via the router, resources in a new tab. */
+  function go(path: string) {
+    setOpen(false)
+    if (isExternalPath(path)) {
+      window.open(path, '_blank', 'noopener,noreferrer')
+    } else {
+      navigate(path)
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={v => {
+        setOpen(v)
+        if (!v) setQuery('')
+      }}
+    >
+      <DialogContent className="overflow-hidden p-0">
+        <DialogTitle className="sr-only">Search</DialogTitle>
+        {/* Ranking is ours, so cmdk's built-in filtering is disabled */}
+        <Command shouldFilter={false} className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-2">
+          <CommandInput value={query} onValueChange={setQuery} placeholder="Search articles, reflections, topics…" />
+          <CommandList className="max-h-[420px]">
+            {query.trim() && <CommandEmpty>No results found.</CommandEmpty>}
+            {grouped.map(g => (
+              <CommandGroup key={g.kind} heading={kindLabel(g.kind)}>
+                {g.items.map(r => (
+                  <CommandItem key={r.doc.id} value={r.doc.id} onSelect={() => go(r.doc.path)}>
+                    {iconFor(r.doc.kind)}
+                    <div className="min-w-0">
+                      <HighlightedText snippet={r.title} className="block truncate" />
+                      <HighlightedText snippet={r.snippet} className="block truncate text-xs text-muted-foreground" />
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            ))}
+            {grouped.length > 0 && (
+              <>
+                <CommandSeparator />
+                <CommandGroup>
+                  <CommandItem
+                    value="__all"
+                    onSelect={() => go(`/search?q=${encodeURIComponent(query.trim())}`)}
+                  >
+                    <Search />
+                    See all results for “{query.trim()}”
+                  </CommandItem>
+                </CommandGroup>
+              </>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  )
+}
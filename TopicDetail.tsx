@@ -12,9 +12,15 @@ import { Button } from '../components/ui/button'
 import IconBadge from '../components/IconBadge'
 import ArticleCard from '../components/ArticleCard'
 import Breadcrumbs from '../components/Breadcrumbs'
+import ScriptureText from '../components/ScriptureText'
 import { useMemo } from 'react'
 import { listArticlesForDate, topics as topicRegistry, humanLabel } from '../lib/articleEngine'
 import type { TopicKey } from '../lib/articleEngine'
+import { siteToday, type CalendarDate } from '../lib/calendarDate'
+import { getTopicImage } from '../lib/imageOverrides'
+import usePageHead from '../lib/usePageHead'
+import { breadcrumbJsonLd, type PageHead } from '../lib/head'
+import { contentFor } from '../config/topicContent'
 import {
   Compass,
   Scale,
@@ -86,76 +92,11 @@ function toneFor(topic: TopicKey): 'indigo' | 'emerald' | 'amber' | 'rose' | 'sk
   }
 }
 
-/**
- * contentFor
- * Curated descriptions, themes, questions, and practices per topic.
- */
-function contentFor(topic: TopicKey) {
-  const desc: Record<TopicKey, string> = {
-    'faith-and-reason':
-      'How faith and inquiry illuminate each other. We think with the Church, trusting that truth is unified in Christ.',
-    ethics:
-      'From virtue to beatitude: the shape of a life formed by grace. We learn to desire and do the good in love.',
-    metaphysics:
-      'Questions of being, causality, and participation. Creation as gift invites wonder and wise first principles.',
-    theology:
-      'Speaking rightly of God with reverence and clarity. The Cross and Trinity shape Christian understanding.',
-    scripture:
-      'Hearing the living Word with the Church. Reading becomes communion that reforms our minds and hearts.',
-    aesthetics:
-      'Beauty as a path to God. Form and radiance awaken the soul to the True and the Good.',
-    history:
-      'Receiving wisdom from the saints. The Spirit renews the Church in every age through faithful witnesses.',
-    apologetics:
-      'Giving reasons for hope with gentleness and confidence in Christ. Truth is compelling without coercion.',
-  }
-
-  const themes: Record<TopicKey, string[]> = {
-    'faith-and-reason': ['Logos and love', 'Unity of truth', 'Humility of inquiry'],
-    ethics: ['Virtue & habit', 'Conscience formed in grace', 'Beatitudes'],
-    metaphysics: ['Being & participation', 'Contingency & Creator', 'Final causality'],
-    theology: ['Trinity & unity', 'Incarnation & Cross', 'Grace & nature'],
-    scripture: ['Lectio divina', 'Canon & tradition', 'Word and worship'],
-    aesthetics: ['Form & radiance', 'Icon and image', 'Beauty and desire'],
-    history: ['Fathers & Doctors', 'Councils & renewal', 'Witness & martyrdom'],
-    apologetics: ['Hope with gentleness', 'Truth in public square', 'Reason & charity'],
-  }
-
-  const questions: Record<TopicKey, string[]> = {
-    'faith-and-reason': ['How does inquiry deepen trust?', 'Where do reason and revelation meet?'],
-    ethics: ['What forms character?', 'How do the Beatitudes shape choices?'],
-    metaphysics: ['Why is there something rather than nothing?', 'How does creation participate in being?'],
-    theology: ['What does it mean to speak of God well?', 'How does the Cross interpret everything?'],
-    scripture: ['How do I hear Scripture as living Word?', 'What is the role of the Church in reading?'],
-    aesthetics: ['Why does beauty move us toward truth?', 'How does art become prayer?'],
-    history: ['Which witnesses speak to our moment?', 'What renewals repeat across ages?'],
-    apologetics: ['How do I answer with gentleness?', 'Where is confidence rooted—in Christ or victory?'],
-  }
-
-  const practices: Record<TopicKey, string[]> = {
-    'faith-and-reason': ['Journal one honest question and pray with it', 'Read a short paragraph from a Doctor of the Church'],
-    ethics: ['Name one virtue to practice today', 'Reconcile intention with a small concrete act'],
-    metaphysics: ['Spend five minutes in wonder outdoors', 'Trace a cause to its first principles'],
-    theology: ['Pray the Creed slowly', 'Read one paragraph from a classic catechism'],
-    scripture: ['Practice lectio divina (read, meditate, pray, contemplate)', 'Memorize a short verse'],
-    aesthetics: ['Sit with a sacred image for two minutes', 'Create something simple and offer it to God'],
-    history: ['Read a saint’s short biography', 'Name one practice from the past to recover'],
-    apologetics: ['Write a gentle answer to a common question', 'Pray for someone who disagrees with you'],
-  }
-
-  return {
-    description: desc[topic],
-    themes: themes[topic],
-    questions: questions[topic],
-    practices: practices[topic],
-  }
-}
-
 /**
  * verseFor
- * Provides a small verse/quote for the given topic. Picks deterministically by date.
+ * Provides a small verse/quote for the given topic. Picks deterministically by day.
  */
-function verseFor(topic: TopicKey, date = new Date()): { text: string; ref: string } {
+function verseFor(topic: TopicKey, day: CalendarDate = siteToday()): { text: string; ref: string } {
   const verses: Record<TopicKey, { text: string; ref: string }[]> = {
     'faith-and-reason': [
       { text: 'In your light do we see light.', ref: 'Psalm 36:9' },
@@ -191,10 +132,26 @@ function verseFor(topic: TopicKey, date = new Date()): { text: string; ref: stri
     ],
   }
   const arr = verses[topic]
-  const index = (date.getDate() + date.getMonth()) % arr.length
+  const [, month, date] = day.split('-').map(Number)
+  const index = (date + month - 1) % arr.length
   return arr[index]
 }
 
+/**
+ * topicHead
+ * Head tags for a topic page: description, topic image (overrides first), and breadcrumbs.
+ */
+function topicHead(topic: TopicKey): PageHead {
+  const label = humanLabel(topic)
+  const path = `/topics/${topic}`
+  return {
+    title: label,
+    description: contentFor(topic).description,
+    image: getTopicImage(topic, ''),
+    jsonLd: [breadcrumbJsonLd([{ label: 'Home', to: '/' }, { label: 'Topics', to: '/topics' }, { label }], path)],
+  }
+}
+
 /**
  * TopicDetailPage
  * Renders the topic content based on URL param and lists latest readings for that topic.
@@ -203,6 +160,7 @@ export default function TopicDetailPage() {
   const params = useParams()
   const topicParam = (params.topic || '') as TopicKey
   const topicMeta = topicRegistry.find(t => t.key === topicParam)
+  usePageHead(topicMeta ? topicHead(topicMeta.key) : { title: 'Topic not found' })
 
   // Guard: invalid topic
   if (!topicMeta) {
@@ -233,10 +191,10 @@ export default function TopicDetailPage() {
 
   // Generate a small set of latest readings for this topic (deterministic for today)
   const articles = useMemo(() => {
-    const today = new Date()
-    // Generate 4 per topic and then filter; we only keep items whose ID starts with the topic key
+    const today = siteToday()
+    // Generate 4 per topic and then filter by topic (authored pieces for the day come first)
     const all = listArticlesForDate(today, 4)
-    return all.filter(a => a.id.startsWith(`${topicMeta.key}-`)).slice(0, 4)
+    return all.filter(a => a.topic === topicMeta.key).slice(0, 4)
   }, [topicMeta.key])
 
   return (
@@ -275,7 +233,9 @@ export default function TopicDetailPage() {
             <IconBadge icon={<Quote />} tone={tone} size="sm" className="shrink-0" />
             <div>
               <div className="text-sm italic text-foreground/90">“{verse.text}”</div>
-              <div className="mt-1 text-xs text-muted-foreground">{verse.ref}</div>
+              <div className="mt-1 text-xs text-muted-foreground">
+                <ScriptureText text={verse.ref} fallbackText={verse.text} />
+              </div>
             </div>
           </div>
         </div>
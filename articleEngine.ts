@@ -8,9 +8,20 @@
  * - Title-aware imagery: extract significant words from the title and blend with topic keywords.
  * - Deterministic but diverse style words/colors to avoid duplicates across articles.
  * - Retains remote override precedence via imageOverrides utilities elsewhere.
+ * - Localized text: pools are overlaid with the active locale's translations (articleTranslations);
+ *   seeds and image queries stay locale-independent.
+ * - Scheduled mode (siteConfig.articles): parts follow seeded permutations of each pool by day and slot,
+ *   so a topic's articles on one day never share a title or body; still reconstructible from the ID.
  */
 
 import type { Article as ArticleCardType } from '../components/ArticleCard'
+import type { AuthoredArticle } from '../config/authored'
+import { authoredStatus, findAuthoredArticle, listAuthoredForDate } from './authoredArticles'
+import { markdownToText, type BodyFormat } from './markdown'
+import { getLocale, localizePool } from './i18n'
+import { calendarDateToUTC, siteToday, type CalendarDate } from './calendarDate'
+import { articleTranslations } from './articleTranslations'
+import { siteConfig } from '../config/site'
 
 /**
  * TopicKey
@@ -97,6 +108,51 @@ function sampleDeterministic<T>(arr: T[], count: number, seed: number): T[] {
   return rotated.slice(0, count)
 }
 
+/**
+ * permutation
+ * Seeded Fisher–Yates shuffle of 0..n-1 (same order for the same seed).
+ */
+function permutation(n: number, seed: number): number[] {
+  const order = Array.from({ length: n }, (_, i) => i)
+  let s = seed >>> 0
+  for (let i = n - 1; i > 0; i--) {
+    s = (Math.imul(s, 1664525) + 1013904223) >>> 0
+    const j = s % (i + 1)
+    ;[order[i], order[j]] = [order[j], order[i]]
+  }
+  return order
+}
+
+/** Non-negative remainder (slot positions before index 1 are negative). */
+function wrap(n: number, length: number): number {
+  return ((n % length) + length) % length
+}
+
+/**
+ * schedulePosition
+ * Global slot of an article in scheduled mode (day number × slots per day + index), or null when
+ * the article uses hashed picks (hashed mode, a day before scheduledFrom, or an index outside the
+ * day's slots, which would otherwise land on the next day's positions).
+ */
+function schedulePosition(dateISO: CalendarDate, index: number): number | null {
+  const { mode, slotsPerDay, scheduledFrom } = siteConfig.articles
+  if (mode !== 'scheduled' || (scheduledFrom && dateISO < scheduledFrom)) return null
+  const slots = Math.max(1, slotsPerDay)
+  if (index < 1 || index > slots) return null
+  const day = Math.floor(calendarDateToUTC(dateISO).getTime() / 86_400_000)
+  return day * slots + (index - 1)
+}
+
+/**
+ * choose
+ * Picks from a pool by seed (hashed) or by walking a fixed permutation of the pool (scheduled).
+ * Consecutive positions never repeat an entry until the whole pool has been used.
+ */
+function choose<T>(arr: T[], seed: number, position: number | null, salt: string): T {
+  if (position === null) return pick(arr, seed)
+  return arr[permutation(arr.length, hash(salt))[wrap(position, arr.length)]]
+}
+
 /**
  * titlePool
  * Topic-flavored title fragments to assemble article titles.
@@ -409,27 +465,22 @@ const quotePool: Array<{ text: string; author: string }> = [
   { text: 'He who has God and everything else has no more than he who has God only.', author: 'C. S. Lewis' },
 ]
 
-/**
- * toDateISO
- * Normalizes Date to YYYY-MM-DD.
- */
-function toDateISO(d: Date): string {
-  return d.toISOString().slice(0, 10)
-}
-
 /**
  * articleId
  * Creates a stable ID encoding topic, date, and index.
+ * Exported so build scripts can enumerate article URLs without generating bodies.
  */
-function articleId(topic: TopicKey, dateISO: string, index: number): string {
+export function articleId(topic: TopicKey, dateISO: CalendarDate, index: number): string {
   return `${topic}-${dateISO.replace(/-/g, '')}-${index}`
 }
 
 /**
  * humanLabel
- * Retrieves a display label for a topic key.
+ * Retrieves a display label for a topic key, in the active locale.
  */
 export function humanLabel(topic: TopicKey): string {
+  const translated = articleTranslations[getLocale()]?.topicLabels?.[topic]
+  if (translated) return translated
   const meta = topics.find(t => t.key === topic)
   return meta ? meta.label : topic
 }
@@ -448,20 +499,23 @@ function keywordFor(topic: TopicKey): string {
  * Builds a topic-specific body using deterministic sampling, scripture, and practice.
  * The result is 4–6 paragraphs varying per article.
  */
-function buildBody(topic: TopicKey, seed: number): string[] {
-  // Choose core paragraphs (3–4)
+function buildBody(topic: TopicKey, seed: number, position: number | null = null): string[] {
+  const tr = articleTranslations[getLocale()]
+
+  // Choose core paragraphs (3–4); scheduled articles start one paragraph further along per slot
   const baseCount = 3 + (seed % 2) // 3 or 4
-  const core = sampleDeterministic(paragraphsByTopic[topic], baseCount, seed + 101)
+  const paragraphs = localizePool(paragraphsByTopic[topic], tr?.paragraphs?.[topic])
+  const core = sampleDeterministic(paragraphs, baseCount, position === null ? seed + 101 : wrap(position, paragraphs.length))
 
   // Scripture reflection (1)
-  const scr = pick(scriptureByTopic[topic], seed + 211)
-  const scripturePara = `Scripture: “${scr.text}” (${scr.ref}).`
+  const scr = choose(localizePool(scriptureByTopic[topic], tr?.scripture?.[topic]), seed + 211, position, `${topic}|scripture`)
+  const scripturePara = `${tr?.scriptureLabel ?? 'Scripture'}: “${scr.text}” (${scr.ref}).`
 
   // One connective (1)
-  const connect = pick(generalConnective, seed + 307)
+  const connect = choose(localizePool(generalConnective, tr?.connectives), seed + 307, position, `${topic}|connective`)
 
   // Practice (1)
-  const practice = pick(practiceByTopic[topic], seed + 409)
+  const practice = choose(localizePool(practiceByTopic[topic], tr?.practices?.[topic]), seed + 409, position, `${topic}|practice`)
 
   // Compose with slight order variation; keep paragraphs simple and readable
   const paras: string[] = []
@@ -475,9 +529,9 @@ function buildBody(topic: TopicKey, seed: number): string[] {
 
 /**
  * parseArticleId
- * Parses an article ID back to its components or returns null if invalid.
+ * Parses an article ID back to its components or returns null if invalid (inverse of articleId).
  */
-function parseArticleId(id: string): { topic: TopicKey; dateISO: string; index: number } | null {
+export function parseArticleId(id: string): { topic: TopicKey; dateISO: CalendarDate; index: number } | null {
   const m = id.match(/^([a-z-]+)-(\d{8})-(\d+)$/)
   if (!m) return null
   const topic = m[1] as TopicKey
@@ -540,46 +594,112 @@ function buildImageQuery(topic: TopicKey, title: string, seed: number): string {
 }
 
 /**
- * generateArticleCore
- * Internal builder for a single article object given topic, date, and index.
- * Adds deterministic image variety using a topic keyword plus seeded style words and title terms.
+ * articleImageQuery
+ * The Smart Placeholder query for a generated article (same seeds as generateArticleCore).
+ * Exported for the variety report, which measures how often two articles share a query.
+ */
+export function articleImageQuery(topic: TopicKey, dateISO: CalendarDate, index: number): string {
+  const seedBase = hash(`${topic}|${dateISO}|${index}`)
+  const title = choose(titlePool[topic], seedBase + 3, schedulePosition(dateISO, index), `${topic}|title`)
+  return buildImageQuery(topic, title, seedBase + 19)
+}
+
+/**
+ * validateArticlePools
+ * Lists problems in the generator pools: a topic missing from a per-topic pool, or an empty pool.
+ * Either would make generation pick `undefined`; an empty list means every pool is usable.
+ * In scheduled mode a title or excerpt pool smaller than slotsPerDay would repeat within a day.
+ */
+export function validateArticlePools(): string[] {
+  const problems: string[] = []
+  const perTopic: Record<string, Record<TopicKey, unknown[]>> = {
+    titlePool,
+    excerptPool,
+    paragraphsByTopic,
+    practiceByTopic,
+    scriptureByTopic,
+    extraTags,
+  }
+  Object.entries(perTopic).forEach(([name, pool]) => {
+    topics.forEach(t => {
+      const entries = pool[t.key]
+      if (!entries) problems.push(`${name}: missing topic "${t.key}"`)
+      else if (entries.length === 0) problems.push(`${name}["${t.key}"] is empty`)
+    })
+  })
+  const { mode, slotsPerDay } = siteConfig.articles
+  if (mode === 'scheduled') {
+    Object.entries({ titlePool, excerptPool }).forEach(([name, pool]) => {
+      topics.forEach(t => {
+        const entries = pool[t.key]
+        if (entries && entries.length > 0 && entries.length < slotsPerDay) {
+          problems.push(`${name}["${t.key}"] has ${entries.length} entries; scheduled mode needs ${slotsPerDay} per day`)
+        }
+      })
+    })
+  }
+  const flat: Record<string, unknown[]> = { generalConnective, quotePool }
+  Object.entries(flat).forEach(([name, pool]) => {
+    if (pool.length === 0) problems.push(`${name} is empty`)
+  })
+  return problems
+}
+
+/** Placeholder image used by generated articles and authored ones without an image. */
+export const DEFAULT_ARTICLE_IMAGE =
+  'https://pub-cdn.sider.ai/u/U0AWH6J28LO/web-coder/6896d87314f019f2a83e5a14/resource/ab6ea90d-af37-40dd-879c-6732198db0be.jpg'
+
+/**
+ * ArticleCore
+ * Full article as rendered by the detail page (generated or hand-authored).
  */
-function generateArticleCore(
-  topic: TopicKey,
-  dateISO: string,
-  index: number
-): {
+export interface ArticleCore {
   id: string
   title: string
   excerpt: string
   image: string
   tags: string[]
   body: string[]
+  /** Body format; generated articles are plain paragraphs */
+  bodyFormat?: BodyFormat
   quote: { text: string; author: string }
   topic: TopicKey
-  dateISO: string
-} {
+  dateISO: CalendarDate
+  /** Byline for hand-authored articles */
+  author?: string
+  /** URL slug for hand-authored articles (path is /articles/<slug>) */
+  slug?: string
+}
+
+/**
+ * generateArticleCore
+ * Internal builder for a single article object given topic, date, and index.
+ * Adds deterministic image variety using a topic keyword plus seeded style words and title terms.
+ */
+function generateArticleCore(topic: TopicKey, dateISO: CalendarDate, index: number): ArticleCore {
   const seedBase = hash(`${topic}|${dateISO}|${index}`)
   const id = articleId(topic, dateISO, index)
+  const tr = articleTranslations[getLocale()]
+  const position = schedulePosition(dateISO, index)
 
   // Title & excerpt
-  const title = pick(titlePool[topic], seedBase + 3)
-  const excerpt = pick(excerptPool[topic], seedBase + 7)
+  const title = choose(localizePool(titlePool[topic], tr?.titles?.[topic]), seedBase + 3, position, `${topic}|title`)
+  const excerpt = choose(localizePool(excerptPool[topic], tr?.excerpts?.[topic]), seedBase + 7, position, `${topic}|excerpt`)
 
   // Quote & body
-  const quote = pick(quotePool, seedBase + 11)
-  const body = buildBody(topic, seedBase + 13)
+  const quote = choose(localizePool(quotePool, tr?.quotes), seedBase + 11, position, `${topic}|quote`)
+  const body = buildBody(topic, seedBase + 13, position)
 
   /**
-   * Title-aware, deterministic Smart Placeholder query.
+   * Title-aware, deterministic Smart Placeholder query (always from the English title).
    * Example: "Reason Love compass geometry marble soft light indigo sky"
    */
-  const query = buildImageQuery(topic, title, seedBase + 19)
-  const image = `https://pub-cdn.sider.ai/u/U0AWH6J28LO/web-coder/6896d87314f019f2a83e5a14/resource/ab6ea90d-af37-40dd-879c-6732198db0be.jpg`
+  const query = articleImageQuery(topic, dateISO, index)
+  const image = DEFAULT_ARTICLE_IMAGE
 
   // Tags for quick scanning
-  const extra = pick(extraTags[topic], seedBase + 29)
-  const tags = [humanLabel(topic), 'daily', extra]
+  const extra = pick(localizePool(extraTags[topic], tr?.extraTags?.[topic]), seedBase + 29)
+  const tags = [humanLabel(topic), tr?.dailyTag ?? 'daily', extra]
 
   return {
     id,
@@ -594,31 +714,72 @@ function generateArticleCore(
   }
 }
 
+/**
+ * authoredToCore
+ * Fills the optional fields of a hand-authored article with deterministic defaults.
+ */
+function authoredToCore(a: AuthoredArticle): ArticleCore {
+  const seed = hash(`authored|${a.id}`)
+  return {
+    id: a.id,
+    title: a.title,
+    excerpt: a.excerpt || (a.bodyFormat === 'markdown' ? markdownToText(a.body[0] ?? '') : a.body[0]) || '',
+    image: a.image || DEFAULT_ARTICLE_IMAGE,
+    tags: a.tags && a.tags.length ? a.tags : [humanLabel(a.topic)],
+    body: a.body,
+    bodyFormat: a.bodyFormat,
+    quote: a.quote ?? pick(quotePool, seed + 11),
+    topic: a.topic,
+    dateISO: a.publishDate,
+    author: a.author,
+    slug: a.slug,
+  }
+}
+
 /**
  * listArticlesForDate
- * Generates a list of articles across all topics for the given date.
+ * Generates a list of articles across all topics for the given day.
+ * Live hand-authored articles published that day come first.
  */
-export function listArticlesForDate(date: Date, perTopic: number = 2): ArticleCardType[] {
-  const dateISO = toDateISO(date)
-  const items: ArticleCardType[] = []
-  topics.forEach(t => {
-    for (let i = 1; i <= perTopic; i++) {
-      const core = generateArticleCore(t.key, dateISO, i)
-      items.push({
-        id: core.id,
-        title: core.title,
-        excerpt: core.excerpt,
-        image: core.image,
-        tags: core.tags,
-        path: `/articles/${core.id}`,
-        // Provide topic so ArticleCard can apply topic-level overrides
-        topic: core.topic,
-      })
+export function listArticlesForDate(dateISO: CalendarDate, perTopic: number = 2): ArticleCardType[] {
+  const items: ArticleCardType[] = listAuthoredForDate(dateISO).map(a => {
+    const core = authoredToCore(a)
+    return {
+      id: core.id,
+      title: core.title,
+      excerpt: core.excerpt,
+      image: core.image,
+      tags: core.tags,
+      path: `/articles/${a.slug}`,
+      topic: core.topic,
+      dateISO,
     }
   })
+  topics.forEach(t => {
+    for (let i = 1; i <= perTopic; i++) items.push(generatedArticleCard(t.key, dateISO, i))
+  })
   return items
 }
 
+/**
+ * generatedArticleCard
+ * Card data for one generated article (topic, day, and 1-based index within that topic's day).
+ */
+export function generatedArticleCard(topic: TopicKey, dateISO: CalendarDate, index: number): ArticleCardType {
+  const core = generateArticleCore(topic, dateISO, index)
+  return {
+    id: core.id,
+    title: core.title,
+    excerpt: core.excerpt,
+    image: core.image,
+    tags: core.tags,
+    path: `/articles/${core.id}`,
+    // Provide topic so ArticleCard can apply topic-level overrides
+    topic: core.topic,
+    dateISO,
+  }
+}
+
 /**
  * guessTopicFromSlug
  * Attempts to guess the topic from a non-dated slug (e.g., "faith-and-reason-primer").
@@ -645,11 +806,15 @@ function buildPrimerBody(topic: TopicKey, seed = 0): string[] {
 /**
  * getArticleDetailById
  * Reconstructs a full article object by ID (deterministic).
+ * Hand-authored articles resolve by ID or slug; drafts and scheduled pieces only with includeDrafts.
  * Also provides a graceful fallback for non-dated slugs (e.g., "<topic>-primer") so pages are never empty.
  */
-export function getArticleDetailById(
-  id: string
-): (ReturnType<typeof generateArticleCore>) | null {
+export function getArticleDetailById(id: string, opts: { includeDrafts?: boolean } = {}): ArticleCore | null {
+  const authored = findAuthoredArticle(id)
+  if (authored) {
+    return opts.includeDrafts || authoredStatus(authored) === 'published' ? authoredToCore(authored) : null
+  }
+
   const parsed = parseArticleId(id)
   if (parsed) {
     const { topic, dateISO, index } = parsed
@@ -659,7 +824,7 @@ export function getArticleDetailById(
   // Fallback path: if ID isn't in dated format, try to infer topic and build a primer-like article.
   const topicGuess = guessTopicFromSlug(id)
   if (topicGuess) {
-    const todayISO = toDateISO(new Date())
+    const todayISO = siteToday()
     const seed = hash(id + '|' + todayISO)
     const base = generateArticleCore(topicGuess, todayISO, 1)
 
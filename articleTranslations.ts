@@ -0,0 +1,351 @@
+/**
+ * articleTranslations.ts
+ * Translated pools for the article generator (articleEngine), per locale.
+ * Every array is aligned by index with its English pool; leave an entry undefined (or omit the
+ * pool) to fall back to English. Topic paragraphs are not translated yet and render in English.
+ * Scripture references stay in English so reference chips and citation pages keep working.
+ */
+
+import type { Locale, PoolTranslation } from './i18n'
+import type { TopicKey } from './articleEngine'
+
+/**
+ * ArticleTranslation
+ * Optional translations for one locale.
+ */
+export interface ArticleTranslation {
+  topicLabels?: Partial<Record<TopicKey, string>>
+  titles?: Partial<Record<TopicKey, PoolTranslation<string>>>
+  excerpts?: Partial<Record<TopicKey, PoolTranslation<string>>>
+  paragraphs?: Partial<Record<TopicKey, PoolTranslation<string>>>
+  practices?: Partial<Record<TopicKey, PoolTranslation<string>>>
+  scripture?: Partial<Record<TopicKey, PoolTranslation<{ text: string; ref: string }>>>
+  extraTags?: Partial<Record<TopicKey, PoolTranslation<string>>>
+  connectives?: PoolTranslation<string>
+  quotes?: PoolTranslation<{ text: string; author: string }>
+  /** Lead-in for the scripture paragraph ("Scripture: …") */
+  scriptureLabel?: string
+  /** The "daily" tag */
+  dailyTag?: string
+}
+
+/**
+ * articleTranslations
+ * English is the source (articleEngine) and has no entry here.
+ */
+export const articleTranslations: Partial<Record<Locale, ArticleTranslation>> = {
+  es: {
+    topicLabels: {
+      'faith-and-reason': 'Fe y razón',
+      ethics: 'Ética',
+      metaphysics: 'Metafísica',
+      theology: 'Teología',
+      scripture: 'Escritura',
+      aesthetics: 'Estética',
+      history: 'Historia',
+      apologetics: 'Apologética',
+    },
+    titles: {
+      'faith-and-reason': [
+        'La razón al servicio del amor',
+        'El Logos y la luz de la fe',
+        'Cuando la búsqueda se arrodilla',
+        'Pensar con la Iglesia',
+        'Mente renovada en Cristo',
+        'La verdad se une a la confianza',
+      ],
+      ethics: ['La forma de la vida buena', 'La virtud y las Bienaventuranzas', 'Hábitos de santa valentía', 'Misericordia y justicia', 'Formados por el amor'],
+      metaphysics: ['Ser, don y Creador', 'La contingencia y lo necesario', 'Luz desde los primeros principios', 'Participación en el ser', 'Asombro ante lo que es'],
+      theology: ['Conocer a Dios en el misterio', 'La Trinidad y la vida del amor', 'La cruz en el centro', 'Gracia y naturaleza', 'Hablar bien de Dios'],
+      scripture: ['Leer con los santos', 'La Escritura como Palabra viva', 'Escuchar a Dios hoy', 'Del texto a la transformación', 'La Palabra que nos forma'],
+      aesthetics: ['La belleza como camino hacia Dios', 'Iconos de la gloria', 'El arte y la nostalgia del hogar', 'El resplandor de la forma', 'Atención al esplendor'],
+      history: ['Lecciones de los Padres', 'Corrientes de la Tradición', 'Renovación en cada época', 'Peregrinos y testigos', 'Memoria para la misión'],
+      apologetics: ['Una razón de la esperanza', 'Responder con mansedumbre', 'La verdad en la plaza pública', 'Confianza sin arrogancia', 'Dar el porqué con amor'],
+    },
+    excerpts: {
+      'faith-and-reason': [
+        'Cómo la fe y la búsqueda se enriquecen mutuamente sin concesiones.',
+        'Por qué la vida de la mente pertenece al discipulado.',
+        'Honrar tanto la revelación como los argumentos razonados.',
+        'Pensar a fondo como un acto de confianza.',
+      ],
+      ethics: [
+        'De los hábitos a la santidad: un carácter formado por la gracia.',
+        'Lo que las Bienaventuranzas enseñan sobre la verdadera plenitud.',
+        'Atravesar las zonas grises morales con la luz de Cristo.',
+        'La virtud como la forma estable del amor.',
+      ],
+      metaphysics: [
+        'De la contingencia al Creador: un camino de filosofía primera.',
+        'Ver la creación como don y participación.',
+        'Cómo el ser y el bien anclan nuestra vida.',
+        'Asombro ante el hecho de existir.',
+      ],
+      theology: [
+        'Entrar en el misterio con reverencia y claridad.',
+        'La cruz y la resurrección como centro interpretativo.',
+        'La gracia eleva la naturaleza, no la borra.',
+        'La Trinidad como la vida eterna del amor.',
+      ],
+      scripture: [
+        'Lectio con la Iglesia: escuchar la Palabra viva.',
+        'Del texto a la transformación en la vida diaria.',
+        'Leer como comunión, no como mera información.',
+        'La Palabra que nos lee a nosotros.',
+      ],
+      aesthetics: [
+        'La belleza nos atrae hacia lo Verdadero y lo Bueno.',
+        'Ver con ojos nuevos: una teología del arte.',
+        'Por qué la forma y el resplandor importan al alma.',
+        'Una atención educada por el esplendor.',
+      ],
+      history: [
+        'Recibir la sabiduría de santos y maestros.',
+        'Movimientos de renovación a lo largo de los siglos.',
+        'Testigos que muestran la fe bajo presión.',
+        'La Tradición como memoria fiel.',
+      ],
+      apologetics: [
+        'Dar razones de la esperanza con mansedumbre.',
+        'La verdad en la plaza pública sin miedo.',
+        'Una confianza arraigada en Cristo, no en la victoria.',
+        'La claridad con compasión persuade.',
+      ],
+    },
+    practices: {
+      'faith-and-reason': [
+        'Práctica: escribe hoy una pregunta sincera para llevarla a la oración y al estudio.',
+        'Práctica: lee un párrafo de un Doctor de la Iglesia y anota una línea de luz.',
+      ],
+      ethics: [
+        'Práctica: elige un acto concreto de misericordia y hazlo en silencio.',
+        'Práctica: nombra una virtud para ejercitarla en una pequeña decisión antes del mediodía.',
+      ],
+      metaphysics: [
+        'Práctica: pasa cinco minutos asombrándote al aire libre y da gracias a Dios con sencillez.',
+        'Práctica: sigue una causa de tu día hasta su propósito y ofrécela a Dios.',
+      ],
+      theology: [
+        'Práctica: reza el Credo despacio, deteniéndote en una frase.',
+        'Práctica: lee un párrafo de un catecismo clásico y responde en oración.',
+      ],
+      scripture: [
+        'Práctica: prueba hoy la lectio divina con un salmo breve.',
+        'Práctica: memoriza un versículo y repítelo al mediodía y por la tarde.',
+      ],
+      aesthetics: [
+        'Práctica: quédate dos minutos ante una imagen sagrada y fíjate en un detalle.',
+        'Práctica: crea algo pequeño y ofréceselo a Dios con gratitud.',
+      ],
+      history: [
+        'Práctica: lee una breve vida de un santo e imita hoy uno de sus hábitos.',
+        'Práctica: pregunta a alguien mayor en la fe sobre la fidelidad de Dios.',
+      ],
+      apologetics: [
+        'Práctica: escribe una respuesta amable y clara a una pregunta que oyes a menudo.',
+        'Práctica: ora por alguien que no piensa como tú, llamándolo por su nombre.',
+      ],
+    },
+    // Reina-Valera 1909 (public domain)
+    scripture: {
+      'faith-and-reason': [
+        { text: 'Reformaos por la renovación de vuestro entendimiento.', ref: 'Romans 12:2' },
+        { text: 'En él estaba la vida, y la vida era la luz de los hombres.', ref: 'John 1:4' },
+      ],
+      ethics: [
+        { text: 'Bienaventurados los de limpio corazón: porque ellos verán a Dios.', ref: 'Matthew 5:8' },
+        {
+          text: '¿Qué pide de ti Jehová: solamente hacer juicio, y amar misericordia, y humillarte para andar con tu Dios?',
+          ref: 'Micah 6:8',
+        },
+      ],
+      metaphysics: [
+        { text: 'En él vivimos, y nos movemos, y somos.', ref: 'Acts 17:28' },
+        { text: 'Él es antes de todas las cosas, y por él todas las cosas subsisten.', ref: 'Colossians 1:17' },
+      ],
+      theology: [
+        { text: 'Aquel Verbo fue hecho carne, y habitó entre nosotros.', ref: 'John 1:14' },
+        { text: 'Santo, santo, santo, Jehová de los ejércitos.', ref: 'Isaiah 6:3' },
+      ],
+      scripture: [
+        { text: 'Lámpara es a mis pies tu palabra, y lumbrera a mi camino.', ref: 'Psalm 119:105' },
+        { text: 'Toda Escritura es inspirada divinamente y útil para enseñar.', ref: '2 Timothy 3:16' },
+      ],
+      aesthetics: [
+        { text: 'Encorvaos a Jehová en la hermosura de su santuario.', ref: 'Psalm 96:9' },
+        { text: 'Todo lo amable… en esto pensad.', ref: 'Philippians 4:8' },
+      ],
+      history: [
+        { text: 'Acuérdate de los tiempos antiguos; considerad los años de generación y generación.', ref: 'Deuteronomy 32:7' },
+        { text: 'Teniendo en derredor nuestro una tan grande nube de testigos…', ref: 'Hebrews 12:1' },
+      ],
+      apologetics: [
+        { text: 'Estad siempre aparejados para responder… con mansedumbre y reverencia.', ref: '1 Peter 3:15' },
+        { text: 'Sea vuestra palabra siempre con gracia, sazonada con sal.', ref: 'Colossians 4:6' },
+      ],
+    },
+    extraTags: {
+      'faith-and-reason': ['razón', 'revelación', 'logos'],
+      ethics: ['virtud', 'misericordia', 'justicia'],
+      metaphysics: ['ser', 'primeros principios', 'causalidad'],
+      theology: ['trinidad', 'encarnación', 'gracia'],
+      scripture: ['lectio divina', 'palabra', 'canon'],
+      aesthetics: ['belleza', 'forma', 'icono'],
+      history: ['tradición', 'santos', 'renovación'],
+      apologetics: ['esperanza', 'mansedumbre', 'plaza pública'],
+    },
+    connectives: [
+      'La oración serena la búsqueda, para que el pensamiento se haga adoración y la acción, caridad.',
+      'La gratitud aclara la mirada; desde la gratitud podemos pensar, elegir y amar con más verdad.',
+      'Los pequeños actos fieles forman el alma más que los raros momentos heroicos.',
+    ],
+    quotes: [
+      { text: 'La fe busca entender.', author: 'Anselmo' },
+      { text: 'Una vida sin examen no merece ser vivida.', author: 'Sócrates' },
+      { text: 'Nos hiciste, Señor, para ti, y nuestro corazón está inquieto hasta que descanse en ti.', author: 'Agustín' },
+      { text: 'Toda verdad es verdad de Dios.', author: 'Arthur Holmes' },
+      { text: 'Quien tiene a Dios y todo lo demás no tiene más que quien tiene solo a Dios.', author: 'C. S. Lewis' },
+    ],
+    scriptureLabel: 'Escritura',
+    dailyTag: 'diario',
+  },
+
+  ko: {
+    topicLabels: {
+      'faith-and-reason': '믿음과 이성',
+      ethics: '윤리',
+      metaphysics: '형이상학',
+      theology: '신학',
+      scripture: '성경',
+      aesthetics: '미학',
+      history: '역사',
+      apologetics: '변증학',
+    },
+    titles: {
+      'faith-and-reason': [
+        '사랑을 섬기는 이성',
+        '로고스와 믿음의 빛',
+        '탐구가 무릎 꿇을 때',
+        '교회와 함께 생각하기',
+        '그리스도 안에서 새롭게 된 마음',
+        '진리와 신뢰의 만남',
+      ],
+      ethics: ['좋은 삶의 모양', '덕과 팔복', '거룩한 용기의 습관', '자비와 정의', '사랑으로 빚어지다'],
+      metaphysics: ['존재, 선물, 창조주', '우연성과 필연적 존재', '제1원리에서 오는 빛', '존재에의 참여', '있는 것 앞에서의 경이'],
+      theology: ['신비 가운데 하나님을 알기', '삼위일체와 사랑의 삶', '중심에 선 십자가', '은총과 본성', '하나님에 대해 바르게 말하기'],
+      scripture: ['성도들과 함께 읽기', '살아 있는 말씀인 성경', '오늘 하나님의 음성 듣기', '본문에서 변화로', '우리를 빚는 말씀'],
+      aesthetics: ['하나님께 이르는 길인 아름다움', '영광의 이콘', '예술과 본향을 향한 그리움', '형상의 광채', '찬란함에 기울이는 주의'],
+      history: ['교부들에게서 배우는 교훈', '전통의 물줄기', '모든 시대의 갱신', '순례자와 증인', '선교를 위한 기억'],
+      apologetics: ['소망에 관한 이유', '온유함으로 답하기', '공적 광장의 진리', '교만 없는 확신', '사랑으로 이유를 전하기'],
+    },
+    excerpts: {
+      'faith-and-reason': [
+        '믿음과 탐구가 타협 없이 서로를 풍요롭게 하는 방식.',
+        '지성의 삶이 제자도 안에 속하는 이유.',
+        '계시와 논증을 함께 존중하기.',
+        '신뢰의 행위로서 깊이 생각하기.',
+      ],
+      ethics: [
+        '습관에서 거룩함으로: 은혜로 빚어진 성품.',
+        '팔복이 참된 번영에 관해 가르치는 것.',
+        '그리스도의 빛으로 도덕적 회색지대를 지나기.',
+        '사랑의 한결같은 형태인 덕.',
+      ],
+      metaphysics: [
+        '우연성에서 창조주로: 제1철학의 길.',
+        '창조를 선물과 참여로 바라보기.',
+        '존재와 선이 우리 삶을 붙드는 방식.',
+        '존재한다는 사실 앞에서의 경이.',
+      ],
+      theology: [
+        '경외와 명료함으로 신비에 들어가기.',
+        '해석의 중심인 십자가와 부활.',
+        '은총은 본성을 지우지 않고 높인다.',
+        '사랑의 영원한 생명이신 삼위일체.',
+      ],
+      scripture: [
+        '교회와 함께하는 렉시오: 살아 있는 말씀 듣기.',
+        '본문에서 일상의 변화로.',
+        '단순한 정보가 아닌 교제로서의 읽기.',
+        '우리를 읽어 내는 말씀.',
+      ],
+      aesthetics: [
+        '아름다움은 우리를 참됨과 선함으로 이끈다.',
+        '새로운 눈으로 보기: 예술의 신학.',
+        '형상과 광채가 영혼에 중요한 이유.',
+        '찬란함으로 길러진 주의.',
+      ],
+      history: [
+        '성인과 스승들의 지혜를 받기.',
+        '세기를 가로지르는 갱신의 움직임.',
+        '압박 속에서 믿음을 보여 준 증인들.',
+        '신실한 기억인 전통.',
+      ],
+      apologetics: [
+        '온유함으로 소망의 이유를 전하기.',
+        '두려움 없이 공적 광장에 선 진리.',
+        '승리가 아닌 그리스도께 뿌리내린 확신.',
+        '긍휼이 담긴 명료함이 설득한다.',
+      ],
+    },
+    practices: {
+      'faith-and-reason': [
+        '실천: 오늘 기도와 공부로 가져갈 정직한 질문 하나를 적어 보세요.',
+        '실천: 교회 박사의 글 한 단락을 읽고 빛이 된 한 줄을 기록하세요.',
+      ],
+      ethics: [
+        '실천: 구체적인 자비의 행동 하나를 골라 조용히 행하세요.',
+        '실천: 정오 전에 작은 결정 하나에서 연습할 덕을 하나 정하세요.',
+      ],
+      metaphysics: [
+        '실천: 바깥에서 5분 동안 경이를 누리고 하나님께 소박하게 감사하세요.',
+        '실천: 오늘 일어난 일의 원인을 그 목적까지 따라가 보고 하나님께 드리세요.',
+      ],
+      theology: [
+        '실천: 사도신경을 천천히 고백하며 한 구절에 머무르세요.',
+        '실천: 고전 교리문답 한 단락을 읽고 기도로 응답하세요.',
+      ],
+      scripture: [
+        '실천: 오늘 짧은 시편 하나로 렉시오 디비나를 해 보세요.',
+        '실천: 한 구절을 암송하고 정오와 저녁에 되뇌어 보세요.',
+      ],
+      aesthetics: [
+        '실천: 거룩한 그림 앞에 2분간 머물며 한 가지 세부를 살펴보세요.',
+        '실천: 작은 것 하나를 만들어 감사함으로 하나님께 드리세요.',
+      ],
+      history: [
+        '실천: 성인의 짧은 전기를 읽고 오늘 그 습관 하나를 본받으세요.',
+        '실천: 신앙의 선배에게 하나님의 신실하심에 관해 한 가지를 물어보세요.',
+      ],
+      apologetics: [
+        '실천: 자주 듣는 질문에 온유하고 분명한 답을 적어 보세요.',
+        '실천: 생각이 다른 사람을 위해 이름을 불러 기도하세요.',
+      ],
+    },
+    // No public-domain Korean translation is bundled yet; verses fall back to English
+    extraTags: {
+      'faith-and-reason': ['이성', '계시', '로고스'],
+      ethics: ['덕', '자비', '정의'],
+      metaphysics: ['존재', '제1원리', '인과성'],
+      theology: ['삼위일체', '성육신', '은총'],
+      scripture: ['렉시오 디비나', '말씀', '정경'],
+      aesthetics: ['아름다움', '형상', '이콘'],
+      history: ['전통', '성인', '갱신'],
+      apologetics: ['소망', '온유', '공적 광장'],
+    },
+    connectives: [
+      '기도는 탐구를 붙들어 주어 생각이 예배가 되고 행동이 사랑이 되게 합니다.',
+      '감사는 시야를 맑게 합니다. 감사에서 우리는 더 참되게 생각하고 선택하고 사랑할 수 있습니다.',
+      '작고 신실한 행동이 드문 영웅적 순간보다 영혼을 더 빚어 갑니다.',
+    ],
+    quotes: [
+      { text: '믿음은 이해를 추구한다.', author: '안셀무스' },
+      { text: '성찰하지 않는 삶은 살 가치가 없다.', author: '소크라테스' },
+      { text: '주께서 우리를 주님을 향하도록 지으셨으므로, 우리 마음은 주 안에서 쉬기까지 평안이 없습니다.', author: '아우구스티누스' },
+      { text: '모든 진리는 하나님의 진리다.', author: '아서 홈스' },
+      { text: '하나님과 다른 모든 것을 가진 사람은 하나님만 가진 사람보다 더 가진 것이 없다.', author: 'C. S. 루이스' },
+    ],
+    scriptureLabel: '말씀',
+    dailyTag: '매일',
+  },
+}
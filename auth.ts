@@ -0,0 +1,224 @@
+/**
+ * auth.ts
+ * Pluggable sign-in for the admin editors.
+ * - Default provider checks a passphrase against PBKDF2 hashes from adminAuthConfig (WebCrypto),
+ *   so the bundle never contains the passphrase itself.
+ * - Sessions are kept in sessionStorage with an expiry and announced via AUTH_EVENT.
+ * - Providers may also hand out a bearer token; getAuthHeaders() attaches it to write-back requests.
+ */
+
+import { adminAuthConfig, type AdminCredential } from '../config/remote'
+
+/**
+ * AuthSession
+ * Signed-in state for this tab.
+ */
+export interface AuthSession {
+  /** Display name of the signed-in user */
+  user: string
+  /** Provider id that issued the session */
+  provider: string
+  /** Random opaque session id, or a provider-issued token */
+  token: string
+  /** Epoch ms */
+  issuedAt: number
+  /** Epoch ms; the session is discarded after this instant */
+  expiresAt: number
+}
+
+/**
+ * AuthProvider
+ * Extension point for other sign-in methods (e.g., an API that exchanges a passphrase for a token).
+ */
+export interface AuthProvider {
+  /** Stable id stored with the session */
+  id: string
+  /** True when the provider can accept sign-ins (e.g., credentials are configured) */
+  isConfigured(): boolean
+  /** Verifies the input; resolves to the user name and an optional token, or null when rejected */
+  signIn(input: { user: string; passphrase: string }): Promise<{ user: string; token?: string } | null>
+  /** Bearer token for write-back requests, if the provider issues one */
+  getBearerToken?(session: AuthSession): Promise<string | null> | string | null
+}
+
+/** Storage key for the current session (sessionStorage: cleared when the tab closes). */
+const SESSION_KEY = 'll-admin-session:v1'
+
+/** Custom event name dispatched after sign-in or sign-out. */
+export const AUTH_EVENT = 'll-auth-changed'
+
+/** Default PBKDF2 iteration count for newly generated hashes. */
+export const DEFAULT_PBKDF2_ITERATIONS = 210000
+
+/** Base64 helpers that work in browsers and Node. */
+export function toBase64(bytes: Uint8Array): string {
+  let bin = ''
+  bytes.forEach(b => (bin += String.fromCharCode(b)))
+  return btoa(bin)
+}
+
+export function fromBase64(s: string): Uint8Array {
+  const bin = atob(s)
+  const out = new Uint8Array(bin.length)
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i)
+  return out
+}
+
+/**
+ * randomBase64
+ * Cryptographically random bytes, base64-encoded (salts and session ids).
+ */
+export function randomBase64(byteLength: number): string {
+  const bytes = new Uint8Array(byteLength)
+  crypto.getRandomValues(bytes)
+  return toBase64(bytes)
+}
+
+/**
+ * derivePassphraseHash
+ * PBKDF2-SHA256 of the passphrase with a base64 salt; returns a base64 32-byte hash.
+ */
+export async function derivePassphraseHash(passphrase: string, salt: string, iterations: number): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, [
+    'deriveBits',
+  ])
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(salt), iterations },
+    key,
+    256
+  )
+  return toBase64(new Uint8Array(bits))
+}
+
+/** Compares two strings without exiting early on the first difference. */
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  return diff === 0
+}
+
+/**
+ * passphraseProvider
+ * Default provider: verifies against the salted hashes in adminAuthConfig.credentials.
+ * It issues no bearer token; write-back endpoints that need one should use a custom provider.
+ */
+export const passphraseProvider: AuthProvider = {
+  id: 'passphrase',
+  isConfigured() {
+    return adminAuthConfig.credentials.length > 0
+  },
+  async signIn({ user, passphrase }) {
+    const creds = adminAuthConfig.credentials
+    // With a single account the user name is optional
+    const match: AdminCredential | undefined =
+      creds.length === 1 && !user.trim() ? creds[0] : creds.find(c => c.user === user.trim())
+    if (!match || !passphrase) return null
+    const hash = await derivePassphraseHash(passphrase, match.salt, match.iterations)
+    return constantTimeEqual(hash, match.hash) ? { user: match.user } : null
+  },
+}
+
+/** Active provider (replace with registerAuthProvider). */
+let activeProvider: AuthProvider = passphraseProvider
+
+/**
+ * registerAuthProvider
+ * Replaces the active provider. Existing sessions from another provider are signed out.
+ */
+export function registerAuthProvider(provider: AuthProvider): void {
+  activeProvider = provider
+  const s = readSession()
+  if (s && s.provider !== provider.id) signOut()
+}
+
+/** Returns the active provider. */
+export function getAuthProvider(): AuthProvider {
+  return activeProvider
+}
+
+/** True when the active provider can accept sign-ins. */
+export function isAuthConfigured(): boolean {
+  return activeProvider.isConfigured()
+}
+
+/** Reads the raw session from sessionStorage. */
+function readSession(): AuthSession | null {
+  try {
+    const raw = sessionStorage.getItem(SESSION_KEY)
+    if (!raw) return null
+    const parsed = JSON.parse(raw) as AuthSession
+    return parsed && typeof parsed.expiresAt === 'number' ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+/** Emits a change event so consumers can re-render. */
+function notifyChange() {
+  try {
+    window.dispatchEvent(new CustomEvent(AUTH_EVENT))
+  } catch {
+    // Silently ignore CustomEvent restrictions
+  }
+}
+
+/**
+ * getSession
+ * Current unexpired session, or null. Expired sessions are removed.
+ */
+export function getSession(): AuthSession | null {
+  const s = readSession()
+  if (!s) return null
+  if (s.expiresAt <= Date.now() || s.provider !== activeProvider.id) {
+    signOut()
+    return null
+  }
+  return s
+}
+
+/**
+ * signIn
+ * Verifies credentials with the active provider and starts a session on success.
+ */
+export async function signIn(user: string, passphrase: string): Promise<AuthSession | null> {
+  const result = await activeProvider.signIn({ user, passphrase })
+  if (!result) return null
+  const now = Date.now()
+  const session: AuthSession = {
+    user: result.user,
+    provider: activeProvider.id,
+    token: result.token ?? randomBase64(24),
+    issuedAt: now,
+    expiresAt: now + (adminAuthConfig.sessionMinutes ?? 120) * 60_000,
+  }
+  try {
+    sessionStorage.setItem(SESSION_KEY, JSON.stringify(session))
+  } catch {
+    // ignore quota/security errors; the session will not survive a reload
+  }
+  notifyChange()
+  return session
+}
+
+/** Ends the current session. */
+export function signOut(): void {
+  try {
+    sessionStorage.removeItem(SESSION_KEY)
+  } catch {
+    // ignore
+  }
+  notifyChange()
+}
+
+/**
+ * getAuthHeaders
+ * Authorization header for write-back requests when signed in with a token-issuing provider.
+ * Returns an empty object otherwise.
+ */
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  const session = getSession()
+  if (!session || !activeProvider.getBearerToken) return {}
+  const token = await activeProvider.getBearerToken(session)
+  return token ? { Authorization: `Bearer ${token}` } : {}
+}
@@ -0,0 +1,46 @@
+/**
+ * authored.ts
+ * Hand-authored articles shipped with the site (original pieces, not generated).
+ * They merge with generated articles on their publish date: lists, topic pages, feeds, digests, and search.
+ *
+ * Notes:
+ * - Drafts (status 'draft') never appear in public lists; signed-in editors can preview them by URL.
+ * - A publishDate in the future schedules the piece: it stays hidden until that day begins in the site time zone
+ *   (siteConfig.timeZone).
+ * - Writers can also author in the browser (/content/articles) and publish via the remote content file.
+ */
+
+import type { TopicKey } from '../lib/articleEngine'
+import type { BodyFormat } from '../lib/markdown'
+
+/**
+ * AuthoredArticle
+ * One original article. Only id, slug, topic, publishDate, title, and body are required.
+ */
+export interface AuthoredArticle {
+  /** Stable unique ID (used for image/content overrides) */
+  id: string
+  /** URL slug: the article lives at /articles/<slug> */
+  slug: string
+  topic: TopicKey
+  /** YYYY-MM-DD in the site time zone; the article is listed on this day and stays addressable afterwards */
+  publishDate: string
+  status: 'draft' | 'published'
+  author?: string
+  title: string
+  excerpt?: string
+  /** Body paragraphs (Markdown blocks when bodyFormat is 'markdown') */
+  body: string[]
+  /** How body is rendered; defaults to 'plain' (one paragraph per entry) */
+  bodyFormat?: BodyFormat
+  quote?: { text: string; author: string }
+  tags?: string[]
+  /** Hero/card image URL; defaults to the topic image */
+  image?: string
+}
+
+/**
+ * authoredArticles
+ * Add original pieces here to ship them with the code.
+ */
+export const authoredArticles: AuthoredArticle[] = []
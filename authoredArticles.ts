@@ -0,0 +1,165 @@
+/**
+ * authoredArticles.ts
+ * Store for hand-authored articles: code-shipped (config/authored), published remotely
+ * (remoteContent), and drafted in this browser (localStorage). Later sources win by ID:
+ * code < remote < local.
+ * The article engine merges live pieces into its date lists; see listAuthoredForDate.
+ */
+
+import { authoredArticles, type AuthoredArticle } from '../config/authored'
+import { getRemoteAuthoredArticles } from './remoteContent'
+import { isCalendarDate, siteToday, type CalendarDate } from './calendarDate'
+
+/** Storage key for articles authored in this browser. */
+const STORAGE_KEY = 'll-authored-articles:v1'
+
+/** Custom event name dispatched after local changes so UIs can refresh immediately. */
+export const AUTHORED_EVENT = 'll-authored-articles-changed'
+
+/**
+ * AuthoredStatus
+ * Public visibility of an authored article on a given day.
+ */
+export type AuthoredStatus = 'draft' | 'scheduled' | 'published'
+
+/** Reads articles authored in this browser. */
+function readLocal(): AuthoredArticle[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return []
+    const parsed = JSON.parse(raw) as AuthoredArticle[]
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+/** Writes articles authored in this browser and emits a change event. */
+function writeLocal(list: AuthoredArticle[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(list))
+  } catch {
+    // ignore quota errors
+  }
+  try {
+    window.dispatchEvent(new CustomEvent(AUTHORED_EVENT))
+  } catch {
+    // ignore
+  }
+}
+
+/**
+ * getAllAuthoredArticles
+ * Every known authored article (including drafts and scheduled), newest publish date first.
+ */
+export function getAllAuthoredArticles(): AuthoredArticle[] {
+  const byId = new Map<string, AuthoredArticle>()
+  ;[...authoredArticles, ...getRemoteAuthoredArticles(), ...readLocal()].forEach(a => byId.set(a.id, a))
+  return Array.from(byId.values()).sort(
+    (a, b) => b.publishDate.localeCompare(a.publishDate) || a.title.localeCompare(b.title)
+  )
+}
+
+/** Articles drafted or edited in this browser only. */
+export function getLocalAuthoredArticles(): AuthoredArticle[] {
+  return readLocal()
+}
+
+/**
+ * authoredStatus
+ * Drafts stay hidden; published pieces dated after `onISO` are scheduled.
+ */
+export function authoredStatus(a: AuthoredArticle, onISO: CalendarDate = siteToday()): AuthoredStatus {
+  if (a.status !== 'published') return 'draft'
+  return a.publishDate > onISO ? 'scheduled' : 'published'
+}
+
+/**
+ * listAuthoredForDate
+ * Live (published, not scheduled) authored articles listed on the given day.
+ */
+export function listAuthoredForDate(dateISO: CalendarDate): AuthoredArticle[] {
+  const today = siteToday()
+  return getAllAuthoredArticles().filter(a => a.publishDate === dateISO && authoredStatus(a, today) === 'published')
+}
+
+/**
+ * listLiveAuthoredArticles
+ * All live authored articles, newest first (for sitemaps and archives).
+ */
+export function listLiveAuthoredArticles(): AuthoredArticle[] {
+  const today = siteToday()
+  return getAllAuthoredArticles().filter(a => authoredStatus(a, today) === 'published')
+}
+
+/**
+ * getPublishableAuthoredArticles
+ * Articles to include in the remote content file: everything except drafts.
+ * Scheduled pieces are included so they appear on their date without another publish.
+ */
+export function getPublishableAuthoredArticles(): AuthoredArticle[] {
+  return getAllAuthoredArticles().filter(a => a.status === 'published')
+}
+
+/**
+ * findAuthoredArticle
+ * Looks up an authored article by ID or slug, regardless of status.
+ */
+export function findAuthoredArticle(idOrSlug: string): AuthoredArticle | undefined {
+  return getAllAuthoredArticles().find(a => a.id === idOrSlug || a.slug === idOrSlug)
+}
+
+/**
+ * slugify
+ * Lowercase, hyphenated slug from a title.
+ */
+export function slugify(title: string): string {
+  return title
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80)
+}
+
+/** New unique ID for a browser-authored article. */
+export function newAuthoredId(): string {
+  return `post-${Date.now().toString(36)}`
+}
+
+/**
+ * validateAuthoredArticle
+ * Returns a human-readable problem, or null when the article can be saved.
+ * Slugs must not collide with other pieces, reserved routes, or generated article IDs.
+ */
+export function validateAuthoredArticle(a: AuthoredArticle): string | null {
+  if (!a.title.trim()) return 'Title is required.'
+  if (!/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(a.slug)) return 'Slug may contain lowercase letters, digits, and single hyphens.'
+  if (a.slug === 'archive') return 'The slug “archive” is reserved.'
+  if (/-\d{8}-\d+$/.test(a.slug)) return 'Slug must not look like a generated article ID (…-YYYYMMDD-N).'
+  if (!isCalendarDate(a.publishDate)) return 'Publish date must be a valid date (YYYY-MM-DD).'
+  if (a.body.length === 0) return 'Body is required.'
+  const clash = getAllAuthoredArticles().find(o => o.id !== a.id && (o.slug === a.slug || o.id === a.slug))
+  if (clash) return `Slug is already used by “${clash.title}”.`
+  return null
+}
+
+/**
+ * saveAuthoredArticle
+ * Creates or replaces an article in this browser's store (by ID).
+ */
+export function saveAuthoredArticle(a: AuthoredArticle): void {
+  const list = readLocal().filter(x => x.id !== a.id)
+  list.push(a)
+  writeLocal(list)
+}
+
+/**
+ * deleteAuthoredArticle
+ * Removes an article from this browser's store. Code-shipped or remote copies remain.
+ */
+export function deleteAuthoredArticle(id: string): void {
+  const list = readLocal()
+  if (list.some(a => a.id === id)) writeLocal(list.filter(a => a.id !== id))
+}
@@ -0,0 +1,46 @@
+/**
+ * bigQuestions.ts
+ * Questions and answers for the Big Questions page, also indexed by the site search.
+ */
+
+/**
+ * Question
+ * Represents a single FAQ-like item.
+ */
+export interface Question {
+  id: string
+  q: string
+  a: string
+}
+
+/**
+ * questions
+ * Content exploring compatibility, discernment, and Christian telos.
+ */
+export const questions: Question[] = [
+  {
+    id: 'compatibility',
+    q: 'Is mindfulness compatible with Christian prayer?',
+    a: 'Yes, when understood as loving attention in the presence of Christ. Christian contemplation is not self-enclosure nor emptying into nothingness, but communion with the Triune God. Mindfulness practices can serve this end when oriented toward prayer and charity.',
+  },
+  {
+    id: 'emptying',
+    q: 'Do Christians “empty the mind”?',
+    a: 'We release clinging thoughts to make room for God’s Word and love. The aim is not vacancy but receptivity—dieting from distractions so that we can feast on Christ. “Be still and know that I am God” (Ps 46:10).',
+  },
+  {
+    id: 'discernment',
+    q: 'How do I discern what to keep from modern mindfulness?',
+    a: 'Keep gentleness, attention, and compassion. Integrate Scripture, the Name of Jesus, and the sacraments. Test ideas: do they point to truth, goodness, and beauty as revealed in Christ, and do they bear the fruit of love?',
+  },
+  {
+    id: 'apps',
+    q: 'What about secular meditation apps?',
+    a: 'Use with discernment. Prefer tools that do not redefine ultimate meaning. Consider Christian practices like the Examen, Lectio Divina, or breath prayer. The measure is whether it leads you to deeper love of God and neighbor.',
+  },
+  {
+    id: 'goal',
+    q: 'What is the goal of Christian “mindfulness”?',
+    a: 'Union with God in Christ, transformation by the renewal of the mind (Rom 12:2), and a life of charity. Calm is a gift, not the ultimate aim.',
+  },
+]
@@ -0,0 +1,285 @@
+/**
+ * build-feeds.ts
+ * Generates RSS 2.0, Atom, and JSON Feed files for recent articles and daily reflections.
+ * - Bundled and executed with esbuild after the site build (npm run feeds); writes into dist/.
+ * - Uses the same deterministic generators as the site, so feed items match the pages.
+ *
+ * Outputs:
+ * - feed.xml (RSS 2.0), atom.xml (Atom 1.0), feed.json (JSON Feed 1.1)
+ * - feeds/<TopicKey>.xml (RSS 2.0, one per topic)
+ *
+ * Optional environment variables:
+ * - FEED_DAYS: number of days to include, ending at the base date (default: 14)
+ * - FEED_THEMES: comma-separated reflection themes to include (default: 'mindfulness')
+ * - BASE_URL: absolute site origin for links (default: siteConfig.baseUrl)
+ * - BASE_DATE: YYYY-MM-DD to override the base date (default: today in siteConfig.timeZone)
+ * - OUT_DIR: output directory (default: 'dist')
+ */
+
+import { mkdirSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { listArticlesForDate, getArticleDetailById, topics, humanLabel, type TopicKey } from '../src/lib/articleEngine'
+import { getReflectionForDate, humanizeTheme, reflectionPath, themes, type ReflectionTheme } from '../src/lib/contentEngine'
+import { siteConfig } from '../src/config/site'
+import { buildRouteUrl } from '../src/lib/routing'
+import { renderBodyHtml, type BodyFormat } from '../src/lib/markdown'
+import { calendarDateToSiteInstant, parseCalendarDate, previousDays, siteToday, type CalendarDate } from '../src/lib/calendarDate'
+
+/** Read an env var with default. */
+function env(name: string, fallback?: string): string | undefined {
+  const v = process.env[name]
+  return v === undefined || v === '' ? fallback : v
+}
+
+/** Parse a YYYY-MM-DD base date, or today in the site time zone if missing/invalid. */
+function parseBaseDate(s?: string): CalendarDate {
+  return parseCalendarDate(s) ?? siteToday()
+}
+
+/** Escape text for XML element content and attribute values. */
+function escapeXml(s: string): string {
+  return s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+/** Wraps text in a CDATA section, splitting any "]]>" inside it so the section cannot end early. */
+function cdata(s: string): string {
+  return `<![CDATA[${s.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`
+}
+
+/** Absolute link following the site's routing mode (same as buildEmailText). */
+function linkFor(origin: string, path: string): string {
+  return buildRouteUrl(origin, path)
+}
+
+/**
+ * FeedItem
+ * Normalized entry shared by the RSS, Atom, and JSON renderers.
+ */
+interface FeedItem {
+  id: string
+  title: string
+  summary: string
+  /** HTML content (paragraphs) */
+  html: string
+  url: string
+  /** ISO timestamp */
+  published: string
+  tags: string[]
+  topic?: TopicKey
+}
+
+/** Body as HTML (plain paragraphs or Markdown), with root-relative links made absolute. */
+function bodyHtml(origin: string, paras: string[], format?: BodyFormat): string {
+  return renderBodyHtml(paras, format, { resolveHref: path => linkFor(origin, path) })
+}
+
+/** Collects article items for the given days. */
+function collectArticles(days: CalendarDate[], origin: string): FeedItem[] {
+  const items: FeedItem[] = []
+  days.forEach(d => {
+    listArticlesForDate(d, 2).forEach(card => {
+      const core = getArticleDetailById(card.id)
+      if (!core) return
+      items.push({
+        id: `article:${core.id}`,
+        title: core.title,
+        summary: core.excerpt,
+        html:
+          bodyHtml(origin, core.body, core.bodyFormat) +
+          `<blockquote><p>“${escapeXml(core.quote.text)}” — ${escapeXml(core.quote.author)}</p></blockquote>`,
+        url: linkFor(origin, card.path),
+        published: calendarDateToSiteInstant(core.dateISO).toISOString(),
+        tags: core.tags,
+        topic: core.topic,
+      })
+    })
+  })
+  return items
+}
+
+/** Collects reflection items for the given days and themes. */
+function collectReflections(days: CalendarDate[], selected: ReflectionTheme[], origin: string): FeedItem[] {
+  const items: FeedItem[] = []
+  days.forEach(d => {
+    selected.forEach(theme => {
+      const r = getReflectionForDate(d, theme)
+      items.push({
+        id: `reflection:${r.dateISO}:${theme}`,
+        title: `Daily Reflection: ${r.title}`,
+        summary: `“${r.scripture.text}” (${r.scripture.ref})`,
+        html:
+          `<p><em>“${escapeXml(r.scripture.text)}” — ${escapeXml(r.scripture.ref)}</em></p>` +
+          bodyHtml(origin, r.body) +
+          `<p><strong>Prayer:</strong> ${escapeXml(r.prayer)}</p>`,
+        url: linkFor(origin, reflectionPath(r.dateISO, theme)),
+        published: calendarDateToSiteInstant(r.dateISO).toISOString(),
+        tags: [humanizeTheme(theme), ...r.tags.slice(1)],
+      })
+    })
+  })
+  return items
+}
+
+/** Newest first; ties keep generation order. */
+function sortItems(items: FeedItem[]): FeedItem[] {
+  return items
+    .map((item, i) => ({ item, i }))
+    .sort((a, b) => b.item.published.localeCompare(a.item.published) || a.i - b.i)
+    .map(x => x.item)
+}
+
+/** Renders an RSS 2.0 document. */
+function renderRss(opts: { title: string; description: string; home: string; self: string; items: FeedItem[] }): string {
+  const updated = opts.items[0]?.published ?? new Date(0).toISOString()
+  const entries = opts.items
+    .map(
+      it => `    <item>
+      <title>${escapeXml(it.title)}</title>
+      <link>${escapeXml(it.url)}</link>
+      <guid isPermaLink="false">${escapeXml(it.id)}</guid>
+      <pubDate>${new Date(it.published).toUTCString()}</pubDate>
+      <description>${escapeXml(it.summary)}</description>
+      <content:encoded>${cdata(it.html)}</content:encoded>
+${it.tags.map(t => `      <category>${escapeXml(t)}</category>`).join('\n')}
+    </item>`
+    )
+    .join('\n')
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+    <title>${escapeXml(opts.title)}</title>
+    <link>${escapeXml(opts.home)}</link>
+    <description>${escapeXml(opts.description)}</description>
+    <language>en</language>
+    <lastBuildDate>${new Date(updated).toUTCString()}</lastBuildDate>
+    <atom:link href="${escapeXml(opts.self)}" rel="self" type="application/rss+xml" />
+${entries}
+  </channel>
+</rss>
+`
+}
+
+/** Renders an Atom 1.0 document. */
+function renderAtom(opts: { title: string; subtitle: string; home: string; self: string; items: FeedItem[] }): string {
+  const updated = opts.items[0]?.published ?? new Date(0).toISOString()
+  const entries = opts.items
+    .map(
+      it => `  <entry>
+    <title>${escapeXml(it.title)}</title>
+    <link href="${escapeXml(it.url)}" />
+    <id>urn:logos-and-light:${escapeXml(it.id)}</id>
+    <published>${it.published}</published>
+    <updated>${it.published}</updated>
+    <summary>${escapeXml(it.summary)}</summary>
+    <content type="html">${escapeXml(it.html)}</content>
+${it.tags.map(t => `    <category term="${escapeXml(t)}" />`).join('\n')}
+  </entry>`
+    )
+    .join('\n')
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeXml(opts.title)}</title>
+  <subtitle>${escapeXml(opts.subtitle)}</subtitle>
+  <link href="${escapeXml(opts.home)}" />
+  <link href="${escapeXml(opts.self)}" rel="self" />
+  <id>${escapeXml(opts.home)}/</id>
+  <updated>${updated}</updated>
+  <author><name>${escapeXml(siteConfig.name)}</name><email>${escapeXml(siteConfig.contactEmail)}</email></author>
+${entries}
+</feed>
+`
+}
+
+/** Renders a JSON Feed 1.1 document. */
+function renderJsonFeed(opts: { title: string; description: string; home: string; self: string; items: FeedItem[] }): string {
+  const feed = {
+    version: 'https://jsonfeed.org/version/1.1',
+    title: opts.title,
+    home_page_url: opts.home,
+    feed_url: opts.self,
+    description: opts.description,
+    language: 'en',
+    authors: [{ name: siteConfig.name }],
+    items: opts.items.map(it => ({
+      id: it.id,
+      url: it.url,
+      title: it.title,
+      summary: it.summary,
+      content_html: it.html,
+      date_published: it.published,
+      tags: it.tags,
+    })),
+  }
+  return JSON.stringify(feed, null, 2) + '\n'
+}
+
+/** Main entry: builds all feeds and writes them to OUT_DIR. */
+function main() {
+  const days = Math.max(1, parseInt(env('FEED_DAYS', '14') as string, 10) || 14)
+  const baseDate = parseBaseDate(env('BASE_DATE'))
+  const origin = (env('BASE_URL', siteConfig.baseUrl) as string).replace(/\/+$/, '')
+  const outDir = env('OUT_DIR', 'dist') as string
+
+  const selectedThemes = (env('FEED_THEMES', 'mindfulness') as string)
+    .split(',')
+    .map(s => s.trim())
+    .filter((t): t is ReflectionTheme => themes.includes(t as ReflectionTheme))
+
+  const dates = previousDays(baseDate, days)
+  const articles = collectArticles(dates, origin)
+  const reflections = collectReflections(dates, selectedThemes, origin)
+  const all = sortItems([...articles, ...reflections])
+
+  const home = origin
+  mkdirSync(join(outDir, 'feeds'), { recursive: true })
+
+  writeFileSync(
+    join(outDir, 'feed.xml'),
+    renderRss({
+      title: siteConfig.name,
+      description: siteConfig.tagline,
+      home,
+      self: `${origin}/feed.xml`,
+      items: all,
+    })
+  )
+  writeFileSync(
+    join(outDir, 'atom.xml'),
+    renderAtom({ title: siteConfig.name, subtitle: siteConfig.tagline, home, self: `${origin}/atom.xml`, items: all })
+  )
+  writeFileSync(
+    join(outDir, 'feed.json'),
+    renderJsonFeed({
+      title: siteConfig.name,
+      description: siteConfig.tagline,
+      home,
+      self: `${origin}/feed.json`,
+      items: all,
+    })
+  )
+
+  topics.forEach(t => {
+    const items = sortItems(articles.filter(a => a.topic === t.key))
+    writeFileSync(
+      join(outDir, 'feeds', `${t.key}.xml`),
+      renderRss({
+        title: `${siteConfig.name} • ${humanLabel(t.key)}`,
+        description: `${humanLabel(t.key)} readings from ${siteConfig.name}`,
+        home: linkFor(origin, `/topics/${t.key}`),
+        self: `${origin}/feeds/${t.key}.xml`,
+        items,
+      })
+    )
+  })
+
+  console.log(`Wrote feeds for ${dates.length} days (${all.length} items) to ${outDir}/`)
+}
+
+main()
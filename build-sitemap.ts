@@ -0,0 +1,205 @@
+/**
+ * build-sitemap.ts
+ * Generates sitemap.xml and robots.txt from the app's route table and the content engines.
+ * - Bundled and executed with esbuild after prerendering (npm run prerender, then npm run sitemap);
+ *   writes into dist/.
+ * - Static routes come from routeTable in App.tsx; parameterized routes are expanded from the
+ *   topics registry, reflection themes, deterministic article IDs over the prerendered window,
+ *   every live hand-authored article (config/authored), and scripture chapters with bundled text.
+ * - Only paths listed in the prerender manifest (dist/prerendered.json) are included: in hash routing
+ *   there is no fallback page, so any other URL would be a 404. The manifest also supplies the base
+ *   date and the number of days of articles.
+ * - URLs are the real paths served by the prerendered pages (same as the canonical links).
+ *
+ * Outputs:
+ * - sitemap.xml: a single urlset, or a sitemap index once URLs exceed SITEMAP_MAX_URLS
+ * - sitemap-pages.xml, sitemap-articles-<n>.xml (only when split)
+ * - robots.txt: disallows the admin routes and points at sitemap.xml
+ *
+ * Optional environment variables:
+ * - SITEMAP_MAX_URLS: URLs per sitemap file before splitting (default and maximum: 50000)
+ * - BASE_URL: absolute site origin for links (default: siteConfig.baseUrl)
+ * - OUT_DIR: build directory holding the prerendered pages (default: 'dist')
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { routeTable } from '../src/App'
+import { articleId, topics } from '../src/lib/articleEngine'
+import { themes } from '../src/lib/contentEngine'
+import { listLiveAuthoredArticles } from '../src/lib/authoredArticles'
+import { chapterPath, listBundledChapters } from '../src/lib/scripture'
+import { siteConfig } from '../src/config/site'
+import { buildCanonical } from '../src/components/HeadSEO'
+import { parseCalendarDate, previousDays, type CalendarDate } from '../src/lib/calendarDate'
+import { PRERENDER_MANIFEST, type PrerenderManifest } from '../src/lib/routing'
+
+/** Protocol limit: at most 50,000 URLs per sitemap file. */
+const SITEMAP_URL_LIMIT = 50000
+
+/** Articles per topic per day, as listed on the Articles page and archive. */
+const ARTICLES_PER_TOPIC = 2
+
+/** Read an env var with default. */
+function env(name: string, fallback?: string): string | undefined {
+  const v = process.env[name]
+  return v === undefined || v === '' ? fallback : v
+}
+
+/** Reads the prerender manifest, or exits when the pages have not been prerendered into outDir. */
+function readManifest(outDir: string): PrerenderManifest {
+  const path = join(outDir, PRERENDER_MANIFEST)
+  if (!existsSync(path)) {
+    console.error(`ERROR: ${path} not found. Run npm run prerender first; the sitemap lists only prerendered pages.`)
+    process.exit(1)
+  }
+  const manifest = JSON.parse(readFileSync(path, 'utf8')) as PrerenderManifest
+  const baseDate = parseCalendarDate(manifest.baseDate)
+  if (!baseDate || !Array.isArray(manifest.paths) || !(manifest.days > 0)) {
+    console.error(`ERROR: ${path} is malformed; re-run npm run prerender.`)
+    process.exit(1)
+  }
+  return { ...manifest, baseDate }
+}
+
+/** Escape text for XML element content. */
+function escapeXml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+/**
+ * SitemapEntry
+ * One <url>: absolute location plus YYYY-MM-DD last modification date.
+ */
+interface SitemapEntry {
+  loc: string
+  lastmod: string
+}
+
+/**
+ * expandRoute
+ * Turns a route pattern into concrete paths. Unknown parameters yield nothing,
+ * so a new parameterized route stays out of the sitemap until it is taught here.
+ */
+function expandRoute(pattern: string, dates: CalendarDate[]): Array<{ path: string; lastmod?: string }> {
+  if (!pattern.includes(':')) return [{ path: pattern }]
+  switch (pattern) {
+    case '/topics/:topic':
+      return topics.map(t => ({ path: `/topics/${t.key}` }))
+    case '/daily/:theme':
+      return themes.map(th => ({ path: `/daily/${th}` }))
+    case '/scripture/:book/:chapter':
+      return listBundledChapters().map(c => ({ path: chapterPath(c) }))
+    case '/articles/:id': {
+      const out: Array<{ path: string; lastmod: string }> = listLiveAuthoredArticles().map(a => ({
+        path: `/articles/${a.slug}`,
+        lastmod: a.publishDate,
+      }))
+      dates.forEach(dateISO => {
+        topics.forEach(t => {
+          for (let i = 1; i <= ARTICLES_PER_TOPIC; i++) {
+            out.push({ path: `/articles/${articleId(t.key, dateISO, i)}`, lastmod: dateISO })
+          }
+        })
+      })
+      return out
+    }
+    default:
+      return []
+  }
+}
+
+/** Renders a <urlset> document. */
+function renderUrlset(entries: SitemapEntry[]): string {
+  const urls = entries
+    .map(e => `  <url>\n    <loc>${escapeXml(e.loc)}</loc>\n    <lastmod>${e.lastmod}</lastmod>\n  </url>`)
+    .join('\n')
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls}
+</urlset>
+`
+}
+
+/** Renders a <sitemapindex> document. */
+function renderIndex(files: SitemapEntry[]): string {
+  const items = files
+    .map(f => `  <sitemap>\n    <loc>${escapeXml(f.loc)}</loc>\n    <lastmod>${f.lastmod}</lastmod>\n  </sitemap>`)
+    .join('\n')
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${items}
+</sitemapindex>
+`
+}
+
+/** Renders robots.txt: admin routes disallowed, sitemap advertised. */
+function renderRobots(origin: string, disallow: string[]): string {
+  return ['User-agent: *', ...disallow.map(p => `Disallow: ${p}`), '', `Sitemap: ${origin}/sitemap.xml`, ''].join('\n')
+}
+
+/** Splits entries into chunks of at most `size`. */
+function chunk<T>(arr: T[], size: number): T[][] {
+  const out: T[][] = []
+  for (let i = 0; i < arr.length; i += size) out.push(arr.slice(i, i + size))
+  return out
+}
+
+/** Main entry: walks the route table and writes the sitemap(s) and robots.txt to OUT_DIR. */
+function main() {
+  const maxUrls = Math.min(
+    SITEMAP_URL_LIMIT,
+    Math.max(1, parseInt(env('SITEMAP_MAX_URLS', String(SITEMAP_URL_LIMIT)) as string, 10) || SITEMAP_URL_LIMIT)
+  )
+  const origin = (env('BASE_URL', siteConfig.baseUrl) as string).replace(/\/+$/, '')
+  const outDir = env('OUT_DIR', 'dist') as string
+  const { baseDate, days, paths } = readManifest(outDir)
+  const baseISO = baseDate
+  const dates = previousDays(baseDate, days)
+  const prerendered = new Set(paths)
+  let skipped = 0
+
+  const pages: SitemapEntry[] = []
+  const articles: SitemapEntry[] = []
+  routeTable
+    .filter(r => !r.admin && !r.noindex)
+    .forEach(r => {
+      expandRoute(r.path, dates).forEach(({ path, lastmod }) => {
+        if (!prerendered.has(path)) {
+          skipped++
+          return
+        }
+        const entry = { loc: buildCanonical(origin, path), lastmod: lastmod ?? baseISO }
+        if (r.path === '/articles/:id') articles.push(entry)
+        else pages.push(entry)
+      })
+    })
+
+
+  const total = pages.length + articles.length
+  if (total <= maxUrls) {
+    writeFileSync(join(outDir, 'sitemap.xml'), renderUrlset([...pages, ...articles]))
+  } else {
+    // Split: one file for pages, then article files newest first; sitemap.xml becomes the index
+    const files: SitemapEntry[] = []
+    chunk(pages, maxUrls).forEach((part, i) => {
+      const name = i === 0 ? 'sitemap-pages.xml' : `sitemap-pages-${i + 1}.xml`
+      writeFileSync(join(outDir, name), renderUrlset(part))
+      files.push({ loc: `${origin}/${name}`, lastmod: baseISO })
+    })
+    chunk(articles, maxUrls).forEach((part, i) => {
+      const name = `sitemap-articles-${i + 1}.xml`
+      writeFileSync(join(outDir, name), renderUrlset(part))
+      files.push({ loc: `${origin}/${name}`, lastmod: part[0].lastmod })
+    })
+    writeFileSync(join(outDir, 'sitemap.xml'), renderIndex(files))
+  }
+
+  const disallow = routeTable.filter(r => r.admin).map(r => r.path)
+  writeFileSync(join(outDir, 'robots.txt'), renderRobots(origin, disallow))
+
+  console.log(`Wrote sitemap for ${total} URLs (${days} days of articles) and robots.txt to ${outDir}/`)
+  if (skipped > 0) console.log(`Left out ${skipped} routes that were not prerendered.`)
+}
+
+main()
@@ -0,0 +1,141 @@
+/**
+ * calendarDate.ts
+ * Calendar days as plain 'YYYY-MM-DD' values, and "today" in the site's configured time zone.
+ * Every generator, digest, feed, and page uses these helpers so the day rolls over at the same
+ * moment for every reader and build (midnight in siteConfig.timeZone, not UTC or the browser zone).
+ * Day arithmetic works on the date parts alone, so DST transitions never skip or repeat a day.
+ */
+
+import { siteConfig } from '../config/site'
+import { formatDate, type Locale } from './i18n'
+
+/**
+ * CalendarDate
+ * A day without time or zone, formatted 'YYYY-MM-DD' (e.g., '2025-08-10').
+ */
+export type CalendarDate = string
+
+/** Strict 'YYYY-MM-DD' shape. */
+const PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/
+
+/** Cached formatters per time zone (formatToParts is hot in search and feed builds). */
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+/** Formatter that yields numeric year/month/day parts in a time zone. */
+function partsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let f = formatters.get(timeZone)
+  if (!f) {
+    f = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' })
+    formatters.set(timeZone, f)
+  }
+  return f
+}
+
+/** Zero-padded 'YYYY-MM-DD' from numeric parts. */
+function fromParts(year: number, month: number, day: number): CalendarDate {
+  const pad = (n: number, w = 2) => String(n).padStart(w, '0')
+  return `${pad(year, 4)}-${pad(month)}-${pad(day)}`
+}
+
+/**
+ * isCalendarDate
+ * True for a well-formed 'YYYY-MM-DD' that names a real day (rejects 2025-02-30).
+ */
+export function isCalendarDate(value: unknown): value is CalendarDate {
+  if (typeof value !== 'string') return false
+  const m = value.match(PATTERN)
+  if (!m) return false
+  const d = new Date(Date.UTC(+m[1], +m[2] - 1, +m[3]))
+  return d.getUTCFullYear() === +m[1] && d.getUTCMonth() === +m[2] - 1 && d.getUTCDate() === +m[3]
+}
+
+/**
+ * parseCalendarDate
+ * Validates untrusted input (query strings, env vars); null when missing or malformed.
+ */
+export function parseCalendarDate(value: string | null | undefined): CalendarDate | null {
+  return isCalendarDate(value) ? value : null
+}
+
+/**
+ * calendarDateInZone
+ * The calendar day an instant falls on in a time zone (defaults to the site's).
+ */
+export function calendarDateInZone(instant: Date, timeZone: string = siteConfig.timeZone): CalendarDate {
+  const parts = partsFormatter(timeZone).formatToParts(instant)
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value)
+  return fromParts(get('year'), get('month'), get('day'))
+}
+
+/**
+ * siteToday
+ * Today's date in the site time zone; the day every generator treats as "today".
+ */
+export function siteToday(now: Date = new Date()): CalendarDate {
+  return calendarDateInZone(now)
+}
+
+/**
+ * addDays
+ * Shifts a day forward (or backward with a negative count).
+ */
+export function addDays(day: CalendarDate, days: number): CalendarDate {
+  const d = calendarDateToUTC(day)
+  d.setUTCDate(d.getUTCDate() + days)
+  return fromParts(d.getUTCFullYear(), d.getUTCMonth() + 1, d.getUTCDate())
+}
+
+/**
+ * previousDays
+ * `count` days ending at `end`, newest first (end inclusive).
+ */
+export function previousDays(end: CalendarDate, count: number): CalendarDate[] {
+  return Array.from({ length: Math.max(0, count) }, (_, i) => addDays(end, -i))
+}
+
+/**
+ * calendarDateToUTC
+ * Noon UTC on the day; pair with timeZone 'UTC' when formatting so the label never shifts a day.
+ */
+export function calendarDateToUTC(day: CalendarDate): Date {
+  const [y, m, d] = day.split('-').map(Number)
+  return new Date(Date.UTC(y, m - 1, d, 12))
+}
+
+/**
+ * calendarDateToSiteInstant
+ * An instant around midday of the day in the site time zone (for pinning a build clock to a day).
+ */
+export function calendarDateToSiteInstant(day: CalendarDate): Date {
+  const d = calendarDateToUTC(day)
+  const seen = calendarDateInZone(d)
+  // Zones beyond ±12h see UTC noon on a neighbouring day; step half a day toward the target
+  if (seen > day) d.setUTCHours(d.getUTCHours() - 12)
+  else if (seen < day) d.setUTCHours(d.getUTCHours() + 12)
+  return d
+}
+
+/**
+ * calendarDateToLocal
+ * Local midnight on the day, for date pickers that work in the browser's zone.
+ */
+export function calendarDateToLocal(day: CalendarDate): Date {
+  const [y, m, d] = day.split('-').map(Number)
+  return new Date(y, m - 1, d)
+}
+
+/**
+ * localCalendarDate
+ * The browser-local day of a Date (a date picker selection, or a timestamp grouped by the reader's day).
+ */
+export function localCalendarDate(date: Date): CalendarDate {
+  return fromParts(date.getFullYear(), date.getMonth() + 1, date.getDate())
+}
+
+/**
+ * formatCalendarDate
+ * Locale-aware label for a day (e.g., Sunday, August 10, 2025), independent of the reader's zone.
+ */
+export function formatCalendarDate(day: CalendarDate, options: Intl.DateTimeFormatOptions, locale?: Locale): string {
+  return formatDate(calendarDateToUTC(day), { ...options, timeZone: 'UTC' }, locale)
+}
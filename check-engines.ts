@@ -0,0 +1,748 @@
+/**
+ * check-engines.ts
+ * Headless self-check for the deterministic engines: article and reflection generators,
+ * newsletter emails, the sender's ledger and retries, and the subscribe providers, calendar dates, Markdown URL sanitizing, search tokenizing, remote image parsing
+ * and sniffing, and image precedence.
+ * - Bundled and executed with esbuild (npm run check); exits non-zero on any failure.
+ * - Generated articles, reflections, and the daily email are compared with golden files, so any
+ *   change to generated output shows up as a diff. Review it, then refresh with UPDATE_SNAPSHOTS=1.
+ *
+ * Optional environment variables:
+ * - UPDATE_SNAPSHOTS: '1' to rewrite the golden files instead of comparing
+ * - SNAPSHOT_DIR: folder holding the golden files (default: 'scripts/__snapshots__')
+ * - CHECK_SEED: seed for the CSV fuzz cases (default: 1)
+ */
+
+import assert from 'node:assert/strict'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import {
+  articleId,
+  getArticleDetailById,
+  parseArticleId,
+  topics,
+  validateArticlePools,
+  type TopicKey,
+} from '../src/lib/articleEngine'
+import { generateReflection, themes } from '../src/lib/contentEngine'
+import { buildDailyDigest, buildNewsletterIssue, buildWeeklyDigest, recipeTopics } from '../src/lib/newsletterDigest'
+import { digestRecipes } from '../src/config/digestRecipes'
+import { emailThemes, renderEmailHtml, renderEmailText, type EmailBlock } from '../src/lib/emailTemplate'
+import { parseCSV, parseCsvLine, parseJSON, parseMirrorJSON } from '../src/lib/remoteImages'
+import { sniffImage } from '../src/lib/imageSize'
+import { renderMarkdown, sanitizeUrl } from '../src/lib/markdown'
+import { buildSearchIndex, searchDocs, tokenize, type SearchDoc } from '../src/lib/search'
+import { getLocale, setLocale } from '../src/lib/i18n'
+import { resolveArticleImage, resolveTopicImage, type ImageSources } from '../src/lib/imageOverrides'
+import {
+  entryAfterFailure,
+  httpFailure,
+  ledgerAction,
+  lineDiff,
+  networkFailure,
+  parseLedger,
+  sendWithRetry,
+  setLedgerEntry,
+  smtpFailure,
+  type LedgerEntry,
+  type SendResult,
+} from '../src/lib/newsletterSend'
+import { MOCK_SUBSCRIBE_URL, getSubscribeProvider, subscribe, type SubscribeProvider } from '../src/lib/newsletterSubscribe'
+import { siteConfig, type NewsletterConfig } from '../src/config/site'
+import {
+  addDays,
+  calendarDateInZone,
+  calendarDateToSiteInstant,
+  isCalendarDate,
+  previousDays,
+  siteToday,
+  type CalendarDate,
+} from '../src/lib/calendarDate'
+
+/** Read an env var with default. */
+function env(name: string, fallback?: string): string | undefined {
+  const v = process.env[name]
+  return v === undefined || v === '' ? fallback : v
+}
+
+/**
+ * MemoryStorage
+ * In-memory localStorage so storage-backed modules (overrides, locale, journal) run under Node.
+ */
+class MemoryStorage {
+  private items = new Map<string, string>()
+  get length() {
+    return this.items.size
+  }
+  key(i: number) {
+    return Array.from(this.items.keys())[i] ?? null
+  }
+  getItem(key: string) {
+    return this.items.has(key) ? (this.items.get(key) as string) : null
+  }
+  setItem(key: string, value: string) {
+    this.items.set(key, String(value))
+  }
+  removeItem(key: string) {
+    this.items.delete(key)
+  }
+  clear() {
+    this.items.clear()
+  }
+}
+
+;(globalThis as { localStorage?: unknown }).localStorage = new MemoryStorage()
+
+/** Fixed days for snapshots: an ordinary day plus both 2026 US DST transitions. */
+const SNAPSHOT_DATES: CalendarDate[] = ['2025-08-10', '2026-03-08', '2026-11-01']
+
+/** Origin used for absolute links in the golden emails. */
+const EMAIL_ORIGIN = 'https://example.com'
+
+const snapshotDir = env('SNAPSHOT_DIR', 'scripts/__snapshots__') as string
+const updateSnapshots = env('UPDATE_SNAPSHOTS') === '1'
+
+let failures = 0
+let passes = 0
+/** Checks run one after another, so async ones (stubbed fetch, timers) never overlap. */
+let queue: Promise<void> = Promise.resolve()
+
+/** Queues one named check, recording (not throwing) a failure so the rest still run. */
+function check(name: string, fn: () => void | Promise<void>) {
+  queue = queue.then(async () => {
+    try {
+      await fn()
+      passes++
+    } catch (e) {
+      failures++
+      console.error(`FAIL ${name}\n  ${e instanceof Error ? e.message.split('\n').join('\n  ') : String(e)}`)
+    }
+  })
+}
+
+/**
+ * matchGolden
+ * Compares text with a golden file, or (re)writes it when updating or when it does not exist yet.
+ */
+function matchGolden(file: string, actual: string) {
+  const path = join(snapshotDir, file)
+  if (updateSnapshots || !existsSync(path)) {
+    mkdirSync(snapshotDir, { recursive: true })
+    writeFileSync(path, actual)
+    console.log(`Wrote ${path}`)
+    return
+  }
+  const expected = readFileSync(path, 'utf8')
+  if (expected === actual) return
+  const a = actual.split('\n')
+  const e = expected.split('\n')
+  const line = a.findIndex((l, i) => l !== e[i])
+  const at = line < 0 ? Math.min(a.length, e.length) : line
+  throw new Error(
+    `${path} differs at line ${at + 1}\n- ${e[at] ?? '(end of file)'}\n+ ${a[at] ?? '(end of file)'}\nRun with UPDATE_SNAPSHOTS=1 if the change is intended.`
+  )
+}
+
+/** Small seeded PRNG (mulberry32) so fuzz cases are reproducible. */
+function rng(seed: number) {
+  let a = seed >>> 0
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0
+    let t = a
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/** Encodes one CSV field the way spreadsheets do: quote when needed, double embedded quotes. */
+function csvField(value: string): string {
+  return /[",]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/* ---------------------------- Calendar dates ---------------------------- */
+
+check('calendar dates: validation', () => {
+  assert.equal(isCalendarDate('2024-02-29'), true)
+  assert.equal(isCalendarDate('2025-02-29'), false)
+  assert.equal(isCalendarDate('2025-2-9'), false)
+  assert.equal(isCalendarDate(null), false)
+})
+
+check('calendar dates: site day boundaries across DST (America/New_York)', () => {
+  const ny = 'America/New_York'
+  const table: Array<[string, CalendarDate]> = [
+    // Spring forward: midnight EST is 05:00Z before the change
+    ['2026-03-08T04:59:59Z', '2026-03-07'],
+    ['2026-03-08T05:00:00Z', '2026-03-08'],
+    // After the change midnight EDT is 04:00Z
+    ['2026-03-09T03:59:59Z', '2026-03-08'],
+    ['2026-03-09T04:00:00Z', '2026-03-09'],
+    // Fall back: the 25-hour day starts at 04:00Z and ends at 05:00Z the next day
+    ['2026-11-01T03:59:59Z', '2026-10-31'],
+    ['2026-11-01T04:00:00Z', '2026-11-01'],
+    ['2026-11-02T04:59:59Z', '2026-11-01'],
+    ['2026-11-02T05:00:00Z', '2026-11-02'],
+  ]
+  table.forEach(([instant, day]) => assert.equal(calendarDateInZone(new Date(instant), ny), day, instant))
+  assert.equal(calendarDateInZone(new Date('2026-03-08T04:59:59Z'), 'UTC'), '2026-03-08')
+})
+
+check('calendar dates: arithmetic ignores DST and month/year edges', () => {
+  assert.equal(addDays('2026-03-07', 1), '2026-03-08')
+  assert.equal(addDays('2026-03-08', 1), '2026-03-09')
+  assert.equal(addDays('2026-11-01', 1), '2026-11-02')
+  assert.equal(addDays('2024-02-28', 1), '2024-02-29')
+  assert.equal(addDays('2025-12-31', 1), '2026-01-01')
+  assert.equal(addDays('2026-01-01', -1), '2025-12-31')
+  assert.deepEqual(previousDays('2026-03-09', 3), ['2026-03-09', '2026-03-08', '2026-03-07'])
+  assert.deepEqual(previousDays('2026-03-09', 0), [])
+})
+
+check('calendar dates: a pinned build instant lands on its site day', () => {
+  SNAPSHOT_DATES.forEach(day => assert.equal(siteToday(calendarDateToSiteInstant(day)), day))
+})
+
+/* ------------------------------ Article IDs ----------------------------- */
+
+check('articles: articleId and parseArticleId round-trip', () => {
+  topics.forEach(t => {
+    SNAPSHOT_DATES.forEach(day => {
+      ;[0, 1, 12].forEach(index => {
+        const id = articleId(t.key, day, index)
+        assert.deepEqual(parseArticleId(id), { topic: t.key, dateISO: day, index }, id)
+      })
+    })
+  })
+})
+
+check('articles: parseArticleId rejects malformed IDs', () => {
+  ;['', 'ethics', 'ethics-2025081-0', 'ethics-20250810', 'not-a-topic-20250810-0', 'Ethics-20250810-0'].forEach(id =>
+    assert.equal(parseArticleId(id), null, id)
+  )
+})
+
+check('articles: scheduled mode spaces titles and never repeats one within a day', () => {
+  const { mode, slotsPerDay, scheduledFrom } = siteConfig.articles
+  if (mode !== 'scheduled') return
+  const days = previousDays(addDays(scheduledFrom ?? SNAPSHOT_DATES[0], 59), 60).reverse()
+  topics.forEach(t => {
+    const sequence: string[] = []
+    days.forEach(day => {
+      const items = Array.from({ length: slotsPerDay }, (_, i) => getArticleDetailById(articleId(t.key, day, i + 1)))
+      const titles = items.map(a => a?.title ?? '')
+      const bodies = items.map(a => a?.body.join('\n') ?? '')
+      assert.equal(new Set(titles).size, titles.length, `${t.key} ${day}: repeated title`)
+      assert.equal(new Set(bodies).size, bodies.length, `${t.key} ${day}: repeated body`)
+      sequence.push(...titles)
+    })
+    // A title comes back only after every other title in the pool has been used
+    const poolSize = new Set(sequence).size
+    sequence.forEach((title, i) => {
+      const next = sequence.indexOf(title, i + 1)
+      if (next >= 0) assert.equal(next - i, poolSize, `${t.key}: "${title}" repeats after ${next - i} slots`)
+    })
+  })
+})
+
+check('articles: generator pools are complete and cover the scheduled slots', () => {
+  assert.deepEqual(validateArticlePools(), [])
+})
+
+check('articles: the topic page lists four articles per topic with distinct titles', () => {
+  const { mode, scheduledFrom } = siteConfig.articles
+  if (mode !== 'scheduled') return
+  // TopicDetail renders indexes 1–4, so indexes 3 and 4 must be scheduled too
+  previousDays(addDays(scheduledFrom ?? SNAPSHOT_DATES[0], 59), 60).forEach(day => {
+    topics.forEach(t => {
+      const titles = [1, 2, 3, 4].map(i => getArticleDetailById(articleId(t.key, day, i))?.title ?? '')
+      assert.equal(new Set(titles).size, 4, `${t.key} ${day}: repeated title among ${titles.join(' | ')}`)
+    })
+  })
+})
+
+/* ------------------------------- Snapshots ------------------------------ */
+
+check('articles: generated articles match snapshot', () => {
+  const snapshot: Record<string, unknown> = {}
+  SNAPSHOT_DATES.forEach(day => {
+    topics.forEach(t => {
+      const id = articleId(t.key, day, 1)
+      const a = getArticleDetailById(id)
+      assert.ok(a, `no article for ${id}`)
+      assert.deepEqual(getArticleDetailById(id), a, `${id} is not deterministic`)
+      snapshot[id] = a
+    })
+  })
+  matchGolden('articles.json', JSON.stringify(snapshot, null, 2) + '\n')
+})
+
+check('reflections: generated reflections match snapshot', () => {
+  const snapshot: Record<string, unknown> = {}
+  SNAPSHOT_DATES.forEach(day => {
+    themes.forEach(theme => {
+      const r = generateReflection(day, theme)
+      assert.equal(r.dateISO, day)
+      assert.deepEqual(generateReflection(day, theme), r, `${day}/${theme} is not deterministic`)
+      snapshot[`${day}/${theme}`] = r
+    })
+  })
+  matchGolden('reflections.json', JSON.stringify(snapshot, null, 2) + '\n')
+})
+
+check('newsletter: daily email matches golden HTML and text', () => {
+  const { html, text } = buildNewsletterIssue('daily', SNAPSHOT_DATES[0], EMAIL_ORIGIN)
+  matchGolden('daily-email.html', html + '\n')
+  matchGolden('daily-email.txt', text + '\n')
+})
+
+check('newsletter: email blocks escape content and render the same sections as text', () => {
+  const evil = '<script>alert("x")</script> & "quotes"'
+  const blocks: EmailBlock[] = [
+    { type: 'header', title: evil, subtitle: evil, preheader: evil },
+    { type: 'reflection', heading: 'Reflection', title: evil, href: 'https://example.com/?a=1&b="2"', scripture: { text: evil, ref: 'Ps 1:1' }, body: [evil] },
+    { type: 'quote', text: evil, author: evil },
+    { type: 'articles', heading: 'Articles', items: [{ title: evil, href: 'https://example.com/a', excerpt: evil, image: 'https://example.com/i.jpg"onerror="x', label: evil }] },
+    { type: 'prayer', heading: 'Prayer', text: evil },
+    { type: 'footer', siteName: evil, siteUrl: 'https://example.com', contactEmail: 'hi@example.com', unsubscribeUrl: '{{ unsubscribe_url }}' },
+  ]
+  const html = renderEmailHtml(blocks, { theme: 'parchment' })
+  assert.ok(!html.includes('<script>'), 'unescaped <script> in HTML')
+  assert.ok(!html.includes('"onerror="'), 'attribute injection through an image URL')
+  assert.ok(html.includes('&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; &amp; &quot;quotes&quot;'))
+  assert.ok(html.includes('href="{{ unsubscribe_url }}"'), 'unsubscribe placeholder must survive for the provider')
+  assert.ok(html.includes('prefers-color-scheme: dark') && html.includes(emailThemes.parchment.dark.surface), 'dark palette missing')
+
+  const text = renderEmailText(blocks)
+  assert.ok(text.startsWith(evil), 'text should carry the raw header title')
+  for (const part of ['Reflection: ', 'Quote: ', 'Articles:', 'Prayer: ', 'Unsubscribe: {{ unsubscribe_url }}']) {
+    assert.ok(text.includes(part), `text is missing ${part}`)
+  }
+})
+
+check('newsletter: recipes are deterministic and rotate themes and topics', () => {
+  const start = '2026-10-04' as CalendarDate
+  assert.deepEqual(buildNewsletterIssue('weekly', start, EMAIL_ORIGIN), buildNewsletterIssue('weekly', start, EMAIL_ORIGIN))
+
+  // Consecutive daily issues step through the theme rotation
+  const dailyThemes = previousDays(start, digestRecipes.daily.themes.length).map(d => buildDailyDigest(d).reflection.theme)
+  assert.equal(new Set(dailyThemes).size, digestRecipes.daily.themes.length, `daily themes repeat: ${dailyThemes.join(', ')}`)
+
+  // A weekly issue never repeats a topic while the topic list lasts, and the next week picks up the cycle
+  const weekly = { ...digestRecipes.weekly, includeAuthored: false }
+  const pool = recipeTopics(weekly)
+  let previousLast: string | undefined
+  for (let w = 0; w < 8; w++) {
+    const { articles } = buildWeeklyDigest(addDays(start, w * 7), weekly)
+    const topicsOldestFirst = articles.map(a => a.topic as string).reverse()
+    assert.equal(new Set(topicsOldestFirst).size, Math.min(pool.length, articles.length), `week ${w} repeats a topic`)
+    if (previousLast && weekly.articlesPerDay === 1 && articles.length === 7) {
+      assert.equal(topicsOldestFirst[0], pool[(pool.indexOf(previousLast as TopicKey) + 1) % pool.length], `week ${w} does not continue the cycle`)
+    }
+    previousLast = topicsOldestFirst[topicsOldestFirst.length - 1]
+  }
+
+  // Include/exclude narrow the pool; an emptied pool yields no generated articles
+  const narrowed = { ...digestRecipes.daily, includeAuthored: false, includeTopics: topics.slice(0, 3).map(t => t.key), excludeTopics: [topics[0].key] }
+  assert.deepEqual(recipeTopics(narrowed), [topics[1].key, topics[2].key])
+  assert.ok(buildDailyDigest(start, narrowed).articles.every(a => a.topic === topics[1].key || a.topic === topics[2].key))
+  assert.equal(buildDailyDigest(start, { ...narrowed, excludeTopics: narrowed.includeTopics }).articles.length, 0)
+})
+
+check('newsletter: issues render in English whatever the active locale', () => {
+  const previous = getLocale()
+  const english = buildNewsletterIssue('daily', '2026-10-18', EMAIL_ORIGIN)
+  try {
+    setLocale('es')
+    assert.deepEqual(buildNewsletterIssue('daily', '2026-10-18', EMAIL_ORIGIN), english)
+    assert.equal(getLocale(), 'es', 'the active locale should be restored')
+    assert.notEqual(buildNewsletterIssue('daily', '2026-10-18', EMAIL_ORIGIN, 'es').subject, english.subject)
+  } finally {
+    setLocale(previous)
+  }
+})
+
+/* ---------------------------- Newsletter sender --------------------------- */
+
+check('newsletter sender: ledger decisions and failure transitions', () => {
+  const entry = (status: LedgerEntry['status'], at: string): LedgerEntry => ({ status, provider: 'file', subject: 'S', sha256: 'x', at })
+  const sent = entry('sent', '2026-10-17T12:00:00Z')
+  const pending = entry('sending', '2026-10-18T12:00:00Z')
+
+  assert.equal(ledgerAction(undefined, false), 'send')
+  assert.equal(ledgerAction(sent, false), 'skip')
+  assert.equal(ledgerAction(pending, false), 'unresolved')
+  assert.equal(ledgerAction(sent, true), 'send')
+  assert.equal(ledgerAction(pending, true), 'send')
+
+  // A clean failure restores what was there; a failed --force resend keeps the earlier 'sent'
+  assert.equal(entryAfterFailure(undefined, pending, { uncertain: false }), null)
+  assert.equal(entryAfterFailure(sent, pending, { uncertain: false }), sent)
+  // An uncertain failure keeps the pending mark so the next run stops instead of resending
+  assert.equal(entryAfterFailure(undefined, pending, { uncertain: true }), pending)
+  assert.equal(entryAfterFailure(sent, pending, { uncertain: true }), pending)
+  assert.equal(ledgerAction(entryAfterFailure(sent, pending, {}) ?? undefined, false), 'skip')
+
+  const ledger = setLedgerEntry(setLedgerEntry({}, 'weekly:2026-10-18', sent), 'daily:2026-10-18', pending)
+  assert.deepEqual(Object.keys(ledger), ['daily:2026-10-18', 'weekly:2026-10-18'])
+  assert.deepEqual(Object.keys(setLedgerEntry(ledger, 'daily:2026-10-18', null)), ['weekly:2026-10-18'])
+  assert.deepEqual(parseLedger(JSON.stringify(ledger)), ledger)
+  ;['[]', 'null', '"sent"', '{'].forEach(text => assert.throws(() => parseLedger(text), /not a JSON object/, text))
+})
+
+check('newsletter sender: retry classification', async () => {
+  const retryable = (r: SendResult) => !r.ok && r.retryable
+  assert.equal(retryable(httpFailure(500, '')), true)
+  assert.equal(retryable(httpFailure(503, '')), true)
+  assert.equal(retryable(httpFailure(429, '')), true)
+  assert.equal(retryable(httpFailure(400, '')), false)
+  assert.equal(retryable(httpFailure(401, '')), false)
+  assert.equal(retryable(smtpFailure(421, '')), true)
+  assert.equal(retryable(smtpFailure(550, '')), false)
+  assert.deepEqual(networkFailure(new Error('reset'), true), { ok: false, retryable: true, uncertain: true, message: 'reset' })
+
+  const warn = console.warn
+  console.warn = () => undefined
+  try {
+    // Temporary failures are retried until success or the retry budget runs out
+    const attempts = async (results: SendResult[], retries: number) => {
+      let calls = 0
+      const result = await sendWithRetry(async () => results[Math.min(calls++, results.length - 1)], retries, 0)
+      return { result, calls }
+    }
+    assert.deepEqual(await attempts([httpFailure(503, ''), httpFailure(429, ''), { ok: true, id: 'm1' }], 3), { result: { ok: true, id: 'm1' }, calls: 3 })
+    assert.equal((await attempts([httpFailure(503, 'down')], 2)).calls, 3)
+    // Permanent and uncertain failures are never retried
+    assert.equal((await attempts([httpFailure(400, 'bad')], 3)).calls, 1)
+    assert.equal((await attempts([networkFailure(new Error('cut off'), true)], 3)).calls, 1)
+    assert.equal((await attempts([networkFailure(new Error('refused'), false), { ok: true }], 3)).calls, 2)
+  } finally {
+    console.warn = warn
+  }
+})
+
+check('newsletter sender: lineDiff', () => {
+  assert.deepEqual(lineDiff('a\nb\nc', 'a\nb\nc'), { added: 0, removed: 0, lines: [] })
+  assert.deepEqual(lineDiff('a\nb\nc', 'a\nx\nc\nd'), { added: 2, removed: 1, lines: ['+ x', '- b', '+ d'] })
+  assert.deepEqual(lineDiff('', 'a'), { added: 1, removed: 1, lines: ['+ a', '- '] })
+  assert.deepEqual(lineDiff('a\nb', 'b'), { added: 0, removed: 1, lines: ['- a'] })
+})
+
+/* --------------------------- Newsletter subscribe ------------------------ */
+
+/**
+ * withFetch
+ * Runs fn with fetch replaced by a handler, recording each request (URL and body) for assertions.
+ */
+async function withFetch<T>(
+  handler: (url: string) => Response | Promise<Response>,
+  fn: (calls: Array<{ url: string; body: string }>) => Promise<T>
+): Promise<T> {
+  const real = globalThis.fetch
+  const calls: Array<{ url: string; body: string }> = []
+  globalThis.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = String(input)
+    calls.push({ url, body: String(init?.body ?? '') })
+    return handler(url)
+  }) as typeof fetch
+  try {
+    return await fn(calls)
+  } finally {
+    globalThis.fetch = real
+  }
+}
+
+/** JSON response as the webhook and mock endpoints send it. */
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+}
+
+check('newsletter subscribe: honeypot and invalid addresses never reach the provider', async () => {
+  let calls = 0
+  const spy: SubscribeProvider = {
+    id: 'mock',
+    subscribe: async () => {
+      calls++
+      return { ok: true, outcome: 'subscribed' }
+    },
+  }
+  const outcome = siteConfig.newsletter.doubleOptIn ? 'confirm' : 'subscribed'
+  assert.deepEqual(await subscribe({ email: 'bot@example.com', honeypot: 'https://spam.example' }, spy), { ok: true, outcome })
+  assert.deepEqual(await subscribe({ email: 'not-an-email' }, spy), { ok: false, error: 'invalid' })
+  assert.deepEqual(await subscribe({ email: 'a b@example.com' }, spy), { ok: false, error: 'invalid' })
+  assert.deepEqual(await subscribe({ email: 'reader@example.com' }, null), { ok: false, error: 'network' })
+  assert.equal(calls, 0)
+  assert.deepEqual(await subscribe({ email: '  reader@example.com ', source: 'footer' }, spy), { ok: true, outcome: 'subscribed' })
+  assert.equal(calls, 1)
+})
+
+check('newsletter subscribe: JSON endpoint statuses map to outcomes', async () => {
+  const config: NewsletterConfig = { ...siteConfig.newsletter, provider: 'webhook', doubleOptIn: true, webhook: { url: 'https://hooks.example/sub', tag: 'site' } }
+  const provider = getSubscribeProvider(config)
+  assert.ok(provider)
+  const outcomeFor = (res: () => Response) => withFetch(res, () => provider.subscribe({ email: 'reader@example.com', source: 'home' }))
+
+  assert.deepEqual(await outcomeFor(() => jsonResponse(200, { status: 'pending' })), { ok: true, outcome: 'confirm' })
+  assert.deepEqual(await outcomeFor(() => jsonResponse(200, { status: 'subscribed' })), { ok: true, outcome: 'subscribed' })
+  // No status: fall back to the configured double opt-in
+  assert.deepEqual(await outcomeFor(() => new Response('ok', { status: 200 })), { ok: true, outcome: 'confirm' })
+  assert.deepEqual(await outcomeFor(() => jsonResponse(422, { error: 'Refused' })), { ok: false, error: 'rejected', message: 'Refused' })
+  assert.deepEqual(await outcomeFor(() => jsonResponse(400, { message: 'Bad address' })), { ok: false, error: 'rejected', message: 'Bad address' })
+  assert.deepEqual(await outcomeFor(() => jsonResponse(503, { error: 'Down' })), { ok: false, error: 'network', message: 'Down' })
+  assert.deepEqual(await outcomeFor(() => new Response('<html>', { status: 500 })), { ok: false, error: 'network', message: undefined })
+  assert.deepEqual(
+    await outcomeFor(() => {
+      throw new TypeError('Failed to fetch')
+    }),
+    { ok: false, error: 'network' }
+  )
+
+  // The webhook receives the address, placement, and tag; the mock provider posts to the local server
+  await withFetch(
+    () => jsonResponse(200, { status: 'pending' }),
+    async calls => {
+      await provider.subscribe({ email: 'reader@example.com', source: 'home' })
+      assert.deepEqual(JSON.parse(calls[0].body), { email: 'reader@example.com', source: 'home', tag: 'site' })
+      await getSubscribeProvider({ ...config, provider: 'mock' })?.subscribe({ email: 'reader@example.com' })
+      assert.equal(calls[1].url, MOCK_SUBSCRIBE_URL)
+    }
+  )
+})
+
+check('newsletter subscribe: Buttondown gets the page URL as referrer and the placement as metadata', async () => {
+  const provider = getSubscribeProvider({ ...siteConfig.newsletter, provider: 'buttondown', buttondown: { username: 'll', tag: 'site' } })
+  assert.ok(provider)
+  await withFetch(
+    () => new Response(null, { status: 200 }),
+    async calls => {
+      assert.equal((await provider.subscribe({ email: 'reader@example.com', source: 'daily' })).ok, true)
+      const fields = new URLSearchParams(calls[0].body)
+      assert.equal(calls[0].url, 'https://buttondown.com/api/emails/embed-subscribe/ll')
+      assert.equal(fields.get('referrer_url'), siteConfig.baseUrl)
+      assert.equal(fields.get('metadata__source'), 'daily')
+      assert.equal(fields.get('tag'), 'site')
+    }
+  )
+})
+
+/* ---------------------------- Remote mappings --------------------------- */
+
+check('remote images: parseCsvLine handles quotes and commas', () => {
+  const table: Array<[string, string[]]> = [
+    ['a,b,c', ['a', 'b', 'c']],
+    ['a,,c', ['a', '', 'c']],
+    ['"a,b",c', ['a,b', 'c']],
+    ['"say ""hi""",x', ['say "hi"', 'x']],
+    ['""', ['']],
+    ['" padded ", b ', ['padded', 'b']],
+    ['topic,ethics,"data:image/png;base64,AAA,BBB"', ['topic', 'ethics', 'data:image/png;base64,AAA,BBB']],
+    ['a,', ['a', '']],
+  ]
+  table.forEach(([line, fields]) => assert.deepEqual(parseCsvLine(line), fields, line))
+})
+
+check('remote images: parseCsvLine round-trips fuzzed rows', () => {
+  const next = rng(parseInt(env('CHECK_SEED', '1') as string, 10) || 1)
+  const alphabet = ['a', 'b', 'Z', '9', ',', '"', ' ', '/', ':', ';', '=', 'é']
+  for (let n = 0; n < 500; n++) {
+    const fields = Array.from({ length: 1 + Math.floor(next() * 5) }, () =>
+      Array.from({ length: Math.floor(next() * 8) }, () => alphabet[Math.floor(next() * alphabet.length)])
+        .join('')
+        .trim()
+    )
+    const line = fields.map(csvField).join(',')
+    assert.deepEqual(parseCsvLine(line), fields, line)
+  }
+})
+
+check('remote images: parseCSV reads headers, BOM, CRLF, and headerless rows', () => {
+  const withHeader = '﻿URL,Type,Key\r\n"https://x/a,1.jpg",topic,ethics\r\nhttps://x/b.jpg,article,ethics-20250810-1\r\n,topic,skip\r\n'
+  assert.deepEqual(parseCSV(withHeader), {
+    topics: { ethics: 'https://x/a,1.jpg' },
+    articles: { 'ethics-20250810-1': 'https://x/b.jpg' },
+  })
+  assert.deepEqual(parseCSV('topic,history,https://x/h.jpg\nunknown,k,https://x/u.jpg'), {
+    topics: { history: 'https://x/h.jpg' },
+    articles: {},
+  })
+  assert.deepEqual(parseCSV(''), { topics: {}, articles: {} })
+})
+
+check('remote images: parseJSON tolerates missing keys and bad input', () => {
+  assert.deepEqual(parseJSON('{"topics":{"ethics":"https://x/e.jpg"}}'), {
+    topics: { ethics: 'https://x/e.jpg' },
+    articles: {},
+  })
+  assert.deepEqual(parseJSON('not json'), { topics: {}, articles: {} })
+  assert.deepEqual(parseJSON('null'), { topics: {}, articles: {} })
+})
+
+check('remote images: parseMirrorJSON keeps valid mirror and size entries', () => {
+  const text = JSON.stringify({
+    topics: {},
+    mirror: { 'https://x/a.jpg': '/images/a.jpg', 'https://x/b.jpg': 7 },
+    sizes: { '/images/a.jpg': { width: 1600, height: 900 }, '/images/b.jpg': { width: 0, height: 5 }, '/images/c.jpg': null },
+  })
+  assert.deepEqual(parseMirrorJSON(text), {
+    mirror: { 'https://x/a.jpg': '/images/a.jpg' },
+    sizes: { '/images/a.jpg': { width: 1600, height: 900 } },
+  })
+  assert.deepEqual(parseMirrorJSON('{"topics":{}}'), { mirror: {}, sizes: {} })
+  assert.deepEqual(parseMirrorJSON('not json'), { mirror: {}, sizes: {} })
+})
+
+check('images: sniffImage reads format and size from headers', () => {
+  const bytes = (...parts: Array<string | number[]>) =>
+    Uint8Array.from(parts.flatMap(p => (typeof p === 'string' ? [...p].map(c => c.charCodeAt(0)) : p)))
+  const png = bytes([0x89], 'PNG\r\n\x1a\n', [0, 0, 0, 13], 'IHDR', [0, 0, 6, 64, 0, 0, 3, 132], [8, 2, 0, 0, 0])
+  assert.deepEqual(sniffImage(png), { format: 'png', ext: 'png', width: 1600, height: 900 })
+  // APP0 segment before the SOF0 frame header
+  const jpeg = bytes([0xff, 0xd8, 0xff, 0xe0, 0, 4, 0, 0, 0xff, 0xc0, 0, 11, 8, 1, 44, 2, 88, 1, 1, 17, 0, 0xff, 0xd9])
+  assert.deepEqual(sniffImage(jpeg), { format: 'jpeg', ext: 'jpg', width: 600, height: 300 })
+  assert.deepEqual(sniffImage(bytes('GIF89a', [64, 0, 32, 0, 0, 0])), { format: 'gif', ext: 'gif', width: 64, height: 32 })
+  const webp = bytes('RIFF', [0, 0, 0, 0], 'WEBPVP8X', [10, 0, 0, 0, 0, 0, 0, 0], [0x3f, 6, 0], [0x83, 3, 0])
+  assert.deepEqual(sniffImage(webp), { format: 'webp', ext: 'webp', width: 1600, height: 900 })
+  const svg = (s: string) => sniffImage(new TextEncoder().encode(s))
+  assert.deepEqual(svg('<?xml version="1.0"?>\n<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 160 90"/>'), {
+    format: 'svg',
+    ext: 'svg',
+    width: 160,
+    height: 90,
+  })
+  assert.deepEqual(svg('<svg width="320px" viewBox="0 0 160 90"></svg>'), { format: 'svg', ext: 'svg', width: 320, height: 180 })
+  assert.deepEqual(svg('<svg width="100%" height="100%"></svg>'), { format: 'svg', ext: 'svg' })
+  // Error pages served with status 200 are not images
+  assert.equal(svg('<!doctype html><html><body>Not found</body></html>'), null)
+  assert.equal(sniffImage(new Uint8Array(0)), null)
+})
+
+/* ------------------------------- Markdown ------------------------------- */
+
+check('markdown: link and image URLs are restricted to safe schemes', () => {
+  const payloads = [
+    'javascript:alert(1)',
+    'JaVaScRiPt:alert(1)',
+    '\x01javascript:alert(1)',
+    'java\tscript:alert(1)',
+    'java\nscript:alert(1)',
+    ' \x7fvbscript:msgbox(1)',
+    'data:text/html,<script>alert(1)</script>',
+  ]
+  payloads.forEach(url => assert.equal(sanitizeUrl(url), '#', JSON.stringify(url)))
+  ;['https://example.com/a?b#c', 'mailto:hi@example.com', '/articles/x', '#fn-1', '?q=1', 'notes/a:b', '../up'].forEach(url =>
+    assert.equal(sanitizeUrl(url), url, JSON.stringify(url))
+  )
+  assert.equal(renderMarkdown('[a](\x01javascript:alert(1))'), '<p><a href="#">a</a></p>')
+  assert.equal(renderMarkdown('[b](<java\tscript:alert(1)>)'), '<p><a href="#">b</a></p>')
+  assert.match(renderMarkdown('![c](\x01javascript:alert(1))'), /<img src="#"/)
+})
+
+/* -------------------------------- Search -------------------------------- */
+
+check('search: tokenize keeps accented and non-Latin words whole', () => {
+  assert.deepEqual(tokenize('기도'), ['기도'])
+  assert.deepEqual(tokenize('Reflexión, oración'), ['reflexión', 'oración'])
+  assert.deepEqual(tokenize("Mary's  prayer—hope"), ["mary's", 'prayer', 'hope'])
+})
+
+check('search: Korean and accented queries find localized content', () => {
+  const doc = (id: string, title: string, text: string): SearchDoc => ({ id, kind: 'question', title, text, path: '/questions' })
+  const docs = [doc('a', 'Una reflexión breve', 'Sobre la oración diaria.'), doc('b', '감사의 기도', '오늘의 묵상과 기도.')]
+  assert.deepEqual(searchDocs(docs, 'reflexión').map(r => r.doc.id), ['a'])
+  assert.deepEqual(searchDocs(docs, 'REFLEXIÓN').map(r => r.doc.id), ['a'])
+  const ko = searchDocs(docs, '기도')
+  assert.deepEqual(ko.map(r => r.doc.id), ['b'])
+  assert.deepEqual(ko[0].title.highlights, [[4, 6]])
+
+  // The real index in Korean: a reflection title is found by its own words
+  const previous = getLocale()
+  try {
+    setLocale('ko')
+    const day = '2025-08-10' as CalendarDate
+    const index = buildSearchIndex(day)
+    const reflection = index.find(d => d.kind === 'reflection' && d.dateISO === day)
+    assert.ok(reflection, 'Korean index has reflections for the base day')
+    const terms = tokenize(reflection.title)
+    assert.ok(terms.length > 0, `Korean title tokenizes: ${reflection.title}`)
+    assert.ok(searchDocs(index, terms.join(' ')).some(r => r.doc.id === reflection.id), `found by "${terms.join(' ')}"`)
+  } finally {
+    setLocale(previous)
+  }
+})
+
+/* --------------------------- Image precedence --------------------------- */
+
+/** Sources where every layer is populated; each table row removes layers to expose the next one. */
+function sources(isPublic: boolean, without: string[] = []): ImageSources {
+  const has = (layer: string) => !without.includes(layer)
+  return {
+    isPublic,
+    siteWide: has('siteWide') ? 'site-wide' : null,
+    local: {
+      topics: has('localTopic') ? { ethics: 'local-topic' } : {},
+      articles: has('localArticle') ? { 'ethics-20250810-1': 'local-article' } : {},
+    },
+    remoteTopic: key => (has('remoteTopic') && key === 'ethics' ? 'remote-topic' : undefined),
+    remoteArticle: id => (has('remoteArticle') && id === 'ethics-20250810-1' ? 'remote-article' : undefined),
+    topicDefaults: has('codeTopic') ? { ethics: 'code-topic' } : {},
+    articleDefaults: has('codeArticle') ? { 'ethics-20250810-1': 'code-article' } : {},
+  }
+}
+
+check('images: getTopicImage precedence (public and local)', () => {
+  const table: Array<[boolean, string[], string]> = [
+    [true, [], 'site-wide'],
+    [true, ['siteWide'], 'remote-topic'],
+    [true, ['siteWide', 'remoteTopic'], 'code-topic'],
+    [true, ['siteWide', 'remoteTopic', 'codeTopic'], 'fallback'],
+    [false, [], 'site-wide'],
+    [false, ['siteWide'], 'local-topic'],
+    [false, ['siteWide', 'localTopic'], 'remote-topic'],
+    [false, ['siteWide', 'localTopic', 'remoteTopic'], 'code-topic'],
+    [false, ['siteWide', 'localTopic', 'remoteTopic', 'codeTopic'], 'fallback'],
+  ]
+  table.forEach(([isPublic, without, expected]) =>
+    assert.equal(
+      resolveTopicImage(sources(isPublic, without), 'ethics', 'fallback'),
+      expected,
+      `IS_PUBLIC=${isPublic} without [${without.join(', ')}]`
+    )
+  )
+})
+
+check('images: getArticleImage precedence (public and local)', () => {
+  const id = 'ethics-20250810-1'
+  const table: Array<[boolean, string[], string, string]> = [
+    [true, [], 'generated', 'site-wide'],
+    [true, ['siteWide'], 'generated', 'remote-article'],
+    [true, ['siteWide', 'remoteArticle'], 'generated', 'remote-topic'],
+    [true, ['siteWide', 'remoteArticle', 'remoteTopic'], 'generated', 'code-article'],
+    [true, ['siteWide', 'remoteArticle', 'remoteTopic', 'codeArticle'], 'generated', 'generated'],
+    [true, ['siteWide', 'remoteArticle', 'remoteTopic', 'codeArticle'], '', 'code-topic'],
+    [false, [], 'generated', 'site-wide'],
+    [false, ['siteWide'], 'generated', 'local-article'],
+    [false, ['siteWide', 'localArticle'], 'generated', 'local-topic'],
+    [false, ['siteWide', 'localArticle', 'localTopic'], 'generated', 'remote-article'],
+    [false, ['siteWide', 'localArticle', 'localTopic', 'remoteArticle'], 'generated', 'remote-topic'],
+    [false, ['siteWide', 'localArticle', 'localTopic', 'remoteArticle', 'remoteTopic'], 'generated', 'code-article'],
+    [false, ['siteWide', 'localArticle', 'localTopic', 'remoteArticle', 'remoteTopic', 'codeArticle'], 'generated', 'code-topic'],
+    [false, ['siteWide', 'localArticle', 'localTopic', 'remoteArticle', 'remoteTopic', 'codeArticle', 'codeTopic'], 'generated', 'generated'],
+  ]
+  table.forEach(([isPublic, without, generated, expected]) =>
+    assert.equal(
+      resolveArticleImage(sources(isPublic, without), id, generated, 'ethics'),
+      expected,
+      `IS_PUBLIC=${isPublic} default=${JSON.stringify(generated)} without [${without.join(', ')}]`
+    )
+  )
+  // Without a topic key only article-level layers apply
+  assert.equal(resolveArticleImage(sources(false, ['siteWide', 'localArticle', 'remoteArticle', 'codeArticle']), id, 'generated'), 'generated')
+})
+
+queue.then(() => {
+  if (failures > 0) {
+    console.error(`${failures} failed, ${passes} passed`)
+    process.exit(1)
+  }
+  console.log(`All ${passes} checks passed`)
+})
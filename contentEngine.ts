@@ -2,8 +2,14 @@
  * contentEngine.ts
  * Deterministic, client-side content generator for daily reflections without external APIs.
  * Generates theme-based reflections and caches them in localStorage.
+ * Text comes from the active locale's pools (reflectionTranslations) with English fallback; seeds do not
+ * depend on the locale, so every language gets the same structure for a given day and theme.
  */
 
+import { getLocale, localizePool } from './i18n'
+import type { CalendarDate } from './calendarDate'
+import { reflectionTranslations } from './reflectionTranslations'
+
 export type ReflectionTheme = 'mindfulness' | 'hope' | 'gratitude' | 'discernment' | 'suffering' | 'faith-reason'
 
 /**
@@ -11,7 +17,7 @@ export type ReflectionTheme = 'mindfulness' | 'hope' | 'gratitude' | 'discernmen
  * Structured content for a generated daily reflection piece.
  */
 export interface Reflection {
-  dateISO: string
+  dateISO: CalendarDate
   theme: ReflectionTheme
   title: string
   scripture: { text: string; ref: string }
@@ -144,8 +150,9 @@ function makeBody(
   quote: { text: string; author: string },
   seed: number
 ): string[] {
+  const templates = localizePool(bodyTemplates, reflectionTranslations[getLocale()]?.bodyTemplates)
   // Replace placeholders with humanized theme and references
-  return bodyTemplates.map((t) =>
+  return templates.map((t) =>
     t
       .replace(/THEME/g, humanizeTheme(theme))
       .replace(/SCRIPTURE/g, `"${scripture.text}" (${scripture.ref})`)
@@ -153,11 +160,32 @@ function makeBody(
   )
 }
 
+/**
+ * validateReflectionPools
+ * Lists problems in the reflection pools (a theme without titles, or an empty pool);
+ * `pick` throws on an empty pool, so an empty list means every day and theme can generate.
+ */
+export function validateReflectionPools(): string[] {
+  const problems: string[] = []
+  themes.forEach(theme => {
+    const titles = titleFragments[theme]
+    if (!titles) problems.push(`titleFragments: missing theme "${theme}"`)
+    else if (titles.length === 0) problems.push(`titleFragments["${theme}"] is empty`)
+  })
+  const flat: Record<string, unknown[]> = { scripturePool, quotePool, bodyTemplates, prayers, questionsPool }
+  Object.entries(flat).forEach(([name, pool]) => {
+    if (pool.length === 0) problems.push(`${name} is empty`)
+  })
+  return problems
+}
+
 /**
  * humanizeTheme
- * Nicely formatted label for each theme.
+ * Nicely formatted label for each theme, in the active locale.
  */
 export function humanizeTheme(theme: ReflectionTheme): string {
+  const translated = reflectionTranslations[getLocale()]?.themeLabels?.[theme]
+  if (translated) return translated
   switch (theme) {
     case 'mindfulness':
       return 'mindfulness in Christ'
@@ -174,26 +202,35 @@ export function humanizeTheme(theme: ReflectionTheme): string {
   }
 }
 
+/**
+ * reflectionPath
+ * Permalink for one day's reflection in a theme (e.g., /daily/hope?date=2025-08-10).
+ */
+export function reflectionPath(dateISO: CalendarDate, theme: ReflectionTheme): string {
+  return `/daily/${theme}?date=${dateISO}`
+}
+
 /**
  * generateReflection
- * Deterministically builds a reflection for a given date and theme.
+ * Deterministically builds a reflection for a given day and theme.
  */
-export function generateReflection(date: Date, theme: ReflectionTheme = 'mindfulness'): Reflection {
-  const dateISO = date.toISOString().slice(0, 10)
+export function generateReflection(dateISO: CalendarDate, theme: ReflectionTheme = 'mindfulness'): Reflection {
   const seed = hash(dateISO + '|' + theme)
+  const tr = reflectionTranslations[getLocale()]
 
-  const scripture = pick(scripturePool, seed + 1)
-  const quote = pick(quotePool, seed + 7)
-  const title = pick(titleFragments[theme], seed + 13)
+  const scripture = pick(localizePool(scripturePool, tr?.scripture), seed + 1)
+  const quote = pick(localizePool(quotePool, tr?.quotes), seed + 7)
+  const title = pick(localizePool(titleFragments[theme], tr?.titles?.[theme]), seed + 13)
 
   const body = makeBody(theme, scripture, quote, seed)
-  const prayer = pick(prayers, seed + 17)
+  const prayer = pick(localizePool(prayers, tr?.prayers), seed + 17)
+  const localQuestions = localizePool(questionsPool, tr?.questions)
   const questions = [
-    pick(questionsPool, seed + 19),
-    pick(questionsPool, seed + 23),
+    pick(localQuestions, seed + 19),
+    pick(localQuestions, seed + 23),
   ].filter((v, idx, arr) => arr.indexOf(v) === idx)
 
-  const tags = [humanizeTheme(theme), 'daily', 'reflection']
+  const tags = [humanizeTheme(theme), tr?.tags?.daily ?? 'daily', tr?.tags?.reflection ?? 'reflection']
 
   return {
     dateISO,
@@ -236,14 +273,15 @@ function storeReflection(key: string, value: Reflection) {
 
 /**
  * getReflectionForDate
- * Returns a reflection for the date and theme, generating and caching as needed.
+ * Returns a reflection for the day and theme, generating and caching as needed.
+ * Non-English reflections are cached under a locale-suffixed key.
  */
-export function getReflectionForDate(date: Date, theme: ReflectionTheme = 'mindfulness'): Reflection {
-  const dateISO = date.toISOString().slice(0, 10)
-  const key = `ll-reflection:${dateISO}:${theme}`
+export function getReflectionForDate(dateISO: CalendarDate, theme: ReflectionTheme = 'mindfulness'): Reflection {
+  const locale = getLocale()
+  const key = `ll-reflection:${dateISO}:${theme}${locale === 'en' ? '' : `:${locale}`}`
   const existing = getStoredReflection(key)
   if (existing) return existing
-  const generated = generateReflection(date, theme)
+  const generated = generateReflection(dateISO, theme)
   storeReflection(key, generated)
   return generated
 }
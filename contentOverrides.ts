@@ -2,9 +2,12 @@
  * contentOverrides.ts
  * LocalStorage-backed per-article content overrides (title, excerpt, body, quote, tags).
  * Used by ArticleCard and ArticleDetail to show user-authored content instead of generated text.
+ * Published overrides from remoteContent.ts apply for all visitors; local fields win over remote ones.
  */
 
 import { useEffect } from 'react'
+import { getRemoteContentMap, getRemoteContentOverride } from './remoteContent'
+import type { BodyFormat } from './markdown'
 
 /**
  * ArticleContentOverride
@@ -19,6 +22,8 @@ export interface ArticleContentOverride {
   tags?: string[]
   /** Optional custom body paragraphs */
   body?: string[]
+  /** How body is rendered: 'markdown' for editor-authored bodies; absent means plain paragraphs */
+  bodyFormat?: BodyFormat
   /** Optional custom quote */
   quote?: { text: string; author: string }
 }
@@ -69,11 +74,13 @@ function writeAll(map: ContentOverridesMap): void {
 
 /**
  * getContentOverride
- * Returns the override for the given article ID, if any.
+ * Returns the effective override for the given article ID, if any (remote fields overlaid by local ones).
  */
 export function getContentOverride(articleId: string): ArticleContentOverride | undefined {
-  const map = readAll()
-  return map[articleId]
+  const local = readAll()[articleId]
+  const remote = getRemoteContentOverride(articleId)
+  if (!remote) return local
+  return local ? { ...remote, ...local } : remote
 }
 
 /**
@@ -107,6 +114,19 @@ export function getAllContentOverrides(): ContentOverridesMap {
   return readAll()
 }
 
+/**
+ * getEffectiveContentOverrides
+ * Remote and local overrides merged per article, as seen by visitors of this browser.
+ * This is what the editor publishes via write-back.
+ */
+export function getEffectiveContentOverrides(): ContentOverridesMap {
+  const out = getRemoteContentMap()
+  Object.entries(readAll()).forEach(([id, ov]) => {
+    out[id] = { ...(out[id] || {}), ...ov }
+  })
+  return out
+}
+
 /**
  * setAllContentOverrides
  * Replaces the entire overrides map.
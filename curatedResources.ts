@@ -0,0 +1,148 @@
+/**
+ * curatedResources.ts
+ * Curated links for the Resources page, also indexed by the site search.
+ * Add, remove, or reorder entries here; the page groups them by category.
+ */
+
+/**
+ * ResourceIcon
+ * Icon shown on a resource card; the Resources page maps each name to an icon component.
+ */
+export type ResourceIcon = 'book' | 'graduation' | 'globe' | 'scroll' | 'headphones'
+
+/**
+ * Resource
+ * Descriptor for a single external resource item.
+ */
+export interface Resource {
+  id: string
+  title: string
+  description: string
+  url: string
+  category: ResourceCategory
+  /** Optional: source or owner, displayed as subtle caption */
+  source?: string
+  /** Optional: icon to represent the resource */
+  icon?: ResourceIcon
+}
+
+/**
+ * ResourceCategory
+ * Categories used to group resources and filter.
+ */
+export type ResourceCategory = 'Beginner' | 'Reference' | 'Reading' | 'Tools' | 'Media'
+
+/**
+ * resourceCategories
+ * Ordered list for the filter controls.
+ */
+export const resourceCategories: ResourceCategory[] = ['Beginner', 'Reference', 'Reading', 'Tools', 'Media']
+
+/**
+ * allResources
+ * Curated list of useful external links across philosophy and Christian thought.
+ * Note: The "Faith & Reason: A Gentle Introduction" now links to an in-site primer for full content.
+ */
+export const allResources: Resource[] = [
+  {
+    id: 'intro-faith-reason',
+    title: 'Faith & Reason: A Gentle Introduction',
+    description:
+      'A short primer on how classical philosophy and Christian theology converse. Read an on-site overview with Scripture and a simple practice.',
+    // Link internally to the generated primer (full content), not to an image file.
+    url: '/articles/faith-and-reason-primer',
+    category: 'Beginner',
+    source: 'Primer',
+    icon: 'book',
+  },
+  {
+    id: 'sep',
+    title: 'Stanford Encyclopedia of Philosophy',
+    description: 'Authoritative, peer-reviewed reference entries on philosophers and topics.',
+    url: 'https://plato.stanford.edu/',
+    category: 'Reference',
+    source: 'Stanford',
+    icon: 'graduation',
+  },
+  {
+    id: 'newadvent-catholic-encyclopedia',
+    title: 'Catholic Encyclopedia',
+    description: 'Classic reference work covering Catholic doctrine, history, and theology.',
+    url: 'https://www.newadvent.org/cathen/',
+    category: 'Reference',
+    source: 'New Advent',
+    icon: 'globe',
+  },
+  {
+    id: 'bible-gateway',
+    title: 'Bible Gateway',
+    description: 'Multiple translations with powerful search—ideal for quick references.',
+    url: 'https://www.biblegateway.com/',
+    category: 'Tools',
+    source: 'Bible Gateway',
+    icon: 'globe',
+  },
+  {
+    id: 'step-bible',
+    title: 'STEP Bible',
+    description: 'Study tool with original language helps, lexicons, and cross references.',
+    url: 'https://www.stepbible.org/',
+    category: 'Tools',
+    source: 'STEP',
+    icon: 'globe',
+  },
+  {
+    id: 'early-christian-writings',
+    title: 'Early Christian Writings',
+    description: 'The New Testament and early patristic texts with introductions and links.',
+    url: 'http://www.earlychristianwritings.com/',
+    category: 'Reading',
+    source: 'ECW',
+    icon: 'scroll',
+  },
+  {
+    id: 'aquinas-summa',
+    title: 'Aquinas: Summa Theologiae',
+    description: 'Accessible HTML edition of Aquinas’s Summa with indexed articles.',
+    url: 'https://www.newadvent.org/summa/',
+    category: 'Reading',
+    source: 'New Advent',
+    icon: 'scroll',
+  },
+  {
+    id: 'augustine-confessions',
+    title: 'Augustine: Confessions',
+    description: 'Full text editions online; a cornerstone of Christian philosophical reflection.',
+    url: 'https://www.ccel.org/ccel/augustine/confess.html',
+    category: 'Reading',
+    source: 'CCEL',
+    icon: 'scroll',
+  },
+  {
+    id: 'bibleproject',
+    title: 'The Bible Project',
+    description: 'Animated videos and study notes connecting biblical themes across Scripture.',
+    url: 'https://bibleproject.com/',
+    category: 'Media',
+    source: 'BibleProject',
+    icon: 'headphones',
+  },
+  {
+    id: 'pints-with-aquinas',
+    title: 'Pints With Aquinas',
+    description: 'Long-form conversations on theology, philosophy, and culture.',
+    url: 'https://pintswithaquinas.com/',
+    category: 'Media',
+    source: 'Podcast',
+    icon: 'headphones',
+  },
+  {
+    id: 'philosophy-bites',
+    title: 'Philosophy Bites',
+    description: 'Short interviews with leading philosophers—great for quick overviews.',
+    url: 'https://philosophybites.com/',
+    category: 'Media',
+    source: 'Podcast',
+    icon: 'headphones',
+  },
+]
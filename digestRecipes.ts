@@ -0,0 +1,130 @@
+/**
+ * digestRecipes.ts
+ * What goes into each newsletter issue: the reflection theme rotation, which article topics are
+ * featured and how many, and an optional featured resource and question.
+ * Read through buildNewsletterIssue by both the Newsletter Builder and the sending script.
+ *
+ * Notes:
+ * - Every pick is derived from the send date, so re-rendering an issue for the same date gives the same email.
+ * - Daily issues advance themes, resources, and questions by one each day; weekly issues by one each week.
+ * - Topics are dealt round-robin: each covered day continues the cycle where the previous day stopped,
+ *   so a weekly issue shows a different topic for every day until the topic list is exhausted.
+ */
+
+import type { TopicKey } from '../lib/articleEngine'
+import type { ReflectionTheme } from '../lib/contentEngine'
+import type { EmailThemeName } from '../lib/emailTemplate'
+
+/**
+ * FeaturedResource
+ * A link highlighted in an issue. `url` is absolute or an in-site path (e.g., /articles/…).
+ */
+export interface FeaturedResource {
+  title: string
+  url: string
+  description?: string
+}
+
+/**
+ * FeaturedQuestion
+ * A question for readers to sit with, optionally linking to a longer answer in the site.
+ */
+export interface FeaturedQuestion {
+  question: string
+  /** In-site path with a fuller answer (e.g., /questions) */
+  path?: string
+}
+
+/**
+ * DigestRecipe
+ * Composition of one kind of issue (daily or weekly).
+ */
+export interface DigestRecipe {
+  /** Reflection themes in rotation order; empty rotates through every theme */
+  themes: ReflectionTheme[]
+  /** Only feature these topics (omitted or empty: every topic) */
+  includeTopics?: TopicKey[]
+  /** Never feature these topics; applied after includeTopics */
+  excludeTopics?: TopicKey[]
+  /** Generated articles per covered day (a daily issue covers 1 day, a weekly issue 7) */
+  articlesPerDay: number
+  /** List hand-authored articles published in the period before the generated ones */
+  includeAuthored: boolean
+  /** Upper bound on articles in the issue, authored included */
+  maxArticles: number
+  /** Add the rotating featured resource */
+  featuredResource: boolean
+  /** Add the rotating featured question */
+  featuredQuestion: boolean
+}
+
+/**
+ * DigestRecipes
+ * Recipes per mode plus the rotations the featured slots draw from.
+ */
+export interface DigestRecipes {
+  /** Color theme of the HTML email (see emailThemes) */
+  emailTheme: EmailThemeName
+  daily: DigestRecipe
+  weekly: DigestRecipe
+  resources: FeaturedResource[]
+  questions: FeaturedQuestion[]
+}
+
+/**
+ * digestRecipes
+ * Edit to change what subscribers receive; the Newsletter Builder (/newsletter) previews the result for any date.
+ */
+export const digestRecipes: DigestRecipes = {
+  emailTheme: 'classic',
+  daily: {
+    themes: ['mindfulness', 'hope', 'gratitude', 'discernment', 'suffering', 'faith-reason'],
+    articlesPerDay: 3,
+    includeAuthored: true,
+    maxArticles: 3,
+    featuredResource: false,
+    featuredQuestion: true,
+  },
+  weekly: {
+    themes: ['faith-reason', 'discernment', 'hope', 'gratitude', 'suffering', 'mindfulness'],
+    articlesPerDay: 1,
+    includeAuthored: true,
+    maxArticles: 8,
+    featuredResource: true,
+    featuredQuestion: true,
+  },
+  resources: [
+    {
+      title: 'Faith & Reason: A Gentle Introduction',
+      url: '/articles/faith-and-reason-primer',
+      description: 'A short primer on how classical philosophy and Christian theology converse.',
+    },
+    {
+      title: 'Aquinas: Summa Theologiae',
+      url: 'https://www.newadvent.org/summa/',
+      description: 'Accessible HTML edition of Aquinas’s Summa with indexed articles.',
+    },
+    {
+      title: 'Augustine: Confessions',
+      url: 'https://www.ccel.org/ccel/augustine/confess.html',
+      description: 'Full text editions online; a cornerstone of Christian philosophical reflection.',
+    },
+    {
+      title: 'Stanford Encyclopedia of Philosophy',
+      url: 'https://plato.stanford.edu/',
+      description: 'Authoritative, peer-reviewed reference entries on philosophers and topics.',
+    },
+    {
+      title: 'Early Christian Writings',
+      url: 'http://www.earlychristianwritings.com/',
+      description: 'The New Testament and early patristic texts with introductions and links.',
+    },
+  ],
+  questions: [
+    { question: 'Where did you notice God’s presence today, and where did you miss it?' },
+    { question: 'Which belief of yours would you most like to understand better, and why?', path: '/questions' },
+    { question: 'What is one habit that helps you pay loving attention, and one that scatters it?' },
+    { question: 'How do you tell the difference between a restless thought and a real call?', path: '/questions' },
+    { question: 'What has suffering taught you that comfort could not?' },
+  ],
+}
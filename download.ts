@@ -1,6 +1,7 @@
 /**
  * download.ts
- * Small utility to download an image by URL or Data URL. Falls back to opening in a new tab on CORS failure.
+ * Small download utilities: images by URL or Data URL (falls back to opening in a new tab on CORS failure)
+ * and generated text files (JSON/CSV exports).
  */
 
 /**
@@ -53,3 +54,19 @@ export async function downloadImage(src: string, baseName: string = 'image'): Pr
     window.open(src, '_blank', 'noopener,noreferrer')
   }
 }
+
+/**
+ * downloadFile
+ * Triggers a file download for given content.
+ */
+export function downloadFile(filename: string, content: string, mime = 'application/json'): void {
+  const blob = new Blob([content], { type: mime })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  a.remove()
+  URL.revokeObjectURL(url)
+}
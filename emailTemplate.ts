@@ -0,0 +1,374 @@
+/**
+ * emailTemplate.ts
+ * Block-based email templates. An email is a list of blocks (header, reflection, quote, article cards,
+ * featured resource and question, prayer, footer) rendered two ways from the same tree:
+ * table-based HTML with inline styles, and plain text.
+ *
+ * Notes:
+ * - Every interpolated string is HTML-escaped; reflection bodies go through renderBodyHtml, which escapes too.
+ * - Inline styles carry the light palette (what clients without <style> support show); a prefers-color-scheme
+ *   block and Outlook's data-ogsc/data-ogsb hooks swap in the theme's dark palette where clients allow it.
+ * - Links and images must already be absolute; use absoluteUrl for site-relative image paths.
+ */
+
+import { escapeHtml, markdownToText, renderBodyHtml, type BodyFormat, type MarkdownTag } from './markdown'
+
+/**
+ * EmailPalette
+ * Colors for one scheme. Text colors keep at least 4.5:1 contrast on `surface`.
+ */
+export interface EmailPalette {
+  background: string
+  surface: string
+  border: string
+  heading: string
+  text: string
+  muted: string
+  link: string
+  /** Quote rule and thumbnail placeholder background */
+  accent: string
+}
+
+/**
+ * EmailTheme
+ * A light and a dark palette that belong together.
+ */
+export interface EmailTheme {
+  light: EmailPalette
+  dark: EmailPalette
+}
+
+/** Names of the built-in themes. */
+export type EmailThemeName = 'classic' | 'parchment'
+
+/**
+ * emailThemes
+ * Built-in themes; pick one with digestRecipes.emailTheme.
+ */
+export const emailThemes: Record<EmailThemeName, EmailTheme> = {
+  classic: {
+    light: {
+      background: '#f8fafc',
+      surface: '#ffffff',
+      border: '#e5e7eb',
+      heading: '#0f172a',
+      text: '#334155',
+      muted: '#64748b',
+      link: '#2563eb',
+      accent: '#e2e8f0',
+    },
+    dark: {
+      background: '#0b1120',
+      surface: '#111827',
+      border: '#1f2937',
+      heading: '#f1f5f9',
+      text: '#cbd5e1',
+      muted: '#94a3b8',
+      link: '#93c5fd',
+      accent: '#334155',
+    },
+  },
+  parchment: {
+    light: {
+      background: '#f5f0e6',
+      surface: '#fffdf8',
+      border: '#e7dcc8',
+      heading: '#3b2f1e',
+      text: '#4a3f30',
+      muted: '#7c6f5a',
+      link: '#9a3412',
+      accent: '#e7dcc8',
+    },
+    dark: {
+      background: '#1c1813',
+      surface: '#26211a',
+      border: '#3a3226',
+      heading: '#f5ede0',
+      text: '#e2d7c5',
+      muted: '#b3a58e',
+      link: '#fdba74',
+      accent: '#4a3f30',
+    },
+  },
+}
+
+/** One article card. `image` is shown as a thumbnail when present. */
+export interface EmailArticleItem {
+  title: string
+  href: string
+  excerpt?: string
+  image?: string
+  /** Small label above the title (e.g., the topic) */
+  label?: string
+}
+
+/**
+ * EmailBlock
+ * One section of an email. Renderers handle each type in both HTML and text.
+ */
+export type EmailBlock =
+  | { type: 'header'; title: string; subtitle?: string; preheader?: string }
+  | {
+      type: 'reflection'
+      heading: string
+      title: string
+      href: string
+      scripture?: { text: string; ref: string }
+      body: string[]
+      bodyFormat?: BodyFormat
+      /** Turns site-relative links in Markdown bodies into absolute ones */
+      resolveHref?: (path: string) => string
+    }
+  | { type: 'quote'; text: string; author: string }
+  | { type: 'articles'; heading: string; items: EmailArticleItem[] }
+  | { type: 'resource'; heading: string; title: string; href: string; description?: string }
+  | { type: 'question'; heading: string; question: string; href?: string }
+  | { type: 'prayer'; heading: string; text: string }
+  | {
+      type: 'footer'
+      siteName: string
+      siteUrl: string
+      contactEmail: string
+      /** Unsubscribe link or the sending provider's placeholder (e.g., {{ unsubscribe_url }}) */
+      unsubscribeUrl: string
+      note?: string
+    }
+
+/**
+ * EmailRenderOptions
+ * Theme and document language for the HTML renderer.
+ */
+export interface EmailRenderOptions {
+  theme?: EmailThemeName
+  lang?: string
+}
+
+/**
+ * absoluteUrl
+ * Leaves absolute and data URLs alone and prefixes site-relative ones with the origin.
+ */
+export function absoluteUrl(origin: string, src: string): string {
+  if (/^([a-z][a-z0-9+.-]*:|\/\/)/i.test(src) || !origin) return src
+  return `${origin.replace(/\/+$/, '')}/${src.replace(/^\/+/, '')}`
+}
+
+/* ---------------------------------- HTML --------------------------------- */
+
+const FONT = "system-ui,-apple-system,'Segoe UI',Roboto,Ubuntu,Cantarell,'Helvetica Neue',Arial,sans-serif"
+
+/** Inline styles for rendered reflection bodies (email clients ignore most stylesheets). */
+function bodyStyles(p: EmailPalette): Partial<Record<MarkdownTag, string>> {
+  return {
+    p: `margin:0 0 12px 0;line-height:1.6;color:${p.text};`,
+    h2: `margin:16px 0 8px 0;font-size:16px;color:${p.heading};`,
+    h3: `margin:16px 0 8px 0;font-size:15px;color:${p.heading};`,
+    a: `color:${p.link};text-decoration:underline;`,
+    blockquote: `margin:0 0 12px 0;padding:0 0 0 12px;border-left:3px solid ${p.accent};color:${p.text};`,
+    ul: `margin:0 0 12px 0;padding-left:18px;color:${p.text};`,
+    ol: `margin:0 0 12px 0;padding-left:18px;color:${p.text};`,
+    li: 'margin:4px 0;line-height:1.6;',
+    code: 'font-family:ui-monospace,Menlo,Consolas,monospace;font-size:13px;',
+    pre: `margin:0 0 12px 0;padding:12px;background:${p.background};border-radius:8px;overflow:auto;`,
+    hr: `border:0;border-top:1px solid ${p.border};margin:16px 0;`,
+    img: 'max-width:100%;height:auto;border-radius:8px;',
+  }
+}
+
+/**
+ * darkStyles
+ * Dark palette overrides keyed by class, for clients honoring prefers-color-scheme (Apple Mail, iOS)
+ * and for Outlook.com/app dark mode, which marks rewritten elements with data-ogsc/data-ogsb.
+ */
+function darkStyles(d: EmailPalette): string {
+  const backgrounds = (scope: string) =>
+    `${scope}.ll-bg{background:${d.background}!important}` +
+    `${scope}.ll-surface{background:${d.surface}!important;border-color:${d.border}!important}` +
+    `${scope}.ll-thumb{background:${d.accent}!important}`
+  const colors = (scope: string) =>
+    `${scope}.ll-heading{color:${d.heading}!important}` +
+    `${scope}.ll-text,${scope}.ll-text p,${scope}.ll-text li,${scope}.ll-text blockquote{color:${d.text}!important}` +
+    `${scope}.ll-muted{color:${d.muted}!important}` +
+    `${scope}.ll-link,${scope}.ll-text a{color:${d.link}!important}` +
+    `${scope}.ll-rule{border-color:${d.border}!important}` +
+    `${scope}.ll-accent{border-color:${d.accent}!important}`
+  return `@media (prefers-color-scheme: dark){${backgrounds('')}${colors('')}}${backgrounds('[data-ogsb] ')}${colors('[data-ogsc] ')}`
+}
+
+/** Wraps block content in the card's row. */
+function row(content: string, padding = '0 24px 20px 24px'): string {
+  return `<tr><td style="padding:${padding};">${content}</td></tr>`
+}
+
+/** Section heading shared by the content blocks. */
+function sectionHeading(text: string, p: EmailPalette): string {
+  return `<h2 class="ll-heading" style="margin:0 0 8px 0;font-size:16px;line-height:1.3;color:${p.heading};">${escapeHtml(text)}</h2>`
+}
+
+/** An escaped link; `className` picks which dark-palette color replaces `color`. */
+function link(href: string, text: string, color: string, className = 'll-link', underline = false): string {
+  return `<a class="${className}" href="${escapeHtml(href)}" style="color:${color};text-decoration:${underline ? 'underline' : 'none'};">${escapeHtml(text)}</a>`
+}
+
+/** One article card: thumbnail on the left when there is an image, then label, title, and excerpt. */
+function articleCard(item: EmailArticleItem, p: EmailPalette, last: boolean): string {
+  const thumb = item.image
+    ? `<td class="ll-thumb" width="96" valign="top" style="width:96px;padding:0 16px 0 0;">` +
+      `<a href="${escapeHtml(item.href)}"><img src="${escapeHtml(item.image)}" width="96" height="96" alt="${escapeHtml(item.title)}" ` +
+      `style="display:block;width:96px;height:96px;object-fit:cover;border:0;border-radius:8px;background:${p.accent};"></a></td>`
+    : ''
+  const label = item.label
+    ? `<div class="ll-muted" style="margin:0 0 2px 0;font-size:11px;letter-spacing:.04em;text-transform:uppercase;color:${p.muted};">${escapeHtml(item.label)}</div>`
+    : ''
+  const excerpt = item.excerpt
+    ? `<p class="ll-text" style="margin:4px 0 0 0;font-size:14px;line-height:1.5;color:${p.text};">${escapeHtml(item.excerpt)}</p>`
+    : ''
+  const rule = last ? '' : `border-bottom:1px solid ${p.border};`
+  return (
+    `<table role="presentation" width="100%" cellspacing="0" cellpadding="0"><tr>` +
+    `<td class="ll-rule" style="padding:12px 0;${rule}"><table role="presentation" width="100%" cellspacing="0" cellpadding="0"><tr>${thumb}` +
+    `<td valign="top">${label}<div style="font-size:15px;font-weight:600;line-height:1.35;">${link(item.href, item.title, p.heading, 'll-heading')}</div>${excerpt}</td>` +
+    `</tr></table></td></tr></table>`
+  )
+}
+
+/** Renders one block as card rows. */
+function blockHtml(block: EmailBlock, p: EmailPalette): string {
+  switch (block.type) {
+    case 'header':
+      return row(
+        `<h1 class="ll-heading" style="margin:0 0 4px 0;font-size:20px;line-height:1.3;color:${p.heading};">${escapeHtml(block.title)}</h1>` +
+          (block.subtitle ? `<div class="ll-muted" style="font-size:12px;color:${p.muted};">${escapeHtml(block.subtitle)}</div>` : ''),
+        '24px 24px 20px 24px'
+      )
+    case 'reflection': {
+      const scripture = block.scripture
+        ? `<p class="ll-text" style="margin:0 0 12px 0;color:${p.text};">“${escapeHtml(block.scripture.text)}” — ${escapeHtml(block.scripture.ref)}</p>`
+        : ''
+      const body = renderBodyHtml(block.body, block.bodyFormat ?? 'plain', { styles: bodyStyles(p), resolveHref: block.resolveHref })
+      return row(
+        sectionHeading(block.heading, p) +
+          `<p style="margin:0 0 6px 0;font-size:17px;font-weight:600;">${link(block.href, block.title, p.heading, 'll-heading')}</p>` +
+          scripture +
+          `<div class="ll-text">${body}</div>` +
+          `<p style="margin:4px 0 0 0;">${link(block.href, 'Read the reflection online →', p.link)}</p>`
+      )
+    }
+    case 'quote':
+      return row(
+        `<blockquote class="ll-accent" style="margin:0;padding:4px 0 4px 14px;border-left:3px solid ${p.accent};">` +
+          `<p class="ll-text" style="margin:0 0 4px 0;font-size:16px;font-style:italic;line-height:1.5;color:${p.text};">“${escapeHtml(block.text)}”</p>` +
+          `<p class="ll-muted" style="margin:0;font-size:13px;color:${p.muted};">— ${escapeHtml(block.author)}</p></blockquote>`
+      )
+    case 'articles':
+      if (!block.items.length) return ''
+      return row(sectionHeading(block.heading, p) + block.items.map((item, i) => articleCard(item, p, i === block.items.length - 1)).join(''))
+    case 'resource':
+      return row(
+        sectionHeading(block.heading, p) +
+          `<p style="margin:0 0 4px 0;font-weight:600;">${link(block.href, block.title, p.link)}</p>` +
+          (block.description ? `<p class="ll-text" style="margin:0;color:${p.text};">${escapeHtml(block.description)}</p>` : '')
+      )
+    case 'question':
+      return row(
+        sectionHeading(block.heading, p) +
+          `<p class="ll-text" style="margin:0;font-style:italic;color:${p.text};">${escapeHtml(block.question)}</p>` +
+          (block.href ? `<p style="margin:6px 0 0 0;">${link(block.href, 'Explore →', p.link)}</p>` : '')
+      )
+    case 'prayer':
+      return row(sectionHeading(block.heading, p) + `<p class="ll-text" style="margin:0;line-height:1.6;color:${p.text};">${escapeHtml(block.text)}</p>`)
+    case 'footer':
+      return row(
+        `<div class="ll-rule ll-muted" style="border-top:1px solid ${p.border};padding-top:16px;font-size:12px;line-height:1.6;color:${p.muted};">` +
+          (block.note ? `<p style="margin:0 0 6px 0;">${escapeHtml(block.note)}</p>` : '') +
+          `<p style="margin:0 0 6px 0;">Sent by ${link(block.siteUrl, block.siteName, p.link)} • Questions or replies: ${link(`mailto:${block.contactEmail}`, block.contactEmail, p.link)}</p>` +
+          `<p style="margin:0;">${link(block.unsubscribeUrl, 'Unsubscribe', p.link, 'll-link', true)}</p></div>`,
+        '4px 24px 24px 24px'
+      )
+  }
+}
+
+/**
+ * renderEmailHtml
+ * Full HTML document for the blocks: a centered 600px card that narrows on phones.
+ */
+export function renderEmailHtml(blocks: EmailBlock[], options: EmailRenderOptions = {}): string {
+  const { light: p, dark } = emailThemes[options.theme ?? 'classic']
+  const header = blocks.find(b => b.type === 'header')
+  const title = header?.type === 'header' ? header.title : ''
+  const preheader = header?.type === 'header' && header.preheader ? header.preheader : ''
+  const rows = blocks.map(b => blockHtml(b, p)).filter(Boolean).join('\n')
+
+  return `<!doctype html>
+<html lang="${escapeHtml(options.lang ?? 'en')}">
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width,initial-scale=1">
+    <meta name="color-scheme" content="light dark">
+    <meta name="supported-color-schemes" content="light dark">
+    <title>${escapeHtml(title)}</title>
+    <style>:root{color-scheme:light dark;supported-color-schemes:light dark}${darkStyles(dark)}@media (max-width:620px){.ll-container{width:100%!important}}</style>
+  </head>
+  <body class="ll-bg" style="margin:0;padding:0;background:${p.background};">
+    <div style="display:none;max-height:0;overflow:hidden;mso-hide:all;">${escapeHtml(preheader)}</div>
+    <table role="presentation" class="ll-bg" width="100%" cellspacing="0" cellpadding="0" style="background:${p.background};">
+      <tr>
+        <td align="center" style="padding:24px 12px;">
+          <table role="presentation" class="ll-container ll-surface" width="600" cellspacing="0" cellpadding="0" style="width:600px;max-width:600px;background:${p.surface};border:1px solid ${p.border};border-radius:12px;font-family:${FONT};">
+${rows}
+          </table>
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`
+}
+
+/* ---------------------------------- Text --------------------------------- */
+
+/** Renders one block as text lines. */
+function blockText(block: EmailBlock): string[] {
+  switch (block.type) {
+    case 'header':
+      return [block.title, ...(block.subtitle ? [block.subtitle] : [])]
+    case 'reflection': {
+      const body = block.bodyFormat === 'markdown' ? block.body.map(markdownToText) : block.body
+      return [
+        `${block.heading}: ${block.title}`,
+        ...(block.scripture ? [`Scripture: "${block.scripture.text}" (${block.scripture.ref})`] : []),
+        '',
+        ...body,
+        `Read online: ${block.href}`,
+      ]
+    }
+    case 'quote':
+      return [`Quote: "${block.text}" — ${block.author}`]
+    case 'articles':
+      if (!block.items.length) return []
+      return [`${block.heading}:`, ...block.items.flatMap(a => [`• ${a.title} — ${a.href}`, ...(a.excerpt ? [`  ${a.excerpt}`] : [])])]
+    case 'resource':
+      return [`${block.heading}: ${block.title} — ${block.href}`, ...(block.description ? [block.description] : [])]
+    case 'question':
+      return [`${block.heading}: ${block.question}`, ...(block.href ? [`Explore: ${block.href}`] : [])]
+    case 'prayer':
+      return [`${block.heading}: ${block.text}`]
+    case 'footer':
+      return [
+        '—',
+        ...(block.note ? [block.note] : []),
+        `Sent by ${block.siteName} (${block.siteUrl}) • Questions or replies: ${block.contactEmail}`,
+        `Unsubscribe: ${block.unsubscribeUrl}`,
+      ]
+  }
+}
+
+/**
+ * renderEmailText
+ * Plain-text alternative from the same blocks, one blank line between sections.
+ */
+export function renderEmailText(blocks: EmailBlock[]): string {
+  return blocks
+    .map(blockText)
+    .filter(lines => lines.length)
+    .map(lines => lines.join('\n'))
+    .join('\n\n')
+}
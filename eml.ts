@@ -0,0 +1,110 @@
+/**
+ * eml.ts
+ * Builds RFC 5322 email messages (.eml) with plain-text and HTML alternatives.
+ * Bodies are UTF-8 in base64 and non-ASCII headers use RFC 2047 encoded words, so the file
+ * opens the same in Apple Mail, Outlook, and Thunderbird. Works in the browser and in Node.
+ */
+
+import { toBase64 } from './auth'
+
+/**
+ * EmlMessage
+ * The parts of one message. `from`/`to` may include a display name: 'Name <addr@example.com>'.
+ */
+export interface EmlMessage {
+  from: string
+  to?: string
+  subject: string
+  date?: Date
+  text: string
+  html: string
+  /** Mark as an unsent draft so mail clients open it for editing (X-Unsent: 1) */
+  draft?: boolean
+  /** Message-ID without angle brackets; a stable one lets receiving systems drop duplicates */
+  messageId?: string
+}
+
+/** UTF-8 bytes as base64. */
+function utf8Base64(s: string): string {
+  return toBase64(new TextEncoder().encode(s))
+}
+
+/** Wraps base64 to 76-character lines as MIME requires. */
+function wrap76(s: string): string {
+  return s.replace(/.{1,76}/g, line => `${line}\r\n`).trimEnd()
+}
+
+/**
+ * encodeHeader
+ * Leaves printable ASCII as is; otherwise splits into base64 encoded words of at most 45 bytes each.
+ */
+function encodeHeader(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value
+  const words: string[] = []
+  let chunk = ''
+  for (const ch of value) {
+    if (new TextEncoder().encode(chunk + ch).length > 45) {
+      words.push(chunk)
+      chunk = ''
+    }
+    chunk += ch
+  }
+  if (chunk) words.push(chunk)
+  return words.map(w => `=?UTF-8?B?${utf8Base64(w)}?=`).join('\r\n ')
+}
+
+/**
+ * encodeAddress
+ * Encodes or quotes the display name of 'Name <addr>' and leaves the address untouched.
+ */
+function encodeAddress(value: string): string {
+  const m = value.match(/^\s*(.*?)\s*<([^>]+)>\s*$/)
+  if (!m || !m[1]) return value.trim()
+  const name = m[1].replace(/^"|"$/g, '')
+  const display = /^[\x20-\x7e]*$/.test(name) ? `"${name.replace(/(["\\])/g, '\\$1')}"` : encodeHeader(name)
+  return `${display} <${m[2]}>`
+}
+
+/** RFC 5322 date (e.g., Sun, 18 Oct 2026 16:00:00 +0000). */
+function formatEmailDate(date: Date): string {
+  return date.toUTCString().replace(/GMT$/, '+0000')
+}
+
+/** One base64 body part. */
+function part(contentType: string, body: string): string {
+  return [
+    `Content-Type: ${contentType}; charset=UTF-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrap76(utf8Base64(body.replace(/\r?\n/g, '\r\n'))),
+  ].join('\r\n')
+}
+
+/**
+ * buildEml
+ * Serializes a multipart/alternative message (text first, HTML preferred) with CRLF line endings.
+ */
+export function buildEml(msg: EmlMessage): string {
+  const boundary = `=_ll_${Math.random().toString(36).slice(2)}${Date.now().toString(36)}`
+  const headers = [
+    `From: ${encodeAddress(msg.from)}`,
+    ...(msg.to ? [`To: ${encodeAddress(msg.to)}`] : []),
+    `Subject: ${encodeHeader(msg.subject)}`,
+    `Date: ${formatEmailDate(msg.date ?? new Date())}`,
+    ...(msg.messageId ? [`Message-ID: <${msg.messageId}>`] : []),
+    'MIME-Version: 1.0',
+    ...(msg.draft ? ['X-Unsent: 1'] : []),
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+  ]
+  return [
+    ...headers,
+    '',
+    'This is a multi-part message in MIME format.',
+    `--${boundary}`,
+    part('text/plain', msg.text),
+    `--${boundary}`,
+    part('text/html', msg.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n')
+}
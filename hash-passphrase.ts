@@ -0,0 +1,38 @@
+/**
+ * hash-passphrase.ts
+ * Prints an AdminCredential entry (salt + PBKDF2 hash) for adminAuthConfig.credentials.
+ * - Bundled and executed with esbuild (npm run hash-passphrase -- <user> <passphrase>).
+ * - Uses the same derivation as the in-browser sign-in, so the entry can be pasted as-is.
+ *
+ * Optional environment variables:
+ * - ITERATIONS: PBKDF2 iteration count (default: DEFAULT_PBKDF2_ITERATIONS)
+ */
+
+import { DEFAULT_PBKDF2_ITERATIONS, derivePassphraseHash, randomBase64 } from '../src/lib/auth'
+
+/** Read an env var with default. */
+function env(name: string, fallback?: string): string | undefined {
+  const v = process.env[name]
+  return v === undefined || v === '' ? fallback : v
+}
+
+/** Main entry: derives the hash and prints the credential object. */
+async function main() {
+  const [user, passphrase] = process.argv.slice(2)
+  if (!user || !passphrase) {
+    console.error('Usage: npm run hash-passphrase -- <user> <passphrase>')
+    process.exit(1)
+  }
+  const iterations =
+    parseInt(env('ITERATIONS', String(DEFAULT_PBKDF2_ITERATIONS)) as string, 10) || DEFAULT_PBKDF2_ITERATIONS
+  const salt = randomBase64(16)
+  const hash = await derivePassphraseHash(passphrase, salt, iterations)
+
+  console.log('Add this entry to adminAuthConfig.credentials in src/config/remote.ts:\n')
+  console.log(JSON.stringify({ user, salt, hash, iterations }, null, 2))
+}
+
+main().catch(err => {
+  console.error(err)
+  process.exit(1)
+})
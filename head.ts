@@ -0,0 +1,261 @@
+/**
+ * head.ts
+ * Per-page head management: document title, description, Open Graph, Twitter card, and JSON-LD.
+ * Pages describe their head with a PageHead object (see usePageHead); this module applies it to the
+ * live document in the browser and serializes it to HTML for prerendered pages.
+ */
+
+import { createContext } from 'react'
+import { siteConfig, getTitle } from '../config/site'
+import { calendarDateToSiteInstant, isCalendarDate } from './calendarDate'
+
+/**
+ * JsonLd
+ * A schema.org JSON-LD object (serialized as-is).
+ */
+export type JsonLd = Record<string, unknown>
+
+/**
+ * PageHead
+ * Head description for one page. Only `title` is required; missing fields fall back to site defaults.
+ */
+export interface PageHead {
+  /** Page title (without site name); composed with getTitle */
+  title?: string
+  /** Short description for search snippets and link previews */
+  description?: string
+  /** Preview image URL (absolute or root-relative) */
+  image?: string
+  /** Open Graph type; 'article' enables article:published_time */
+  type?: 'website' | 'article'
+  /** YYYY-MM-DD or full ISO timestamp of publication */
+  publishedTime?: string
+  /** Structured data blocks (Article, BreadcrumbList, FAQPage, …) */
+  jsonLd?: JsonLd[]
+}
+
+/**
+ * HeadCollector
+ * Receives the page head during server rendering, where effects do not run.
+ */
+export interface HeadCollector {
+  head: PageHead | null
+}
+
+/** Context carrying the collector while prerendering; null in the browser. */
+export const HeadCollectorContext = createContext<HeadCollector | null>(null)
+
+/** Element id used for the JSON-LD script tag. */
+const JSON_LD_ID = 'll-jsonld'
+
+/**
+ * absoluteUrl
+ * Resolves root-relative URLs against the configured base URL; leaves absolute and data URLs alone.
+ */
+export function absoluteUrl(url: string): string {
+  if (!url || /^[a-z]+:/i.test(url)) return url
+  const origin = siteConfig.baseUrl.replace(/\/+$/, '')
+  return `${origin}${url.startsWith('/') ? url : `/${url}`}`
+}
+
+/**
+ * toIsoTimestamp
+ * Expands a YYYY-MM-DD date to an instant on that day in the site time zone; passes full timestamps through.
+ */
+function toIsoTimestamp(value: string): string {
+  return isCalendarDate(value) ? calendarDateToSiteInstant(value).toISOString() : value
+}
+
+/**
+ * HeadMeta
+ * One resolved <meta> tag: id (for in-place updates), attribute kind, name, and content.
+ */
+interface HeadMeta {
+  id: string
+  key: 'name' | 'property'
+  name: string
+  content: string
+}
+
+/**
+ * resolveHead
+ * Fills defaults and produces the document title, meta tags, and JSON-LD payload.
+ */
+function resolveHead(head: PageHead | null): { title: string; metas: HeadMeta[]; jsonLd: JsonLd[] } {
+  const h = head ?? {}
+  const title = getTitle(h.title)
+  const description = h.description || siteConfig.tagline
+  const image = h.image && !h.image.startsWith('data:') ? absoluteUrl(h.image) : ''
+  const type = h.type ?? 'website'
+
+  const metas: HeadMeta[] = [
+    { id: 'll-description', key: 'name', name: 'description', content: description },
+    { id: 'll-og-title', key: 'property', name: 'og:title', content: title },
+    { id: 'll-og-description', key: 'property', name: 'og:description', content: description },
+    { id: 'll-og-type', key: 'property', name: 'og:type', content: type },
+    { id: 'll-og-image', key: 'property', name: 'og:image', content: image },
+    {
+      id: 'll-article-published',
+      key: 'property',
+      name: 'article:published_time',
+      content: type === 'article' && h.publishedTime ? toIsoTimestamp(h.publishedTime) : '',
+    },
+    { id: 'll-twitter-card', key: 'name', name: 'twitter:card', content: image ? 'summary_large_image' : 'summary' },
+    { id: 'll-twitter-title', key: 'name', name: 'twitter:title', content: title },
+    { id: 'll-twitter-description', key: 'name', name: 'twitter:description', content: description },
+    { id: 'll-twitter-image', key: 'name', name: 'twitter:image', content: image },
+  ]
+
+  return { title, metas, jsonLd: h.jsonLd ?? [] }
+}
+
+/**
+ * upsertLink
+ * Creates or updates a <link> tag in the document head.
+ */
+export function upsertLink(id: string, rel: string, href: string) {
+  if (typeof document === 'undefined' || !href) return
+  let el = document.head.querySelector<HTMLLinkElement>(`link#${id}`)
+  if (!el) {
+    el = document.createElement('link')
+    el.id = id
+    el.rel = rel
+    document.head.appendChild(el)
+  }
+  el.href = href
+}
+
+/**
+ * upsertMeta
+ * Creates or updates a <meta> tag in the document head by (name|property).
+ * An empty content removes the tag so stale values never linger between pages.
+ */
+export function upsertMeta(id: string, key: 'name' | 'property', name: string, content: string) {
+  if (typeof document === 'undefined') return
+  let el = document.head.querySelector<HTMLMetaElement>(`meta#${id}`)
+  if (!content) {
+    el?.remove()
+    return
+  }
+  if (!el) {
+    el = document.createElement('meta')
+    el.id = id
+    el.setAttribute(key, name)
+    document.head.appendChild(el)
+  }
+  el.content = content
+}
+
+/**
+ * applyHead
+ * Writes the page head into the live document (browser only).
+ * Passing null restores site defaults.
+ */
+export function applyHead(head: PageHead | null): void {
+  if (typeof document === 'undefined') return
+  const { title, metas, jsonLd } = resolveHead(head)
+  document.title = title
+  metas.forEach(m => upsertMeta(m.id, m.key, m.name, m.content))
+
+  let script = document.head.querySelector<HTMLScriptElement>(`script#${JSON_LD_ID}`)
+  if (jsonLd.length === 0) {
+    script?.remove()
+    return
+  }
+  if (!script) {
+    script = document.createElement('script')
+    script.id = JSON_LD_ID
+    script.type = 'application/ld+json'
+    document.head.appendChild(script)
+  }
+  script.textContent = JSON.stringify(jsonLd.length === 1 ? jsonLd[0] : jsonLd)
+}
+
+/** Escape text for HTML attribute values and content. */
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+/**
+ * renderHeadHtml
+ * Serializes the page head to HTML tags for prerendered documents.
+ * JSON-LD escapes "<" so the payload cannot close the script element.
+ */
+export function renderHeadHtml(head: PageHead | null): string {
+  const { title, metas, jsonLd } = resolveHead(head)
+  const parts = [`<title>${escapeHtml(title)}</title>`]
+  metas
+    .filter(m => m.content)
+    .forEach(m => parts.push(`<meta id="${m.id}" ${m.key}="${m.name}" content="${escapeHtml(m.content)}" />`))
+  if (jsonLd.length > 0) {
+    const json = JSON.stringify(jsonLd.length === 1 ? jsonLd[0] : jsonLd).replace(/</g, '\\u003c')
+    parts.push(`<script id="${JSON_LD_ID}" type="application/ld+json">${json}</script>`)
+  }
+  return parts.join('')
+}
+
+/**
+ * breadcrumbJsonLd
+ * BreadcrumbList from the same items the Breadcrumbs component renders.
+ */
+export function breadcrumbJsonLd(
+  items: Array<{ label: string; to?: string }>,
+  currentPath: string
+): JsonLd {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'BreadcrumbList',
+    itemListElement: items.map((item, i) => ({
+      '@type': 'ListItem',
+      position: i + 1,
+      name: item.label,
+      item: absoluteUrl(item.to ?? currentPath),
+    })),
+  }
+}
+
+/**
+ * articleJsonLd
+ * Article schema for articles and reflections.
+ */
+export function articleJsonLd(input: {
+  title: string
+  description: string
+  path: string
+  datePublished: string
+  image?: string
+  keywords?: string[]
+  /** Byline; defaults to the site as author */
+  author?: string
+}): JsonLd {
+  const publisher = { '@type': 'Organization', name: siteConfig.name, url: siteConfig.baseUrl }
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Article',
+    headline: input.title,
+    description: input.description,
+    url: absoluteUrl(input.path),
+    mainEntityOfPage: absoluteUrl(input.path),
+    datePublished: toIsoTimestamp(input.datePublished),
+    ...(input.image && !input.image.startsWith('data:') ? { image: [absoluteUrl(input.image)] } : {}),
+    ...(input.keywords?.length ? { keywords: input.keywords.join(', ') } : {}),
+    author: input.author ? { '@type': 'Person', name: input.author } : publisher,
+    publisher,
+  }
+}
+
+/**
+ * faqJsonLd
+ * FAQPage schema from question/answer pairs.
+ */
+export function faqJsonLd(items: Array<{ q: string; a: string }>): JsonLd {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'FAQPage',
+    mainEntity: items.map(item => ({
+      '@type': 'Question',
+      name: item.q,
+      acceptedAnswer: { '@type': 'Answer', text: item.a },
+    })),
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * i18n.ts
+ * Localization: the active locale, UI messages via i18next/react-i18next, locale-aware dates,
+ * and helpers the content generators use to swap in translated pools.
+ * English is the source language and the fallback for every missing string. Build scripts never
+ * call initLocale(), so they always render English.
+ */
+
+import i18next from 'i18next'
+import { initReactI18next } from 'react-i18next'
+import { uiMessages } from './uiMessages'
+
+/**
+ * Locale
+ * Supported interface and content languages.
+ */
+export type Locale = 'en' | 'es' | 'ko'
+
+/**
+ * locales
+ * Ordered list for the language switcher; labels are in each language.
+ */
+export const locales: Array<{ code: Locale; label: string; dateTag: string }> = [
+  { code: 'en', label: 'English', dateTag: 'en-US' },
+  { code: 'es', label: 'Español', dateTag: 'es-ES' },
+  { code: 'ko', label: '한국어', dateTag: 'ko-KR' },
+]
+
+/** Source and fallback language. */
+export const DEFAULT_LOCALE: Locale = 'en'
+
+/** Storage key for the chosen locale. */
+const LOCALE_KEY = 'll-locale:v1'
+
+/** Custom event name dispatched after the locale changes. */
+export const LOCALE_EVENT = 'll-locale-changed'
+
+/** Active locale; English until initLocale() runs on the client. */
+let current: Locale = DEFAULT_LOCALE
+
+void i18next.use(initReactI18next).init({
+  resources: Object.fromEntries(Object.entries(uiMessages).map(([code, messages]) => [code, { translation: messages }])),
+  lng: DEFAULT_LOCALE,
+  fallbackLng: DEFAULT_LOCALE,
+  interpolation: { escapeValue: false },
+  initAsync: false,
+  // Keeps the console clean in the browser and in the build scripts that import this module
+  showSupportNotice: false,
+})
+
+/** Narrows an arbitrary string (storage, navigator) to a supported locale. */
+function toLocale(value: string | null | undefined): Locale | null {
+  const code = (value || '').toLowerCase().split('-')[0]
+  return locales.some(l => l.code === code) ? (code as Locale) : null
+}
+
+/**
+ * getLocale
+ * The active locale (used by generators and date formatting).
+ */
+export function getLocale(): Locale {
+  return current
+}
+
+/**
+ * setLocale
+ * Switches the interface and generated content to a locale and remembers the choice.
+ */
+export function setLocale(locale: Locale): void {
+  current = locale
+  void i18next.changeLanguage(locale)
+  try {
+    localStorage.setItem(LOCALE_KEY, locale)
+  } catch {
+    // ignore
+  }
+  try {
+    document.documentElement.lang = locale
+    window.dispatchEvent(new CustomEvent(LOCALE_EVENT, { detail: { locale } }))
+  } catch {
+    // ignore (non-browser)
+  }
+}
+
+/**
+ * withLocale
+ * Runs fn with generators and date formatting in a locale, then restores the active one.
+ * Nothing is saved or announced, so the interface stays as it is (e.g., an English newsletter preview).
+ */
+export function withLocale<T>(locale: Locale, fn: () => T): T {
+  const previous = current
+  current = locale
+  try {
+    return fn()
+  } finally {
+    current = previous
+  }
+}
+
+/**
+ * initLocale
+ * Applies the saved locale, or the browser language on a first visit (call once on the client after mount).
+ */
+export function initLocale(): void {
+  let saved: string | null = null
+  try {
+    saved = localStorage.getItem(LOCALE_KEY)
+  } catch {
+    // ignore
+  }
+  const locale = toLocale(saved) ?? toLocale(typeof navigator !== 'undefined' ? navigator.language : null)
+  if (locale && locale !== current) setLocale(locale)
+}
+
+/**
+ * formatDate
+ * Locale-aware date label for the active (or given) locale.
+ */
+export function formatDate(date: Date, options: Intl.DateTimeFormatOptions, locale: Locale = current): string {
+  const tag = locales.find(l => l.code === locale)?.dateTag ?? 'en-US'
+  return date.toLocaleDateString(tag, options)
+}
+
+/**
+ * PoolTranslation
+ * Translations of an English pool, aligned by index; missing (undefined) entries fall back to English.
+ */
+export type PoolTranslation<T> = Array<T | undefined>
+
+/**
+ * localizePool
+ * Overlays a translation on its English pool. Length and order always follow the English pool,
+ * so seeded picks select the same item in every language.
+ */
+export function localizePool<T>(en: T[], translated?: PoolTranslation<T>): T[] {
+  if (!translated) return en
+  return en.map((value, i) => translated[i] ?? value)
+}
+
+export default i18next
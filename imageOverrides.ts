@@ -9,12 +9,12 @@
 import type { TopicKey } from './articleEngine'
 import { IS_PUBLIC } from './env'
 import { topicDefaultImages, articleDefaultImages, siteWideImageOverride } from '../config/images'
-import { getRemoteArticleImage, getRemoteTopicImage } from './remoteImages'
+import { getMirroredImage, getRemoteArticleImage, getRemoteTopicImage } from './remoteImages'
 
 /** ImageOverrides
  * Structure stored in localStorage that tracks per-topic and per-article overrides.
  */
-interface ImageOverrides {
+export interface ImageOverrides {
   /** Map of topicKey -> custom image URL */
   topics: Record<string, string>
   /** Map of articleId -> custom image URL */
@@ -89,20 +89,6 @@ function saveOverrides(next: ImageOverrides): void {
   }
 }
 
-/** Resolves the topic-level default image from code mapping or fallback. */
-function resolveTopicDefault(topic: TopicKey, fallback: string): string {
-  const byCode = topicDefaultImages[topic]
-  return (byCode as string) || fallback
-}
-
-/** Resolves the article-level default image from code mapping/topic fallback. */
-function resolveArticleDefault(articleId: string, fallback: string, topicKey?: TopicKey): string {
-  const byArticle = articleDefaultImages[articleId]
-  if (byArticle) return byArticle
-  if (topicKey && topicDefaultImages[topicKey]) return topicDefaultImages[topicKey] as string
-  return fallback
-}
-
 /** Sets or clears a topic-level image override (no-op on public). */
 export function setTopicImage(topic: TopicKey, src: string | null) {
   if (IS_PUBLIC) return
@@ -128,79 +114,126 @@ export function setArticleImage(articleId: string, src: string | null) {
 }
 
 /**
- * getTopicImage
- * Resolves a topic image source using environment-aware precedence, with a new hard site-wide override at the very top.
+ * ImageSources
+ * Everything image resolution reads, gathered in one place so precedence can be checked
+ * for both environments without a browser (see scripts/check-engines.ts).
  */
-export function getTopicImage(topic: TopicKey, defaultSrc: string): string {
-  // 0) Site-wide override (config constant or localStorage) — always wins
-  const siteWide = siteWideImageOverride || getSiteWideImageLocal()
-  if (siteWide) return siteWide
-
-  if (IS_PUBLIC) {
-    // Public: remote -> code -> fallback
-    const r = getRemoteTopicImage(String(topic))
-    if (r) return r
-    return resolveTopicDefault(topic, defaultSrc)
+export interface ImageSources {
+  /** Public host (remote mappings only) vs local development (local overrides first) */
+  isPublic: boolean
+  /** Site-wide override from config or localStorage; wins everywhere when set */
+  siteWide: string | null
+  /** Local per-topic/per-article overrides (ignored on public) */
+  local: ImageOverrides
+  remoteTopic: (topicKey: string) => string | undefined
+  remoteArticle: (articleId: string) => string | undefined
+  topicDefaults: Partial<Record<TopicKey, string>>
+  articleDefaults: Record<string, string>
+}
+
+/** Reads the live sources: config, environment, localStorage, and remote mappings. */
+function currentSources(): ImageSources {
+  return {
+    isPublic: IS_PUBLIC,
+    siteWide: siteWideImageOverride || getSiteWideImageLocal(),
+    local: IS_PUBLIC ? { topics: {}, articles: {} } : getOverrides(),
+    remoteTopic: getRemoteTopicImage,
+    remoteArticle: getRemoteArticleImage,
+    topicDefaults: topicDefaultImages,
+    articleDefaults: articleDefaultImages,
   }
-  // Local: local -> remote -> code -> fallback
-  const ov = getOverrides()
-  const fromOverride = ov.topics[String(topic)]
-  if (fromOverride) return fromOverride
-  const r = getRemoteTopicImage(String(topic))
+}
+
+/**
+ * resolveTopicImage
+ * Topic image precedence over explicit sources.
+ * Public: site-wide -> remote -> code -> fallback. Local: site-wide -> local -> remote -> code -> fallback.
+ */
+export function resolveTopicImage(src: ImageSources, topic: TopicKey, defaultSrc: string): string {
+  if (src.siteWide) return src.siteWide
+
+  if (!src.isPublic) {
+    const fromOverride = src.local.topics[String(topic)]
+    if (fromOverride) return fromOverride
+  }
+  const r = src.remoteTopic(String(topic))
   if (r) return r
-  return resolveTopicDefault(topic, defaultSrc)
+  return src.topicDefaults[topic] || defaultSrc
 }
 
 /**
- * getArticleImage
- * Resolves an article image source using environment-aware precedence.
- * New: site-wide override takes absolute precedence.
+ * resolveArticleImage
+ * Article image precedence over explicit sources (see getArticleImage for the order).
  */
-export function getArticleImage(
+export function resolveArticleImage(
+  src: ImageSources,
   articleId: string,
   defaultSrc: string,
   topicKey?: TopicKey
 ): string {
   // 0) Site-wide override (config constant or localStorage) — always wins
-  const siteWide = siteWideImageOverride || getSiteWideImageLocal()
-  if (siteWide) return siteWide
+  if (src.siteWide) return src.siteWide
 
-  if (IS_PUBLIC) {
+  if (src.isPublic) {
     // 1) Remote article mapping
-    const ra = getRemoteArticleImage(articleId)
+    const ra = src.remoteArticle(articleId)
     if (ra) return ra
 
     // 2) Remote topic mapping (explicit public preference)
     if (topicKey) {
-      const rt = getRemoteTopicImage(String(topicKey))
+      const rt = src.remoteTopic(String(topicKey))
       if (rt) return rt
     }
 
     // 3) Code default for this article (if any)
-    const byArticle = articleDefaultImages[articleId]
+    const byArticle = src.articleDefaults[articleId]
     if (byArticle) return byArticle
 
     // 4) Generated unique per-article default (from generator)
     if (defaultSrc) return defaultSrc
 
     // 5) Code default topic mapping (broad fallback)
-    if (topicKey && topicDefaultImages[topicKey]) return topicDefaultImages[topicKey] as string
+    if (topicKey && src.topicDefaults[topicKey]) return src.topicDefaults[topicKey] as string
 
     return defaultSrc
   }
 
   // Local: local (article -> topic) -> remote (article -> topic) -> code -> fallback
-  const ov = getOverrides()
-  if (ov.articles[articleId]) return ov.articles[articleId]
-  if (topicKey && ov.topics[String(topicKey)]) return ov.topics[String(topicKey)]
+  if (src.local.articles[articleId]) return src.local.articles[articleId]
+  if (topicKey && src.local.topics[String(topicKey)]) return src.local.topics[String(topicKey)]
 
-  const ra = getRemoteArticleImage(articleId)
+  const ra = src.remoteArticle(articleId)
   if (ra) return ra
   if (topicKey) {
-    const rt = getRemoteTopicImage(String(topicKey))
+    const rt = src.remoteTopic(String(topicKey))
     if (rt) return rt
   }
-  return resolveArticleDefault(articleId, defaultSrc, topicKey)
+  const byArticle = src.articleDefaults[articleId]
+  if (byArticle) return byArticle
+  if (topicKey && src.topicDefaults[topicKey]) return src.topicDefaults[topicKey] as string
+  return defaultSrc
+}
+
+/**
+ * getTopicImage
+ * Resolves a topic image source using environment-aware precedence, with a new hard site-wide override at the very top.
+ * The winner is swapped for its mirrored copy when the remote mapping lists one.
+ */
+export function getTopicImage(topic: TopicKey, defaultSrc: string): string {
+  return getMirroredImage(resolveTopicImage(currentSources(), topic, defaultSrc))
+}
+
+/**
+ * getArticleImage
+ * Resolves an article image source using environment-aware precedence.
+ * New: site-wide override takes absolute precedence. Mirrored copies replace the winner as in getTopicImage.
+ */
+export function getArticleImage(
+  articleId: string,
+  defaultSrc: string,
+  topicKey?: TopicKey
+): string {
+  return getMirroredImage(resolveArticleImage(currentSources(), articleId, defaultSrc, topicKey))
 }
 
 /** Exposed for settings UI to read current values (local dev only). */
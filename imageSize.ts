@@ -0,0 +1,160 @@
+/**
+ * imageSize.ts
+ * Identifies an image from its leading bytes and reads its intrinsic width/height without decoding pixels.
+ * Used by the image mirroring script (scripts/mirror-images.ts); works on any Uint8Array, so no Node APIs.
+ *
+ * Supported: PNG, JPEG, GIF, WebP (lossy, lossless, extended), SVG (width/height or viewBox), and AVIF
+ * (recognized, dimensions from the ispe box when present).
+ */
+
+/** Image formats the site serves. */
+export type ImageFormat = 'png' | 'jpeg' | 'gif' | 'webp' | 'svg' | 'avif'
+
+/**
+ * ImageInfo
+ * Result of sniffing; width/height are omitted when the header does not state them.
+ */
+export interface ImageInfo {
+  format: ImageFormat
+  /** File extension without the dot */
+  ext: string
+  width?: number
+  height?: number
+}
+
+/** Extension written for each format. */
+const EXTENSIONS: Record<ImageFormat, string> = {
+  png: 'png',
+  jpeg: 'jpg',
+  gif: 'gif',
+  webp: 'webp',
+  svg: 'svg',
+  avif: 'avif',
+}
+
+/** True when bytes at `offset` equal the ASCII string. */
+function ascii(b: Uint8Array, offset: number, s: string): boolean {
+  if (offset + s.length > b.length) return false
+  for (let i = 0; i < s.length; i++) if (b[offset + i] !== s.charCodeAt(i)) return false
+  return true
+}
+
+/* Unsigned integer readers (be: big-endian, le: little-endian). */
+function u16be(b: Uint8Array, o: number): number {
+  return (b[o] << 8) | b[o + 1]
+}
+
+function u16le(b: Uint8Array, o: number): number {
+  return b[o] | (b[o + 1] << 8)
+}
+
+function u24le(b: Uint8Array, o: number): number {
+  return b[o] | (b[o + 1] << 8) | (b[o + 2] << 16)
+}
+
+function u32be(b: Uint8Array, o: number): number {
+  return ((b[o] << 24) >>> 0) + ((b[o + 1] << 16) | (b[o + 2] << 8) | b[o + 3])
+}
+
+/** Builds the result, dropping non-positive sizes. */
+function info(format: ImageFormat, width?: number, height?: number): ImageInfo {
+  const out: ImageInfo = { format, ext: EXTENSIONS[format] }
+  if (width && height && width > 0 && height > 0) {
+    out.width = width
+    out.height = height
+  }
+  return out
+}
+
+/** Walks JPEG segments to the first start-of-frame marker. */
+function jpegSize(b: Uint8Array): ImageInfo {
+  let o = 2
+  while (o + 9 < b.length) {
+    if (b[o] !== 0xff) {
+      o++
+      continue
+    }
+    const marker = b[o + 1]
+    // Fill bytes, standalone markers (RSTn, TEM)
+    if (marker === 0xff) {
+      o++
+      continue
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      o += 2
+      continue
+    }
+    // SOF0–SOF15 except DHT (C4), JPG (C8), DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return info('jpeg', u16be(b, o + 7), u16be(b, o + 5))
+    }
+    o += 2 + u16be(b, o + 2)
+  }
+  return info('jpeg')
+}
+
+/** Reads VP8 / VP8L / VP8X headers. */
+function webpSize(b: Uint8Array): ImageInfo {
+  if (ascii(b, 12, 'VP8X') && b.length >= 30) return info('webp', u24le(b, 24) + 1, u24le(b, 27) + 1)
+  if (ascii(b, 12, 'VP8L') && b.length >= 25) {
+    const bits = b[21] | (b[22] << 8) | (b[23] << 16) | (b[24] << 24)
+    return info('webp', (bits & 0x3fff) + 1, ((bits >> 14) & 0x3fff) + 1)
+  }
+  if (ascii(b, 12, 'VP8 ') && b.length >= 30) return info('webp', u16le(b, 26) & 0x3fff, u16le(b, 28) & 0x3fff)
+  return info('webp')
+}
+
+/** Finds the first ispe (image spatial extent) box in an AVIF/HEIF container. */
+function avifSize(b: Uint8Array): ImageInfo {
+  for (let o = 4; o + 16 <= b.length; o++) {
+    if (ascii(b, o, 'ispe')) return info('avif', u32be(b, o + 8), u32be(b, o + 12))
+  }
+  return info('avif')
+}
+
+/** Parses a CSS length in px (or unitless); other units cannot be resolved here. */
+function svgLength(v: string | undefined): number | undefined {
+  const m = v?.trim().match(/^(\d+(?:\.\d+)?)(px)?$/)
+  return m ? Math.round(Number(m[1])) : undefined
+}
+
+/** Reads width/height from the root <svg> tag, falling back to the viewBox. */
+function svgSize(text: string): ImageInfo {
+  const tag = text.match(/<svg\b[^>]*>/i)?.[0] ?? ''
+  const attr = (name: string) => tag.match(new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, 'i'))?.[1]
+  const width = svgLength(attr('width'))
+  const height = svgLength(attr('height'))
+  if (width && height) return info('svg', width, height)
+  const box = attr('viewBox')?.trim().split(/[\s,]+/).map(Number)
+  if (box && box.length === 4 && box.every(n => Number.isFinite(n)) && box[2] > 0 && box[3] > 0) {
+    const [, , w, h] = box
+    // One explicit side keeps the viewBox aspect ratio
+    if (width) return info('svg', width, Math.round((width * h) / w))
+    if (height) return info('svg', Math.round((height * w) / h), height)
+    return info('svg', Math.round(w), Math.round(h))
+  }
+  return info('svg')
+}
+
+/**
+ * sniffImage
+ * Returns the format and intrinsic size of an image, or null when the bytes are not a supported image
+ * (e.g., an HTML error page served with status 200).
+ */
+export function sniffImage(bytes: Uint8Array): ImageInfo | null {
+  const b = bytes
+  if (b.length >= 24 && b[0] === 0x89 && ascii(b, 1, 'PNG') && ascii(b, 12, 'IHDR')) {
+    return info('png', u32be(b, 16), u32be(b, 20))
+  }
+  if (b.length >= 3 && b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff) return jpegSize(b)
+  if (b.length >= 10 && (ascii(b, 0, 'GIF87a') || ascii(b, 0, 'GIF89a'))) return info('gif', u16le(b, 6), u16le(b, 8))
+  if (b.length >= 16 && ascii(b, 0, 'RIFF') && ascii(b, 8, 'WEBP')) return webpSize(b)
+  if (b.length >= 12 && ascii(b, 4, 'ftyp') && (ascii(b, 8, 'avif') || ascii(b, 8, 'avis'))) return avifSize(b)
+
+  // SVG is text: look for a root <svg> element near the start (after an optional XML prolog/comments)
+  const head = new TextDecoder().decode(b.subarray(0, 4096)).replace(/^\uFEFF/, '')
+  if (/^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*|<!DOCTYPE[^>]*>\s*)*<svg\b/i.test(head)) {
+    return svgSize(new TextDecoder().decode(b.subarray(0, 65536)))
+  }
+  return null
+}
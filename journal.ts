@@ -0,0 +1,372 @@
+/**
+ * journal.ts
+ * Private reflection journal kept on this device: answers to each reflection's questions and whether
+ * its prayer was prayed, keyed by date and theme. Also derives streaks and per-day activity for the heatmap.
+ * The journal can be encrypted at rest with a passphrase (PBKDF2 + AES-GCM via WebCrypto). The passphrase
+ * is never stored; an encrypted journal stays locked until it is unlocked in the current visit.
+ */
+
+import { create } from 'zustand'
+import { DEFAULT_PBKDF2_ITERATIONS, fromBase64, randomBase64, toBase64 } from './auth'
+import { humanizeTheme, themes, type Reflection, type ReflectionTheme } from './contentEngine'
+import { addDays, siteToday, type CalendarDate } from './calendarDate'
+
+/** Storage key for the journal (plain entries or an encrypted payload). */
+const STORAGE_KEY = 'll-journal:v1'
+
+/**
+ * JournalEntry
+ * The reader's responses to one reflection. Title and questions are copied in so exports stand alone.
+ */
+export interface JournalEntry {
+  dateISO: CalendarDate
+  theme: ReflectionTheme
+  title: string
+  questions: string[]
+  /** Answers aligned with `questions` (empty string when unanswered) */
+  answers: string[]
+  prayed: boolean
+  /** ISO timestamp of the last edit */
+  updatedAt: string
+}
+
+/** Entries keyed by journalKey(dateISO, theme). */
+export type JournalEntries = Record<string, JournalEntry>
+
+/**
+ * EncryptedPayload
+ * AES-GCM ciphertext of the entries JSON with the PBKDF2 parameters used to derive its key (all base64).
+ */
+interface EncryptedPayload {
+  salt: string
+  iterations: number
+  iv: string
+  data: string
+}
+
+/** Shape written to localStorage. */
+interface StoredJournal {
+  version: 1
+  entries?: JournalEntries
+  encrypted?: EncryptedPayload
+}
+
+/**
+ * JournalStatus
+ * loading: not read from storage yet; locked: encrypted and waiting for the passphrase; ready: entries available.
+ */
+export type JournalStatus = 'loading' | 'locked' | 'ready'
+
+/**
+ * JournalState
+ * Read with useJournalStore(selector); change through the functions below.
+ */
+interface JournalState {
+  status: JournalStatus
+  encrypted: boolean
+  entries: JournalEntries
+}
+
+/**
+ * useJournalStore
+ * In-memory journal state. Persistence is handled here (not by zustand middleware) because writes may need encrypting.
+ */
+export const useJournalStore = create<JournalState>()(() => ({
+  status: 'loading',
+  encrypted: false,
+  entries: {},
+}))
+
+/** Derived key for the unlocked journal; null when unencrypted or locked. */
+let cipher: { key: CryptoKey; salt: string; iterations: number } | null = null
+
+/** Serializes writes so an older snapshot never lands after a newer one. */
+let writeQueue: Promise<void> = Promise.resolve()
+
+/**
+ * journalKey
+ * Entry key for a reflection ("2025-03-01:hope").
+ */
+export function journalKey(dateISO: CalendarDate, theme: ReflectionTheme): string {
+  return `${dateISO}:${theme}`
+}
+
+/** Reads the stored journal; null when absent or unreadable. */
+function readStored(): StoredJournal | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return null
+    const obj = JSON.parse(raw)
+    return obj && typeof obj === 'object' ? (obj as StoredJournal) : null
+  } catch {
+    return null
+  }
+}
+
+/** Keeps only well-formed entries (storage may have been edited by hand or by an older version). */
+function sanitizeEntries(value: unknown): JournalEntries {
+  const out: JournalEntries = {}
+  if (!value || typeof value !== 'object') return out
+  Object.values(value as Record<string, unknown>).forEach(v => {
+    const e = v as Partial<JournalEntry> | null
+    if (!e || typeof e.dateISO !== 'string' || !themes.includes(e.theme as ReflectionTheme)) return
+    const strings = (x: unknown) => (Array.isArray(x) ? x.map(s => (typeof s === 'string' ? s : '')) : [])
+    const entry: JournalEntry = {
+      dateISO: e.dateISO,
+      theme: e.theme as ReflectionTheme,
+      title: typeof e.title === 'string' ? e.title : '',
+      questions: strings(e.questions),
+      answers: strings(e.answers),
+      prayed: e.prayed === true,
+      updatedAt: typeof e.updatedAt === 'string' ? e.updatedAt : new Date(0).toISOString(),
+    }
+    out[journalKey(entry.dateISO, entry.theme)] = entry
+  })
+  return out
+}
+
+/** PBKDF2-SHA256 → AES-GCM 256 key for the passphrase. */
+async function deriveKey(passphrase: string, salt: string, iterations: number): Promise<CryptoKey> {
+  const base = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, [
+    'deriveKey',
+  ])
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(salt), iterations },
+    base,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+/** Encrypts the entries with the unlocked key (fresh IV per write). */
+async function encryptEntries(entries: JournalEntries): Promise<EncryptedPayload> {
+  if (!cipher) throw new Error('Journal is locked')
+  const iv = fromBase64(randomBase64(12))
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    cipher.key,
+    new TextEncoder().encode(JSON.stringify(entries))
+  )
+  return { salt: cipher.salt, iterations: cipher.iterations, iv: toBase64(iv), data: toBase64(new Uint8Array(data)) }
+}
+
+/** Decrypts a stored payload; rejects when the key is wrong or the data was tampered with. */
+async function decryptEntries(payload: EncryptedPayload, key: CryptoKey): Promise<JournalEntries> {
+  const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, fromBase64(payload.data))
+  return sanitizeEntries(JSON.parse(new TextDecoder().decode(plain)))
+}
+
+/** Queues a write of the current entries (encrypted when a passphrase is set). */
+function persist(): Promise<void> {
+  const { entries, encrypted } = useJournalStore.getState()
+  writeQueue = writeQueue
+    .then(async () => {
+      const stored: StoredJournal = encrypted
+        ? { version: 1, encrypted: await encryptEntries(entries) }
+        : { version: 1, entries }
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(stored))
+    })
+    .catch(() => {
+      // Storage unavailable or full; the in-memory journal still works for this visit
+    })
+  return writeQueue
+}
+
+/**
+ * initJournal
+ * Loads the journal from storage (call once on the client after mount). Encrypted journals start locked.
+ */
+export function initJournal(): void {
+  const stored = readStored()
+  if (stored?.encrypted) {
+    useJournalStore.setState({ status: 'locked', encrypted: true, entries: {} })
+  } else {
+    useJournalStore.setState({ status: 'ready', encrypted: false, entries: sanitizeEntries(stored?.entries) })
+  }
+}
+
+/**
+ * unlockJournal
+ * Decrypts the stored journal. Resolves false when the passphrase is wrong.
+ */
+export async function unlockJournal(passphrase: string): Promise<boolean> {
+  const payload = readStored()?.encrypted
+  if (!payload) {
+    initJournal()
+    return true
+  }
+  try {
+    const key = await deriveKey(passphrase, payload.salt, payload.iterations)
+    const entries = await decryptEntries(payload, key)
+    cipher = { key, salt: payload.salt, iterations: payload.iterations }
+    useJournalStore.setState({ status: 'ready', encrypted: true, entries })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * lockJournal
+ * Forgets the key and clears decrypted entries from memory (encrypted journals only).
+ */
+export function lockJournal(): void {
+  if (!useJournalStore.getState().encrypted) return
+  cipher = null
+  useJournalStore.setState({ status: 'locked', entries: {} })
+}
+
+/**
+ * setJournalPassphrase
+ * Encrypts the journal with a new passphrase, or stores it in plain text again when passphrase is null.
+ * The journal must be unlocked.
+ */
+export async function setJournalPassphrase(passphrase: string | null): Promise<void> {
+  if (useJournalStore.getState().status !== 'ready') throw new Error('Unlock the journal first')
+  if (passphrase) {
+    const salt = randomBase64(16)
+    const iterations = DEFAULT_PBKDF2_ITERATIONS
+    cipher = { key: await deriveKey(passphrase, salt, iterations), salt, iterations }
+    useJournalStore.setState({ encrypted: true })
+  } else {
+    cipher = null
+    useJournalStore.setState({ encrypted: false })
+  }
+  await persist()
+}
+
+/**
+ * eraseJournal
+ * Deletes every entry on this device (the way out of a forgotten passphrase).
+ */
+export function eraseJournal(): void {
+  cipher = null
+  try {
+    localStorage.removeItem(STORAGE_KEY)
+  } catch {
+    // ignore
+  }
+  useJournalStore.setState({ status: 'ready', encrypted: false, entries: {} })
+}
+
+/**
+ * isEntryBlank
+ * True when nothing was written and the prayer is not marked.
+ */
+function isEntryBlank(e: Pick<JournalEntry, 'answers' | 'prayed'>): boolean {
+  return !e.prayed && e.answers.every(a => !a.trim())
+}
+
+/**
+ * saveJournalEntry
+ * Updates the entry for a reflection; blank entries are removed so they do not count toward streaks.
+ */
+export function saveJournalEntry(reflection: Reflection, patch: Partial<Pick<JournalEntry, 'answers' | 'prayed'>>): void {
+  const state = useJournalStore.getState()
+  if (state.status !== 'ready') return
+  const key = journalKey(reflection.dateISO, reflection.theme)
+  const prev = state.entries[key]
+  const entry: JournalEntry = {
+    dateISO: reflection.dateISO,
+    theme: reflection.theme,
+    title: reflection.title,
+    questions: reflection.questions,
+    answers: prev?.answers ?? [],
+    prayed: prev?.prayed ?? false,
+    ...patch,
+    updatedAt: new Date().toISOString(),
+  }
+  const entries = { ...state.entries }
+  if (isEntryBlank(entry)) delete entries[key]
+  else entries[key] = entry
+  useJournalStore.setState({ entries })
+  void persist()
+}
+
+/**
+ * entryActivity
+ * Heatmap weight of an entry: answered questions plus one for the prayer.
+ */
+export function entryActivity(e: JournalEntry): number {
+  return e.answers.filter(a => a.trim()).length + (e.prayed ? 1 : 0)
+}
+
+/**
+ * journalActivityByDay
+ * Total activity per reflection date (YYYY-MM-DD); days without entries are absent.
+ */
+export function journalActivityByDay(entries: JournalEntries): Map<CalendarDate, number> {
+  const days = new Map<CalendarDate, number>()
+  Object.values(entries).forEach(e => {
+    days.set(e.dateISO, (days.get(e.dateISO) ?? 0) + entryActivity(e))
+  })
+  return days
+}
+
+/**
+ * JournalStreaks
+ * Consecutive journaled days: the run ending today (or yesterday, if today is not done yet) and the longest run.
+ */
+export interface JournalStreaks {
+  current: number
+  longest: number
+}
+
+/**
+ * computeStreaks
+ * Streaks over a set of journaled dates. `todayISO` is the site's day, the same day reflections are dated by.
+ */
+export function computeStreaks(days: Iterable<CalendarDate>, todayISO: CalendarDate = siteToday()): JournalStreaks {
+  const set = new Set(days)
+  let longest = 0
+  Array.from(set)
+    .sort()
+    .forEach(day => {
+      // Count each run from its first day only
+      if (set.has(addDays(day, -1))) return
+      let len = 1
+      while (set.has(addDays(day, len))) len++
+      longest = Math.max(longest, len)
+    })
+
+  let cursor = set.has(todayISO) ? todayISO : addDays(todayISO, -1)
+  let current = 0
+  while (set.has(cursor)) {
+    current++
+    cursor = addDays(cursor, -1)
+  }
+  return { current, longest }
+}
+
+/** Entries newest first, then in theme order. */
+function sortedEntries(entries: JournalEntries): JournalEntry[] {
+  return Object.values(entries).sort(
+    (a, b) => b.dateISO.localeCompare(a.dateISO) || themes.indexOf(a.theme) - themes.indexOf(b.theme)
+  )
+}
+
+/**
+ * journalToMarkdown
+ * Readable export: one section per entry with each question and answer.
+ */
+export function journalToMarkdown(entries: JournalEntries): string {
+  const lines: string[] = ['# Reflection Journal', '']
+  sortedEntries(entries).forEach(e => {
+    lines.push(`## ${e.dateISO} — ${e.title || humanizeTheme(e.theme)}`, '')
+    lines.push(`*Theme: ${humanizeTheme(e.theme)} · Prayer: ${e.prayed ? 'prayed' : 'not marked'}*`, '')
+    e.questions.forEach((q, i) => {
+      const answer = (e.answers[i] ?? '').trim()
+      lines.push(`**${q}**`, '', answer || '_No response._', '')
+    })
+  })
+  return lines.join('\n')
+}
+
+/**
+ * journalToJson
+ * Full-fidelity export (decrypted; the reader chose to download it).
+ */
+export function journalToJson(entries: JournalEntries): string {
+  return JSON.stringify({ version: 1, exportedAt: new Date().toISOString(), entries: sortedEntries(entries) }, null, 2)
+}
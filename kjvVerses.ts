@@ -0,0 +1,83 @@
+/**
+ * kjvVerses.ts
+ * Bundled Scripture text: King James Version (public domain), limited to the passages the
+ * site's content cites. Keyed by "book.chapter" (book IDs from scripture.ts), then verse number.
+ * Add verses here when new content cites a passage; chips fall back to the quoted text otherwise.
+ */
+
+export const kjvVerses: Record<string, Record<number, string>> = {
+  'deuteronomy.32': {
+    7: 'Remember the days of old, consider the years of many generations: ask thy father, and he will shew thee; thy elders, and they will tell thee.',
+  },
+  'psalms.36': {
+    9: 'For with thee is the fountain of life: in thy light shall we see light.',
+  },
+  'psalms.46': {
+    1: 'God is our refuge and strength, a very present help in trouble.',
+    10: 'Be still, and know that I am God: I will be exalted among the heathen, I will be exalted in the earth.',
+    11: 'The LORD of hosts is with us; the God of Jacob is our refuge. Selah.',
+  },
+  'psalms.96': {
+    9: 'O worship the LORD in the beauty of holiness: fear before him, all the earth.',
+  },
+  'psalms.119': {
+    105: 'Thy word is a lamp unto my feet, and a light unto my path.',
+  },
+  'isaiah.6': {
+    3: 'And one cried unto another, and said, Holy, holy, holy, is the LORD of hosts: the whole earth is full of his glory.',
+  },
+  'isaiah.30': {
+    15: 'For thus saith the Lord GOD, the Holy One of Israel; In returning and rest shall ye be saved; in quietness and in confidence shall be your strength: and ye would not.',
+  },
+  'micah.6': {
+    8: 'He hath shewed thee, O man, what is good; and what doth the LORD require of thee, but to do justly, and to love mercy, and to walk humbly with thy God?',
+  },
+  'matthew.5': {
+    8: 'Blessed are the pure in heart: for they shall see God.',
+  },
+  'john.1': {
+    1: 'In the beginning was the Word, and the Word was with God, and the Word was God.',
+    2: 'The same was in the beginning with God.',
+    3: 'All things were made by him; and without him was not any thing made that was made.',
+    4: 'In him was life; and the life was the light of men.',
+    5: 'And the light shineth in darkness; and the darkness comprehended it not.',
+    14: 'And the Word was made flesh, and dwelt among us, (and we beheld his glory, the glory as of the only begotten of the Father,) full of grace and truth.',
+  },
+  'acts.17': {
+    28: 'For in him we live, and move, and have our being; as certain also of your own poets have said, For we are also his offspring.',
+  },
+  'romans.12': {
+    1: 'I beseech you therefore, brethren, by the mercies of God, that ye present your bodies a living sacrifice, holy, acceptable unto God, which is your reasonable service.',
+    2: 'And be not conformed to this world: but be ye transformed by the renewing of your mind, that ye may prove what is that good, and acceptable, and perfect, will of God.',
+  },
+  '2-corinthians.10': {
+    5: 'Casting down imaginations, and every high thing that exalteth itself against the knowledge of God, and bringing into captivity every thought to the obedience of Christ;',
+  },
+  'philippians.4': {
+    8: 'Finally, brethren, whatsoever things are true, whatsoever things are honest, whatsoever things are just, whatsoever things are pure, whatsoever things are lovely, whatsoever things are of good report; if there be any virtue, and if there be any praise, think on these things.',
+  },
+  'colossians.1': {
+    17: 'And he is before all things, and by him all things consist.',
+  },
+  'colossians.4': {
+    6: 'Let your speech be alway with grace, seasoned with salt, that ye may know how ye ought to answer every man.',
+  },
+  '1-thessalonians.5': {
+    17: 'Pray without ceasing.',
+  },
+  '1-timothy.4': {
+    7: 'But refuse profane and old wives’ fables, and exercise thyself rather unto godliness.',
+  },
+  '2-timothy.3': {
+    16: 'All scripture is given by inspiration of God, and is profitable for doctrine, for reproof, for correction, for instruction in righteousness:',
+  },
+  'hebrews.12': {
+    1: 'Wherefore seeing we also are compassed about with so great a cloud of witnesses, let us lay aside every weight, and the sin which doth so easily beset us, and let us run with patience the race that is set before us,',
+  },
+  'james.4': {
+    8: 'Draw nigh to God, and he will draw nigh to you. Cleanse your hands, ye sinners; and purify your hearts, ye double minded.',
+  },
+  '1-peter.3': {
+    15: 'But sanctify the Lord God in your hearts: and be ready always to give an answer to every man that asketh you a reason of the hope that is in you with meekness and fear:',
+  },
+}
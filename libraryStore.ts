@@ -0,0 +1,223 @@
+/**
+ * libraryStore.ts
+ * The reader's library on this device: reading history (articles and reflections, with progress)
+ * and bookmarks. A zustand store persisted to localStorage.
+ * Hydration is deferred (skipHydration) so prerendered markup matches the first client render;
+ * App calls initLibrary() once mounted.
+ */
+
+import { create } from 'zustand'
+import { createJSONStorage, persist } from 'zustand/middleware'
+import type { TopicKey } from './articleEngine'
+import type { ReflectionTheme } from './contentEngine'
+
+/** Storage key for the persisted library. */
+const STORAGE_KEY = 'll-library:v1'
+
+/** Most history entries kept (oldest visits drop off first). */
+const MAX_HISTORY = 300
+
+/** Progress (percent) at which an item counts as finished. */
+export const FINISHED_PROGRESS = 90
+
+/**
+ * LibraryItemKind
+ * What a history entry or bookmark points at.
+ */
+export type LibraryItemKind = 'article' | 'reflection'
+
+/**
+ * LibraryItem
+ * Display data captured when the item was opened or bookmarked (so the library renders without regenerating content).
+ */
+export interface LibraryItem {
+  /** Article ID, or "reflection:<date>:<theme>" */
+  id: string
+  kind: LibraryItemKind
+  title: string
+  path: string
+  /** Content date (YYYY-MM-DD), when known */
+  dateISO?: string
+  topic?: TopicKey
+  theme?: ReflectionTheme
+  excerpt?: string
+}
+
+/**
+ * HistoryEntry
+ * One visited item: last visit time (ISO timestamp) and furthest reading progress (0–100).
+ */
+export interface HistoryEntry extends LibraryItem {
+  visitedAt: string
+  progress: number
+}
+
+/**
+ * Bookmark
+ * A saved item with the time it was saved.
+ */
+export interface Bookmark extends LibraryItem {
+  addedAt: string
+}
+
+/**
+ * LibraryData
+ * Persisted state and export file contents.
+ */
+export interface LibraryData {
+  history: HistoryEntry[]
+  bookmarks: Bookmark[]
+}
+
+/**
+ * LibraryState
+ * Store state and actions.
+ */
+interface LibraryState extends LibraryData {
+  /** Records a visit (moves the item to the top of the history, keeping its progress) */
+  recordVisit: (item: LibraryItem) => void
+  /** Raises the stored progress for an item (never lowers it) */
+  setProgress: (id: string, progress: number) => void
+  toggleBookmark: (item: LibraryItem) => void
+  removeBookmark: (id: string) => void
+  removeHistoryEntry: (id: string) => void
+  clearHistory: () => void
+  /** Merges imported data: union by ID, newest visit and furthest progress win */
+  importData: (data: LibraryData) => void
+}
+
+/** Clamps progress to a whole percentage. */
+function clampProgress(p: number): number {
+  return Math.max(0, Math.min(100, Math.round(p)))
+}
+
+/**
+ * useLibraryStore
+ * Select narrowly (e.g., s => s.bookmarks) to avoid unnecessary re-renders.
+ */
+export const useLibraryStore = create<LibraryState>()(
+  persist(
+    (set, get) => ({
+      history: [],
+      bookmarks: [],
+
+      recordVisit: item => {
+        const prev = get().history.find(h => h.id === item.id)
+        const entry: HistoryEntry = { ...prev, ...item, visitedAt: new Date().toISOString(), progress: prev?.progress ?? 0 }
+        set({ history: [entry, ...get().history.filter(h => h.id !== item.id)].slice(0, MAX_HISTORY) })
+      },
+
+      setProgress: (id, progress) => {
+        const value = clampProgress(progress)
+        const history = get().history
+        const current = history.find(h => h.id === id)
+        if (!current || current.progress >= value) return
+        set({ history: history.map(h => (h.id === id ? { ...h, progress: value } : h)) })
+      },
+
+      toggleBookmark: item => {
+        const bookmarks = get().bookmarks
+        set({
+          bookmarks: bookmarks.some(b => b.id === item.id)
+            ? bookmarks.filter(b => b.id !== item.id)
+            : [{ ...item, addedAt: new Date().toISOString() }, ...bookmarks],
+        })
+      },
+
+      removeBookmark: id => set({ bookmarks: get().bookmarks.filter(b => b.id !== id) }),
+
+      removeHistoryEntry: id => set({ history: get().history.filter(h => h.id !== id) }),
+
+      clearHistory: () => set({ history: [] }),
+
+      importData: data => {
+        const history = new Map(get().history.map(h => [h.id, h]))
+        data.history.forEach(h => {
+          const prev = history.get(h.id)
+          const newer = !prev || h.visitedAt > prev.visitedAt ? h : prev
+          history.set(h.id, { ...newer, progress: Math.max(h.progress, prev?.progress ?? 0) })
+        })
+        const bookmarks = new Map(get().bookmarks.map(b => [b.id, b]))
+        data.bookmarks.forEach(b => {
+          if (!bookmarks.has(b.id)) bookmarks.set(b.id, b)
+        })
+        set({
+          history: Array.from(history.values())
+            .sort((a, b) => b.visitedAt.localeCompare(a.visitedAt))
+            .slice(0, MAX_HISTORY),
+          bookmarks: Array.from(bookmarks.values()).sort((a, b) => b.addedAt.localeCompare(a.addedAt)),
+        })
+      },
+    }),
+    {
+      name: STORAGE_KEY,
+      version: 1,
+      storage: createJSONStorage(() => localStorage),
+      partialize: s => ({ history: s.history, bookmarks: s.bookmarks }),
+      skipHydration: true,
+    }
+  )
+)
+
+/**
+ * initLibrary
+ * Loads the persisted library (call once on the client after mount).
+ */
+export function initLibrary(): void {
+  void useLibraryStore.persist.rehydrate()
+}
+
+/**
+ * exportLibrary
+ * Serializes history and bookmarks for download.
+ */
+export function exportLibrary(): string {
+  const { history, bookmarks } = useLibraryStore.getState()
+  return JSON.stringify({ version: 1, exportedAt: new Date().toISOString(), history, bookmarks }, null, 2)
+}
+
+/** Keeps only well-formed items; anything else in the file is ignored. */
+function sanitizeItem(value: unknown): LibraryItem | null {
+  if (!value || typeof value !== 'object') return null
+  const v = value as Record<string, unknown>
+  const str = (x: unknown) => (typeof x === 'string' ? x : undefined)
+  const id = str(v.id)
+  const title = str(v.title)
+  const path = str(v.path)
+  const dateISO = str(v.dateISO)
+  if (!id || !title || !path || !path.startsWith('/')) return null
+  return {
+    id,
+    kind: v.kind === 'reflection' ? 'reflection' : 'article',
+    title,
+    path,
+    dateISO,
+    topic: str(v.topic) as TopicKey | undefined,
+    theme: str(v.theme) as ReflectionTheme | undefined,
+    excerpt: str(v.excerpt),
+  }
+}
+
+/**
+ * parseLibraryFile
+ * Validates an exported library file. Returns null when the JSON is not a library export.
+ */
+export function parseLibraryFile(text: string): LibraryData | null {
+  try {
+    const obj = JSON.parse(text)
+    if (!obj || typeof obj !== 'object' || (!Array.isArray(obj.history) && !Array.isArray(obj.bookmarks))) return null
+    const history: HistoryEntry[] = (Array.isArray(obj.history) ? obj.history : []).flatMap((h: Record<string, unknown>) => {
+      const item = sanitizeItem(h)
+      if (!item || typeof h.visitedAt !== 'string') return []
+      return [{ ...item, visitedAt: h.visitedAt, progress: clampProgress(Number(h.progress) || 0) }]
+    })
+    const bookmarks: Bookmark[] = (Array.isArray(obj.bookmarks) ? obj.bookmarks : []).flatMap((b: Record<string, unknown>) => {
+      const item = sanitizeItem(b)
+      if (!item) return []
+      return [{ ...item, addedAt: typeof b.addedAt === 'string' ? b.addedAt : new Date().toISOString() }]
+    })
+    return { history, bookmarks }
+  } catch {
+    return null
+  }
+}
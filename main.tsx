@@ -1,6 +1,10 @@
 import { createRoot } from 'react-dom/client'
 import './shadcn.css'
 import App from './App'
+import { normalizeInitialLocation } from './lib/routing'
+
+// Landing on a prerendered real URL in hash mode: move the path into the hash first
+normalizeInitialLocation()
 
 const root = createRoot(document.getElementById('app')!)
 root.render(<App />)
@@ -0,0 +1,573 @@
+/**
+ * markdown.ts
+ * Small Markdown renderer (CommonMark subset) for article bodies, reflections, and emails.
+ * Safe by construction: raw HTML is never passed through (it is escaped as text), only a fixed
+ * set of tags is emitted, and link/image URLs are restricted to safe schemes.
+ *
+ * Supported:
+ * - Paragraphs, hard breaks (two trailing spaces or a backslash), ATX headings (#…######)
+ * - Emphasis (*em*, _em_), strong (**strong**, __strong__), inline code, fenced code blocks
+ * - Links [text](url "title"), autolinks <https://…>, images ![alt](src)
+ * - Block quotes, bullet and ordered lists (nested by indentation), thematic breaks
+ * - Footnotes: references [^id] and definitions "[^id]: text" (rendered at the end)
+ */
+
+/**
+ * BodyFormat
+ * How a string[] body is interpreted: 'plain' keeps one <p> per entry (the original behavior).
+ */
+export type BodyFormat = 'plain' | 'markdown'
+
+/** Tags the renderer can emit (used for per-tag inline styles, e.g., in emails). */
+export type MarkdownTag =
+  | 'p' | 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6' | 'a' | 'blockquote' | 'ul' | 'ol' | 'li'
+  | 'code' | 'pre' | 'hr' | 'img' | 'strong' | 'em' | 'sup' | 'section'
+
+/**
+ * MarkdownOptions
+ * Rendering options.
+ */
+export interface MarkdownOptions {
+  /** Inline style attribute per tag (emails cannot rely on stylesheets) */
+  styles?: Partial<Record<MarkdownTag, string>>
+  /** Prefix for footnote element ids so several documents can share a page */
+  idPrefix?: string
+  /** Resolves root-relative link targets (e.g., to absolute URLs in emails) */
+  resolveHref?: (href: string) => string
+  /** Finds spans of plain text to turn into links (e.g., scripture references); not applied inside links or code */
+  textLinks?: (text: string) => TextLink[]
+}
+
+/**
+ * TextLink
+ * A [start, end) span of plain text to wrap in a link.
+ */
+export interface TextLink {
+  start: number
+  end: number
+  href: string
+  title?: string
+  className?: string
+}
+
+/** Block-level node. */
+type Block =
+  | { type: 'paragraph'; text: string }
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'code'; lang: string; text: string }
+  | { type: 'hr' }
+  | { type: 'quote'; children: Block[] }
+  | { type: 'list'; ordered: boolean; start: number; loose: boolean; items: Block[][] }
+
+/** Parse state shared between blocks and inlines (footnotes). */
+interface ParseContext {
+  footnotes: Map<string, string>
+}
+
+/** Escape text for HTML content and attribute values. */
+export function escapeHtml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;')
+}
+
+/**
+ * sanitizeUrl
+ * Allows http(s), mailto, and relative URLs; anything else (javascript:, data:, …) becomes "#".
+ * Browsers strip leading control characters and ignore tabs and newlines anywhere in a URL, so the scheme
+ * is tested with all of them removed (e.g., "\x01javascript:" and "java\tscript:" are both javascript:).
+ */
+export function sanitizeUrl(url: string): string {
+  const u = url.replace(/^[\x00-\x20\x7f]+|[\x00-\x20\x7f]+$/g, '')
+  const bare = u.replace(/[\x00-\x20\x7f]/g, '')
+  if (/^(https?:|mailto:)/i.test(bare)) return u
+  // A colon before any /, ?, or # means a scheme; relative paths, #fragments, and ?queries pass
+  if (/^[^/?#]*:/.test(bare)) return '#'
+  return u
+}
+
+/** Image sources: http(s), relative, or inline raster data URLs. */
+function sanitizeImageUrl(url: string): string {
+  const u = url.trim()
+  if (/^data:image\/(png|jpe?g|gif|webp);base64,[a-z0-9+/=]+$/i.test(u)) return u
+  const safe = sanitizeUrl(u)
+  return /^mailto:/i.test(safe) ? '#' : safe
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w+-]*)[^`]*$/
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/
+const HR = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/
+const QUOTE = /^ {0,3}> ?/
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])([ \t]+|$)(.*)$/
+const FOOTNOTE_DEF = /^ {0,3}\[\^([^\]\s]+)\]:[ \t]*(.*)$/
+
+/** True when a line starts a block that interrupts a paragraph. */
+function startsBlock(line: string): boolean {
+  if (FENCE.test(line) || HEADING.test(line) || HR.test(line) || QUOTE.test(line)) return true
+  const m = line.match(LIST_ITEM)
+  // Only bullets and lists starting at 1 may interrupt a paragraph (as in CommonMark)
+  return !!m && m[4].trim() !== '' && (/^[-*+]$/.test(m[2]) || /^1[.)]$/.test(m[2]))
+}
+
+/** Width of leading whitespace (tabs count as 4). */
+function indentOf(line: string): number {
+  let n = 0
+  for (const ch of line) {
+    if (ch === ' ') n++
+    else if (ch === '\t') n += 4
+    else break
+  }
+  return n
+}
+
+/** Removes up to `n` columns of leading whitespace. */
+function dedent(line: string, n: number): string {
+  let i = 0
+  let cols = 0
+  while (i < line.length && cols < n && (line[i] === ' ' || line[i] === '\t')) {
+    cols += line[i] === '\t' ? 4 : 1
+    i++
+  }
+  return line.slice(i)
+}
+
+/** Parses lines into blocks; footnote definitions are collected into ctx. */
+function parseBlocks(lines: string[], ctx: ParseContext): Block[] {
+  const blocks: Block[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    const line = lines[i]
+    if (!line.trim()) {
+      i++
+      continue
+    }
+
+    const fence = line.match(FENCE)
+    if (fence) {
+      const marker = fence[1]
+      const body: string[] = []
+      i++
+      while (i < lines.length && !new RegExp(`^ {0,3}${marker[0]}{${marker.length},}\\s*$`).test(lines[i])) {
+        body.push(lines[i])
+        i++
+      }
+      i++ // closing fence (or end of input)
+      blocks.push({ type: 'code', lang: fence[2] || '', text: body.join('\n') })
+      continue
+    }
+
+    const heading = line.match(HEADING)
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] ?? '' })
+      i++
+      continue
+    }
+
+    if (HR.test(line)) {
+      blocks.push({ type: 'hr' })
+      i++
+      continue
+    }
+
+    if (QUOTE.test(line)) {
+      const inner: string[] = []
+      while (i < lines.length && lines[i].trim()) {
+        if (QUOTE.test(lines[i])) inner.push(lines[i].replace(QUOTE, ''))
+        else if (!startsBlock(lines[i])) inner.push(lines[i]) // lazy continuation
+        else break
+        i++
+      }
+      blocks.push({ type: 'quote', children: parseBlocks(inner, ctx) })
+      continue
+    }
+
+    const footnote = line.match(FOOTNOTE_DEF)
+    if (footnote) {
+      const text = [footnote[2]]
+      i++
+      while (i < lines.length && lines[i].trim() && (indentOf(lines[i]) >= 2 || !startsBlock(lines[i])) && !FOOTNOTE_DEF.test(lines[i])) {
+        text.push(lines[i].trim())
+        i++
+      }
+      ctx.footnotes.set(footnote[1], text.join(' '))
+      continue
+    }
+
+    const item = line.match(LIST_ITEM)
+    if (item) {
+      const ordered = /\d/.test(item[2])
+      const delimiter = item[2].slice(-1)
+      const items: Block[][] = []
+      let loose = false
+      const start = ordered ? parseInt(item[2], 10) : 1
+      // Items continue the list only with the same kind of marker
+      const sameList = (l: string | undefined) => {
+        const m = l?.match(LIST_ITEM)
+        return !!m && /\d/.test(m[2]) === ordered && m[2].slice(-1) === delimiter
+      }
+
+      while (i < lines.length) {
+        const m = lines[i].match(LIST_ITEM)
+        if (!m || !sameList(lines[i])) break
+        const contentIndent = m[1].length + m[2].length + Math.max(1, Math.min(m[3].length, 4))
+        const itemLines = [m[4]]
+        i++
+        let sawBlank = false
+        while (i < lines.length) {
+          const l = lines[i]
+          if (!l.trim()) {
+            sawBlank = true
+            itemLines.push('')
+            i++
+            continue
+          }
+          if (indentOf(l) >= contentIndent) {
+            itemLines.push(dedent(l, contentIndent))
+            if (sawBlank) loose = true
+            sawBlank = false
+            i++
+            continue
+          }
+          // Lazy paragraph continuation (no blank line before, not a new block)
+          if (!sawBlank && !startsBlock(l) && !LIST_ITEM.test(l)) {
+            itemLines.push(l.trim())
+            i++
+            continue
+          }
+          break
+        }
+        // A blank line between items makes the list loose
+        if (sawBlank && sameList(lines[i])) loose = true
+        while (itemLines.length && !itemLines[itemLines.length - 1].trim()) itemLines.pop()
+        items.push(parseBlocks(itemLines, ctx))
+        if (sawBlank && !sameList(lines[i])) break
+      }
+      blocks.push({ type: 'list', ordered, start, loose, items })
+      continue
+    }
+
+    // Paragraph: until a blank line or a block start
+    const para: string[] = [line]
+    i++
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines[i]) && !FOOTNOTE_DEF.test(lines[i])) {
+      para.push(lines[i])
+      i++
+    }
+    blocks.push({ type: 'paragraph', text: para.map(l => l.replace(/^[ \t]+/, '')).join('\n') })
+  }
+
+  return blocks
+}
+
+/** State for rendering one document: options plus footnote numbering (order of first use). */
+interface RenderState {
+  ctx: ParseContext
+  opts: MarkdownOptions
+  order: string[]
+}
+
+/** Opening tag with the optional inline style for that tag. */
+function openTag(st: RenderState, tag: MarkdownTag, attrs = ''): string {
+  const style = st.opts.styles?.[tag]
+  return `<${tag}${attrs}${style ? ` style="${escapeHtml(style)}"` : ''}>`
+}
+
+/** Void tag (hr, img) with the optional inline style. */
+function voidTag(st: RenderState, tag: MarkdownTag, attrs = ''): string {
+  return openTag(st, tag, attrs).replace(/>$/, ' />')
+}
+
+/** Sanitized href; root-relative paths go through opts.resolveHref when given. */
+function linkHref(st: RenderState, url: string): string {
+  const safe = sanitizeUrl(url)
+  return st.opts.resolveHref && safe.startsWith('/') ? st.opts.resolveHref(safe) : safe
+}
+
+/**
+ * Element id for a footnote or its reference. Links to it are plain "#id" anchors, which work in emails
+ * and feeds; in the app MarkdownBody scrolls to them itself, since "#…" is a route under hash routing.
+ */
+function footnoteId(st: RenderState, kind: 'fn' | 'fnref', id: string): string {
+  const prefix = st.opts.idPrefix ? `${st.opts.idPrefix}-` : ''
+  return `${prefix}${kind}-${id.replace(/[^\w-]/g, '_')}`
+}
+
+/** Escapes plain text, wrapping the spans found by opts.textLinks in links. */
+function renderText(st: RenderState, text: string): string {
+  const links = st.opts.textLinks?.(text) ?? []
+  let out = ''
+  let cursor = 0
+  links.forEach(l => {
+    if (l.start < cursor) return
+    const cls = l.className ? ` class="${escapeHtml(l.className)}"` : ''
+    const title = l.title ? ` title="${escapeHtml(l.title)}"` : ''
+    out += escapeHtml(text.slice(cursor, l.start))
+    out += `${openTag(st, 'a', ` href="${escapeHtml(linkHref(st, l.href))}"${cls}${title}`)}${escapeHtml(text.slice(l.start, l.end))}</a>`
+    cursor = l.end
+  })
+  return out + escapeHtml(text.slice(cursor))
+}
+
+/** Renders inline Markdown to HTML. */
+function renderInline(st: RenderState, src: string): string {
+  let out = ''
+  let i = 0
+  let text = ''
+  const flush = () => {
+    out += renderText(st, text)
+    text = ''
+  }
+
+  while (i < src.length) {
+    const ch = src[i]
+    const rest = src.slice(i)
+
+    // Backslash escapes and hard breaks
+    if (ch === '\\') {
+      if (src[i + 1] === '\n') {
+        flush()
+        out += '<br />\n'
+        i += 2
+        continue
+      }
+      if (/[!-/:-@[-`{-~]/.test(src[i + 1] ?? '')) {
+        text += src[i + 1]
+        i += 2
+        continue
+      }
+    }
+
+    // Two trailing spaces before a newline: hard break
+    if (ch === ' ' && /^ {2,}\n/.test(rest)) {
+      flush()
+      out += '<br />\n'
+      i += rest.match(/^ +\n/)![0].length
+      continue
+    }
+
+    // Code span
+    if (ch === '`') {
+      const run = rest.match(/^`+/)![0]
+      const close = src.indexOf(run, i + run.length)
+      if (close > -1) {
+        flush()
+        const code = src.slice(i + run.length, close).replace(/\n/g, ' ')
+        out += `${openTag(st, 'code')}${escapeHtml(code.length > 2 && code.startsWith(' ') && code.endsWith(' ') ? code.slice(1, -1) : code)}</code>`
+        i = close + run.length
+        continue
+      }
+    }
+
+    // Autolink
+    if (ch === '<') {
+      const m = rest.match(/^<((?:https?:\/\/|mailto:)[^\s<>]+)>/i)
+      if (m) {
+        flush()
+        const url = linkHref(st, m[1])
+        out += `${openTag(st, 'a', ` href="${escapeHtml(url)}"`)}${escapeHtml(m[1].replace(/^mailto:/i, ''))}</a>`
+        i += m[0].length
+        continue
+      }
+    }
+
+    // Footnote reference
+    if (ch === '[' && src[i + 1] === '^') {
+      const m = rest.match(/^\[\^([^\]\s]+)\]/)
+      if (m && st.ctx.footnotes.has(m[1])) {
+        flush()
+        if (!st.order.includes(m[1])) st.order.push(m[1])
+        const n = st.order.indexOf(m[1]) + 1
+        out += `${openTag(st, 'sup')}${openTag(st, 'a', ` href="#${footnoteId(st, 'fn', m[1])}" id="${footnoteId(st, 'fnref', m[1])}"`)}${n}</a></sup>`
+        i += m[0].length
+        continue
+      }
+    }
+
+    // Images and links
+    if (ch === '[' || (ch === '!' && src[i + 1] === '[')) {
+      const isImage = ch === '!'
+      const link = matchLink(src, isImage ? i + 1 : i)
+      if (link) {
+        flush()
+        const title = link.title ? ` title="${escapeHtml(link.title)}"` : ''
+        if (isImage) {
+          const alt = link.label.replace(/[*_`[\]]/g, '')
+          out += voidTag(st, 'img', ` src="${escapeHtml(sanitizeImageUrl(link.url))}" alt="${escapeHtml(alt)}"${title}`)
+        } else {
+          const label = renderInline({ ...st, opts: { ...st.opts, textLinks: undefined } }, link.label)
+          out += `${openTag(st, 'a', ` href="${escapeHtml(linkHref(st, link.url))}"${title}`)}${label}</a>`
+        }
+        i = link.end
+        continue
+      }
+    }
+
+    // Strong and emphasis
+    if (ch === '*' || ch === '_') {
+      const emphasis = matchEmphasis(src, i)
+      if (emphasis) {
+        flush()
+        out += `${openTag(st, emphasis.tag)}${renderInline(st, emphasis.inner)}</${emphasis.tag}>`
+        i = emphasis.end
+        continue
+      }
+    }
+
+    text += ch
+    i++
+  }
+  flush()
+  return out
+}
+
+/** Matches [label](url "title") starting at `start` (the "["). */
+function matchLink(src: string, start: number): { label: string; url: string; title?: string; end: number } | null {
+  let depth = 0
+  let j = start
+  for (; j < src.length; j++) {
+    if (src[j] === '\\') {
+      j++
+      continue
+    }
+    if (src[j] === '[') depth++
+    else if (src[j] === ']') {
+      depth--
+      if (depth === 0) break
+    }
+  }
+  if (depth !== 0 || src[j + 1] !== '(') return null
+  const m = src.slice(j + 1).match(/^\(\s*(<[^>]*>|[^\s()]*(?:\([^\s()]*\)[^\s()]*)*)(?:\s+"([^"]*)"|\s+'([^']*)')?\s*\)/)
+  if (!m) return null
+  return {
+    label: src.slice(start + 1, j),
+    url: m[1].replace(/^<|>$/g, ''),
+    title: m[2] ?? m[3],
+    end: j + 1 + m[0].length,
+  }
+}
+
+/** Matches **strong**, __strong__, *em*, or _em_ at `start`. Underscores do not work inside words. */
+function matchEmphasis(src: string, start: number): { tag: 'strong' | 'em'; inner: string; end: number } | null {
+  const ch = src[start]
+  const double = src[start + 1] === ch
+  const marker = double ? ch + ch : ch
+  const after = src[start + marker.length]
+  if (!after || /\s/.test(after)) return null
+  if (ch === '_' && /\w/.test(src[start - 1] ?? '')) return null
+
+  let j = start + marker.length
+  while (j < src.length) {
+    const k = src.indexOf(marker, j)
+    if (k < 0) return null
+    const before = src[k - 1]
+    const next = src[k + marker.length]
+    const closes =
+      k > start + marker.length &&
+      !/\s/.test(before) &&
+      before !== '\\' &&
+      (double || (next !== ch && src[k - 1] !== ch)) &&
+      !(ch === '_' && /\w/.test(next ?? ''))
+    if (closes) {
+      return { tag: double ? 'strong' : 'em', inner: src.slice(start + marker.length, k), end: k + marker.length }
+    }
+    j = k + 1
+  }
+  return null
+}
+
+/** Renders blocks; tight list items render their paragraphs without <p>. */
+function renderBlocks(st: RenderState, blocks: Block[], tight = false): string {
+  return blocks
+    .map(b => {
+      switch (b.type) {
+        case 'paragraph':
+          return tight ? renderInline(st, b.text) : `${openTag(st, 'p')}${renderInline(st, b.text)}</p>`
+        case 'heading': {
+          const tag = `h${b.level}` as MarkdownTag
+          return `${openTag(st, tag)}${renderInline(st, b.text)}</${tag}>`
+        }
+        case 'code': {
+          const lang = b.lang ? ` class="language-${escapeHtml(b.lang)}"` : ''
+          return `${openTag(st, 'pre')}${openTag(st, 'code', lang)}${escapeHtml(b.text)}</code></pre>`
+        }
+        case 'hr':
+          return voidTag(st, 'hr')
+        case 'quote':
+          return `${openTag(st, 'blockquote')}\n${renderBlocks(st, b.children)}\n</blockquote>`
+        case 'list': {
+          const tag = b.ordered ? 'ol' : 'ul'
+          const start = b.ordered && b.start !== 1 ? ` start="${b.start}"` : ''
+          const items = b.items.map(item => `${openTag(st, 'li')}${renderBlocks(st, item, !b.loose)}</li>`).join('\n')
+          return `${openTag(st, tag, start)}\n${items}\n</${tag}>`
+        }
+      }
+    })
+    .join('\n')
+}
+
+/** Footnotes section for the references used, in order of first use. */
+function renderFootnotes(st: RenderState): string {
+  if (st.order.length === 0) return ''
+  const items = st.order
+    .map(id => {
+      const back = `${openTag(st, 'a', ` href="#${footnoteId(st, 'fnref', id)}" aria-label="Back to reference"`)}↩</a>`
+      return `${openTag(st, 'li', ` id="${footnoteId(st, 'fn', id)}"`)}${renderInline(st, st.ctx.footnotes.get(id) ?? '')} ${back}</li>`
+    })
+    .join('\n')
+  return `\n${openTag(st, 'section', ' class="footnotes"')}${voidTag(st, 'hr')}${openTag(st, 'ol')}\n${items}\n</ol></section>`
+}
+
+/**
+ * renderMarkdown
+ * Renders Markdown source to sanitized HTML.
+ */
+export function renderMarkdown(src: string, opts: MarkdownOptions = {}): string {
+  const ctx: ParseContext = { footnotes: new Map() }
+  const lines = src.replace(/\r\n?/g, '\n').split('\n')
+  const blocks = parseBlocks(lines, ctx)
+  const st: RenderState = { ctx, opts, order: [] }
+  return renderBlocks(st, blocks) + renderFootnotes(st)
+}
+
+/**
+ * renderBodyHtml
+ * Renders a string[] body in the given format. Plain bodies keep one escaped <p> per entry.
+ */
+export function renderBodyHtml(body: string[], format: BodyFormat = 'plain', opts: MarkdownOptions = {}): string {
+  if (format === 'markdown') return renderMarkdown(body.join('\n\n'), opts)
+  const style = opts.styles?.p ? ` style="${escapeHtml(opts.styles.p)}"` : ''
+  return body.map(p => `<p${style}>${escapeHtml(p)}</p>`).join('')
+}
+
+/**
+ * splitBodyText
+ * Splits editor text into body entries at blank lines. Markdown entries keep their leading
+ * indentation (nested list items, indented continuation) and are re-joined with blank lines.
+ */
+export function splitBodyText(text: string, format: BodyFormat = 'plain'): string[] {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n[ \t]*\n/)
+    .map(s => (format === 'markdown' ? s.replace(/\s+$/, '').replace(/^\n+/, '') : s.trim()))
+    .filter(s => s.trim() !== '')
+}
+
+/**
+ * markdownToText
+ * Plain text for snippets and search: strips Markdown syntax and keeps link labels.
+ */
+export function markdownToText(src: string): string {
+  return src
+    .replace(/^ {0,3}(`{3,}|~{3,}).*$/gm, '')
+    .replace(/^ {0,3}\[\^[^\]]+\]:\s*/gm, '')
+    .replace(/\[\^[^\]]+\]/g, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/<((?:https?:\/\/|mailto:)[^>]+)>/g, '$1')
+    .replace(/^ {0,3}#{1,6}\s+/gm, '')
+    .replace(/^ {0,3}>\s?/gm, '')
+    .replace(/^ {0,3}(?:[-*+]|\d{1,9}[.)])\s+/gm, '')
+    .replace(/(\*\*|__|\*|_|`)(\S(?:.*?\S)?)\1/g, '$2')
+    .replace(/\\([!-/:-@[-`{-~])/g, '$1')
+    .replace(/[ \t]+\n/g, '\n')
+    .trim()
+}
@@ -0,0 +1,313 @@
+/**
+ * mirror-images.ts
+ * Downloads every image the site points at into the build so imagery keeps working if a remote host disappears.
+ * - Bundled and executed with esbuild after the site build (npm run mirror-images); writes into dist/images/.
+ * - Reads the remote image mapping (same topics/articles shape as src/lib/remoteImages.ts) plus the code-level
+ *   defaults (site-wide override, topic/article defaults, authored images, the generated-article placeholder).
+ * - Files are named by content hash (<sha256 prefix>.<ext>), so identical images are stored once and a
+ *   changed image never reuses a cached name.
+ *
+ * Outputs (in OUT_DIR):
+ * - <hash>.<ext> for each image
+ * - remote-images.json: the mapping rewritten to local paths, plus `mirror` (original URL -> local path,
+ *   used for the code-level defaults) and `sizes` (local path -> { width, height }) for ImageWithFallback.
+ *   The site loads it from remoteImagesConfig.mirrorUrl next to the configured mapping, so nothing needs
+ *   repointing; keep remoteImagesConfig.url on the original mapping, which stays this script's input.
+ *   Entries that are already local paths under PUBLIC_PATH are kept with their sizes.
+ *
+ * Images that fail (404 or other HTTP errors, network errors, files over MAX_BYTES, non-image responses)
+ * keep their original URL in the mapping and are listed at the end; the run then exits with code 1.
+ *
+ * Optional environment variables:
+ * - MAPPING_FILE: local JSON or CSV mapping to read (default: fetch MAPPING_URL)
+ * - MAPPING_URL: absolute http(s) URL of the mapping to fetch (default: remoteImagesConfig.url)
+ * - MAPPING_SOURCE: 'json' | 'csv' (default: from the MAPPING_FILE extension, else remoteImagesConfig.source)
+ * - INCLUDE_DEFAULTS: '0' to mirror only the mapping, not the code-level defaults (default: '1')
+ * - OUT_DIR: output directory (default: 'dist/images')
+ * - PUBLIC_PATH: URL prefix the site serves OUT_DIR under (default: the folder of remoteImagesConfig.mirrorUrl,
+ *   i.e., '/images/')
+ * - MAX_BYTES: largest accepted image in bytes (default: 5242880, i.e., 5 MB)
+ * - CONCURRENCY: parallel downloads (default: 4)
+ * - TIMEOUT_MS: per-download timeout (default: 30000)
+ * - REFRESH: '1' to download again URLs that an existing remote-images.json in OUT_DIR already mirrors
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { extname, join } from 'node:path'
+import { createHash } from 'node:crypto'
+import { parseCSV, parseJSON, parseMirrorJSON, type ImageSize, type RemoteMaps, type RemoteMirror } from '../src/lib/remoteImages'
+import { sniffImage } from '../src/lib/imageSize'
+import { DEFAULT_ARTICLE_IMAGE } from '../src/lib/articleEngine'
+import { remoteImagesConfig, type RemoteSource } from '../src/config/remote'
+import { articleDefaultImages, siteWideImageOverride, topicDefaultImages } from '../src/config/images'
+import { authoredArticles } from '../src/config/authored'
+
+/** Site path the app loads the rewritten mapping from; its folder and file name shape the output. */
+const MIRROR_URL = remoteImagesConfig.mirrorUrl || '/images/remote-images.json'
+
+/** Name of the rewritten mapping inside OUT_DIR. */
+const MAPPING_NAME = MIRROR_URL.slice(MIRROR_URL.lastIndexOf('/') + 1)
+
+/** Read an env var with default. */
+function env(name: string, fallback?: string): string | undefined {
+  const v = process.env[name]
+  return v === undefined || v === '' ? fallback : v
+}
+
+/** Read a positive integer env var, falling back on missing or invalid values. */
+function envInt(name: string, fallback: number): number {
+  const n = parseInt(env(name, '') as string, 10)
+  return Number.isFinite(n) && n > 0 ? n : fallback
+}
+
+/** Why an image could not be mirrored. */
+type FailureReason = 'not-found' | 'http' | 'network' | 'oversize' | 'not-image'
+
+/** Outcome of one download. */
+type Fetched = { ok: true; bytes: Buffer } | { ok: false; reason: FailureReason; detail: string }
+
+/**
+ * MirroredImage
+ * One mirrored file as reported at the end of the run.
+ */
+interface MirroredImage {
+  url: string
+  path: string
+  bytes: number
+  size?: ImageSize
+  reused: boolean
+}
+
+/** Human-readable byte count. */
+function formatBytes(n: number): string {
+  if (n < 1024) return `${n} B`
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(1)} KB`
+  return `${(n / 1024 / 1024).toFixed(2)} MB`
+}
+
+/** Only absolute http(s) URLs are downloaded; data URLs and site paths are already local. */
+function isRemote(url: string): boolean {
+  return /^https?:\/\//i.test(url)
+}
+
+/* ------------------------------ Inputs ------------------------------ */
+
+/** Reads the mapping text from MAPPING_FILE or MAPPING_URL and parses it (with any mirror sections it carries). */
+async function loadMapping(): Promise<{ label: string; maps: RemoteMaps; carried: RemoteMirror }> {
+  const file = env('MAPPING_FILE')
+  const url = env('MAPPING_URL', remoteImagesConfig.url) as string
+  const fromExt = file ? extname(file).slice(1).toLowerCase() : ''
+  const source = env('MAPPING_SOURCE', fromExt === 'csv' || fromExt === 'json' ? fromExt : remoteImagesConfig.source) as RemoteSource
+  if (source !== 'json' && source !== 'csv') throw new Error(`Unknown MAPPING_SOURCE '${source}' (expected json or csv).`)
+
+  let text: string
+  let label: string
+  if (file) {
+    text = readFileSync(file, 'utf8')
+    label = file
+  } else if (url) {
+    if (!isRemote(url)) throw new Error(`MAPPING_URL must be an absolute http(s) URL (got '${url}'); use MAPPING_FILE for a local file.`)
+    const res = await fetch(url, { cache: 'no-store' })
+    if (!res.ok) throw new Error(`Mapping fetch failed: ${res.status} ${res.statusText} (${url})`)
+    text = await res.text()
+    label = url
+  } else {
+    return { label: '(no mapping configured)', maps: { topics: {}, articles: {} }, carried: { mirror: {}, sizes: {} } }
+  }
+  if (source === 'csv') return { label, maps: parseCSV(text), carried: { mirror: {}, sizes: {} } }
+  return { label, maps: parseJSON(text), carried: parseMirrorJSON(text) }
+}
+
+/** Code-level image URLs, labelled by where they are configured. */
+function codeDefaults(): Array<[string, string]> {
+  const out: Array<[string, string]> = []
+  if (siteWideImageOverride) out.push(['config: siteWideImageOverride', siteWideImageOverride])
+  Object.entries(topicDefaultImages).forEach(([k, u]) => u && out.push([`config: topicDefaultImages.${k}`, u]))
+  Object.entries(articleDefaultImages).forEach(([k, u]) => u && out.push([`config: articleDefaultImages.${k}`, u]))
+  authoredArticles.forEach(a => a.image && out.push([`authored: ${a.id}`, a.image]))
+  out.push(['generated article placeholder', DEFAULT_ARTICLE_IMAGE])
+  return out
+}
+
+/* ----------------------------- Download ----------------------------- */
+
+/** Fetches one image, refusing anything over maxBytes without reading it fully. */
+async function download(url: string, maxBytes: number, timeoutMs: number): Promise<Fetched> {
+  let res: Response
+  try {
+    res = await fetch(url, { redirect: 'follow', signal: AbortSignal.timeout(timeoutMs) })
+  } catch (e) {
+    return { ok: false, reason: 'network', detail: e instanceof Error ? e.message : String(e) }
+  }
+  if (!res.ok) {
+    await res.body?.cancel().catch(() => undefined)
+    return { ok: false, reason: res.status === 404 || res.status === 410 ? 'not-found' : 'http', detail: `${res.status} ${res.statusText}`.trim() }
+  }
+
+  const declared = Number(res.headers.get('content-length'))
+  if (declared > maxBytes) {
+    await res.body?.cancel().catch(() => undefined)
+    return { ok: false, reason: 'oversize', detail: `${formatBytes(declared)} > ${formatBytes(maxBytes)}` }
+  }
+
+  const chunks: Uint8Array[] = []
+  let total = 0
+  try {
+    const reader = (res.body as ReadableStream<Uint8Array>).getReader()
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      total += value.length
+      // The header can be missing or wrong; stop as soon as the limit is crossed
+      if (total > maxBytes) {
+        await reader.cancel().catch(() => undefined)
+        return { ok: false, reason: 'oversize', detail: `more than ${formatBytes(maxBytes)}` }
+      }
+      chunks.push(value)
+    }
+  } catch (e) {
+    return { ok: false, reason: 'network', detail: e instanceof Error ? e.message : String(e) }
+  }
+  return { ok: true, bytes: Buffer.concat(chunks) }
+}
+
+/** Runs fn over items with at most `limit` in flight, keeping result order. */
+async function mapPool<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++
+      results[i] = await fn(items[i])
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+  return results
+}
+
+/** Object with keys sorted, so the written mapping diffs cleanly between runs. */
+function sorted<V>(obj: Record<string, V>): Record<string, V> {
+  return Object.fromEntries(Object.keys(obj).sort().map(k => [k, obj[k]]))
+}
+
+/* ------------------------------- Main ------------------------------- */
+
+/** Main entry: mirrors every referenced image into OUT_DIR and writes the rewritten mapping. */
+async function main() {
+  const outDir = env('OUT_DIR', 'dist/images') as string
+  const publicPath = (env('PUBLIC_PATH', MIRROR_URL.slice(0, MIRROR_URL.lastIndexOf('/') + 1)) as string).replace(/\/?$/, '/')
+  const maxBytes = envInt('MAX_BYTES', 5 * 1024 * 1024)
+  const concurrency = envInt('CONCURRENCY', 4)
+  const timeoutMs = envInt('TIMEOUT_MS', 30000)
+  const refresh = env('REFRESH') === '1'
+  const includeDefaults = env('INCLUDE_DEFAULTS', '1') !== '0'
+
+  const { label, maps, carried } = await loadMapping()
+  console.log(`Mapping: ${label} (${Object.keys(maps.topics).length} topics, ${Object.keys(maps.articles).length} articles)`)
+
+  // Every remote URL with the places that reference it (one download per URL)
+  const refs = new Map<string, string[]>()
+  const addRef = (where: string, url: string) => {
+    if (!isRemote(url)) return
+    refs.set(url, [...(refs.get(url) ?? []), where])
+  }
+  Object.entries(maps.topics).forEach(([k, u]) => addRef(`topic: ${k}`, u))
+  Object.entries(maps.articles).forEach(([k, u]) => addRef(`article: ${k}`, u))
+  if (includeDefaults) codeDefaults().forEach(([where, u]) => addRef(where, u))
+
+  // A previous run's output lets unchanged URLs skip the download
+  mkdirSync(outDir, { recursive: true })
+  const mappingPath = join(outDir, MAPPING_NAME)
+  const previous: RemoteMirror = existsSync(mappingPath) && !refresh ? parseMirrorJSON(readFileSync(mappingPath, 'utf8')) : { mirror: {}, sizes: {} }
+
+  const failures: Array<{ url: string; refs: string[]; reason: FailureReason; detail: string }> = []
+  const mirrored = await mapPool([...refs.keys()], concurrency, async (url): Promise<MirroredImage | null> => {
+    const prior = previous.mirror[url]
+    const priorFile = prior?.startsWith(publicPath) ? join(outDir, prior.slice(publicPath.length)) : ''
+    if (priorFile && existsSync(priorFile)) {
+      return { url, path: prior, bytes: readFileSync(priorFile).length, size: previous.sizes[prior], reused: true }
+    }
+
+    const got = await download(url, maxBytes, timeoutMs)
+    if (!got.ok) {
+      failures.push({ url, refs: refs.get(url) ?? [], reason: got.reason, detail: got.detail })
+      return null
+    }
+    const info = sniffImage(got.bytes)
+    if (!info) {
+      failures.push({ url, refs: refs.get(url) ?? [], reason: 'not-image', detail: 'response is not a PNG, JPEG, GIF, WebP, SVG, or AVIF image' })
+      return null
+    }
+    const name = `${createHash('sha256').update(got.bytes).digest('hex').slice(0, 16)}.${info.ext}`
+    const file = join(outDir, name)
+    if (!existsSync(file)) writeFileSync(file, got.bytes)
+    const size = info.width && info.height ? { width: info.width, height: info.height } : undefined
+    return { url, path: publicPath + name, bytes: got.bytes.length, size, reused: false }
+  })
+
+  const mirror: Record<string, string> = {}
+  const sizes: Record<string, ImageSize> = {}
+  mirrored.forEach(m => {
+    if (!m) return
+    mirror[m.url] = m.path
+    if (m.size) sizes[m.path] = m.size
+  })
+
+  // Entries that already point at mirrored files (e.g., a mapping fed back in) keep their size and origin
+  const localFiles = new Set(
+    [...Object.values(maps.topics), ...Object.values(maps.articles)].filter(u => u.startsWith(publicPath) && !isRemote(u))
+  )
+  localFiles.forEach(path => {
+    const file = join(outDir, path.slice(publicPath.length))
+    if (!existsSync(file)) return
+    let size = carried.sizes[path] ?? previous.sizes[path]
+    if (!size) {
+      const info = sniffImage(readFileSync(file))
+      if (info?.width && info.height) size = { width: info.width, height: info.height }
+    }
+    if (size) sizes[path] = size
+  })
+  ;[carried.mirror, previous.mirror].forEach(earlier =>
+    Object.entries(earlier).forEach(([url, path]) => {
+      if (localFiles.has(path) && !mirror[url]) mirror[url] = path
+    })
+  )
+  const local = (map: Record<string, string>) => sorted(Object.fromEntries(Object.entries(map).map(([k, u]) => [k, mirror[u] ?? u])))
+
+  writeFileSync(
+    mappingPath,
+    JSON.stringify({ topics: local(maps.topics), articles: local(maps.articles), mirror: sorted(mirror), sizes: sorted(sizes) }, null, 2) + '\n'
+  )
+
+  // Report
+  const done = mirrored.filter((m): m is MirroredImage => m !== null)
+  const files = new Set(done.map(m => m.path))
+  const totalBytes = [...new Map(done.map(m => [m.path, m.bytes])).values()].reduce((a, b) => a + b, 0)
+  const reused = done.filter(m => m.reused).length
+  console.log(
+    `Mirrored ${done.length} of ${refs.size} URLs into ${files.size} files (${formatBytes(totalBytes)}; ${done.length - reused} downloaded, ${reused} already mirrored) in ${outDir}`
+  )
+  console.log(`Wrote ${mappingPath}`)
+
+  const unsized = done.filter(m => !m.size)
+  if (unsized.length > 0) {
+    console.warn(`\nNo intrinsic size for ${unsized.length} image(s); ImageWithFallback cannot reserve space for them:`)
+    unsized.forEach(m => console.warn(`  ${m.path}  <- ${m.url}`))
+  }
+
+  if (failures.length > 0) {
+    const order: FailureReason[] = ['not-found', 'oversize', 'not-image', 'http', 'network']
+    console.error(`\n${failures.length} image(s) not mirrored (their original URLs are kept):`)
+    failures
+      .sort((a, b) => order.indexOf(a.reason) - order.indexOf(b.reason) || a.url.localeCompare(b.url))
+      .forEach(f => {
+        console.error(`  [${f.reason}] ${f.detail}\n    ${f.url}\n    used by: ${f.refs.join('; ')}`)
+      })
+    process.exit(1)
+  }
+}
+
+main().catch(err => {
+  console.error('Unexpected error:', err)
+  process.exit(1)
+})
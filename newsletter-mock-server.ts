@@ -0,0 +1,109 @@
+/**
+ * newsletter-mock-server.ts
+ * Local stand-in for a newsletter provider, speaking the same JSON protocol as the 'webhook'
+ * provider. Point siteConfig.newsletter.provider at 'mock' to exercise the subscribe forms.
+ * - Bundled and executed with esbuild (npm run newsletter-mock); stop it with Ctrl+C.
+ *
+ * Endpoints:
+ * - POST /subscribe  { email, source?, tag? } → 200 { status: 'pending' | 'subscribed' } or 4xx/5xx { error }
+ * - GET  /subscribers → the signups received so far
+ *
+ * Test addresses:
+ * - anything+reject@… → 422 (provider refuses the address)
+ * - anything+down@…   → 503 (provider unavailable)
+ *
+ * Optional environment variables:
+ * - PORT: port to listen on (default: 8787)
+ * - DOUBLE_OPT_IN: '0' to answer 'subscribed' instead of 'pending' (default: '1')
+ * - DELAY_MS: artificial response delay to see the pending state (default: 400)
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http'
+
+/** Read an env var with default. */
+function env(name: string, fallback?: string): string | undefined {
+  const v = process.env[name]
+  return v === undefined || v === '' ? fallback : v
+}
+
+/**
+ * Subscriber
+ * One signup as stored by the mock.
+ */
+interface Subscriber {
+  email: string
+  source?: string
+  tag?: string
+  status: 'pending' | 'subscribed'
+  at: string
+}
+
+const subscribers = new Map<string, Subscriber>()
+
+/** Sends a JSON response with permissive CORS headers. */
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  })
+  res.end(JSON.stringify(body))
+}
+
+/** Reads a JSON or form-encoded request body. */
+async function readBody(req: IncomingMessage): Promise<Record<string, string>> {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) chunks.push(chunk as Buffer)
+  const raw = Buffer.concat(chunks).toString('utf8')
+  if ((req.headers['content-type'] || '').includes('application/json')) {
+    try {
+      return JSON.parse(raw) ?? {}
+    } catch {
+      return {}
+    }
+  }
+  return Object.fromEntries(new URLSearchParams(raw))
+}
+
+/** Handles one signup. */
+async function handleSubscribe(req: IncomingMessage, res: ServerResponse, doubleOptIn: boolean) {
+  const body = await readBody(req)
+  const email = String(body.email || '').trim().toLowerCase()
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) return send(res, 400, { error: 'Invalid email address.' })
+  if (email.includes('+reject@')) return send(res, 422, { error: 'This address cannot be subscribed.' })
+  if (email.includes('+down@')) return send(res, 503, { error: 'Service temporarily unavailable.' })
+
+  const existing = subscribers.get(email)
+  const status = existing?.status ?? (doubleOptIn ? 'pending' : 'subscribed')
+  subscribers.set(email, { email, source: body.source, tag: body.tag, status, at: new Date().toISOString() })
+  console.log(`[${new Date().toISOString()}] ${existing ? 'again' : 'new'} ${email} (${body.source || 'unknown'}) → ${status}`)
+  send(res, 200, { status })
+}
+
+/** Main entry: starts the HTTP server. */
+function main() {
+  const port = parseInt(env('PORT', '8787') as string, 10) || 8787
+  const doubleOptIn = env('DOUBLE_OPT_IN', '1') !== '0'
+  const delay = Math.max(0, parseInt(env('DELAY_MS', '400') as string, 10) || 0)
+
+  const server = createServer((req, res) => {
+    const path = (req.url || '/').split('?')[0]
+    if (req.method === 'OPTIONS') return send(res, 204, null)
+    setTimeout(() => {
+      if (req.method === 'POST' && path === '/subscribe') {
+        handleSubscribe(req, res, doubleOptIn).catch(err => send(res, 500, { error: String(err) }))
+      } else if (req.method === 'GET' && path === '/subscribers') {
+        send(res, 200, Array.from(subscribers.values()))
+      } else {
+        send(res, 404, { error: 'Not found' })
+      }
+    }, delay)
+  })
+
+  server.listen(port, () => {
+    console.log(`Mock newsletter provider on http://localhost:${port}/subscribe (double opt-in: ${doubleOptIn ? 'on' : 'off'})`)
+  })
+}
+
+main()
@@ -2,68 +2,136 @@
  * newsletterDigest.ts
  * Shared digest builders and email export helpers for Daily/Weekly newsletters.
  * Reused by the in-app builder and any scheduled sending scripts.
+ * What each issue contains comes from the recipes in config/digestRecipes.
  */
 
-import { listArticlesForDate } from './articleEngine'
-import { getReflectionForDate, humanizeTheme } from './contentEngine'
+import type { Article as ArticleCardType } from '../components/ArticleCard'
+import { generatedArticleCard, humanLabel, listArticlesForDate, topics, type TopicKey } from './articleEngine'
+import { getReflectionForDate, humanizeTheme, reflectionPath, themes, type ReflectionTheme } from './contentEngine'
+import { buildRouteUrl } from './routing'
+import { calendarDateToUTC, formatCalendarDate, previousDays, type CalendarDate } from './calendarDate'
+import { absoluteUrl, renderEmailHtml, renderEmailText, type EmailBlock } from './emailTemplate'
+import { getArticleImage } from './imageOverrides'
+import { DEFAULT_LOCALE, getLocale, withLocale, type Locale } from './i18n'
+import { digestRecipes, type DigestRecipe, type FeaturedQuestion, type FeaturedResource } from '../config/digestRecipes'
+import { siteConfig } from '../config/site'
 
 /**
- * formatISO
- * Formats a Date as YYYY-MM-DD.
+ * formatHumanDate
+ * Formats a day to a human-friendly label in the active locale (e.g., Aug 10, 2025).
  */
-function formatISO(d: Date): string {
-  return d.toISOString().slice(0, 10)
+function formatHumanDate(day: CalendarDate): string {
+  return formatCalendarDate(day, { year: 'numeric', month: 'short', day: 'numeric' })
 }
 
 /**
- * formatHumanDate
- * Formats a Date to a human-friendly label (e.g., Aug 10, 2025).
+ * DigestMode
+ * Supported digest modes (MODE in the sending script).
  */
-function formatHumanDate(d: Date): string {
-  return d.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' })
+export type DigestMode = 'daily' | 'weekly'
+
+/**
+ * DigestFeatured
+ * Optional extras chosen by the recipe for an issue.
+ */
+export interface DigestFeatured {
+  resource?: FeaturedResource
+  question?: FeaturedQuestion
 }
 
 /**
- * previousDays
- * Builds an array of dates going backward from a base date (inclusive).
+ * dayNumber
+ * Days since 1970-01-01; the clock every recipe rotation runs on.
  */
-function previousDays(base: Date, count: number): Date[] {
-  const out: Date[] = []
-  for (let i = 0; i < count; i++) {
-    const d = new Date(base)
-    d.setDate(base.getDate() - i)
-    out.push(d)
+function dayNumber(day: CalendarDate): number {
+  return Math.floor(calendarDateToUTC(day).getTime() / 86_400_000)
+}
+
+/** Entry `position` of a rotation, wrapping around; undefined for an empty list. */
+function rotate<T>(list: T[], position: number): T | undefined {
+  return list.length ? list[((position % list.length) + list.length) % list.length] : undefined
+}
+
+/**
+ * recipeTopics
+ * Topics a recipe may feature, in site order, after includeTopics and excludeTopics.
+ */
+export function recipeTopics(recipe: DigestRecipe): TopicKey[] {
+  const include = recipe.includeTopics?.length ? recipe.includeTopics : null
+  return topics.map(t => t.key).filter(key => (!include || include.includes(key)) && !recipe.excludeTopics?.includes(key))
+}
+
+/**
+ * pickArticles
+ * Authored articles of the covered days (when enabled), then each day's generated picks.
+ * Topics are dealt round-robin by day number, so consecutive days continue the cycle.
+ */
+function pickArticles(days: CalendarDate[], recipe: DigestRecipe): ArticleCardType[] {
+  const pool = recipeTopics(recipe)
+  const perDay = Math.max(0, recipe.articlesPerDay)
+  const authored = recipe.includeAuthored
+    ? days.flatMap(d => listArticlesForDate(d, 0)).filter(a => !a.topic || pool.includes(a.topic))
+    : []
+  const generated = pool.length
+    ? days.flatMap(d => {
+        const start = dayNumber(d) * perDay
+        // Past the end of the topic list, the same topics come back with their next article of the day
+        return Array.from({ length: perDay }, (_, i) =>
+          generatedArticleCard(rotate(pool, start + i) as TopicKey, d, 1 + Math.floor(i / pool.length))
+        )
+      })
+    : []
+  return [...authored, ...generated].slice(0, Math.max(0, recipe.maxArticles))
+}
+
+/**
+ * pickReflection
+ * The reflection in the recipe's theme for this rotation period.
+ */
+function pickReflection(day: CalendarDate, recipe: DigestRecipe, period: number) {
+  const theme = rotate(recipe.themes.length ? recipe.themes : themes, period) as ReflectionTheme
+  return getReflectionForDate(day, theme)
+}
+
+/**
+ * pickFeatured
+ * The featured resource and question the recipe asks for, rotating by period.
+ */
+function pickFeatured(recipe: DigestRecipe, period: number): DigestFeatured {
+  return {
+    resource: recipe.featuredResource ? rotate(digestRecipes.resources, period) : undefined,
+    question: recipe.featuredQuestion ? rotate(digestRecipes.questions, period) : undefined,
   }
-  return out
 }
 
 /**
  * buildDailyDigest
- * Generates a daily digest with a reflection and a handful of articles.
+ * Generates a daily digest: the recipe's reflection theme for the day, its articles, and extras.
+ * `permalink` is the in-app path of that day's reflection.
  */
-export function buildDailyDigest(date: Date) {
-  const reflection = getReflectionForDate(date, 'mindfulness')
-  const articles = listArticlesForDate(date, 1).slice(0, 3) // pick first 3 for brevity
+export function buildDailyDigest(date: CalendarDate, recipe: DigestRecipe = digestRecipes.daily) {
+  const period = dayNumber(date)
+  const reflection = pickReflection(date, recipe, period)
+  const articles = pickArticles([date], recipe)
   const subject = `Daily • ${formatHumanDate(date)}`
-  return { subject, reflection, articles }
+  const permalink = reflectionPath(reflection.dateISO, reflection.theme)
+  return { subject, reflection, articles, permalink, featured: pickFeatured(recipe, period) }
 }
 
 /**
  * buildWeeklyDigest
- * Generates a weekly digest by sampling recent days' articles and one reflection.
+ * Generates a weekly digest for the seven days ending on `endDate`: one reflection from the end date
+ * in the recipe's theme for the week, and each day's round-robin articles (newest day first).
  */
-export function buildWeeklyDigest(endDate: Date) {
+export function buildWeeklyDigest(endDate: CalendarDate, recipe: DigestRecipe = digestRecipes.weekly) {
   const days = previousDays(endDate, 7)
-  // One reflection from the end date to anchor the week
-  const reflection = getReflectionForDate(endDate, 'faith-reason')
-  // Collect one highlight article from each day (first of the generated list)
-  const articles = days
-    .map(d => listArticlesForDate(d, 1)[0])
-    .filter(Boolean)
-    .slice(0, 7)
+  const period = Math.floor(dayNumber(endDate) / 7)
+  const reflection = pickReflection(endDate, recipe, period)
+  const articles = pickArticles(days, recipe)
   const weekRange = `${formatHumanDate(days[days.length - 1])} – ${formatHumanDate(days[0])}`
   const subject = `Weekly Digest • ${weekRange}`
-  return { subject, reflection, articles }
+  const permalink = reflectionPath(reflection.dateISO, reflection.theme)
+  return { subject, reflection, articles, permalink, featured: pickFeatured(recipe, period) }
 }
 
 /**
@@ -76,90 +144,147 @@ function getOrigin(baseUrl?: string): string {
   return ''
 }
 
+/**
+ * resolveHref
+ * Absolute URLs pass through; in-site paths follow the site's routing mode.
+ */
+function resolveHref(origin: string, url: string): string {
+  return /^[a-z][a-z0-9+.-]*:/i.test(url) ? url : buildRouteUrl(origin, url)
+}
+
+/**
+ * buildDigestBlocks
+ * The email as a block tree (see emailTemplate): header, reflection, quote, article cards with
+ * thumbnails, featured extras, prayer, and footer. Both the HTML and the text version render from it.
+ */
+export function buildDigestBlocks(
+  subject: string,
+  reflection: ReturnType<typeof getReflectionForDate>,
+  articles: ArticleCardType[],
+  baseUrl?: string,
+  featured: DigestFeatured = {}
+): EmailBlock[] {
+  const origin = getOrigin(baseUrl)
+  const reflectionHref = buildRouteUrl(origin, reflectionPath(reflection.dateISO, reflection.theme))
+  const blocks: EmailBlock[] = [
+    {
+      type: 'header',
+      title: subject,
+      subtitle: `${reflection.dateISO} • ${humanizeTheme(reflection.theme)}`,
+      preheader: `${reflection.title} — ${reflection.body[0] ?? ''}`.slice(0, 140),
+    },
+    {
+      type: 'reflection',
+      heading: 'Reflection',
+      title: reflection.title,
+      href: reflectionHref,
+      scripture: reflection.scripture,
+      body: reflection.body,
+      resolveHref: path => buildRouteUrl(origin, path),
+    },
+    { type: 'quote', text: reflection.quote.text, author: reflection.quote.author },
+    {
+      type: 'articles',
+      heading: 'Articles',
+      items: articles.map(a => ({
+        title: a.title,
+        href: buildRouteUrl(origin, a.path),
+        excerpt: a.excerpt,
+        // Same precedence as the site's cards (site-wide, per-article, per-topic overrides)
+        image: a.image ? absoluteUrl(origin, getArticleImage(a.id, a.image, a.topic)) : undefined,
+        label: a.topic ? humanLabel(a.topic) : undefined,
+      })),
+    },
+  ]
+  if (featured.resource) {
+    const { title, url, description } = featured.resource
+    blocks.push({ type: 'resource', heading: 'Featured resource', title, href: resolveHref(origin, url), description })
+  }
+  if (featured.question) {
+    const { question, path } = featured.question
+    blocks.push({ type: 'question', heading: 'A question to carry', question, href: path ? buildRouteUrl(origin, path) : undefined })
+  }
+  blocks.push(
+    { type: 'prayer', heading: 'Prayer', text: reflection.prayer },
+    {
+      type: 'footer',
+      siteName: siteConfig.name,
+      siteUrl: origin || siteConfig.baseUrl,
+      contactEmail: siteConfig.contactEmail,
+      unsubscribeUrl: siteConfig.newsletter.unsubscribeUrl,
+      note: `You are receiving this because you subscribed to ${siteConfig.name}.`,
+    }
+  )
+  return blocks
+}
+
 /**
  * buildEmailText
- * Assembles a plain-text email from digest parts.
+ * Assembles a plain-text email from digest parts (rendered from the same blocks as the HTML).
  * Accepts optional baseUrl to generate absolute links when running in Node.
  */
 export function buildEmailText(
   subject: string,
   reflection: ReturnType<typeof getReflectionForDate>,
-  articles: Array<{ title: string; path: string }>,
-  baseUrl?: string
+  articles: ArticleCardType[],
+  baseUrl?: string,
+  featured: DigestFeatured = {}
 ): string {
-  const origin = getOrigin(baseUrl)
-  const lines: string[] = []
-  lines.push(subject)
-  lines.push('')
-  lines.push(`Reflection: ${reflection.title}`)
-  lines.push(`Date: ${reflection.dateISO} • Theme: ${humanizeTheme(reflection.theme)}`)
-  lines.push(`Scripture: "${reflection.scripture.text}" (${reflection.scripture.ref})`)
-  lines.push(`Quote: "${reflection.quote.text}" — ${reflection.quote.author}`)
-  lines.push('')
-  reflection.body.forEach(p => lines.push(p))
-  lines.push('')
-  lines.push('Articles:')
-  articles.forEach(a => {
-    const href = origin ? `${origin}/#${a.path}` : `/#${a.path}`
-    lines.push(`• ${a.title} — ${href}`)
-  })
-  lines.push('')
-  lines.push(`Prayer: ${reflection.prayer}`)
-  return lines.join('\n')
+  return renderEmailText(buildDigestBlocks(subject, reflection, articles, baseUrl, featured))
 }
 
 /**
  * buildEmailHtml
- * Assembles a simple, email-friendly HTML version with inline styles.
+ * Assembles the HTML email in the recipes' theme, with a dark palette for clients that support it.
  * Accepts optional baseUrl to generate absolute links when running in Node.
  */
 export function buildEmailHtml(
   subject: string,
   reflection: ReturnType<typeof getReflectionForDate>,
-  articles: Array<{ title: string; path: string }>,
-  baseUrl?: string
+  articles: ArticleCardType[],
+  baseUrl?: string,
+  featured: DigestFeatured = {}
 ): string {
-  const origin = getOrigin(baseUrl)
-  const articleLinks = articles
-    .map(a => {
-      const href = origin ? `${origin}/#${a.path}` : `/#${a.path}`
-      return `<li style="margin:6px 0;"><a href="${href}" style="color:#2563eb;text-decoration:none;">${a.title}</a></li>`
-    })
-    .join('')
-
-  const bodyParas = reflection.body
-    .map(p => `<p style="margin:0 0 12px 0;line-height:1.6;color:#334155;">${p}</p>`)
-    .join('')
-
-  return `<!doctype html>
-<html>
-  <body style="margin:0;padding:0;background:#f8fafc;">
-    <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="background:#f8fafc;padding:24px 0;">
-      <tr>
-        <td align="center">
-          <table role="presentation" width="600" cellspacing="0" cellpadding="0" style="background:#ffffff;border:1px solid #e5e7eb;border-radius:12px;padding:24px;font-family:system-ui,-apple-system,Segoe UI,Roboto,Ubuntu,Cantarell,'Helvetica Neue',Arial;">
-            <tr><td>
-              <h1 style="margin:0 0 4px 0;font-size:20px;color:#0f172a;">${subject}</h1>
-              <div style="margin:0 0 16px 0;font-size:12px;color:#64748b;">${reflection.dateISO} • ${humanizeTheme(reflection.theme)}</div>
-
-              <h2 style="margin:0 0 8px 0;font-size:16px;color:#0f172a;">Reflection</h2>
-              <p style="margin:0 0 6px 0;font-weight:600;color:#0f172a;">${reflection.title}</p>
-              <p style="margin:0 0 6px 0;color:#334155;">“${reflection.scripture.text}” — ${reflection.scripture.ref}</p>
-              <p style="margin:0 0 12px 0;color:#334155;">“${reflection.quote.text}” — ${reflection.quote.author}</p>
-              ${bodyParas}
-              <p style="margin:12px 0 0 0;color:#334155;"><strong>Prayer:</strong> ${reflection.prayer}</p>
-
-              <h2 style="margin:20px 0 8px 0;font-size:16px;color:#0f172a;">Articles</h2>
-              <ul style="padding-left:18px;margin:0;list-style:disc;color:#0f172a;">
-                ${articleLinks}
-              </ul>
-
-              <p style="margin:24px 0 0 0;font-size:12px;color:#94a3b8;">Sent by Logos &amp; Light</p>
-            </td></tr>
-          </table>
-        </td>
-      </tr>
-    </table>
-  </body>
-</html>`
+  return renderEmailHtml(buildDigestBlocks(subject, reflection, articles, baseUrl, featured), {
+    theme: digestRecipes.emailTheme,
+    lang: getLocale(),
+  })
+}
+
+/**
+ * NewsletterIssue
+ * One rendered issue: the digest plus the subject, plain text, and HTML that get sent.
+ */
+export interface NewsletterIssue {
+  mode: DigestMode
+  date: CalendarDate
+  subject: string
+  text: string
+  html: string
+  digest: ReturnType<typeof buildDailyDigest>
+}
+
+/**
+ * buildNewsletterIssue
+ * Renders the issue for a mode and base date (MODE, BASE_DATE, BASE_URL in the sending script).
+ * The sending script and the builder's preview both call this, so the preview is exactly what goes out.
+ * The issue is in `locale` (default English, as sent) whatever language the reader's browser has chosen.
+ */
+export function buildNewsletterIssue(
+  mode: DigestMode,
+  date: CalendarDate,
+  baseUrl?: string,
+  locale: Locale = DEFAULT_LOCALE
+): NewsletterIssue {
+  return withLocale(locale, () => {
+    const digest = mode === 'weekly' ? buildWeeklyDigest(date) : buildDailyDigest(date)
+    return {
+      mode,
+      date,
+      subject: digest.subject,
+      text: buildEmailText(digest.subject, digest.reflection, digest.articles, baseUrl, digest.featured),
+      html: buildEmailHtml(digest.subject, digest.reflection, digest.articles, baseUrl, digest.featured),
+      digest,
+    }
+  })
 }
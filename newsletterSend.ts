@@ -0,0 +1,147 @@
+/**
+ * newsletterSend.ts
+ * The decisions behind the newsletter sender (scripts/send-newsletter.ts): idempotency ledger
+ * transitions, retry classification with backoff, and the dry-run line diff.
+ * No Node APIs here; the script does the file and network I/O, and npm run check exercises the rest.
+ */
+
+import type { CalendarDate } from './calendarDate'
+import type { DigestMode } from './newsletterDigest'
+
+/**
+ * LedgerEntry
+ * One issue's send record. 'sending' is written before the provider call, so a crash mid-send
+ * leaves a trace instead of a silent resend.
+ */
+export interface LedgerEntry {
+  status: 'sending' | 'sent'
+  provider: string
+  subject: string
+  /** SHA-256 of the HTML, to tell whether a later render differs from what went out */
+  sha256: string
+  at: string
+  id?: string
+}
+
+/** Ledger file contents: entries by ledgerKey. */
+export type Ledger = Record<string, LedgerEntry>
+
+/** Ledger key for an issue: MODE + date. */
+export function ledgerKey(mode: DigestMode, date: CalendarDate): string {
+  return `${mode}:${date}`
+}
+
+/** Parses ledger text; anything but a JSON object is an error (never guess what was sent). */
+export function parseLedger(text: string, source = 'Ledger'): Ledger {
+  try {
+    const parsed = JSON.parse(text)
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed as Ledger
+  } catch {
+    // fall through
+  }
+  throw new Error(`${source} is not a JSON object; fix or remove it before sending.`)
+}
+
+/** Sets (or with null, removes) one entry; keys come back sorted so the file diffs cleanly when committed. */
+export function setLedgerEntry(ledger: Ledger, key: string, entry: LedgerEntry | null): Ledger {
+  const next = { ...ledger }
+  if (entry) next[key] = entry
+  else delete next[key]
+  return Object.fromEntries(Object.keys(next).sort().map(k => [k, next[k]]))
+}
+
+/**
+ * ledgerAction
+ * What a real run does with an issue: send it, skip it (already sent), or stop because an earlier
+ * attempt never finished. --force sends in both of the latter cases.
+ */
+export function ledgerAction(prior: LedgerEntry | undefined, force: boolean): 'send' | 'skip' | 'unresolved' {
+  if (!prior || force) return 'send'
+  return prior.status === 'sent' ? 'skip' : 'unresolved'
+}
+
+/**
+ * entryAfterFailure
+ * The ledger entry once a send has failed. An uncertain failure keeps the pending mark (the provider
+ * may have the issue); otherwise nothing went out, so the entry from before the attempt comes back
+ * (null when there was none). A failed --force resend therefore never erases an earlier 'sent'.
+ */
+export function entryAfterFailure(
+  prior: LedgerEntry | undefined,
+  pending: LedgerEntry,
+  result: { uncertain?: boolean }
+): LedgerEntry | null {
+  if (result.uncertain) return pending
+  return prior ?? null
+}
+
+/**
+ * SendResult
+ * Outcome of one attempt. `retryable` failures (5xx, 429, refused connections) are retried with backoff.
+ * `uncertain` means the provider may have accepted the issue anyway (e.g., the connection dropped after
+ * the request went out); those are never retried automatically.
+ */
+export type SendResult = { ok: true; id?: string } | { ok: false; retryable: boolean; uncertain?: boolean; message: string }
+
+/** Failure for an HTTP error status: server errors and rate limits are temporary, other 4xx permanent. */
+export function httpFailure(status: number, message: string): SendResult {
+  return { ok: false, retryable: status >= 500 || status === 429, message }
+}
+
+/** Failure for an SMTP reply code: 4xx is temporary, 5xx permanent. */
+export function smtpFailure(code: number, message: string): SendResult {
+  return { ok: false, retryable: code < 500, message }
+}
+
+/** Failure for a thrown network error; `uncertain` when the request may already have been delivered. */
+export function networkFailure(err: unknown, uncertain: boolean): SendResult {
+  return { ok: false, retryable: true, uncertain, message: err instanceof Error ? err.message : String(err) }
+}
+
+/**
+ * sendWithRetry
+ * Retries temporary failures with exponential backoff and a little jitter; permanent and uncertain
+ * ones return at once.
+ */
+export async function sendWithRetry(send: () => Promise<SendResult>, retries: number, baseMs: number): Promise<SendResult> {
+  for (let attempt = 0; ; attempt++) {
+    const result = await send()
+    if (result.ok || !result.retryable || result.uncertain || attempt >= retries) return result
+    const wait = baseMs * 2 ** attempt + Math.floor(Math.random() * baseMs * 0.25)
+    console.warn(`Attempt ${attempt + 1} failed (${result.message.split('\n')[0]}); retrying in ${(wait / 1000).toFixed(1)}s…`)
+    await new Promise(r => setTimeout(r, wait))
+  }
+}
+
+/**
+ * lineDiff
+ * Unified-style line diff (LCS); issues are a few dozen lines, so the quadratic table is fine.
+ */
+export function lineDiff(before: string, after: string): { added: number; removed: number; lines: string[] } {
+  const a = before.split('\n')
+  const b = after.split('\n')
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+  const lines: string[] = []
+  let added = 0
+  let removed = 0
+  let i = 0
+  let j = 0
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      i++
+      j++
+    } else if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      lines.push(`+ ${b[j++]}`)
+      added++
+    } else {
+      lines.push(`- ${a[i++]}`)
+      removed++
+    }
+  }
+  return { added, removed, lines }
+}
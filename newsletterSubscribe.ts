@@ -0,0 +1,172 @@
+/**
+ * newsletterSubscribe.ts
+ * Provider layer behind the subscribe forms. Each provider turns an email address into a signup
+ * and reports whether the reader still has to confirm it (double opt-in).
+ * Hosted form endpoints (Buttondown embed, Mailchimp) do not allow reading the response from the
+ * browser, so their success means "sent"; webhook and mock endpoints report their real outcome.
+ */
+
+import { siteConfig, type NewsletterConfig } from '../config/site'
+
+/** Name of the hidden honeypot field; people never fill it, form-filling bots usually do. */
+export const HONEYPOT_FIELD = 'website'
+
+/** Default endpoint of the local mock server (npm run newsletter-mock). */
+export const MOCK_SUBSCRIBE_URL = 'http://localhost:8787/subscribe'
+
+/**
+ * SubscribeRequest
+ * One signup; `source` names the placement (home, daily, footer) for provider-side tagging.
+ */
+export interface SubscribeRequest {
+  email: string
+  source?: string
+}
+
+/**
+ * SubscribeResult
+ * 'confirm' means a confirmation email is on its way; 'subscribed' means the address is active.
+ * Failures are 'invalid' (bad address), 'rejected' (provider refused it), or 'network'.
+ */
+export type SubscribeResult =
+  | { ok: true; outcome: 'confirm' | 'subscribed' }
+  | { ok: false; error: 'invalid' | 'rejected' | 'network'; message?: string }
+
+/**
+ * SubscribeProvider
+ * Adapter for one newsletter service.
+ */
+export interface SubscribeProvider {
+  id: Exclude<NewsletterConfig['provider'], 'none'>
+  subscribe(req: SubscribeRequest): Promise<SubscribeResult>
+}
+
+/**
+ * isValidEmail
+ * Loose shape check (one @, a dot in the domain, no spaces); the provider has the final say.
+ */
+export function isValidEmail(email: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())
+}
+
+/** Success outcome for endpoints whose response cannot be read. */
+function sentOutcome(config: NewsletterConfig): SubscribeResult {
+  return { ok: true, outcome: config.doubleOptIn ? 'confirm' : 'subscribed' }
+}
+
+/** The page the reader subscribed from (the site's base URL when there is no browser page). */
+function currentPageUrl(): string {
+  return typeof window !== 'undefined' ? window.location.href : siteConfig.baseUrl
+}
+
+/**
+ * postForm
+ * Form-encoded POST to a hosted signup endpoint. `no-cors` keeps the browser from blocking the
+ * request; the response is opaque, so only network failures are visible.
+ */
+async function postForm(url: string, fields: Record<string, string>, config: NewsletterConfig): Promise<SubscribeResult> {
+  try {
+    await fetch(url, { method: 'POST', mode: 'no-cors', body: new URLSearchParams(fields) })
+    return sentOutcome(config)
+  } catch {
+    return { ok: false, error: 'network' }
+  }
+}
+
+/**
+ * postJson
+ * JSON POST to an endpoint that answers with CORS, e.g. { status: 'pending' | 'subscribed' }
+ * or { error: '…' } with a 4xx status.
+ */
+async function postJson(
+  url: string,
+  payload: Record<string, unknown>,
+  headers: Record<string, string>,
+  config: NewsletterConfig
+): Promise<SubscribeResult> {
+  let res: Response
+  try {
+    res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(payload),
+    })
+  } catch {
+    return { ok: false, error: 'network' }
+  }
+  const body = (await res.json().catch(() => null)) as { status?: string; error?: string; message?: string } | null
+  if (res.ok) {
+    if (body?.status === 'subscribed') return { ok: true, outcome: 'subscribed' }
+    if (body?.status === 'pending') return { ok: true, outcome: 'confirm' }
+    return sentOutcome(config)
+  }
+  const message = body?.error || body?.message
+  return res.status >= 500 ? { ok: false, error: 'network', message } : { ok: false, error: 'rejected', message }
+}
+
+/**
+ * getSubscribeProvider
+ * The adapter for the configured provider, or null when subscriptions are off or misconfigured.
+ */
+export function getSubscribeProvider(config: NewsletterConfig = siteConfig.newsletter): SubscribeProvider | null {
+  switch (config.provider) {
+    case 'buttondown': {
+      const bd = config.buttondown
+      if (!bd?.username) return null
+      return {
+        id: 'buttondown',
+        subscribe: ({ email, source }) =>
+          postForm(
+            `https://buttondown.com/api/emails/embed-subscribe/${encodeURIComponent(bd.username)}`,
+            {
+              email,
+              referrer_url: currentPageUrl(),
+              ...(bd.tag ? { tag: bd.tag } : {}),
+              // The placement goes to subscriber metadata; referrer_url must be a URL
+              ...(source ? { metadata__source: source } : {}),
+            },
+            config
+          ),
+      }
+    }
+    case 'mailchimp': {
+      const mc = config.mailchimp
+      if (!mc?.action) return null
+      return {
+        id: 'mailchimp',
+        subscribe: ({ email }) => postForm(mc.action, { ...(mc.fields || {}), [mc.emailField || 'EMAIL']: email }, config),
+      }
+    }
+    case 'webhook': {
+      const wh = config.webhook
+      if (!wh?.url) return null
+      return {
+        id: 'webhook',
+        subscribe: ({ email, source }) => postJson(wh.url, { email, source, tag: wh.tag }, wh.headers || {}, config),
+      }
+    }
+    case 'mock':
+      return {
+        id: 'mock',
+        subscribe: ({ email, source }) => postJson(config.mock?.url || MOCK_SUBSCRIBE_URL, { email, source }, {}, config),
+      }
+    default:
+      return null
+  }
+}
+
+/**
+ * subscribe
+ * Validates the address and hands it to the provider. A filled honeypot reports success without
+ * contacting the provider, so bots get no signal to retry with.
+ */
+export async function subscribe(
+  req: SubscribeRequest & { honeypot?: string },
+  provider: SubscribeProvider | null = getSubscribeProvider()
+): Promise<SubscribeResult> {
+  const email = req.email.trim()
+  if (req.honeypot) return { ok: true, outcome: siteConfig.newsletter.doubleOptIn ? 'confirm' : 'subscribed' }
+  if (!isValidEmail(email)) return { ok: false, error: 'invalid' }
+  if (!provider) return { ok: false, error: 'network' }
+  return provider.subscribe({ email, source: req.source })
+}
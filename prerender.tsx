@@ -0,0 +1,203 @@
+/**
+ * prerender.tsx
+ * Renders every public route of the app to static HTML so crawlers, link unfurlers,
+ * and no-JS readers get real content instead of an empty shell.
+ * - Bundled and executed with esbuild after the site build (npm run prerender); uses dist/index.html
+ *   as the template (kept as dist/shell.html on first run).
+ * - Output is deterministic for a given BASE_DATE: the clock is pinned so every "today" in the
+ *   app (generators, footer year) resolves to the same day.
+ *
+ * Routes rendered:
+ * - /, /articles, /articles/archive, /topics, /topics/<topic>, /articles/<id> for a rolling window of
+ *   dates plus every live hand-authored article, /daily and /daily/<theme>, /about, /resources,
+ *   /questions, /mindfulness, /scripture/<book>/<chapter> for every chapter with bundled verse text
+ * - The rendered paths are listed in prerendered.json, which npm run sitemap builds from.
+ *
+ * Optional environment variables:
+ * - PRERENDER_DAYS: number of days of article pages, ending at the base date (default: 7)
+ * - BASE_DATE: YYYY-MM-DD to pin the build date (default: today in siteConfig.timeZone)
+ * - BASE_URL: absolute site origin for canonical links (default: siteConfig.baseUrl)
+ * - OUT_DIR: build directory holding index.html (default: 'dist')
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import { renderToString } from 'react-dom/server'
+import { StaticRouter } from 'react-router'
+import { AppProviders, AppRoutes } from '../src/App'
+import { listArticlesForDate, getArticleDetailById, topics, humanLabel } from '../src/lib/articleEngine'
+import { themes, humanizeTheme } from '../src/lib/contentEngine'
+import { chapterPath, formatReference, listBundledChapters } from '../src/lib/scripture'
+import { siteConfig } from '../src/config/site'
+import { listLiveAuthoredArticles } from '../src/lib/authoredArticles'
+import { PRERENDER_MANIFEST, isPathRouting, type PrerenderManifest } from '../src/lib/routing'
+import { HeadCollectorContext, renderHeadHtml, type HeadCollector, type PageHead } from '../src/lib/head'
+import {
+  calendarDateToSiteInstant,
+  parseCalendarDate,
+  previousDays,
+  siteToday,
+  type CalendarDate,
+} from '../src/lib/calendarDate'
+
+/** Read an env var with default. */
+function env(name: string, fallback?: string): string | undefined {
+  const v = process.env[name]
+  return v === undefined || v === '' ? fallback : v
+}
+
+/** Parse a YYYY-MM-DD base date, or today in the site time zone if missing/invalid. */
+function parseBaseDate(s?: string): CalendarDate {
+  return parseCalendarDate(s) ?? siteToday()
+}
+
+/**
+ * pinClock
+ * Replaces the global Date so `new Date()` and `Date.now()` return the base instant.
+ * Explicit constructions (new Date(ms), new Date('…')) behave normally.
+ */
+function pinClock(base: Date) {
+  const fixed = base.getTime()
+  const RealDate = Date
+  class PinnedDate extends RealDate {
+    constructor(...args: unknown[]) {
+      if (args.length === 0) super(fixed)
+      else super(...(args as [string]))
+    }
+    static now() {
+      return fixed
+    }
+  }
+  globalThis.Date = PinnedDate as DateConstructor
+}
+
+/**
+ * PrerenderRoute
+ * One page to render: the router location plus the page title (without the site name),
+ * used when the page does not declare its own head.
+ */
+interface PrerenderRoute {
+  path: string
+  title?: string
+}
+
+/** Builds the full list of routes to prerender, in a stable order. */
+function listRoutes(base: CalendarDate, days: number): PrerenderRoute[] {
+  const routes: PrerenderRoute[] = [
+    { path: '/' },
+    { path: '/articles', title: 'Articles' },
+    { path: '/articles/archive', title: 'Article Archive' },
+    { path: '/topics', title: 'Topics' },
+    { path: '/daily', title: 'Daily Reflection' },
+    { path: '/mindfulness', title: 'Mindfulness & Prayer' },
+    { path: '/questions', title: 'Big Questions' },
+    { path: '/about', title: 'About' },
+    { path: '/resources', title: 'Resources' },
+  ]
+
+  topics.forEach(t => routes.push({ path: `/topics/${t.key}`, title: humanLabel(t.key) }))
+  themes.forEach(th =>
+    routes.push({ path: `/daily/${th}`, title: `Daily Reflection • ${humanizeTheme(th)}` })
+  )
+  listBundledChapters().forEach(c => routes.push({ path: chapterPath(c), title: formatReference(c) }))
+
+  // Hand-authored pieces stay addressable after their day, so all of them are rendered
+  const articlePaths = new Set<string>()
+  listLiveAuthoredArticles().forEach(a => {
+    articlePaths.add(`/articles/${a.slug}`)
+    routes.push({ path: `/articles/${a.slug}`, title: a.title })
+  })
+  previousDays(base, days).forEach(d => {
+    listArticlesForDate(d, 2).forEach(card => {
+      const core = getArticleDetailById(card.id)
+      if (core && !articlePaths.has(card.path)) routes.push({ path: card.path, title: core.title })
+    })
+  })
+  return routes
+}
+
+/** Escape text for HTML content and attribute values. */
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+/** Makes relative asset references absolute so nested pages (/articles/x/) still load them. */
+function absolutizeAssets(html: string): string {
+  return html.replace(/\b(src|href)="(?!\/|[a-z]+:|#)([^"]+)"/gi, '$1="/$2"')
+}
+
+/**
+ * renderDocument
+ * Injects rendered markup, the page head collected during render (title, description, Open Graph,
+ * Twitter, JSON-LD), and the canonical link into the built index.html template.
+ * Pages that do not declare a head keep the route title.
+ */
+function renderDocument(
+  template: string,
+  markup: string,
+  route: PrerenderRoute,
+  pageHead: PageHead | null,
+  origin: string
+): string {
+  const canonical = route.path === '/' ? origin : `${origin}${route.path}`
+  const head =
+    renderHeadHtml(pageHead ?? { title: route.title }) +
+    `<link id="ll-canonical" rel="canonical" href="${escapeHtml(canonical)}" />` +
+    `<meta id="ll-og-url" property="og:url" content="${escapeHtml(canonical)}" />` +
+    `<meta id="ll-og-site-name" property="og:site_name" content="${escapeHtml(siteConfig.name)}" />`
+  return template
+    .replace(/<title>[\s\S]*?<\/title>/i, '')
+    .replace('</head>', `${head}</head>`)
+    .replace('<div id="app"></div>', `<div id="app">${markup}</div>`)
+}
+
+/** Output file for a route: "/" -> index.html, "/a/b" -> a/b/index.html. */
+function outputFileFor(outDir: string, path: string): string {
+  const clean = path.replace(/^\/+|\/+$/g, '')
+  return clean ? join(outDir, clean, 'index.html') : join(outDir, 'index.html')
+}
+
+/** Main entry: renders each route through the shared providers and route table. */
+function main() {
+  const outDir = env('OUT_DIR', 'dist') as string
+  const origin = (env('BASE_URL', siteConfig.baseUrl) as string).replace(/\/+$/, '')
+  const days = Math.max(1, parseInt(env('PRERENDER_DAYS', '7') as string, 10) || 7)
+  const base = parseBaseDate(env('BASE_DATE'))
+
+  pinClock(calendarDateToSiteInstant(base))
+
+  // Keep the untouched shell so re-running never reads an already prerendered index.html
+  const shellFile = join(outDir, 'shell.html')
+  if (!existsSync(shellFile)) writeFileSync(shellFile, readFileSync(join(outDir, 'index.html'), 'utf8'))
+  const template = absolutizeAssets(readFileSync(shellFile, 'utf8'))
+  const routes = listRoutes(base, days)
+
+  routes.forEach(route => {
+    // Pages record their head here during render (effects never run on the server)
+    const collector: HeadCollector = { head: null }
+    const markup = renderToString(
+      <HeadCollectorContext.Provider value={collector}>
+        <AppProviders>
+          <StaticRouter location={route.path}>
+            <AppRoutes />
+          </StaticRouter>
+        </AppProviders>
+      </HeadCollectorContext.Provider>
+    )
+    const file = outputFileFor(outDir, route.path)
+    mkdirSync(dirname(file), { recursive: true })
+    writeFileSync(file, renderDocument(template, markup, route, collector.head, origin))
+  })
+
+  // Path mode: unknown URLs fall back to the empty shell so the client router can take over
+  if (isPathRouting()) {
+    writeFileSync(join(outDir, '404.html'), template)
+  }
+
+  const manifest: PrerenderManifest = { baseDate: base, days, paths: routes.map(r => r.path) }
+  writeFileSync(join(outDir, PRERENDER_MANIFEST), JSON.stringify(manifest, null, 2) + '\n')
+
+  console.log(`Prerendered ${routes.length} routes to ${outDir}/ (base date ${base})`)
+}
+
+main()
@@ -0,0 +1,134 @@
+/**
+ * reflectionTranslations.ts
+ * Translated pools for the daily reflection generator (contentEngine), per locale.
+ * Every array is aligned by index with its English pool; leave an entry undefined (or omit the
+ * pool) to fall back to English. Placeholders THEME, SCRIPTURE, and QUOTE must be kept in body templates.
+ * Scripture references stay in English so reference chips and citation pages keep working.
+ */
+
+import type { Locale, PoolTranslation } from './i18n'
+import type { ReflectionTheme } from './contentEngine'
+
+/**
+ * ReflectionTranslation
+ * Optional translations for one locale.
+ */
+export interface ReflectionTranslation {
+  themeLabels?: Partial<Record<ReflectionTheme, string>>
+  titles?: Partial<Record<ReflectionTheme, PoolTranslation<string>>>
+  scripture?: PoolTranslation<{ text: string; ref: string }>
+  quotes?: PoolTranslation<{ text: string; author: string }>
+  bodyTemplates?: PoolTranslation<string>
+  prayers?: PoolTranslation<string>
+  questions?: PoolTranslation<string>
+  tags?: { daily?: string; reflection?: string }
+}
+
+/**
+ * reflectionTranslations
+ * English is the source (contentEngine) and has no entry here.
+ */
+export const reflectionTranslations: Partial<Record<Locale, ReflectionTranslation>> = {
+  es: {
+    themeLabels: {
+      mindfulness: 'la atención plena en Cristo',
+      hope: 'la esperanza cristiana',
+      gratitude: 'la gratitud ante Dios',
+      discernment: 'el discernimiento espiritual',
+      suffering: 'el sufrimiento con Cristo',
+      'faith-reason': 'la armonía entre fe y razón',
+    },
+    titles: {
+      mindfulness: ['Estad quietos y conoced', 'Atención en la presencia de Cristo', 'Aliento, cuerpo y Amado', 'Quietud centrada en Cristo'],
+      hope: ['Esperanza luminosa en el presente', 'Expectación anclada', 'Luz en el borde', 'La esperanza que no avergüenza'],
+      gratitude: ['Recibir el día', 'La gratitud como adoración', 'Contar los dones con Dios', 'Mirada eucarística'],
+      discernment: ['Escuchar el silbo apacible', 'Sabiduría para el camino', 'Examinar y retener lo bueno', 'Caminar en la luz'],
+      suffering: ['Sentido en la noche', 'Compañero en el dolor', 'Cruz y consuelo', 'Lamento y confianza'],
+      'faith-reason': ['Logos y luz', 'Mente renovada', 'La razón al servicio del amor', 'Armonía de fe y mente'],
+    },
+    // Reina-Valera 1909 (public domain)
+    scripture: [
+      { text: 'Estad quietos, y conoced que yo soy Dios.', ref: 'Psalm 46:10' },
+      { text: 'En quietud y en confianza será vuestra fortaleza.', ref: 'Isaiah 30:15' },
+      { text: 'Orad sin cesar.', ref: '1 Thessalonians 5:17' },
+      { text: 'En él estaba la vida, y la vida era la luz de los hombres.', ref: 'John 1:4' },
+      { text: 'Reformaos por la renovación de vuestro entendimiento.', ref: 'Romans 12:2' },
+      { text: 'Allegaos a Dios, y él se allegará a vosotros.', ref: 'James 4:8' },
+    ],
+    quotes: [
+      { text: 'Una vida sin examen no merece ser vivida.', author: 'Sócrates' },
+      { text: 'Nos hiciste, Señor, para ti, y nuestro corazón está inquieto hasta que descanse en ti.', author: 'Agustín' },
+      { text: 'La fe busca entender.', author: 'Anselmo' },
+      { text: 'Toda verdad es verdad de Dios.', author: 'Arthur Holmes' },
+      { text: 'Quien tiene a Dios y todo lo demás no tiene más que quien tiene solo a Dios.', author: 'C. S. Lewis' },
+      {
+        text: 'Lo que pensamos cuando somos libres de pensar lo que queramos: eso es lo que somos o pronto llegaremos a ser.',
+        author: 'A. W. Tozer',
+      },
+    ],
+    bodyTemplates: [
+      'La reflexión de hoy contempla THEME como una postura de atención amorosa ante Dios. En SCRIPTURE, se nos invita no a huir del mundo, sino a contemplar a Dios en él.',
+      'La atención plena en Cristo no es vaciarse en la nada, sino abrirse a la comunión. Como nos recuerda QUOTE, la vida examinada se ordena hacia la Verdad misma.',
+      'Practica un ritmo suave: inhala «Jesús», exhala «ten piedad». Deja que las distracciones sean señales para volver a la Presencia sin juzgarte.',
+      'Que tu razón sirva al amor. Pregúntate: ¿qué es verdadero aquí, qué es bueno hacer y qué es bello contemplar a la luz del Evangelio?',
+    ],
+    prayers: [
+      'Señor Jesús, aquieta mi corazón inquieto y afina mi atención a tu presencia. Enséñame a permanecer en el amor. Amén.',
+      'Padre, renueva mi mente y guía mis pasos. Que tu luz ilumine hoy mis pensamientos y mis acciones. Amén.',
+      'Espíritu Santo, infunde en mí una conciencia serena y constante de tu presencia, y enciende en mí la esperanza. Amén.',
+    ],
+    questions: [
+      '¿Dónde noté hoy la presencia de Dios?',
+      '¿Qué despertó mi ansiedad y cómo puedo llevarlo a la oración?',
+      '¿Qué pequeño acto de amor o de verdad puedo ofrecer a continuación?',
+      '¿Cómo puede mi respiración recordarme volver a Cristo?',
+    ],
+    tags: { daily: 'diario', reflection: 'reflexión' },
+  },
+
+  ko: {
+    themeLabels: {
+      mindfulness: '그리스도 안의 마음챙김',
+      hope: '그리스도인의 소망',
+      gratitude: '하나님 앞에서의 감사',
+      discernment: '영적 분별',
+      suffering: '그리스도와 함께하는 고난',
+      'faith-reason': '믿음과 이성의 조화',
+    },
+    titles: {
+      mindfulness: ['잠잠하여 알지어다', '그리스도의 임재 안에서의 주의', '호흡과 몸과 사랑하는 이', '그리스도 중심의 고요'],
+      hope: ['지금 여기의 밝은 소망', '닻 내린 기대', '가장자리의 빛', '부끄럽게 하지 않는 소망'],
+      gratitude: ['하루를 선물로 받기', '예배로서의 감사', '하나님과 함께 선물을 세다', '감사의 눈'],
+      discernment: ['세미한 소리를 듣다', '길을 위한 지혜', '분별하고 굳게 붙들기', '빛 가운데 걷기'],
+      suffering: ['밤 속의 의미', '슬픔 속의 동반자', '십자가와 위로', '탄식과 신뢰'],
+      'faith-reason': ['로고스와 빛', '새롭게 된 마음', '사랑을 섬기는 이성', '믿음과 지성의 조화'],
+    },
+    // No public-domain Korean translation is bundled yet; verses fall back to English
+    quotes: [
+      { text: '성찰하지 않는 삶은 살 가치가 없다.', author: '소크라테스' },
+      { text: '주께서 우리를 주님을 향하도록 지으셨으므로, 우리 마음은 주 안에서 쉬기까지 평안이 없습니다.', author: '아우구스티누스' },
+      { text: '믿음은 이해를 추구한다.', author: '안셀무스' },
+      { text: '모든 진리는 하나님의 진리다.', author: '아서 홈스' },
+      { text: '하나님과 다른 모든 것을 가진 사람은 하나님만 가진 사람보다 더 가진 것이 없다.', author: 'C. S. 루이스' },
+      { text: '마음대로 생각할 수 있을 때 무엇을 생각하는가, 그것이 지금의 우리이거나 곧 우리가 될 모습이다.', author: 'A. W. 토저' },
+    ],
+    bodyTemplates: [
+      '오늘의 묵상 주제는 THEME입니다. 이는 하나님 앞에서 사랑으로 주의를 기울이는 자세입니다. SCRIPTURE — 이 말씀은 세상을 떠나라는 것이 아니라 세상 안에서 하나님을 바라보라는 초대입니다.',
+      '그리스도 안의 마음챙김은 무(無)로 비워지는 것이 아니라 교제를 향해 열리는 것입니다. QUOTE — 이 말이 일깨우듯, 성찰하는 삶은 진리 자체이신 분을 향합니다.',
+      '부드러운 리듬을 연습하세요. 숨을 들이쉬며 “예수님”, 내쉬며 “불쌍히 여기소서.” 잡념은 판단 없이 임재로 돌아오라는 신호가 되게 하세요.',
+      '이성이 사랑을 섬기게 하세요. 복음의 빛 안에서 물어보세요. 여기서 무엇이 참되며, 무엇을 행하는 것이 선하며, 무엇이 바라보기에 아름다운가?',
+    ],
+    prayers: [
+      '주 예수님, 불안한 제 마음을 잠잠케 하시고 주의 임재에 제 주의를 맞추어 주소서. 사랑 안에 거하는 법을 가르쳐 주소서. 아멘.',
+      '아버지, 제 마음을 새롭게 하시고 제 걸음을 인도하소서. 오늘 주의 빛이 제 생각과 행동을 비추게 하소서. 아멘.',
+      '성령님, 주의 임재를 잔잔하고 꾸준히 깨닫게 하시고 제 안에 소망의 불을 붙여 주소서. 아멘.',
+    ],
+    questions: [
+      '오늘 어디에서 하나님의 임재를 느꼈나요?',
+      '무엇이 나를 불안하게 했고, 그것을 어떻게 기도로 가져갈 수 있을까요?',
+      '다음에 드릴 수 있는 작은 사랑이나 진실의 행동은 무엇인가요?',
+      '어떻게 내 호흡이 그리스도께 돌아가라는 신호가 되게 할 수 있을까요?',
+    ],
+    tags: { daily: '매일', reflection: '묵상' },
+  },
+}
@@ -13,6 +13,11 @@
  *   "articles": { "art-2025-08-11-1": "https://...", "art-2025-08-12-2": "https://..." },
  *   "topics": { "faith-and-reason": "https://..." }
  * }
+ *
+ * Self-hosting: `npm run mirror-images` (after the site build) downloads every mapped and default image into
+ * dist/images/ and writes dist/images/remote-images.json (local copies plus image sizes). The site loads that
+ * file from mirrorUrl next to `url`, so mirrored copies are served with no further setup; `url` stays the
+ * source the editor and the mirror script read.
  */
 
 export type RemoteSource = 'csv' | 'json'
@@ -29,6 +34,11 @@ export interface RemoteImagesConfig {
   url: string
   /** How often to refresh in minutes (default 15). */
   refreshMinutes?: number
+  /**
+   * Site path of the mapping written by npm run mirror-images. Its local copies and sizes apply to every
+   * image, and its topics/articles stand in when `url` cannot be loaded. A missing file is ignored.
+   */
+  mirrorUrl?: string
 }
 
 /**
@@ -40,6 +50,7 @@ export const remoteImagesConfig: RemoteImagesConfig = {
   source: 'json',
   url: 'https://raw.githubusercontent.com/Thomascjeon/logosandlight-pictures/refs/heads/main/remote-images%20(2).json',
   refreshMinutes: 15,
+  mirrorUrl: '/images/remote-images.json',
 }
 
 /** RemoteUpdateConfig
@@ -69,9 +80,73 @@ export const remoteUpdateConfig: RemoteUpdateConfig = {
   headers: undefined,
 }
 
-/** Admin edit key (required)
- * Both the Imagery and Content editors are protected by this key.
- * Open those pages as /#/imagery?key=YOUR_KEY or /#/content?key=YOUR_KEY.
- * Change the value below to your own secret string.
+/** RemoteContentConfig
+ * Controls runtime loading of published article text overrides (see ArticleContentOverride).
+ * JSON only, keyed by article ID:
+ * {
+ *   "articles": { "faith-and-reason-20250811-1": { "title": "…", "excerpt": "…", "body": ["…"] } }
+ * }
+ * A bare map (without the "articles" wrapper) is accepted as well.
+ */
+export interface RemoteContentConfig {
+  /** Enable remote loading. */
+  enabled: boolean
+  /** Public URL to the JSON file (with CORS enabled). */
+  url: string
+  /** How often to refresh in minutes (default 15). */
+  refreshMinutes?: number
+}
+
+/** Remote content overrides are disabled by default. */
+export const remoteContentConfig: RemoteContentConfig = {
+  enabled: false,
+  url: '',
+  refreshMinutes: 15,
+}
+
+/** Optional write-back for content overrides (same shape and caveats as remoteUpdateConfig).
+ * The editor sends JSON: { articles: Record<string, ArticleContentOverride> }.
+ */
+export const remoteContentUpdateConfig: RemoteUpdateConfig = {
+  enabled: false,
+  method: 'PUT',
+  url: '',
+  headers: undefined,
+}
+
+/**
+ * AdminCredential
+ * One account allowed into the editors. Only the salt and the PBKDF2 hash are shipped;
+ * generate them with `npm run hash-passphrase -- <user> <passphrase>`.
+ */
+export interface AdminCredential {
+  /** Display name shown in the editors once signed in. */
+  user: string
+  /** Base64 random salt. */
+  salt: string
+  /** Base64 PBKDF2-SHA256 hash of the passphrase with the salt. */
+  hash: string
+  /** PBKDF2 iteration count used to produce the hash. */
+  iterations: number
+}
+
+/** AdminAuthConfig
+ * Sign-in for the admin pages (/imagery, /content, /content/articles, /newsletter).
+ *
+ * Notes:
+ * - With no credentials configured, the editors stay locked and show setup instructions.
+ * - Sessions live in sessionStorage (this tab only) and expire after sessionMinutes.
+ * - Hashing only keeps the passphrase out of the bundle; choose a long passphrase, since the
+ *   hash can still be attacked offline.
  */
-export const adminEditKey = 'admin'
+export interface AdminAuthConfig {
+  credentials: AdminCredential[]
+  /** Session lifetime in minutes (default 120). */
+  sessionMinutes?: number
+}
+
+/** Default admin auth: no accounts configured (editors locked). */
+export const adminAuthConfig: AdminAuthConfig = {
+  credentials: [],
+  sessionMinutes: 120,
+}
@@ -0,0 +1,200 @@
+/**
+ * remoteContent.ts
+ * Runtime loader for published article content: overrides of generated articles
+ * (title, excerpt, body, quote, tags) and hand-authored articles.
+ * Mirrors remoteImages: a JSON file fetched from remoteContentConfig.url, periodic refresh,
+ * and optional write-back. Local edits (contentOverrides.ts, authoredArticles.ts) take precedence.
+ */
+
+import { remoteContentConfig, remoteContentUpdateConfig } from '../config/remote'
+import { getAuthHeaders } from './auth'
+import type { ArticleContentOverride, ContentOverridesMap } from './contentOverrides'
+import { topics, type TopicKey } from './articleEngine'
+import type { AuthoredArticle } from '../config/authored'
+
+/** Event name dispatched when remote content overrides change. */
+export const REMOTE_CONTENT_EVENT = 'll-remote-content-changed'
+
+/**
+ * RemoteContentPayload
+ * Shape of the remote file and of write-back requests.
+ */
+export interface RemoteContentPayload {
+  articles: ContentOverridesMap
+  authored: AuthoredArticle[]
+}
+
+/** Content populated from the remote source (read-only in-memory). */
+let remoteContentMap: ContentOverridesMap = {}
+let remoteAuthored: AuthoredArticle[] = []
+
+/** Returns the remote override for an article, if any. */
+export function getRemoteContentOverride(articleId: string): ArticleContentOverride | undefined {
+  return remoteContentMap[articleId]
+}
+
+/** Get a shallow copy of the remote map. */
+export function getRemoteContentMap(): ContentOverridesMap {
+  return { ...remoteContentMap }
+}
+
+/** Authored articles published remotely. */
+export function getRemoteAuthoredArticles(): AuthoredArticle[] {
+  return remoteAuthored.slice()
+}
+
+/** Replace the in-memory remote content and notify listeners (used after write-back). */
+export function setRemoteContent(next: RemoteContentPayload): void {
+  remoteContentMap = next.articles || {}
+  remoteAuthored = next.authored || []
+  notifyChange()
+}
+
+/**
+ * Saves overrides and authored articles to a writable endpoint if configured. Returns success flag.
+ * Sends the signed-in provider's bearer token (if any) alongside the configured headers.
+ */
+export async function saveRemoteContent(next: RemoteContentPayload): Promise<boolean> {
+  if (!remoteContentUpdateConfig.enabled || !remoteContentUpdateConfig.url) return false
+  try {
+    const res = await fetch(remoteContentUpdateConfig.url, {
+      method: remoteContentUpdateConfig.method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(remoteContentUpdateConfig.headers || {}),
+        ...(await getAuthHeaders()),
+      },
+      body: JSON.stringify({ articles: next.articles || {}, authored: next.authored || [] }),
+    })
+    if (!res.ok) return false
+    setRemoteContent(next)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** Emits a change event so consumers can re-render. */
+function notifyChange() {
+  try {
+    window.dispatchEvent(new CustomEvent(REMOTE_CONTENT_EVENT))
+  } catch {
+    // Silently ignore CustomEvent restrictions
+  }
+}
+
+/** Keeps only well-typed override fields; anything else in the file is ignored. */
+function sanitizeOverride(value: unknown): ArticleContentOverride | null {
+  if (!value || typeof value !== 'object') return null
+  const v = value as Record<string, unknown>
+  const out: ArticleContentOverride = {}
+  if (typeof v.title === 'string') out.title = v.title
+  if (typeof v.excerpt === 'string') out.excerpt = v.excerpt
+  if (Array.isArray(v.body)) out.body = v.body.filter((p): p is string => typeof p === 'string')
+  if (v.bodyFormat === 'markdown' || v.bodyFormat === 'plain') out.bodyFormat = v.bodyFormat
+  if (Array.isArray(v.tags)) out.tags = v.tags.filter((t): t is string => typeof t === 'string')
+  const q = v.quote as Record<string, unknown> | undefined
+  if (q && typeof q.text === 'string' && typeof q.author === 'string') out.quote = { text: q.text, author: q.author }
+  return Object.keys(out).length ? out : null
+}
+
+/** Keeps only authored articles with the required fields and a known topic. */
+function sanitizeAuthored(value: unknown): AuthoredArticle | null {
+  if (!value || typeof value !== 'object') return null
+  const v = value as Record<string, unknown>
+  const str = (x: unknown) => (typeof x === 'string' ? x : undefined)
+  const id = str(v.id)
+  const slug = str(v.slug)
+  const title = str(v.title)
+  const publishDate = str(v.publishDate)
+  const topic = str(v.topic) as TopicKey | undefined
+  if (!id || !slug || !title || !publishDate || !topic || !topics.some(t => t.key === topic)) return null
+  const rest = sanitizeOverride(v) ?? {}
+  return {
+    id,
+    slug,
+    topic,
+    publishDate,
+    status: v.status === 'published' ? 'published' : 'draft',
+    author: str(v.author),
+    title,
+    excerpt: rest.excerpt,
+    body: rest.body ?? [],
+    bodyFormat: rest.bodyFormat,
+    quote: rest.quote,
+    tags: rest.tags,
+    image: str(v.image),
+  }
+}
+
+/** Parses JSON text ({ articles: {...}, authored: [...] } or a bare overrides map). */
+function parseJSON(text: string): RemoteContentPayload {
+  try {
+    const obj = JSON.parse(text)
+    const wrapped = obj && (typeof obj.articles === 'object' || Array.isArray(obj.authored))
+    const source = wrapped ? obj.articles : obj
+    const articles: ContentOverridesMap = {}
+    if (source && typeof source === 'object') {
+      Object.entries(source as Record<string, unknown>).forEach(([id, value]) => {
+        const ov = sanitizeOverride(value)
+        if (ov) articles[id] = ov
+      })
+    }
+    const authored = wrapped && Array.isArray(obj.authored)
+      ? (obj.authored as unknown[]).map(sanitizeAuthored).filter((a): a is AuthoredArticle => !!a)
+      : []
+    return { articles, authored }
+  } catch {
+    return { articles: {}, authored: [] }
+  }
+}
+
+/** Fetches the remote file and updates the in-memory map. Local overrides remain intact. */
+async function fetchAndUpdate(): Promise<void> {
+  if (!remoteContentConfig.enabled || !remoteContentConfig.url) return
+
+  const url = remoteContentConfig.url
+  const sep = url.includes('?') ? '&' : '?'
+  const finalUrl = `${url}${sep}__t=${Date.now()}`
+
+  try {
+    const res = await fetch(finalUrl, { cache: 'no-store' })
+    if (!res.ok) throw new Error(`Remote content fetch failed: ${res.status}`)
+    const parsed = parseJSON(await res.text())
+    remoteContentMap = parsed.articles
+    remoteAuthored = parsed.authored
+    notifyChange()
+  } catch (e) {
+    // Network/CORS/parse errors are non-fatal; keep previous overrides.
+    console.warn('Remote content overrides load skipped:', e)
+  }
+}
+
+/** Initializes the remote loader with periodic refresh. */
+export function initRemoteContent(): void {
+  if (!remoteContentConfig.enabled || !remoteContentConfig.url) return
+
+  // Initial fetch
+  fetchAndUpdate()
+
+  // Periodic refresh
+  const minutes = Math.max(1, remoteContentConfig.refreshMinutes ?? 15)
+  const id = window.setInterval(fetchAndUpdate, minutes * 60_000)
+
+  // Refresh when tab becomes visible
+  const onVis = () => {
+    if (document.visibilityState === 'visible') void fetchAndUpdate()
+  }
+  document.addEventListener('visibilitychange', onVis)
+
+  // Clean up on hot reload navigations
+  window.addEventListener('beforeunload', () => {
+    window.clearInterval(id)
+    document.removeEventListener('visibilitychange', onVis)
+  })
+}
+
+/** Manually refresh remote content overrides now (used by the editor). */
+export function refreshRemoteContent(): Promise<void> {
+  return fetchAndUpdate()
+}
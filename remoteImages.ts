@@ -3,9 +3,13 @@
  * Runtime loader for public remote image mappings (articles and topics).
  * Adds localStorage persistence so edits made in the browser persist across refresh
  * for that browser on public as well. Locally persisted maps overlay remote maps.
+ * A JSON mapping written by scripts/mirror-images.ts also carries where each original URL was
+ * mirrored to and the intrinsic size of every mirrored file; it loads from remoteImagesConfig.mirrorUrl
+ * alongside the configured mapping.
  */
 
 import { remoteImagesConfig, remoteUpdateConfig } from '../config/remote'
+import { getAuthHeaders } from './auth'
 
 /** Event name dispatched when remote or local mappings change. */
 export const REMOTE_EVENT = 'll-remote-images-changed'
@@ -21,9 +25,27 @@ let remoteArticleMap: Record<string, string> = {}
 let localTopicMap: Record<string, string> = {}
 let localArticleMap: Record<string, string> = {}
 
+/** Mirror sections of the remote mapping (read-only in-memory). */
+let remoteMirrorMap: Record<string, string> = {}
+let remoteSizeMap: Record<string, ImageSize> = {}
+
 /** Utility type for both maps. */
 export type RemoteMaps = { topics: Record<string, string>; articles: Record<string, string> }
 
+/** Intrinsic pixel size of an image, used to reserve layout space before it loads. */
+export interface ImageSize {
+  width: number
+  height: number
+}
+
+/**
+ * RemoteMirror
+ * Optional sections of a mirrored JSON mapping, next to topics/articles:
+ * - mirror: original image URL -> local copy (covers code-level defaults that are not in the maps)
+ * - sizes: local copy -> intrinsic size
+ */
+export type RemoteMirror = { mirror: Record<string, string>; sizes: Record<string, ImageSize> }
+
 /** Returns the current remote topic image (local overlay takes precedence). */
 export function getRemoteTopicImage(topicKey: string): string | undefined {
   return localTopicMap[String(topicKey)] ?? remoteTopicMap[String(topicKey)]
@@ -34,6 +56,16 @@ export function getRemoteArticleImage(articleId: string): string | undefined {
   return localArticleMap[articleId] ?? remoteArticleMap[articleId]
 }
 
+/** Returns the mirrored copy of an image URL, or the URL itself when it was not mirrored. */
+export function getMirroredImage(src: string): string {
+  return remoteMirrorMap[src] ?? src
+}
+
+/** Returns the intrinsic size recorded for an image (mirrored copies only). */
+export function getRemoteImageSize(src: string): ImageSize | undefined {
+  return remoteSizeMap[src]
+}
+
 /** Get a shallow copy of remote-only maps. */
 export function getRemoteMaps(): RemoteMaps {
   return {
@@ -85,7 +117,10 @@ export function clearLocalMaps(): void {
   notifyChange()
 }
 
-/** Saves remote mappings to a writable endpoint if configured. Returns success flag. */
+/**
+ * Saves remote mappings to a writable endpoint if configured. Returns success flag.
+ * Sends the signed-in provider's bearer token (if any) alongside the configured headers.
+ */
 export async function saveRemoteMappings(next: RemoteMaps): Promise<boolean> {
   if (!remoteUpdateConfig.enabled || !remoteUpdateConfig.url) return false
   try {
@@ -94,6 +129,7 @@ export async function saveRemoteMappings(next: RemoteMaps): Promise<boolean> {
       headers: {
         'Content-Type': 'application/json',
         ...(remoteUpdateConfig.headers || {}),
+        ...(await getAuthHeaders()),
       },
       body: JSON.stringify({
         topics: next.topics || {},
@@ -124,7 +160,7 @@ function notifyChange() {
  * - Fields with commas must be quoted.
  * - Inside quoted fields, "" represents a literal ".
  */
-function parseCsvLine(line: string): string[] {
+export function parseCsvLine(line: string): string[] {
   const out: string[] = []
   let cur = ''
   let inQuotes = false
@@ -167,7 +203,7 @@ function parseCsvLine(line: string): string[] {
  * Expected header: type,key,url (case-insensitive).
  * Handles quoted URLs (e.g., data URLs with commas).
  */
-function parseCSV(text: string): { topics: Record<string, string>; articles: Record<string, string> } {
+export function parseCSV(text: string): { topics: Record<string, string>; articles: Record<string, string> } {
   const topics: Record<string, string> = {}
   const articles: Record<string, string> = {}
 
@@ -208,7 +244,7 @@ function parseCSV(text: string): { topics: Record<string, string>; articles: Rec
 }
 
 /** Parses JSON text into topic/article maps. */
-function parseJSON(text: string): { topics: Record<string, string>; articles: Record<string, string> } {
+export function parseJSON(text: string): { topics: Record<string, string>; articles: Record<string, string> } {
   try {
     const obj = JSON.parse(text)
     return {
@@ -220,27 +256,77 @@ function parseJSON(text: string): { topics: Record<string, string>; articles: Re
   }
 }
 
-/** Fetches remote mapping and updates in-memory remote maps. Local overlays remain intact. */
-async function fetchAndUpdate(): Promise<void> {
-  if (!remoteImagesConfig.enabled || !remoteImagesConfig.url) return
+/**
+ * parseMirrorJSON
+ * Reads the mirror and sizes sections of a mapping; missing sections and malformed entries are dropped.
+ */
+export function parseMirrorJSON(text: string): RemoteMirror {
+  const mirror: Record<string, string> = {}
+  const sizes: Record<string, ImageSize> = {}
+  try {
+    const obj = JSON.parse(text)
+    Object.entries((obj?.mirror ?? {}) as Record<string, unknown>).forEach(([from, to]) => {
+      if (typeof to === 'string' && to) mirror[from] = to
+    })
+    Object.entries((obj?.sizes ?? {}) as Record<string, unknown>).forEach(([src, size]) => {
+      const { width, height } = (size ?? {}) as Partial<ImageSize>
+      if (Number.isFinite(width) && Number.isFinite(height) && (width as number) > 0 && (height as number) > 0) {
+        sizes[src] = { width: width as number, height: height as number }
+      }
+    })
+  } catch {
+    // Not JSON: no mirror
+  }
+  return { mirror, sizes }
+}
+
+/** True when there is a mapping to load (the configured one or a mirrored copy). */
+function remoteLoadingEnabled(): boolean {
+  return remoteImagesConfig.enabled && !!(remoteImagesConfig.url || remoteImagesConfig.mirrorUrl)
+}
 
-  const url = remoteImagesConfig.url
-  const cacheBust = `__t=${Date.now()}`
+/** Fetches a mapping file without caches; rejects on HTTP errors. */
+async function fetchMapping(url: string): Promise<string> {
   const sep = url.includes('?') ? '&' : '?'
-  const finalUrl = `${url}${sep}${cacheBust}`
+  const res = await fetch(`${url}${sep}__t=${Date.now()}`, { cache: 'no-store' })
+  if (!res.ok) throw new Error(`Remote mapping fetch failed: ${res.status} (${url})`)
+  return res.text()
+}
 
-  try {
-    const res = await fetch(finalUrl, { cache: 'no-store' })
-    if (!res.ok) throw new Error(`Remote mapping fetch failed: ${res.status}`)
-    const text = await res.text()
+/**
+ * fetchAndUpdate
+ * Loads the configured mapping and the mirrored one side by side and updates the in-memory maps.
+ * The configured mapping decides topics/articles; when it cannot be loaded the mirrored copy stands in,
+ * so imagery survives the mapping host going away. Local overlays remain intact.
+ */
+async function fetchAndUpdate(): Promise<void> {
+  if (!remoteLoadingEnabled()) return
+  const { url, source, mirrorUrl } = remoteImagesConfig
 
-    const parsed =
-      remoteImagesConfig.source === 'json'
-        ? parseJSON(text)
-        : parseCSV(text)
+  const [configured, mirrored] = await Promise.allSettled([
+    url ? fetchMapping(url) : Promise.reject(new Error('No mapping URL configured')),
+    mirrorUrl ? fetchMapping(mirrorUrl) : Promise.reject(new Error('No mirror URL configured')),
+  ])
+  // A missing mirror only means npm run mirror-images has not run for this build
+  const mirrorText = mirrored.status === 'fulfilled' ? mirrored.value : ''
+
+  try {
+    if (configured.status === 'fulfilled') {
+      const parsed = source === 'json' ? parseJSON(configured.value) : parseCSV(configured.value)
+      remoteTopicMap = parsed.topics || {}
+      remoteArticleMap = parsed.articles || {}
+    } else if (mirrorText) {
+      const parsed = parseJSON(mirrorText)
+      remoteTopicMap = parsed.topics
+      remoteArticleMap = parsed.articles
+    } else {
+      throw configured.reason
+    }
 
-    remoteTopicMap = parsed.topics || {}
-    remoteArticleMap = parsed.articles || {}
+    const fromConfigured = source === 'json' && configured.status === 'fulfilled' ? parseMirrorJSON(configured.value) : null
+    const fromMirror = parseMirrorJSON(mirrorText)
+    remoteMirrorMap = { ...fromConfigured?.mirror, ...fromMirror.mirror }
+    remoteSizeMap = { ...fromConfigured?.sizes, ...fromMirror.sizes }
 
     notifyChange()
   } catch (e) {
@@ -286,7 +372,7 @@ export function initRemoteImages(): void {
   loadLocalPersist()
   notifyChange()
 
-  if (!remoteImagesConfig.enabled || !remoteImagesConfig.url) return
+  if (!remoteLoadingEnabled()) return
 
   // Initial fetch
   fetchAndUpdate()
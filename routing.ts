@@ -0,0 +1,58 @@
+/**
+ * routing.ts
+ * Helpers for the two routing modes: hash routes (/#/articles/…) and path routes (/articles/…).
+ * The mode comes from siteConfig.routing; everything that builds absolute links goes through here.
+ */
+
+import { siteConfig } from '../config/site'
+
+/**
+ * isPathRouting
+ * True when the site uses real (non-hash) URLs.
+ */
+export function isPathRouting(): boolean {
+  return siteConfig.routing === 'path'
+}
+
+/**
+ * buildRouteUrl
+ * Builds a link to an in-app route for the configured routing mode.
+ * With an empty origin the result is root-relative (e.g., "/#/daily" or "/daily").
+ */
+export function buildRouteUrl(origin: string, path: string): string {
+  const base = origin.replace(/\/+$/, '')
+  const clean = path.startsWith('/') ? path : `/${path}`
+  return isPathRouting() ? `${base}${clean}` : `${base}/#${clean}`
+}
+
+/** File the prerender script writes into the build directory, listing the pages it rendered. */
+export const PRERENDER_MANIFEST = 'prerendered.json'
+
+/**
+ * PrerenderManifest
+ * What a prerender run wrote: its base date, the days of articles it covered, and every route path.
+ * The sitemap lists only these paths, since hash routing has no fallback page for the rest.
+ */
+export interface PrerenderManifest {
+  baseDate: string
+  days: number
+  paths: string[]
+}
+
+/**
+ * normalizeInitialLocation
+ * In hash mode, a visitor may land on a prerendered real URL (e.g., /articles/x/).
+ * Move that path into the hash before the router starts so the SPA shows the same page.
+ */
+export function normalizeInitialLocation(): void {
+  if (typeof window === 'undefined' || isPathRouting()) return
+  const { pathname, search, hash } = window.location
+  if (hash && hash !== '#' && hash !== '#/') return
+  const path = pathname.replace(/\/index\.html$/, '/').replace(/\/+$/, '')
+  if (!path) return
+  try {
+    window.history.replaceState(null, '', `/#${path}${search}`)
+  } catch {
+    // ignore (e.g., sandboxed frames)
+  }
+}
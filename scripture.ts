@@ -0,0 +1,386 @@
+/**
+ * scripture.ts
+ * Scripture reference parsing and normalization.
+ * Recognizes book names and common abbreviations ("Ps 46:10", "1 Pet 3:15", "Rom. 12:1-2"),
+ * verse ranges (including across chapters), and multi-references ("John 1:1, 14; 3:16").
+ * Every reference normalizes to a canonical ID such as "psalms.46.10" or "john.1.1-5".
+ */
+
+import { kjvVerses } from './kjvVerses'
+
+/**
+ * BibleBook
+ * One book of the 66-book canon. `id` is the URL slug used by /scripture/:book/:chapter.
+ */
+export interface BibleBook {
+  id: string
+  name: string
+  chapters: number
+  testament: 'old' | 'new'
+}
+
+/**
+ * ScriptureRef
+ * A single verse, a verse range, or a whole chapter (no verse).
+ * Ranges may end in a later chapter (endChapter).
+ */
+export interface ScriptureRef {
+  book: string
+  chapter: number
+  verse?: number
+  endChapter?: number
+  endVerse?: number
+}
+
+/**
+ * ScriptureMatch
+ * A reference found in free text: [start, end) offsets, the raw text, and the parsed refs.
+ */
+export interface ScriptureMatch {
+  start: number
+  end: number
+  raw: string
+  refs: ScriptureRef[]
+}
+
+/**
+ * PassageVerse
+ * One verse of bundled text.
+ */
+export interface PassageVerse {
+  chapter: number
+  verse: number
+  text: string
+}
+
+/** Name of the bundled public-domain translation. */
+export const BUNDLED_TRANSLATION = 'King James Version'
+
+/**
+ * Book table: [id, display name, chapters, ...abbreviations].
+ * Abbreviations are written without spaces or periods; numbered books use a leading digit.
+ */
+const BOOK_TABLE: Array<[string, string, number, ...string[]]> = [
+  ['genesis', 'Genesis', 50, 'gen', 'ge', 'gn'],
+  ['exodus', 'Exodus', 40, 'exod', 'exo'],
+  ['leviticus', 'Leviticus', 27, 'lev', 'lv'],
+  ['numbers', 'Numbers', 36, 'num', 'nu', 'nm'],
+  ['deuteronomy', 'Deuteronomy', 34, 'deut', 'deu', 'dt'],
+  ['joshua', 'Joshua', 24, 'josh', 'jos'],
+  ['judges', 'Judges', 21, 'judg', 'jdg', 'jgs'],
+  ['ruth', 'Ruth', 4, 'rth'],
+  ['1-samuel', '1 Samuel', 31, '1sam', '1sa', '1sm'],
+  ['2-samuel', '2 Samuel', 24, '2sam', '2sa', '2sm'],
+  ['1-kings', '1 Kings', 22, '1kgs', '1ki', '1kg'],
+  ['2-kings', '2 Kings', 25, '2kgs', '2ki', '2kg'],
+  ['1-chronicles', '1 Chronicles', 29, '1chr', '1ch', '1chron'],
+  ['2-chronicles', '2 Chronicles', 36, '2chr', '2ch', '2chron'],
+  ['ezra', 'Ezra', 10, 'ezr'],
+  ['nehemiah', 'Nehemiah', 13, 'neh', 'ne'],
+  ['esther', 'Esther', 10, 'esth', 'est'],
+  ['job', 'Job', 42, 'jb'],
+  ['psalms', 'Psalms', 150, 'psalm', 'ps', 'psa', 'pss', 'psm'],
+  ['proverbs', 'Proverbs', 31, 'prov', 'pro', 'prv'],
+  ['ecclesiastes', 'Ecclesiastes', 12, 'eccl', 'eccles', 'ecc', 'qoh'],
+  ['song-of-songs', 'Song of Songs', 8, 'songofsolomon', 'song', 'sos', 'canticles', 'sg'],
+  ['isaiah', 'Isaiah', 66, 'isa'],
+  ['jeremiah', 'Jeremiah', 52, 'jer', 'je'],
+  ['lamentations', 'Lamentations', 5, 'lam'],
+  ['ezekiel', 'Ezekiel', 48, 'ezek', 'eze', 'ezk'],
+  ['daniel', 'Daniel', 12, 'dan', 'dn'],
+  ['hosea', 'Hosea', 14, 'hos'],
+  ['joel', 'Joel', 3, 'jl'],
+  ['amos', 'Amos', 9],
+  ['obadiah', 'Obadiah', 1, 'obad'],
+  ['jonah', 'Jonah', 4, 'jon', 'jnh'],
+  ['micah', 'Micah', 7, 'mic'],
+  ['nahum', 'Nahum', 3, 'nah'],
+  ['habakkuk', 'Habakkuk', 3, 'hab', 'hb'],
+  ['zephaniah', 'Zephaniah', 3, 'zeph', 'zep'],
+  ['haggai', 'Haggai', 2, 'hag', 'hg'],
+  ['zechariah', 'Zechariah', 14, 'zech', 'zec'],
+  ['malachi', 'Malachi', 4, 'mal'],
+  ['matthew', 'Matthew', 28, 'matt', 'mat', 'mt'],
+  ['mark', 'Mark', 16, 'mk', 'mrk', 'mr'],
+  ['luke', 'Luke', 24, 'lk', 'luk'],
+  ['john', 'John', 21, 'jn', 'jhn', 'joh'],
+  ['acts', 'Acts', 28, 'act'],
+  ['romans', 'Romans', 16, 'rom', 'ro', 'rm'],
+  ['1-corinthians', '1 Corinthians', 16, '1cor', '1co'],
+  ['2-corinthians', '2 Corinthians', 13, '2cor', '2co'],
+  ['galatians', 'Galatians', 6, 'gal', 'ga'],
+  ['ephesians', 'Ephesians', 6, 'eph', 'ephes'],
+  ['philippians', 'Philippians', 4, 'phil', 'php'],
+  ['colossians', 'Colossians', 4, 'col'],
+  ['1-thessalonians', '1 Thessalonians', 5, '1thess', '1thes', '1th'],
+  ['2-thessalonians', '2 Thessalonians', 3, '2thess', '2thes', '2th'],
+  ['1-timothy', '1 Timothy', 6, '1tim', '1ti'],
+  ['2-timothy', '2 Timothy', 4, '2tim', '2ti'],
+  ['titus', 'Titus', 3, 'tit'],
+  ['philemon', 'Philemon', 1, 'phlm', 'philem', 'phm'],
+  ['hebrews', 'Hebrews', 13, 'heb'],
+  ['james', 'James', 5, 'jas', 'jm'],
+  ['1-peter', '1 Peter', 5, '1pet', '1pe', '1pt'],
+  ['2-peter', '2 Peter', 3, '2pet', '2pe', '2pt'],
+  ['1-john', '1 John', 5, '1jn', '1jhn', '1jo'],
+  ['2-john', '2 John', 1, '2jn', '2jhn', '2jo'],
+  ['3-john', '3 John', 1, '3jn', '3jhn', '3jo'],
+  ['jude', 'Jude', 1, 'jud', 'jd'],
+  ['revelation', 'Revelation', 22, 'rev', 'apocalypse'],
+]
+
+/** Index of Matthew in BOOK_TABLE (first New Testament book). */
+const NEW_TESTAMENT_START = 39
+
+/**
+ * bibleBooks
+ * All books in canonical order.
+ */
+export const bibleBooks: BibleBook[] = BOOK_TABLE.map(([id, name, chapters], i) => ({
+  id,
+  name,
+  chapters,
+  testament: i < NEW_TESTAMENT_START ? 'old' : 'new',
+}))
+
+/** Lookup from normalized name/abbreviation to book ID. */
+const BOOK_LOOKUP: Map<string, string> = (() => {
+  const map = new Map<string, string>()
+  BOOK_TABLE.forEach(([id, name, , ...abbrevs]) => {
+    ;[id, name, ...abbrevs].forEach(alias => map.set(normalizeBookName(alias), id))
+  })
+  return map
+})()
+
+/**
+ * normalizeBookName
+ * Lowercase, no spaces/periods/hyphens, with "I"/"II"/"III"/"First"… prefixes turned into digits.
+ */
+function normalizeBookName(s: string): string {
+  return s
+    .toLowerCase()
+    .replace(/^(iii|third|3rd)\s*/, '3')
+    .replace(/^(ii|second|2nd)\s*/, '2')
+    .replace(/^(i|first|1st)\s+/, '1')
+    .replace(/[\s.\-]+/g, '')
+}
+
+/**
+ * findBook
+ * Resolves a book name or abbreviation (any case) to its book, if known.
+ */
+export function findBook(name: string): BibleBook | undefined {
+  const id = BOOK_LOOKUP.get(normalizeBookName(name.trim()))
+  return id ? getBook(id) : undefined
+}
+
+/** Returns a book by ID. */
+export function getBook(id: string): BibleBook | undefined {
+  return bibleBooks.find(b => b.id === id)
+}
+
+/** Highest verse number in the Bible (Psalm 119:176); used to reject implausible verses. */
+const MAX_VERSE = 176
+
+/**
+ * Candidate reference: optional number prefix, a book word (or "Song of …"), then chapter[:verse].
+ * Book words are checked against the lookup, so ordinary capitalized words are ignored.
+ */
+const CANDIDATE = /(?<![\w-])((?:[1-3]|I{1,3}|First|Second|Third)\s?)?([A-Za-z]+(?:\s+of\s+[A-Za-z]+)?)\.?\s?(\d{1,3})(?::(\d{1,3}))?/g
+
+/** Dash variants accepted in ranges. */
+const DASH = '[-–—]'
+
+/**
+ * parseTail
+ * Continues after "Book C:V" (or "Book C"): ranges, comma-separated verses, and
+ * semicolon-separated chapter:verse groups for the same book.
+ */
+function parseTail(text: string, pos: number, first: ScriptureRef): { refs: ScriptureRef[]; end: number } {
+  const refs: ScriptureRef[] = [first]
+  let end = pos
+  let current = first
+
+  const range = text.slice(end).match(new RegExp(`^\\s?${DASH}\\s?(\\d{1,3})(?::(\\d{1,3}))?`))
+  if (range) {
+    if (range[2] !== undefined && current.verse !== undefined) {
+      current.endChapter = +range[1]
+      current.endVerse = +range[2]
+    } else if (current.verse !== undefined) {
+      current.endVerse = +range[1]
+    } else {
+      current.endChapter = +range[1]
+    }
+    end += range[0].length
+  }
+
+  for (;;) {
+    const rest = text.slice(end)
+    // ", 14" or ", 14-16": more verses in the same chapter (not "C:V" and not followed by letters)
+    const verses = current.verse !== undefined
+      ? rest.match(new RegExp(`^,\\s?(\\d{1,3})(?:${DASH}(\\d{1,3}))?(?![\\d:]|\\s?[A-Za-z])`))
+      : null
+    if (verses) {
+      current = { book: first.book, chapter: current.endChapter ?? current.chapter, verse: +verses[1] }
+      if (verses[2] !== undefined) current.endVerse = +verses[2]
+      refs.push(current)
+      end += verses[0].length
+      continue
+    }
+    // "; 3:16" or "; 3:16-18": another chapter of the same book
+    const chapter = rest.match(new RegExp(`^;\\s?(\\d{1,3}):(\\d{1,3})(?:${DASH}(\\d{1,3}))?`))
+    if (chapter) {
+      current = { book: first.book, chapter: +chapter[1], verse: +chapter[2] }
+      if (chapter[3] !== undefined) current.endVerse = +chapter[3]
+      refs.push(current)
+      end += chapter[0].length
+      continue
+    }
+    break
+  }
+
+  return { refs: refs.filter(isValidRef), end }
+}
+
+/** Checks chapter and verse bounds against the book table. */
+function isValidRef(ref: ScriptureRef): boolean {
+  const book = getBook(ref.book)
+  if (!book) return false
+  const inBook = (c: number) => c >= 1 && c <= book.chapters
+  if (!inBook(ref.chapter)) return false
+  if (ref.endChapter !== undefined && (!inBook(ref.endChapter) || ref.endChapter < ref.chapter)) return false
+  if (ref.verse !== undefined && (ref.verse < 1 || ref.verse > MAX_VERSE)) return false
+  if (ref.endVerse !== undefined) {
+    if (ref.endVerse < 1 || ref.endVerse > MAX_VERSE) return false
+    if ((ref.endChapter ?? ref.chapter) === ref.chapter && ref.verse !== undefined && ref.endVerse < ref.verse) return false
+  }
+  return true
+}
+
+/**
+ * findReferences
+ * Finds scripture references in free text. By default a verse is required ("John 3:16"),
+ * so phrases like "Mark 2 points" are not mistaken for references.
+ */
+export function findReferences(text: string, opts: { allowChapterOnly?: boolean } = {}): ScriptureMatch[] {
+  const out: ScriptureMatch[] = []
+  CANDIDATE.lastIndex = 0
+  let m: RegExpExecArray | null
+  while ((m = CANDIDATE.exec(text))) {
+    const [whole, prefix = '', name, chapter, verse] = m
+    // In running text a verse is required and book names are capitalized ("Is 5:30" is not Isaiah)
+    const plausible = opts.allowChapterOnly || (verse !== undefined && /^[A-Z]/.test(name))
+    const book = plausible ? findBook(`${prefix}${name}`) : undefined
+    const first: ScriptureRef | null = book ? { book: book.id, chapter: +chapter } : null
+    if (first && verse !== undefined) first.verse = +verse
+    const parsed = first ? parseTail(text, m.index + whole.length, first) : null
+    if (!parsed || parsed.refs.length === 0) {
+      // Retry after the first token: "and 1 Pet 3:15", "2 John 3:16" (one chapter), "book of Romans 3:23"
+      CANDIDATE.lastIndex = m.index + (prefix ? prefix.length : name.split(/\s/)[0].length)
+      continue
+    }
+    const { refs, end } = parsed
+    out.push({ start: m.index, end, raw: text.slice(m.index, end), refs })
+    CANDIDATE.lastIndex = end
+  }
+  return out
+}
+
+/**
+ * parseReference
+ * Parses a reference string such as "Psalm 119:105", "Rom 12:1-2", "John 1:1, 14; 3:16",
+ * or "Genesis 1". Returns an empty array when nothing valid is found.
+ */
+export function parseReference(input: string): ScriptureRef[] {
+  return findReferences(input, { allowChapterOnly: true }).flatMap(m => m.refs)
+}
+
+/**
+ * referenceId
+ * Canonical ID: "book.chapter", "book.chapter.verse", "book.chapter.verse-endVerse",
+ * or "book.chapter.verse-endChapter.endVerse".
+ */
+export function referenceId(ref: ScriptureRef): string {
+  let id = `${ref.book}.${ref.chapter}`
+  if (ref.verse !== undefined) id += `.${ref.verse}`
+  if (ref.endChapter !== undefined && ref.endChapter !== ref.chapter) {
+    id += ref.verse !== undefined ? `-${ref.endChapter}.${ref.endVerse ?? 1}` : `-${ref.endChapter}`
+  } else if (ref.endVerse !== undefined && ref.endVerse !== ref.verse) {
+    id += `-${ref.endVerse}`
+  }
+  return id
+}
+
+/**
+ * formatReference
+ * Human-readable form using the full book name ("Psalm 46:10" for a single psalm).
+ */
+export function formatReference(ref: ScriptureRef): string {
+  const book = getBook(ref.book)
+  const singlePsalm = ref.book === 'psalms' && (ref.endChapter === undefined || ref.endChapter === ref.chapter)
+  const name = singlePsalm ? 'Psalm' : book?.name ?? ref.book
+  let s = `${name} ${ref.chapter}`
+  if (ref.verse !== undefined) s += `:${ref.verse}`
+  if (ref.endChapter !== undefined && ref.endChapter !== ref.chapter) {
+    s += ref.verse !== undefined ? `–${ref.endChapter}:${ref.endVerse ?? 1}` : `–${ref.endChapter}`
+  } else if (ref.endVerse !== undefined && ref.endVerse !== ref.verse) {
+    s += `–${ref.endVerse}`
+  }
+  return s
+}
+
+/**
+ * chapterPath
+ * In-app route of the chapter page for a reference (its first chapter).
+ */
+export function chapterPath(ref: Pick<ScriptureRef, 'book' | 'chapter'>): string {
+  return `/scripture/${ref.book}/${ref.chapter}`
+}
+
+/**
+ * refTouchesChapter
+ * True when the reference includes any part of the given chapter.
+ */
+export function refTouchesChapter(ref: ScriptureRef, book: string, chapter: number): boolean {
+  return ref.book === book && ref.chapter <= chapter && (ref.endChapter ?? ref.chapter) >= chapter
+}
+
+/**
+ * getPassageText
+ * Bundled verses covered by a reference (whole-chapter refs return every bundled verse of the chapter).
+ * Verses outside the bundled selection are simply absent.
+ */
+export function getPassageText(ref: ScriptureRef): PassageVerse[] {
+  const lastChapter = ref.endChapter ?? ref.chapter
+  const out: PassageVerse[] = []
+  for (let c = ref.chapter; c <= lastChapter; c++) {
+    const chapterVerses = kjvVerses[`${ref.book}.${c}`]
+    if (!chapterVerses) continue
+    Object.keys(chapterVerses)
+      .map(Number)
+      .sort((a, b) => a - b)
+      .forEach(v => {
+        if (ref.verse === undefined) return out.push({ chapter: c, verse: v, text: chapterVerses[v] })
+        const from = c === ref.chapter ? ref.verse : 1
+        const to = c === lastChapter ? ref.endVerse ?? (ref.endChapter === undefined ? ref.verse : MAX_VERSE) : MAX_VERSE
+        if (v >= from && v <= to) out.push({ chapter: c, verse: v, text: chapterVerses[v] })
+      })
+  }
+  return out
+}
+
+/**
+ * listBundledChapters
+ * Chapters with bundled text, in canonical order (used for prerendering and the sitemap).
+ */
+export function listBundledChapters(): Array<{ book: string; chapter: number }> {
+  return Object.keys(kjvVerses)
+    .map(key => {
+      const [book, chapter] = key.split('.')
+      return { book, chapter: +chapter }
+    })
+    .sort(
+      (a, b) =>
+        bibleBooks.findIndex(x => x.id === a.book) - bibleBooks.findIndex(x => x.id === b.book) || a.chapter - b.chapter
+    )
+}
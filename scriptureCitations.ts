@@ -0,0 +1,43 @@
+/**
+ * scriptureCitations.ts
+ * Finds the content that cites a scripture chapter, for the /scripture/:book/:chapter page.
+ * Scans the same documents as the site search (articles and reflections over the search window,
+ * with content overrides applied, and Big Questions answers).
+ */
+
+import { getSearchIndex, type SearchDoc } from './search'
+import { findReferences, refTouchesChapter, type ScriptureRef } from './scripture'
+
+/**
+ * ScriptureCitation
+ * One document citing the chapter, with the references it makes there.
+ */
+export interface ScriptureCitation {
+  doc: SearchDoc
+  refs: ScriptureRef[]
+}
+
+/** Kinds of documents whose citations are listed. */
+const CITING_KINDS: SearchDoc['kind'][] = ['article', 'reflection', 'question']
+
+/**
+ * listCitationsForChapter
+ * Documents citing any verse of the chapter: newest first, then articles before reflections and questions.
+ * `version` is the overrides version, as for getSearchIndex.
+ */
+export function listCitationsForChapter(book: string, chapter: number, version = 0): ScriptureCitation[] {
+  const out: ScriptureCitation[] = []
+  getSearchIndex(version)
+    .filter(doc => CITING_KINDS.includes(doc.kind))
+    .forEach(doc => {
+      const refs = findReferences(doc.text)
+        .flatMap(m => m.refs)
+        .filter(ref => refTouchesChapter(ref, book, chapter))
+      if (refs.length) out.push({ doc, refs })
+    })
+  return out.sort(
+    (a, b) =>
+      (b.doc.dateISO ?? '').localeCompare(a.doc.dateISO ?? '') ||
+      CITING_KINDS.indexOf(a.doc.kind) - CITING_KINDS.indexOf(b.doc.kind)
+  )
+}
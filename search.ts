@@ -0,0 +1,408 @@
+/**
+ * search.ts
+ * Client-side full-text search across generated articles, reflections, topics, questions, and resources.
+ * Builds an in-memory index on demand (content is deterministic) and ranks matches with highlighted snippets.
+ * Article text respects content overrides so edited titles and bodies are what readers find.
+ */
+
+import { listArticlesForDate, getArticleDetailById, humanLabel, topics, type TopicKey } from './articleEngine'
+import { generateReflection, humanizeTheme, reflectionPath, themes } from './contentEngine'
+import { getContentOverride } from './contentOverrides'
+import { getLocale } from './i18n'
+import { previousDays, siteToday, type CalendarDate } from './calendarDate'
+import { markdownToText } from './markdown'
+import { siteConfig } from '../config/site'
+import { contentFor } from '../config/topicContent'
+import { questions } from '../config/bigQuestions'
+import { allResources } from '../config/curatedResources'
+
+/**
+ * SearchKind
+ * The kinds of content the index covers; used for result filters.
+ */
+export type SearchKind = 'article' | 'reflection' | 'topic' | 'question' | 'resource'
+
+/**
+ * searchKinds
+ * Ordered list of kinds for filter controls.
+ */
+export const searchKinds: SearchKind[] = ['article', 'reflection', 'topic', 'question', 'resource']
+
+/**
+ * SearchDoc
+ * One indexed document. `path` is an in-app route or an external URL (resources).
+ */
+export interface SearchDoc {
+  id: string
+  kind: SearchKind
+  title: string
+  /** Plain text used for matching and snippets */
+  text: string
+  path: string
+  /** Topic for articles and topic pages; enables the topic filter */
+  topic?: TopicKey
+  /** YYYY-MM-DD for dated content (articles, reflections) */
+  dateISO?: string
+}
+
+/**
+ * Snippet
+ * A short excerpt of the matched text with [start, end) ranges to highlight.
+ */
+export interface Snippet {
+  text: string
+  highlights: Array<[number, number]>
+}
+
+/**
+ * SearchResult
+ * A ranked match with highlighted title and body snippet.
+ */
+export interface SearchResult {
+  doc: SearchDoc
+  score: number
+  title: Snippet
+  snippet: Snippet
+}
+
+/**
+ * SearchOptions
+ * Optional filters applied after matching.
+ */
+export interface SearchOptions {
+  kinds?: SearchKind[]
+  topic?: TopicKey
+  limit?: number
+}
+
+/** Length of body snippets around the first match. */
+const SNIPPET_LENGTH = 160
+
+/**
+ * kindLabel
+ * Display label for a search kind.
+ */
+export function kindLabel(kind: SearchKind): string {
+  switch (kind) {
+    case 'article':
+      return 'Articles'
+    case 'reflection':
+      return 'Reflections'
+    case 'topic':
+      return 'Topics'
+    case 'question':
+      return 'Questions'
+    case 'resource':
+      return 'Resources'
+  }
+}
+
+/**
+ * normalize
+ * Lowercases and folds typographic quotes; keeps string length so match offsets map back to the original.
+ */
+function normalize(s: string): string {
+  return s.toLowerCase().replace(/[‘’]/g, "'").replace(/[“”]/g, '"')
+}
+
+/**
+ * tokenize
+ * Splits a query into unique, non-trivial lowercase terms. Letters and digits of any script count,
+ * so accented words and Korean queries stay whole.
+ */
+export function tokenize(query: string): string[] {
+  const terms = normalize(query)
+    .split(/[^\p{L}\p{N}']+/u)
+    .map(t => t.replace(/^'+|'+$/g, ''))
+    .filter(t => t.length >= 2)
+  return Array.from(new Set(terms))
+}
+
+/**
+ * collectArticles
+ * Generated articles across the configured window, with content overrides applied.
+ */
+function collectArticles(base: CalendarDate): SearchDoc[] {
+  const docs: SearchDoc[] = []
+  previousDays(base, siteConfig.search.days).forEach(d => {
+    listArticlesForDate(d, siteConfig.search.perTopic).forEach(card => {
+      const core = getArticleDetailById(card.id)
+      if (!core) return
+      const ov = getContentOverride(core.id)
+      const title = ov?.title ?? core.title
+      const excerpt = ov?.excerpt ?? core.excerpt
+      const body = ov?.body && ov.body.length ? ov.body : core.body
+      const format = body === ov?.body ? ov.bodyFormat : core.bodyFormat
+      const tags = ov?.tags?.length ? ov.tags : core.tags
+      docs.push({
+        id: `article:${core.id}`,
+        kind: 'article',
+        title,
+        text: [excerpt, ...(format === 'markdown' ? body.map(markdownToText) : body), tags.join(', ')].join(' '),
+        path: card.path,
+        topic: core.topic,
+        dateISO: core.dateISO,
+      })
+    })
+  })
+  return docs
+}
+
+/**
+ * collectReflections
+ * Every theme's reflection for each day of the configured window.
+ */
+function collectReflections(base: CalendarDate): SearchDoc[] {
+  return previousDays(base, siteConfig.search.days).flatMap(d =>
+    themes.map(theme => {
+      const r = generateReflection(d, theme)
+      return {
+        id: `reflection:${r.dateISO}:${theme}`,
+        kind: 'reflection' as const,
+        title: r.title,
+        text: [
+          humanizeTheme(theme),
+          `${r.scripture.text} (${r.scripture.ref})`,
+          ...r.body,
+          ...r.questions,
+          r.prayer,
+        ].join(' '),
+        path: reflectionPath(r.dateISO, theme),
+        dateISO: r.dateISO,
+      }
+    })
+  )
+}
+
+/**
+ * collectTopics
+ * Topic pages with their description, themes, questions, and practices.
+ */
+function collectTopics(): SearchDoc[] {
+  return topics.map(t => {
+    const c = contentFor(t.key)
+    return {
+      id: `topic:${t.key}`,
+      kind: 'topic' as const,
+      title: humanLabel(t.key),
+      text: [c.description, ...c.themes, ...c.questions, ...c.practices].join(' '),
+      path: `/topics/${t.key}`,
+      topic: t.key,
+    }
+  })
+}
+
+/**
+ * collectQuestions
+ * Big Questions entries (question as title, answer as text).
+ */
+function collectQuestions(): SearchDoc[] {
+  return questions.map(q => ({
+    id: `question:${q.id}`,
+    kind: 'question' as const,
+    title: q.q,
+    text: q.a,
+    path: '/questions',
+  }))
+}
+
+/**
+ * collectResources
+ * Curated resources from the Resources page.
+ */
+function collectResources(): SearchDoc[] {
+  return allResources.map(r => ({
+    id: `resource:${r.id}`,
+    kind: 'resource' as const,
+    title: r.title,
+    text: [r.description, r.source ?? '', r.category].join(' '),
+    path: r.url,
+  }))
+}
+
+/**
+ * buildSearchIndex
+ * Builds the full document list for a base day (defaults to today in the site time zone).
+ */
+export function buildSearchIndex(base: CalendarDate = siteToday()): SearchDoc[] {
+  return [
+    ...collectArticles(base),
+    ...collectReflections(base),
+    ...collectTopics(),
+    ...collectQuestions(),
+    ...collectResources(),
+  ]
+}
+
+/**
+ * countOccurrences
+ * Counts (up to a cap) how often a term appears in normalized text.
+ */
+function countOccurrences(hay: string, term: string, cap = 5): number {
+  let n = 0
+  let i = hay.indexOf(term)
+  while (i >= 0 && n < cap) {
+    n++
+    i = hay.indexOf(term, i + term.length)
+  }
+  return n
+}
+
+/**
+ * isWordStart
+ * True when the match at `index` begins a word.
+ */
+function isWordStart(hay: string, index: number): boolean {
+  return index === 0 || !/[\p{L}\p{N}]/u.test(hay[index - 1])
+}
+
+/**
+ * scoreDoc
+ * Scores a document against the terms; returns 0 unless every term matches somewhere.
+ * Title hits weigh more than body hits; word-start and whole-phrase matches get a bonus.
+ */
+function scoreDoc(doc: SearchDoc, terms: string[], phrase: string): number {
+  const title = normalize(doc.title)
+  const text = normalize(doc.text)
+  let score = 0
+
+  for (const term of terms) {
+    const ti = title.indexOf(term)
+    const bodyHits = countOccurrences(text, term)
+    if (ti < 0 && bodyHits === 0) return 0
+    if (ti >= 0) score += isWordStart(title, ti) ? 8 : 5
+    if (bodyHits > 0) {
+      const bi = text.indexOf(term)
+      score += (isWordStart(text, bi) ? 2 : 1) + bodyHits * 0.5
+    }
+  }
+
+  if (terms.length > 1) {
+    if (title.includes(phrase)) score += 10
+    else if (text.includes(phrase)) score += 4
+  }
+  return score
+}
+
+/**
+ * highlightRanges
+ * Finds all (non-overlapping) occurrences of the terms in text.
+ */
+function highlightRanges(text: string, terms: string[]): Array<[number, number]> {
+  const hay = normalize(text)
+  const ranges: Array<[number, number]> = []
+  terms.forEach(term => {
+    let i = hay.indexOf(term)
+    while (i >= 0) {
+      ranges.push([i, i + term.length])
+      i = hay.indexOf(term, i + term.length)
+    }
+  })
+  ranges.sort((a, b) => a[0] - b[0])
+
+  // Merge overlaps so rendering can walk the ranges in order
+  const merged: Array<[number, number]> = []
+  ranges.forEach(r => {
+    const last = merged[merged.length - 1]
+    if (last && r[0] <= last[1]) last[1] = Math.max(last[1], r[1])
+    else merged.push([r[0], r[1]])
+  })
+  return merged
+}
+
+/**
+ * makeSnippet
+ * Cuts a window around the first match and re-bases highlight ranges onto the window.
+ */
+function makeSnippet(text: string, terms: string[]): Snippet {
+  const all = highlightRanges(text, terms)
+  const first = all.length ? all[0][0] : 0
+  let start = Math.max(0, first - Math.floor(SNIPPET_LENGTH / 3))
+  // Prefer starting on a word boundary
+  if (start > 0) {
+    const space = text.indexOf(' ', start)
+    if (space >= 0 && space < first) start = space + 1
+  }
+  const end = Math.min(text.length, start + SNIPPET_LENGTH)
+
+  const prefix = start > 0 ? '… ' : ''
+  const suffix = end < text.length ? ' …' : ''
+  const body = text.slice(start, end)
+  const highlights = all
+    .filter(([s, e]) => s >= start && e <= end)
+    .map(([s, e]) => [s - start + prefix.length, e - start + prefix.length] as [number, number])
+
+  return { text: `${prefix}${body}${suffix}`, highlights }
+}
+
+/**
+ * searchDocs
+ * Ranks documents against the query and applies kind/topic filters.
+ * Ties are broken by recency for dated content, then by title.
+ */
+export function searchDocs(docs: SearchDoc[], query: string, options: SearchOptions = {}): SearchResult[] {
+  const terms = tokenize(query)
+  if (terms.length === 0) return []
+  const phrase = terms.join(' ')
+
+  const results: SearchResult[] = []
+  docs.forEach(doc => {
+    if (options.kinds && options.kinds.length && !options.kinds.includes(doc.kind)) return
+    if (options.topic && doc.topic !== options.topic) return
+    const score = scoreDoc(doc, terms, phrase)
+    if (score <= 0) return
+    results.push({
+      doc,
+      score,
+      title: { text: doc.title, highlights: highlightRanges(doc.title, terms) },
+      snippet: makeSnippet(doc.text, terms),
+    })
+  })
+
+  results.sort(
+    (a, b) =>
+      b.score - a.score ||
+      (b.doc.dateISO ?? '').localeCompare(a.doc.dateISO ?? '') ||
+      a.doc.title.localeCompare(b.doc.title)
+  )
+  return options.limit ? results.slice(0, options.limit) : results
+}
+
+/** Cached index for the current day; rebuilt when the day, locale, or overrides change. */
+let cached: { key: string; docs: SearchDoc[] } | null = null
+
+/**
+ * getSearchIndex
+ * Returns the index for today, reusing the cached copy while `version` (overrides) is unchanged.
+ */
+export function getSearchIndex(version = 0): SearchDoc[] {
+  const today = siteToday()
+  const key = `${today}|${getLocale()}|${version}`
+  if (!cached || cached.key !== key) {
+    cached = { key, docs: buildSearchIndex(today) }
+  }
+  return cached.docs
+}
+
+/**
+ * isExternalPath
+ * True for resource links that leave the app.
+ */
+export function isExternalPath(path: string): boolean {
+  return /^https?:\/\//i.test(path)
+}
+
+/** Custom event name that asks the Cmd-K palette to open (e.g., from the navbar button). */
+export const SEARCH_OPEN_EVENT = 'll-search-open'
+
+/**
+ * openSearchPalette
+ * Requests the global search palette to open.
+ */
+export function openSearchPalette(): void {
+  try {
+    window.dispatchEvent(new CustomEvent(SEARCH_OPEN_EVENT))
+  } catch {
+    // ignore
+  }
+}
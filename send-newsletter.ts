@@ -0,0 +1,479 @@
+/**
+ * send-newsletter.ts
+ * Renders the Daily or Weekly issue and sends it through a configurable provider, at most once per issue.
+ * - Bundled and executed with esbuild (npm run send-newsletter; add -- --dry-run to preview).
+ * - Renders through buildNewsletterIssue, the same function the in-app Newsletter Builder previews.
+ * - An idempotency ledger keyed by MODE + BASE_DATE records every send, so a re-run workflow skips
+ *   issues that already went out. Persist LEDGER_FILE between runs (commit it or use a CI cache).
+ *
+ * Providers (PROVIDER):
+ * - 'buttondown' (default): Buttondown API; needs BUTTONDOWN_API_KEY
+ * - 'smtp': any SMTP relay (e.g., a list address); needs SMTP_HOST and MAIL_TO
+ * - 'mbox': appends the message to MBOX_FILE, for testing with a local mail client
+ * - 'file': writes <MODE>-<BASE_DATE>.eml into OUT_DIR, for testing
+ *
+ * Flags:
+ * - --dry-run: write the rendered .html/.txt to OUT_DIR, diff them against the previous issue there,
+ *   and report what would happen without sending or touching the ledger (DRY_RUN=1 does the same)
+ * - --force: send even if the ledger says the issue already went out or a previous attempt is unresolved
+ *
+ * Optional environment variables:
+ * - MODE: 'daily' | 'weekly' (default: 'daily')
+ * - BASE_DATE: YYYY-MM-DD to override the base date (default: today in siteConfig.timeZone)
+ * - BASE_URL: absolute site origin for article links, e.g., https://yourdomain.com
+ * - LEDGER_FILE: idempotency ledger path (default: newsletter-ledger.json)
+ * - OUT_DIR: dry-run and 'file' output directory (default: newsletter-out)
+ * - MBOX_FILE: 'mbox' target (default: <OUT_DIR>/outbox.mbox)
+ * - MAIL_FROM: sender for smtp/mbox/file (default: siteConfig name and contactEmail)
+ * - MAIL_TO: comma-separated recipients for smtp/mbox/file
+ * - SMTP_HOST, SMTP_PORT (default: 587, or 465 when SMTP_SECURE=1), SMTP_SECURE ('1': TLS from the start),
+ *   SMTP_USER, SMTP_PASS: relay settings; plain connections are upgraded with STARTTLS before logging in
+ * - RETRIES: extra attempts after a temporary failure (5xx, 429, network) (default: 3)
+ * - RETRY_BASE_MS: first backoff delay, doubled each attempt (default: 2000)
+ *
+ * Exit codes:
+ * - 0: sent, already sent (skipped), or dry run
+ * - 1: unexpected error
+ * - 2: configuration error (unknown MODE/PROVIDER, missing credentials)
+ * - 3: the provider rejected the issue (permanent failure; fix and re-run)
+ * - 4: the provider stayed unavailable after all retries (safe to re-run later)
+ * - 5: delivery of this issue is uncertain (an attempt was cut off); check the provider, then re-run with --force
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, appendFileSync, writeFileSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import { connect as netConnect, type Socket } from 'node:net'
+import { connect as tlsConnect } from 'node:tls'
+import { createHash } from 'node:crypto'
+import { buildNewsletterIssue, type DigestMode, type NewsletterIssue } from '../src/lib/newsletterDigest'
+import { buildEml } from '../src/lib/eml'
+import { calendarDateToSiteInstant, parseCalendarDate, siteToday, type CalendarDate } from '../src/lib/calendarDate'
+import {
+  entryAfterFailure,
+  httpFailure,
+  ledgerAction,
+  ledgerKey,
+  lineDiff,
+  networkFailure,
+  parseLedger,
+  sendWithRetry,
+  setLedgerEntry,
+  smtpFailure,
+  type Ledger,
+  type LedgerEntry,
+  type SendResult,
+} from '../src/lib/newsletterSend'
+import { siteConfig } from '../src/config/site'
+
+/** Exit codes CI can branch on (see header). */
+const EXIT = { ok: 0, error: 1, config: 2, rejected: 3, unavailable: 4, unresolved: 5 } as const
+
+/** Read an env var with default. */
+function env(name: string, fallback?: string): string | undefined {
+  const v = process.env[name]
+  return v === undefined || v === '' ? fallback : v
+}
+
+/** Parse a YYYY-MM-DD base date, or today in the site time zone if missing/invalid. */
+function parseBaseDate(s?: string): CalendarDate {
+  return parseCalendarDate(s) ?? siteToday()
+}
+
+/** Prints a configuration problem and exits with the config code. */
+function configError(message: string): never {
+  console.error(`ERROR: ${message}`)
+  process.exit(EXIT.config)
+}
+
+/* --------------------------------- Ledger -------------------------------- */
+
+/** Reads the ledger; a missing file is an empty ledger, a corrupt one is an error (never guess). */
+function readLedger(path: string): Ledger {
+  return existsSync(path) ? parseLedger(readFileSync(path, 'utf8'), `Ledger ${path}`) : {}
+}
+
+/** Sets (or with null, removes) one entry in the ledger file. */
+function writeLedgerEntry(path: string, key: string, entry: LedgerEntry | null) {
+  const ledger = setLedgerEntry(readLedger(path), key, entry)
+  mkdirSync(dirname(path) || '.', { recursive: true })
+  writeFileSync(path, JSON.stringify(ledger, null, 2) + '\n', 'utf8')
+}
+
+/* ------------------------------- Providers ------------------------------- */
+
+/**
+ * SendProvider
+ * One delivery adapter. `send` must not throw for provider errors; it reports them as results.
+ */
+interface SendProvider {
+  name: string
+  send(issue: NewsletterIssue, eml: string): Promise<SendResult>
+}
+
+/** The site's host name, for EHLO and Message-IDs. */
+function siteHost(): string {
+  return new URL(siteConfig.baseUrl || 'http://localhost').hostname
+}
+
+/** Extracts the bare address from 'Name <addr>'. */
+function bareAddress(value: string): string {
+  const m = value.match(/<([^>]+)>/)
+  return (m ? m[1] : value).trim()
+}
+
+/** Buttondown API: one POST creates and sends the email. */
+function buttondownProvider(apiKey: string): SendProvider {
+  return {
+    name: 'buttondown',
+    async send({ subject, html, text }) {
+      try {
+        const res = await fetch('https://api.buttondown.email/v1/emails', {
+          method: 'POST',
+          headers: { Authorization: `Token ${apiKey}`, 'Content-Type': 'application/json' },
+          body: JSON.stringify({ subject, body: html, body_text: text }),
+          signal: AbortSignal.timeout(30_000),
+        })
+        if (!res.ok) {
+          const detail = await res.text().catch(() => '')
+          return httpFailure(res.status, `Buttondown API ${res.status} ${res.statusText}${detail ? `\n${detail}` : ''}`)
+        }
+        const out = await res.json().catch(() => ({}))
+        return { ok: true, id: out?.id }
+      } catch (err) {
+        // The POST may have reached Buttondown before the connection failed
+        return networkFailure(err, true)
+      }
+    },
+  }
+}
+
+/**
+ * SmtpSettings
+ * Relay connection and envelope.
+ */
+interface SmtpSettings {
+  host: string
+  port: number
+  secure: boolean
+  user?: string
+  pass?: string
+  from: string
+  to: string[]
+}
+
+/** A complete (possibly multi-line) SMTP reply. */
+interface SmtpReply {
+  code: number
+  text: string
+}
+
+/**
+ * readReply
+ * Resolves with the next complete reply. Attach before writing the command it answers.
+ */
+function readReply(socket: Socket): Promise<SmtpReply> {
+  return new Promise((resolve, reject) => {
+    let buffer = ''
+    const onData = (chunk: Buffer) => {
+      buffer += chunk.toString('utf8')
+      const last = buffer.split('\r\n').slice(0, -1).find(line => /^\d{3}(?: |$)/.test(line))
+      if (last) {
+        cleanup()
+        resolve({ code: parseInt(last.slice(0, 3), 10), text: buffer.trim() })
+      }
+    }
+    const onError = (err: Error) => {
+      cleanup()
+      reject(err)
+    }
+    const onClose = () => {
+      cleanup()
+      reject(new Error('SMTP connection closed unexpectedly'))
+    }
+    function cleanup() {
+      socket.off('data', onData)
+      socket.off('error', onError)
+      socket.off('close', onClose)
+    }
+    socket.on('data', onData)
+    socket.on('error', onError)
+    socket.on('close', onClose)
+  })
+}
+
+/**
+ * command
+ * Sends one command and returns its reply, or throws an SmtpFailure when the reply class is unexpected.
+ * `label` replaces the command in errors (credentials, message bodies).
+ */
+async function command(socket: Socket, line: string, expect: number, label = line): Promise<SmtpReply> {
+  const pending = readReply(socket)
+  socket.write(`${line}\r\n`)
+  const reply = await pending
+  if (Math.floor(reply.code / 100) !== Math.floor(expect / 100)) throw new SmtpFailure(`${label} → ${reply.text}`, reply.code)
+  return reply
+}
+
+/**
+ * SmtpFailure
+ * An unexpected SMTP reply; 4xx is temporary, 5xx permanent.
+ */
+class SmtpFailure extends Error {
+  constructor(
+    message: string,
+    public code: number
+  ) {
+    super(message)
+  }
+}
+
+/** Opens a socket (TLS from the start when secure) and waits until it is connected. */
+function openSocket(host: string, port: number, secure: boolean): Promise<Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = secure ? tlsConnect({ host, port, servername: host }) : netConnect({ host, port })
+    socket.setTimeout(30_000, () => socket.destroy(new Error(`SMTP timeout talking to ${host}:${port}`)))
+    socket.once(secure ? 'secureConnect' : 'connect', () => resolve(socket))
+    socket.once('error', reject)
+  })
+}
+
+/** Upgrades a plain connection after STARTTLS. */
+function upgradeSocket(socket: Socket, host: string): Promise<Socket> {
+  return new Promise((resolve, reject) => {
+    const secure = tlsConnect({ socket, servername: host })
+    secure.setTimeout(30_000, () => secure.destroy(new Error(`SMTP timeout talking to ${host}`)))
+    secure.once('secureConnect', () => resolve(secure))
+    secure.once('error', reject)
+  })
+}
+
+/** Dot-stuffs a CRLF message for DATA and adds the terminating line. */
+function dataBlock(eml: string): string {
+  const body = eml.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..')
+  return `${body.endsWith('\r\n') ? body : `${body}\r\n`}.`
+}
+
+/** Generic SMTP relay: EHLO, STARTTLS when offered, AUTH PLAIN when a user is set, one message to all recipients. */
+function smtpProvider(settings: SmtpSettings): SendProvider {
+  return {
+    name: 'smtp',
+    async send(_issue, eml) {
+      let socket: Socket | null = null
+      let dataSent = false
+      try {
+        socket = await openSocket(settings.host, settings.port, settings.secure)
+        const greeting = await readReply(socket)
+        if (greeting.code !== 220) throw new SmtpFailure(`greeting → ${greeting.text}`, greeting.code)
+
+        const helo = `EHLO ${siteHost()}`
+        let ehlo = await command(socket, helo, 250)
+        let secure = settings.secure
+        if (!secure && /STARTTLS/i.test(ehlo.text)) {
+          await command(socket, 'STARTTLS', 220)
+          socket = await upgradeSocket(socket, settings.host)
+          secure = true
+          ehlo = await command(socket, helo, 250)
+        }
+        if (settings.user) {
+          if (!secure) return { ok: false, retryable: false, message: 'SMTP server offers no TLS; refusing to send credentials in clear text.' }
+          const token = Buffer.from(`\0${settings.user}\0${settings.pass ?? ''}`, 'utf8').toString('base64')
+          await command(socket, `AUTH PLAIN ${token}`, 235, 'AUTH PLAIN …')
+        }
+
+        await command(socket, `MAIL FROM:<${bareAddress(settings.from)}>`, 250)
+        for (const rcpt of settings.to) await command(socket, `RCPT TO:<${bareAddress(rcpt)}>`, 250)
+        await command(socket, 'DATA', 354)
+        dataSent = true
+        const accepted = await command(socket, dataBlock(eml), 250, 'message body')
+        await command(socket, 'QUIT', 221).catch(() => undefined)
+        return { ok: true, id: accepted.text.replace(/^\d{3}[ -]/, '') }
+      } catch (err) {
+        if (err instanceof SmtpFailure) return smtpFailure(err.code, `SMTP ${err.message}`)
+        return networkFailure(err, dataSent)
+      } finally {
+        socket?.destroy()
+      }
+    },
+  }
+}
+
+/** The asctime() date mbox separator lines use (e.g., Sun Oct 18 12:00:00 2026). */
+function asctime(d: Date): string {
+  const [weekday, day, month, year, time] = d.toUTCString().replace(',', '').split(' ')
+  return `${weekday} ${month} ${day.padStart(2, ' ')} ${time} ${year}`
+}
+
+/** Appends the message to an mbox file (mboxrd quoting), readable by most desktop mail clients. */
+function mboxProvider(path: string): SendProvider {
+  return {
+    name: 'mbox',
+    async send(_issue, eml) {
+      const body = eml.replace(/\r\n/g, '\n').replace(/^(>*From )/gm, '>$1')
+      mkdirSync(dirname(path) || '.', { recursive: true })
+      appendFileSync(path, `From newsletter@localhost ${asctime(new Date())}\n${body}\n`, 'utf8')
+      return { ok: true, id: path }
+    },
+  }
+}
+
+/** Writes one .eml file per issue. */
+function fileProvider(dir: string): SendProvider {
+  return {
+    name: 'file',
+    async send(issue, eml) {
+      const path = join(dir, `${issue.mode}-${issue.date}.eml`)
+      mkdirSync(dir, { recursive: true })
+      writeFileSync(path, eml, 'utf8')
+      return { ok: true, id: path }
+    },
+  }
+}
+
+/** Builds the configured provider or exits with a configuration error. */
+function createProvider(name: string, from: string, to: string[], outDir: string): SendProvider {
+  switch (name) {
+    case 'buttondown': {
+      const apiKey = env('BUTTONDOWN_API_KEY')
+      if (!apiKey) configError('BUTTONDOWN_API_KEY is not set.')
+      return buttondownProvider(apiKey)
+    }
+    case 'smtp': {
+      const host = env('SMTP_HOST')
+      if (!host) configError('SMTP_HOST is not set.')
+      if (!to.length) configError('MAIL_TO is not set (comma-separated recipients).')
+      const secure = env('SMTP_SECURE') === '1'
+      const port = parseInt(env('SMTP_PORT', secure ? '465' : '587') as string, 10)
+      if (!Number.isFinite(port)) configError('SMTP_PORT is not a number.')
+      return smtpProvider({ host, port, secure, user: env('SMTP_USER'), pass: env('SMTP_PASS'), from, to })
+    }
+    case 'mbox':
+      return mboxProvider(env('MBOX_FILE', join(outDir, 'outbox.mbox')) as string)
+    case 'file':
+      return fileProvider(outDir)
+    default:
+      return configError(`Unknown PROVIDER '${name}' (expected buttondown, smtp, mbox, or file).`)
+  }
+}
+
+/* -------------------------------- Dry run -------------------------------- */
+
+/**
+ * previousIssueBase
+ * The most recent earlier render of this mode in `dir` (the same issue rendered before counts),
+ * as a path without extension.
+ */
+function previousIssueBase(dir: string, mode: DigestMode, date: CalendarDate): string | null {
+  if (!existsSync(dir)) return null
+  const dates = readdirSync(dir)
+    .map(f => f.match(new RegExp(`^${mode}-(\\d{4}-\\d{2}-\\d{2})\\.txt$`))?.[1])
+    .filter((d): d is string => !!d && d <= date)
+    .sort()
+  const latest = dates[dates.length - 1]
+  return latest ? join(dir, `${mode}-${latest}`) : null
+}
+
+/** Writes the rendered issue and prints its diff against the previous one. */
+function dryRun(issue: NewsletterIssue, eml: string, outDir: string) {
+  const base = join(outDir, `${issue.mode}-${issue.date}`)
+  const previous = previousIssueBase(outDir, issue.mode, issue.date)
+  const before = previous ? { text: readFileSync(`${previous}.txt`, 'utf8'), html: existsSync(`${previous}.html`) ? readFileSync(`${previous}.html`, 'utf8') : '' } : null
+
+  mkdirSync(outDir, { recursive: true })
+  writeFileSync(`${base}.txt`, issue.text, 'utf8')
+  writeFileSync(`${base}.html`, issue.html, 'utf8')
+  writeFileSync(`${base}.eml`, eml, 'utf8')
+  console.log(`Wrote ${base}.txt, .html, and .eml`)
+
+  if (!before) {
+    console.log(`No previous ${issue.mode} issue in ${outDir} to compare with.`)
+    return
+  }
+  const label = previous === base ? 'the last render of this issue' : previous
+  const text = lineDiff(before.text, issue.text)
+  const html = lineDiff(before.html, issue.html)
+  if (!text.lines.length && !html.lines.length) {
+    console.log(`Identical to ${label}.`)
+    return
+  }
+  console.log(`Changes since ${label}: text +${text.added} −${text.removed}, HTML +${html.added} −${html.removed} lines`)
+  text.lines.forEach(l => console.log(`  ${l}`))
+}
+
+/* ---------------------------------- Main --------------------------------- */
+
+/** Main entry: render, check the ledger, then dry-run or send with retries. */
+async function main() {
+  const args = new Set(process.argv.slice(2))
+  const dry = args.has('--dry-run') || env('DRY_RUN') === '1'
+  const force = args.has('--force')
+
+  const mode = env('MODE', 'daily') as DigestMode
+  if (mode !== 'daily' && mode !== 'weekly') configError(`Unknown MODE '${mode}' (expected daily or weekly).`)
+  const baseDate = parseBaseDate(env('BASE_DATE'))
+  const baseUrl = env('BASE_URL', '') // empty is OK; links fallback to hash routes
+  const outDir = env('OUT_DIR', 'newsletter-out') as string
+  const ledgerPath = env('LEDGER_FILE', 'newsletter-ledger.json') as string
+  const from = env('MAIL_FROM', `${siteConfig.name} <${siteConfig.contactEmail}>`) as string
+  const to = (env('MAIL_TO', '') as string).split(',').map(s => s.trim()).filter(Boolean)
+  const retries = Math.max(0, parseInt(env('RETRIES', '3') as string, 10) || 0)
+  const baseMs = Math.max(0, parseInt(env('RETRY_BASE_MS', '2000') as string, 10) || 0)
+
+  const issue = buildNewsletterIssue(mode, baseDate, baseUrl)
+  const eml = buildEml({
+    from,
+    to: to.join(', ') || undefined,
+    subject: issue.subject,
+    date: calendarDateToSiteInstant(baseDate),
+    text: issue.text,
+    html: issue.html,
+    // Stable per issue, so a receiving list server can drop an accidental duplicate
+    messageId: `${mode}-${baseDate}@${siteHost()}`,
+  })
+  const key = ledgerKey(mode, baseDate)
+  const sha256 = createHash('sha256').update(issue.html).digest('hex')
+  const prior = readLedger(ledgerPath)[key]
+  console.log(`Issue ${key}: ${issue.subject}`)
+
+  if (dry) {
+    dryRun(issue, eml, outDir)
+    if (prior) console.log(`Ledger: ${prior.status} via ${prior.provider} at ${prior.at}${prior.sha256 === sha256 ? '' : ' (content has changed since)'}; a real run would ${force ? 'send again (--force)' : 'skip'}.`)
+    else console.log(`Ledger: not sent yet; a real run would send via ${env('PROVIDER', 'buttondown')}.`)
+    return
+  }
+
+  const action = ledgerAction(prior, force)
+  if (prior && action === 'skip') {
+    console.log(`Already sent via ${prior.provider} at ${prior.at}${prior.id ? ` (${prior.id})` : ''}; skipping. Use --force to send again.`)
+    return
+  }
+  if (prior && action === 'unresolved') {
+    console.error(`A previous attempt via ${prior.provider} started at ${prior.at} never finished. Check whether it was delivered, then re-run with --force.`)
+    process.exit(EXIT.unresolved)
+  }
+
+  const provider = createProvider(env('PROVIDER', 'buttondown') as string, from, to, outDir)
+  const entry = { provider: provider.name, subject: issue.subject, sha256 }
+  const pending: LedgerEntry = { status: 'sending', ...entry, at: new Date().toISOString() }
+  writeLedgerEntry(ledgerPath, key, pending)
+
+  const result = await sendWithRetry(() => provider.send(issue, eml), retries, baseMs)
+  if (!result.ok) {
+    console.error(`Send failed via ${provider.name}: ${result.message}`)
+    // Uncertain: keep the pending mark, since a blind re-run could send twice. Otherwise nothing was
+    // accepted, so restore what the ledger said before (an earlier 'sent' survives a failed --force)
+    writeLedgerEntry(ledgerPath, key, entryAfterFailure(prior, pending, result))
+    if (result.uncertain) {
+      console.error('The provider may have accepted the issue before the failure. Check it, then re-run with --force if needed.')
+      process.exit(EXIT.unresolved)
+    }
+    process.exit(result.retryable ? EXIT.unavailable : EXIT.rejected)
+  }
+
+  writeLedgerEntry(ledgerPath, key, { status: 'sent', ...entry, at: new Date().toISOString(), id: result.id })
+  console.log(`[${new Date().toISOString()}] Sent ${mode} newsletter via ${provider.name}: ${result.id || '(no id)'}`)
+}
+
+main().catch(err => {
+  console.error('Unexpected error:', err)
+  process.exit(EXIT.error)
+})
@@ -16,17 +16,64 @@ export interface SiteConfig {
   contactEmail: string
   /** The canonical base URL of the site (used for SEO tags and canonical links) */
   baseUrl: string
+  /**
+   * Routing mode: 'hash' keeps routes after "#/" (works on any static host);
+   * 'path' uses real URLs and needs the prerendered pages (or a 404 fallback) on the host.
+   */
+  routing: 'hash' | 'path'
+  /**
+   * IANA time zone that defines the site's calendar day (e.g., 'America/New_York').
+   * "Today" for generated articles, reflections, digests, and feeds rolls over at midnight here.
+   */
+  timeZone: string
+  /** Article generator configuration */
+  articles: ArticleGeneratorConfig
   /** Newsletter integration configuration */
   newsletter: NewsletterConfig
+  /** Client-side search configuration */
+  search: SearchConfig
+}
+
+/**
+ * ArticleGeneratorConfig
+ * How generated articles choose their title, excerpt, quote, and body from the content pools.
+ */
+export interface ArticleGeneratorConfig {
+  /**
+   * 'hashed' picks each part independently per article, so titles can repeat on the same day;
+   * 'scheduled' walks a fixed seeded order through each pool, so articles of a topic on one day never
+   * share a title or body and a title only returns after the rest of its pool has been used.
+   */
+  mode: 'hashed' | 'scheduled'
+  /**
+   * Articles per topic per day the schedule reserves; at least the most any page lists (the topic page
+   * shows 4). Higher indexes use hashed picks, so their titles can repeat the day's scheduled ones.
+   */
+  slotsPerDay: number
+  /** First day (YYYY-MM-DD) generated in 'scheduled' mode; earlier days keep their hashed picks so existing permalinks do not change */
+  scheduledFrom?: string
 }
 
 /**
  * NewsletterConfig
- * Configuration for subscriber collection and (later) sending automation.
+ * Configuration for the subscribe forms (Home, Daily, footer) and sending automation.
  */
 export interface NewsletterConfig {
-  /** Newsletter provider; 'buttondown' uses safe embed without API keys on client */
-  provider: 'buttondown' | 'none'
+  /**
+   * Subscription provider; 'none' hides every subscribe form.
+   * - 'buttondown': Buttondown's public embed endpoint (no API key on the client)
+   * - 'mailchimp': a Mailchimp-style hosted form action
+   * - 'webhook': your own endpoint receiving JSON { email, source, tag }
+   * - 'mock': the local mock server (npm run newsletter-mock) for development and tests
+   */
+  provider: 'buttondown' | 'mailchimp' | 'webhook' | 'mock' | 'none'
+  /** The provider emails a confirmation link before the address is added (shapes the success message) */
+  doubleOptIn: boolean
+  /**
+   * Unsubscribe link in the email footer. Use the sending provider's merge tag so each recipient gets
+   * their own link (Buttondown: {{ unsubscribe_url }}; for an SMTP list, the list's unsubscribe address).
+   */
+  unsubscribeUrl: string
   /** Provider-specific settings */
   buttondown?: {
     /** Your Buttondown username; required to enable the live subscribe form */
@@ -34,6 +81,37 @@ export interface NewsletterConfig {
     /** Optional: tag new subscribers with a label in Buttondown */
     tag?: string
   }
+  mailchimp?: {
+    /** Form action from the embed code, e.g. https://xxx.us1.list-manage.com/subscribe/post?u=…&id=… */
+    action: string
+    /** Name of the email field (default: 'EMAIL') */
+    emailField?: string
+    /** Extra hidden fields to send with every signup (e.g., a group or tag) */
+    fields?: Record<string, string>
+  }
+  webhook?: {
+    /** Endpoint that accepts POST JSON and allows CORS from the site */
+    url: string
+    /** Optional static headers; avoid secrets, they ship to every visitor */
+    headers?: Record<string, string>
+    /** Optional tag passed through to the endpoint */
+    tag?: string
+  }
+  mock?: {
+    /** Mock server endpoint (default: http://localhost:8787/subscribe) */
+    url: string
+  }
+}
+
+/**
+ * SearchConfig
+ * Controls how much generated content the client-side search indexes.
+ */
+export interface SearchConfig {
+  /** Number of days (ending today) of generated articles and reflections to index */
+  days: number
+  /** Articles generated per topic per day (matches the Articles page) */
+  perTopic: number
 }
 
 /**
@@ -47,8 +125,21 @@ export const siteConfig: SiteConfig = {
   tagline: 'Faith, reason, and daily wisdom',
   contactEmail: 'logosandlight7@gmail.com', // Site contact address used across the UI
   baseUrl: 'https://www.logos-and-light.com',
+  routing: 'hash',
+  timeZone: 'America/New_York',
+  articles: {
+    mode: 'scheduled',
+    slotsPerDay: 4,
+    scheduledFrom: '2026-10-19',
+  },
   newsletter: {
     provider: 'none',
+    doubleOptIn: true,
+    unsubscribeUrl: '{{ unsubscribe_url }}',
+  },
+  search: {
+    days: 14,
+    perTopic: 2,
   },
 }
 
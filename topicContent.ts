@@ -0,0 +1,87 @@
+/**
+ * topicContent.ts
+ * Curated description, themes, guiding questions, and practices for each topic page,
+ * also indexed by the site search.
+ */
+
+import type { TopicKey } from '../lib/articleEngine'
+
+/**
+ * TopicContent
+ * Text sections of a topic page.
+ */
+export interface TopicContent {
+  description: string
+  themes: string[]
+  questions: string[]
+  practices: string[]
+}
+
+/** One-paragraph description per topic. */
+const desc: Record<TopicKey, string> = {
+  'faith-and-reason':
+    'How faith and inquiry illuminate each other. We think with the Church, trusting that truth is unified in Christ.',
+  ethics:
+    'From virtue to beatitude: the shape of a life formed by grace. We learn to desire and do the good in love.',
+  metaphysics:
+    'Questions of being, causality, and participation. Creation as gift invites wonder and wise first principles.',
+  theology:
+    'Speaking rightly of God with reverence and clarity. The Cross and Trinity shape Christian understanding.',
+  scripture:
+    'Hearing the living Word with the Church. Reading becomes communion that reforms our minds and hearts.',
+  aesthetics:
+    'Beauty as a path to God. Form and radiance awaken the soul to the True and the Good.',
+  history:
+    'Receiving wisdom from the saints. The Spirit renews the Church in every age through faithful witnesses.',
+  apologetics:
+    'Giving reasons for hope with gentleness and confidence in Christ. Truth is compelling without coercion.',
+}
+
+/** Key themes per topic. */
+const themes: Record<TopicKey, string[]> = {
+  'faith-and-reason': ['Logos and love', 'Unity of truth', 'Humility of inquiry'],
+  ethics: ['Virtue & habit', 'Conscience formed in grace', 'Beatitudes'],
+  metaphysics: ['Being & participation', 'Contingency & Creator', 'Final causality'],
+  theology: ['Trinity & unity', 'Incarnation & Cross', 'Grace & nature'],
+  scripture: ['Lectio divina', 'Canon & tradition', 'Word and worship'],
+  aesthetics: ['Form & radiance', 'Icon and image', 'Beauty and desire'],
+  history: ['Fathers & Doctors', 'Councils & renewal', 'Witness & martyrdom'],
+  apologetics: ['Hope with gentleness', 'Truth in public square', 'Reason & charity'],
+}
+
+/** Guiding questions per topic. */
+const questions: Record<TopicKey, string[]> = {
+  'faith-and-reason': ['How does inquiry deepen trust?', 'Where do reason and revelation meet?'],
+  ethics: ['What forms character?', 'How do the Beatitudes shape choices?'],
+  metaphysics: ['Why is there something rather than nothing?', 'How does creation participate in being?'],
+  theology: ['What does it mean to speak of God well?', 'How does the Cross interpret everything?'],
+  scripture: ['How do I hear Scripture as living Word?', 'What is the role of the Church in reading?'],
+  aesthetics: ['Why does beauty move us toward truth?', 'How does art become prayer?'],
+  history: ['Which witnesses speak to our moment?', 'What renewals repeat across ages?'],
+  apologetics: ['How do I answer with gentleness?', 'Where is confidence rooted—in Christ or victory?'],
+}
+
+/** Simple practices per topic. */
+const practices: Record<TopicKey, string[]> = {
+  'faith-and-reason': ['Journal one honest question and pray with it', 'Read a short paragraph from a Doctor of the Church'],
+  ethics: ['Name one virtue to practice today', 'Reconcile intention with a small concrete act'],
+  metaphysics: ['Spend five minutes in wonder outdoors', 'Trace a cause to its first principles'],
+  theology: ['Pray the Creed slowly', 'Read one paragraph from a classic catechism'],
+  scripture: ['Practice lectio divina (read, meditate, pray, contemplate)', 'Memorize a short verse'],
+  aesthetics: ['Sit with a sacred image for two minutes', 'Create something simple and offer it to God'],
+  history: ['Read a saint’s short biography', 'Name one practice from the past to recover'],
+  apologetics: ['Write a gentle answer to a common question', 'Pray for someone who disagrees with you'],
+}
+
+/**
+ * contentFor
+ * Curated descriptions, themes, questions, and practices per topic.
+ */
+export function contentFor(topic: TopicKey): TopicContent {
+  return {
+    description: desc[topic],
+    themes: themes[topic],
+    questions: questions[topic],
+    practices: practices[topic],
+  }
+}
@@ -0,0 +1,378 @@
+/**
+ * uiMessages.ts
+ * Interface strings for the reader-facing pages, grouped by area and keyed for i18next.
+ * English is complete; other locales may leave keys out and fall back to English.
+ * Admin and editor screens are English-only and are not listed here.
+ */
+
+import type { Locale } from './i18n'
+
+/** English messages (source of truth for keys). */
+const en = {
+  common: {
+    home: 'Home',
+    articles: 'Articles',
+    back: 'Back',
+    today: 'Today',
+    yesterday: 'Yesterday',
+    title: 'Title',
+    scripture: 'Scripture',
+    companionQuote: 'Companion Quote',
+    reflection: 'Reflection',
+    prayer: 'Prayer',
+    dailyReflection: 'Daily Reflection',
+  },
+  nav: {
+    search: 'Search',
+    library: 'Your library',
+    toggleTheme: 'Toggle theme',
+    openMenu: 'Open menu',
+  },
+  language: {
+    label: 'Language',
+  },
+  footer: {
+    tagline: 'Where philosophy meets Christian thought.',
+    explore: 'Explore',
+    topics: 'Topics',
+    about: 'About',
+    rss: 'RSS feed',
+    connect: 'Connect',
+    external: 'External',
+    rights: '© {{year}} {{name}}. All rights reserved.',
+  },
+  home: {
+    heroLead: 'Where ',
+    heroPhilosophy: 'philosophy',
+    heroMiddle: ' meets ',
+    heroChristian: 'Christian thought',
+    heroEnd: '',
+    intro:
+      'Logos & Light is a contemplative space for essays, reflections, and resources at the intersection of classical philosophy and the Christian tradition.',
+    readArticles: 'Read Articles',
+    exploreTopics: 'Explore Topics',
+    resources: 'Resources',
+    todaysReflection: 'Today’s Daily Reflection',
+    featured: 'Featured readings',
+    viewAll: 'View all',
+    practice: 'Practice & Reflection',
+    mindfulnessTitle: 'Mindfulness & Christian Prayer',
+    mindfulnessText: 'Attention as communion with Christ—practices and guidance.',
+    topicsHeading: 'Explore topics',
+  },
+  articles: {
+    intro: 'Fresh readings across our core topics—new each day.',
+    archive: 'Archive',
+  },
+  article: {
+    notFoundTitle: 'Article not found',
+    notFound: 'Not found',
+    notFoundText: 'The article you’re looking for was not found.',
+    backToArticles: 'Back to Articles',
+    draft: 'Draft preview — not visible to readers',
+    scheduled: 'Scheduled for {{date}}',
+    byline: 'By {{author}} • {{date}}',
+  },
+  daily: {
+    intro: 'A contemplative, Christ-centered practice generated fresh each day. Choose a theme and begin.',
+    previousDay: 'Previous day',
+    nextDay: 'Next day',
+    allThemes: 'All themes',
+    copy: 'Copy',
+    copied: 'Copied',
+    nextTheme: 'Next theme',
+    guide: 'Mindfulness & Prayer Guide',
+    headTitle: 'Daily Reflection • {{title}}',
+    headTitleAll: 'Daily Reflections • {{date}}',
+    headDescriptionAll: 'Every theme of the daily reflection for {{date}}.',
+    readFull: 'Read the full reflection',
+    share: {
+      theme: 'Theme',
+      scripture: 'Scripture',
+      quote: 'Quote',
+      questions: 'Questions',
+      prayer: 'Prayer',
+    },
+  },
+  journal: {
+    questions: 'Questions for Reflection',
+    placeholder: 'Your response (private, saved on this device)',
+    prayed: 'I prayed this prayer',
+    streak_one: '{{count}}-day streak',
+    streak_other: '{{count}}-day streak',
+    open: 'Open journal',
+  },
+  bookmark: {
+    add: 'Bookmark',
+    remove: 'Remove bookmark',
+    save: 'Save',
+    saved: 'Saved',
+  },
+  newsletter: {
+    title: 'Get the daily reflection by email',
+    description: 'A short reflection and a few readings each morning. Unsubscribe anytime.',
+    compactTitle: 'Newsletter',
+    emailLabel: 'Email address',
+    placeholder: 'you@example.com',
+    subscribe: 'Subscribe',
+    subscribing: 'Subscribing…',
+    optInNote: 'We’ll email you a link to confirm your subscription.',
+    confirmTitle: 'Almost there — check your inbox',
+    confirmText: 'We sent a confirmation link to {{email}}. Open it to start receiving the newsletter.',
+    subscribedTitle: 'You’re subscribed',
+    subscribedText: 'The next issue will arrive at {{email}}.',
+    failed: 'Subscription failed',
+    invalid: 'Please enter a valid email address.',
+    rejected: 'The newsletter service could not add this address.',
+    network: 'The newsletter service could not be reached. Please try again.',
+  },
+}
+
+/** Message shape; every locale follows the English keys. */
+export type UiMessages = typeof en
+
+/** Recursively optional message tree for partial translations. */
+type PartialMessages<T> = { [K in keyof T]?: T[K] extends string ? string : PartialMessages<T[K]> }
+
+/**
+ * uiMessages
+ * Messages per locale; missing keys fall back to English through i18next.
+ */
+export const uiMessages: { en: UiMessages } & Record<Exclude<Locale, 'en'>, PartialMessages<UiMessages>> = {
+  en,
+  es: {
+    common: {
+      home: 'Inicio',
+      articles: 'Artículos',
+      back: 'Volver',
+      today: 'Hoy',
+      yesterday: 'Ayer',
+      title: 'Título',
+      scripture: 'Escritura',
+      companionQuote: 'Cita de acompañamiento',
+      reflection: 'Reflexión',
+      prayer: 'Oración',
+      dailyReflection: 'Reflexión diaria',
+    },
+    nav: {
+      search: 'Buscar',
+      library: 'Tu biblioteca',
+      toggleTheme: 'Cambiar tema',
+      openMenu: 'Abrir menú',
+    },
+    language: {
+      label: 'Idioma',
+    },
+    footer: {
+      tagline: 'Donde la filosofía se encuentra con el pensamiento cristiano.',
+      explore: 'Explorar',
+      topics: 'Temas',
+      about: 'Acerca de',
+      rss: 'Feed RSS',
+      connect: 'Contacto',
+      external: 'Externo',
+      rights: '© {{year}} {{name}}. Todos los derechos reservados.',
+    },
+    home: {
+      heroLead: 'Donde la ',
+      heroPhilosophy: 'filosofía',
+      heroMiddle: ' se encuentra con el ',
+      heroChristian: 'pensamiento cristiano',
+      intro:
+        'Logos & Light es un espacio contemplativo de ensayos, reflexiones y recursos en la intersección de la filosofía clásica y la tradición cristiana.',
+      readArticles: 'Leer artículos',
+      exploreTopics: 'Explorar temas',
+      resources: 'Recursos',
+      todaysReflection: 'La reflexión diaria de hoy',
+      featured: 'Lecturas destacadas',
+      viewAll: 'Ver todo',
+      practice: 'Práctica y reflexión',
+      mindfulnessTitle: 'Atención plena y oración cristiana',
+      mindfulnessText: 'La atención como comunión con Cristo: prácticas y orientación.',
+      topicsHeading: 'Explorar temas',
+    },
+    articles: {
+      intro: 'Lecturas nuevas cada día sobre nuestros temas principales.',
+      archive: 'Archivo',
+    },
+    article: {
+      notFoundTitle: 'Artículo no encontrado',
+      notFound: 'No encontrado',
+      notFoundText: 'No se encontró el artículo que buscas.',
+      backToArticles: 'Volver a artículos',
+      draft: 'Vista previa del borrador: no visible para los lectores',
+      scheduled: 'Programado para el {{date}}',
+      byline: 'Por {{author}} • {{date}}',
+    },
+    daily: {
+      intro: 'Una práctica contemplativa centrada en Cristo, nueva cada día. Elige un tema y comienza.',
+      previousDay: 'Día anterior',
+      nextDay: 'Día siguiente',
+      allThemes: 'Todos los temas',
+      copy: 'Copiar',
+      copied: 'Copiado',
+      nextTheme: 'Siguiente tema',
+      guide: 'Guía de atención plena y oración',
+      headTitle: 'Reflexión diaria • {{title}}',
+      headTitleAll: 'Reflexiones diarias • {{date}}',
+      headDescriptionAll: 'Todos los temas de la reflexión diaria del {{date}}.',
+      readFull: 'Leer la reflexión completa',
+      share: {
+        theme: 'Tema',
+        scripture: 'Escritura',
+        quote: 'Cita',
+        questions: 'Preguntas',
+        prayer: 'Oración',
+      },
+    },
+    journal: {
+      questions: 'Preguntas para la reflexión',
+      placeholder: 'Tu respuesta (privada, guardada en este dispositivo)',
+      prayed: 'Recé esta oración',
+      streak_one: 'Racha de {{count}} día',
+      streak_other: 'Racha de {{count}} días',
+      open: 'Abrir diario',
+    },
+    bookmark: {
+      add: 'Guardar en marcadores',
+      remove: 'Quitar marcador',
+      save: 'Guardar',
+      saved: 'Guardado',
+    },
+    newsletter: {
+      title: 'Recibe la reflexión diaria por correo',
+      description: 'Una breve reflexión y algunas lecturas cada mañana. Cancela cuando quieras.',
+      compactTitle: 'Boletín',
+      emailLabel: 'Correo electrónico',
+      placeholder: 'tu@ejemplo.com',
+      subscribe: 'Suscribirme',
+      subscribing: 'Suscribiendo…',
+      optInNote: 'Te enviaremos un enlace para confirmar la suscripción.',
+      confirmTitle: 'Casi listo: revisa tu bandeja de entrada',
+      confirmText: 'Enviamos un enlace de confirmación a {{email}}. Ábrelo para empezar a recibir el boletín.',
+      subscribedTitle: 'Ya estás suscrito',
+      subscribedText: 'El próximo número llegará a {{email}}.',
+      failed: 'No se pudo completar la suscripción',
+      invalid: 'Introduce un correo electrónico válido.',
+      rejected: 'El servicio del boletín no pudo añadir esta dirección.',
+      network: 'No se pudo contactar con el servicio del boletín. Inténtalo de nuevo.',
+    },
+  },
+  ko: {
+    common: {
+      home: '홈',
+      articles: '글',
+      back: '뒤로',
+      today: '오늘',
+      yesterday: '어제',
+      title: '제목',
+      scripture: '말씀',
+      companionQuote: '함께 읽는 인용문',
+      reflection: '묵상',
+      prayer: '기도',
+      dailyReflection: '오늘의 묵상',
+    },
+    nav: {
+      search: '검색',
+      library: '내 서재',
+      toggleTheme: '테마 전환',
+      openMenu: '메뉴 열기',
+    },
+    language: {
+      label: '언어',
+    },
+    footer: {
+      tagline: '철학과 기독교 사상이 만나는 곳.',
+      explore: '둘러보기',
+      topics: '주제',
+      about: '소개',
+      rss: 'RSS 피드',
+      connect: '연락',
+      external: '외부 링크',
+      rights: '© {{year}} {{name}}. 모든 권리 보유.',
+    },
+    home: {
+      heroLead: '',
+      heroPhilosophy: '철학',
+      heroMiddle: '과 ',
+      heroChristian: '기독교 사상',
+      heroEnd: '이 만나는 곳',
+      intro: 'Logos & Light는 고전 철학과 기독교 전통이 만나는 자리에서 에세이, 묵상, 자료를 나누는 관상의 공간입니다.',
+      readArticles: '글 읽기',
+      exploreTopics: '주제 둘러보기',
+      resources: '자료',
+      todaysReflection: '오늘의 묵상',
+      featured: '추천 읽을거리',
+      viewAll: '모두 보기',
+      practice: '실천과 묵상',
+      mindfulnessTitle: '마음챙김과 기독교 기도',
+      mindfulnessText: '그리스도와의 교제로서의 주의—실천과 안내.',
+      topicsHeading: '주제 둘러보기',
+    },
+    articles: {
+      intro: '핵심 주제에 관한 새로운 글이 매일 올라옵니다.',
+      archive: '보관함',
+    },
+    article: {
+      notFoundTitle: '글을 찾을 수 없습니다',
+      notFound: '찾을 수 없음',
+      notFoundText: '찾으시는 글이 없습니다.',
+      backToArticles: '글 목록으로',
+      draft: '초안 미리보기 — 독자에게 보이지 않음',
+      scheduled: '{{date}} 게시 예정',
+      byline: '{{author}} • {{date}}',
+    },
+    daily: {
+      intro: '매일 새롭게 생성되는 그리스도 중심의 관상 실천입니다. 주제를 고르고 시작하세요.',
+      previousDay: '이전 날',
+      nextDay: '다음 날',
+      allThemes: '모든 주제',
+      copy: '복사',
+      copied: '복사됨',
+      nextTheme: '다음 주제',
+      guide: '마음챙김과 기도 안내',
+      headTitle: '오늘의 묵상 • {{title}}',
+      headTitleAll: '매일의 묵상 • {{date}}',
+      headDescriptionAll: '{{date}} 묵상의 모든 주제.',
+      readFull: '묵상 전체 읽기',
+      share: {
+        theme: '주제',
+        scripture: '말씀',
+        quote: '인용',
+        questions: '질문',
+        prayer: '기도',
+      },
+    },
+    journal: {
+      questions: '묵상을 위한 질문',
+      placeholder: '나의 응답 (비공개, 이 기기에 저장됨)',
+      prayed: '이 기도를 드렸습니다',
+      streak_other: '{{count}}일 연속',
+      open: '일기 열기',
+    },
+    bookmark: {
+      add: '북마크',
+      remove: '북마크 삭제',
+      save: '저장',
+      saved: '저장됨',
+    },
+    newsletter: {
+      title: '오늘의 묵상을 이메일로 받아 보세요',
+      description: '매일 아침 짧은 묵상과 읽을거리를 보내 드립니다. 언제든 구독을 해지할 수 있습니다.',
+      compactTitle: '뉴스레터',
+      emailLabel: '이메일 주소',
+      placeholder: 'you@example.com',
+      subscribe: '구독하기',
+      subscribing: '구독 중…',
+      optInNote: '구독을 확인할 수 있는 링크를 이메일로 보내 드립니다.',
+      confirmTitle: '거의 다 되었습니다 — 받은편지함을 확인하세요',
+      confirmText: '{{email}}(으)로 확인 링크를 보냈습니다. 링크를 열면 뉴스레터를 받기 시작합니다.',
+      subscribedTitle: '구독되었습니다',
+      subscribedText: '다음 호는 {{email}}(으)로 발송됩니다.',
+      failed: '구독하지 못했습니다',
+      invalid: '올바른 이메일 주소를 입력하세요.',
+      rejected: '뉴스레터 서비스가 이 주소를 추가하지 못했습니다.',
+      network: '뉴스레터 서비스에 연결할 수 없습니다. 다시 시도해 주세요.',
+    },
+  },
+}
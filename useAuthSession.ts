@@ -0,0 +1,31 @@
+/**
+ * useAuthSession.ts
+ * Hook exposing the current admin session; re-renders on sign-in, sign-out, and expiry.
+ */
+
+import { useEffect, useState } from 'react'
+import { AUTH_EVENT, getSession, type AuthSession } from './auth'
+
+/**
+ * useAuthSession
+ * Returns the unexpired session or null.
+ */
+export default function useAuthSession(): AuthSession | null {
+  const [session, setSession] = useState<AuthSession | null>(() => getSession())
+
+  useEffect(() => {
+    /** re-read on auth changes */
+    const onChange = () => setSession(getSession())
+    window.addEventListener(AUTH_EVENT, onChange as EventListener)
+    return () => window.removeEventListener(AUTH_EVENT, onChange as EventListener)
+  }, [])
+
+  // Drop the session when it expires while the page is open
+  useEffect(() => {
+    if (!session) return
+    const id = window.setTimeout(() => setSession(getSession()), Math.max(0, session.expiresAt - Date.now()) + 50)
+    return () => window.clearTimeout(id)
+  }, [session])
+
+  return session
+}
@@ -1,13 +1,17 @@
 /**
  * useOverridesVersion.ts
  * Small hook to re-render components when image overrides, remote mappings, or content overrides change.
- * Listens to local override events, remote mapping change events, and content override events.
+ * Listens to local override events, remote mapping change events, local/remote content override events,
+ * authored article changes, and language changes (generated text is locale-dependent).
  */
 
 import { useEffect, useState } from 'react'
 import { OV_EVENT } from './imageOverrides'
 import { REMOTE_EVENT } from './remoteImages'
 import { CONTENT_EVENT } from './contentOverrides'
+import { REMOTE_CONTENT_EVENT } from './remoteContent'
+import { AUTHORED_EVENT } from './authoredArticles'
+import { LOCALE_EVENT } from './i18n'
 
 /**
  * useOverridesVersion
@@ -24,11 +28,17 @@ export default function useOverridesVersion(): number {
     window.addEventListener(OV_EVENT, onChange as EventListener)
     window.addEventListener(REMOTE_EVENT, onChange as EventListener)
     window.addEventListener(CONTENT_EVENT, onChange as EventListener)
+    window.addEventListener(REMOTE_CONTENT_EVENT, onChange as EventListener)
+    window.addEventListener(AUTHORED_EVENT, onChange as EventListener)
+    window.addEventListener(LOCALE_EVENT, onChange as EventListener)
 
     return () => {
       window.removeEventListener(OV_EVENT, onChange as EventListener)
       window.removeEventListener(REMOTE_EVENT, onChange as EventListener)
       window.removeEventListener(CONTENT_EVENT, onChange as EventListener)
+      window.removeEventListener(REMOTE_CONTENT_EVENT, onChange as EventListener)
+      window.removeEventListener(AUTHORED_EVENT, onChange as EventListener)
+      window.removeEventListener(LOCALE_EVENT, onChange as EventListener)
     }
   }, [])
 
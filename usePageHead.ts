@@ -0,0 +1,28 @@
+/**
+ * usePageHead.ts
+ * Hook for pages to declare their head (title, description, preview image, JSON-LD).
+ * In the browser the head is applied after render and reset to site defaults on unmount;
+ * during prerendering it is recorded into the HeadCollectorContext instead.
+ */
+
+import { useContext, useEffect } from 'react'
+import { HeadCollectorContext, applyHead, type PageHead } from './head'
+
+/**
+ * usePageHead
+ * Sets the document head for the current page. Pass a fresh object each render;
+ * changes are detected by value so callers do not need to memoize.
+ */
+export default function usePageHead(head: PageHead): void {
+  const collector = useContext(HeadCollectorContext)
+  if (collector) collector.head = head
+
+  const key = JSON.stringify(head)
+
+  useEffect(() => {
+    applyHead(head)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key])
+
+  useEffect(() => () => applyHead(null), [])
+}
@@ -0,0 +1,55 @@
+/**
+ * useReadingTracker.ts
+ * Records a visit in the library when a page opens an article or reflection, then tracks how far
+ * the reader has scrolled through its content element (furthest point, as a percentage).
+ */
+
+import { useEffect, type RefObject } from 'react'
+import { useLibraryStore, type LibraryItem } from './libraryStore'
+
+/**
+ * readProgress
+ * Share of the element that has scrolled above the bottom of the viewport.
+ */
+function readProgress(el: HTMLElement): number {
+  const rect = el.getBoundingClientRect()
+  if (rect.height <= 0) return 0
+  const seen = window.innerHeight - rect.top
+  return (Math.max(0, Math.min(seen, rect.height)) / rect.height) * 100
+}
+
+/**
+ * useReadingTracker
+ * Pass null while the item is unknown (e.g., article not found). The visit is recorded once per item ID.
+ */
+export default function useReadingTracker(item: LibraryItem | null, contentRef: RefObject<HTMLElement | null>): void {
+  const id = item?.id
+
+  useEffect(() => {
+    if (!item) return
+    useLibraryStore.getState().recordVisit(item)
+    // Record once per item; title or excerpt edits do not count as a new visit
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [id])
+
+  useEffect(() => {
+    if (!id) return
+    let frame = 0
+    const update = () => {
+      frame = 0
+      const el = contentRef.current
+      if (el) useLibraryStore.getState().setProgress(id, readProgress(el))
+    }
+    const onScroll = () => {
+      if (!frame) frame = window.requestAnimationFrame(update)
+    }
+    update()
+    window.addEventListener('scroll', onScroll, { passive: true })
+    window.addEventListener('resize', onScroll)
+    return () => {
+      if (frame) window.cancelAnimationFrame(frame)
+      window.removeEventListener('scroll', onScroll)
+      window.removeEventListener('resize', onScroll)
+    }
+  }, [id, contentRef])
+}
@@ -0,0 +1,246 @@
+/**
+ * variety-report.ts
+ * Generates a window of days of articles and reflections and reports how varied the output is:
+ * repeated titles, body overlap, quote distribution, and image-query collisions.
+ * - Bundled and executed with esbuild (npm run variety).
+ * - Validates the content pools first and exits non-zero if a pool is empty or a topic/theme
+ *   is missing from a per-topic pool (generation would break or pick `undefined`).
+ *   The variety figures themselves are informational and never fail the run.
+ *
+ * Optional environment variables:
+ * - DAYS: number of days to generate, ending at the base date (default: 365)
+ * - PER_TOPIC: generated articles per topic per day, as on the Articles page (default: 2)
+ * - BASE_DATE: YYYY-MM-DD last day of the window (default: today in siteConfig.timeZone)
+ * - REPORT_JSON: path to also write the full report as JSON
+ */
+
+import { mkdirSync, writeFileSync } from 'node:fs'
+import { dirname } from 'node:path'
+import {
+  articleId,
+  articleImageQuery,
+  getArticleDetailById,
+  topics,
+  validateArticlePools,
+  type ArticleCore,
+  type TopicKey,
+} from '../src/lib/articleEngine'
+import { generateReflection, themes, validateReflectionPools, type Reflection } from '../src/lib/contentEngine'
+import { parseCalendarDate, previousDays, siteToday, type CalendarDate } from '../src/lib/calendarDate'
+
+/** Read an env var with default. */
+function env(name: string, fallback?: string): string | undefined {
+  const v = process.env[name]
+  return v === undefined || v === '' ? fallback : v
+}
+
+/** Parse a YYYY-MM-DD base date, or today in the site time zone if missing/invalid. */
+function parseBaseDate(s?: string): CalendarDate {
+  return parseCalendarDate(s) ?? siteToday()
+}
+
+/** Days back a repeated title still counts as a "recent" repeat. */
+const RECENT_WINDOW = 7
+
+/**
+ * TitleStats
+ * How often titles repeat within one topic or theme over the window.
+ */
+interface TitleStats {
+  total: number
+  distinct: number
+  /** Most frequent title and how many times it appeared */
+  top: { title: string; count: number }
+  /** Same title twice on the same day (only possible with PER_TOPIC > 1) */
+  sameDay: number
+  /** Title already used in the previous RECENT_WINDOW days */
+  recent: number
+}
+
+/**
+ * Distribution
+ * Usage counts over a pool (quotes), with the spread between the most and least used entries.
+ */
+interface Distribution {
+  used: number
+  min: number
+  max: number
+  /** max / min; 1 means perfectly even */
+  ratio: number
+  counts: Record<string, number>
+}
+
+/** Counts occurrences of each key. */
+function tally(keys: string[]): Map<string, number> {
+  const counts = new Map<string, number>()
+  keys.forEach(k => counts.set(k, (counts.get(k) ?? 0) + 1))
+  return counts
+}
+
+/** Title repetition for one topic/theme; `days` holds each day's titles, newest first. */
+function titleStats(days: string[][]): TitleStats {
+  const all = days.flat()
+  const counts = tally(all)
+  const [title, count] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0] ?? ['', 0]
+  let sameDay = 0
+  let recent = 0
+  days.forEach((titles, i) => {
+    sameDay += titles.length - new Set(titles).size
+    const earlier = new Set(days.slice(i + 1, i + 1 + RECENT_WINDOW).flat())
+    recent += titles.filter(t => earlier.has(t)).length
+  })
+  return { total: all.length, distinct: counts.size, top: { title, count }, sameDay, recent }
+}
+
+/** Quote usage across generated items. */
+function distribution(keys: string[]): Distribution {
+  const counts = tally(keys)
+  const values = Array.from(counts.values())
+  const min = values.length ? Math.min(...values) : 0
+  const max = values.length ? Math.max(...values) : 0
+  return {
+    used: counts.size,
+    min,
+    max,
+    ratio: min ? Math.round((max / min) * 100) / 100 : 0,
+    counts: Object.fromEntries(Array.from(counts.entries()).sort((a, b) => b[1] - a[1])),
+  }
+}
+
+/** Number of items whose key is shared with at least one other item. */
+function collisions(keys: string[]): number {
+  return Array.from(tally(keys).values())
+    .filter(n => n > 1)
+    .reduce((sum, n) => sum + n, 0)
+}
+
+/** Jaccard similarity of two paragraph lists (shared paragraphs / all distinct paragraphs). */
+function overlap(a: string[], b: string[]): number {
+  const sa = new Set(a)
+  const sb = new Set(b)
+  const shared = Array.from(sa).filter(p => sb.has(p)).length
+  const union = new Set([...sa, ...sb]).size
+  return union ? shared / union : 0
+}
+
+/** Formats a 0–1 share as a percentage. */
+function pct(n: number): string {
+  return `${(n * 100).toFixed(1)}%`
+}
+
+/** Prints one aligned title-stats row. */
+function titleRow(label: string, s: TitleStats): string {
+  return `  ${label.padEnd(18)} ${String(s.distinct).padStart(3)} distinct / ${String(s.total).padStart(5)}   top ×${String(s.top.count).padEnd(4)} same-day ${String(s.sameDay).padStart(4)}   within ${RECENT_WINDOW}d ${String(s.recent).padStart(5)}   “${s.top.title}”`
+}
+
+/** Main entry: validates pools, then generates the window and prints the report. */
+function main() {
+  const problems = [...validateArticlePools(), ...validateReflectionPools()]
+  if (problems.length) {
+    console.error('Content pool validation failed:')
+    problems.forEach(p => console.error(`  - ${p}`))
+    process.exit(1)
+  }
+
+  const days = Math.max(1, parseInt(env('DAYS', '365') as string, 10) || 365)
+  const perTopic = Math.max(1, parseInt(env('PER_TOPIC', '2') as string, 10) || 2)
+  const base = parseBaseDate(env('BASE_DATE'))
+  const window = previousDays(base, days)
+
+  // Articles, grouped per topic and day (newest day first)
+  const articles: ArticleCore[] = []
+  const queries: string[] = []
+  const byTopic = new Map<TopicKey, ArticleCore[][]>()
+  topics.forEach(t => byTopic.set(t.key, []))
+  window.forEach(day => {
+    topics.forEach(t => {
+      const dayItems: ArticleCore[] = []
+      for (let i = 1; i <= perTopic; i++) {
+        const a = getArticleDetailById(articleId(t.key, day, i))
+        if (!a) continue
+        dayItems.push(a)
+        articles.push(a)
+        queries.push(articleImageQuery(t.key, day, i))
+      }
+      byTopic.get(t.key)?.push(dayItems)
+    })
+  })
+
+  // Reflections, grouped per theme and day
+  const reflections: Reflection[] = []
+  const byTheme = new Map(themes.map(th => [th, [] as Reflection[][]]))
+  window.forEach(day => {
+    themes.forEach(th => {
+      const r = generateReflection(day, th)
+      reflections.push(r)
+      byTheme.get(th)?.push([r])
+    })
+  })
+
+  // Body overlap: the same topic and slot on consecutive days
+  const overlaps: number[] = []
+  byTopic.forEach(dayLists => {
+    for (let d = 0; d + 1 < dayLists.length; d++) {
+      dayLists[d].forEach((a, slot) => {
+        const prev = dayLists[d + 1][slot]
+        if (prev) overlaps.push(overlap(a.body, prev.body))
+      })
+    }
+  })
+
+  const report = {
+    window: { from: window[window.length - 1], to: base, days, perTopic },
+    articles: {
+      total: articles.length,
+      titles: Object.fromEntries(
+        Array.from(byTopic.entries()).map(([topic, dayLists]) => [topic, titleStats(dayLists.map(l => l.map(a => a.title)))])
+      ),
+      identicalBodies: collisions(articles.map(a => a.body.join('\n'))),
+      meanConsecutiveOverlap: overlaps.length ? overlaps.reduce((s, n) => s + n, 0) / overlaps.length : 0,
+      identicalConsecutive: overlaps.filter(n => n === 1).length,
+      quotes: distribution(articles.map(a => `${a.quote.text} — ${a.quote.author}`)),
+      imageQueries: { distinct: new Set(queries).size, colliding: collisions(queries) },
+    },
+    reflections: {
+      total: reflections.length,
+      titles: Object.fromEntries(
+        Array.from(byTheme.entries()).map(([theme, dayLists]) => [theme, titleStats(dayLists.map(l => l.map(r => r.title)))])
+      ),
+      identical: collisions(
+        reflections.map(r => [r.theme, r.title, r.scripture.ref, r.quote.text, r.prayer, ...r.questions].join('\n'))
+      ),
+      quotes: distribution(reflections.map(r => `${r.quote.text} — ${r.quote.author}`)),
+      scripture: distribution(reflections.map(r => r.scripture.ref)),
+    },
+  }
+
+  const a = report.articles
+  const r = report.reflections
+  console.log(`Variety report ${report.window.from} … ${report.window.to} (${days} days, ${perTopic} per topic)`)
+  console.log('')
+  console.log(`Articles: ${a.total}`)
+  console.log('Titles by topic:')
+  Object.entries(a.titles).forEach(([topic, s]) => console.log(titleRow(topic, s)))
+  console.log(`Bodies: ${a.identicalBodies} share an identical body with another article`)
+  console.log(
+    `  same topic/slot on consecutive days: mean paragraph overlap ${pct(a.meanConsecutiveOverlap)}, identical ${a.identicalConsecutive}`
+  )
+  console.log(`Quotes: ${a.quotes.used} used, ${a.quotes.min}–${a.quotes.max} uses each (max/min ${a.quotes.ratio})`)
+  console.log(`Image queries: ${a.imageQueries.distinct} distinct, ${a.imageQueries.colliding} articles share a query`)
+  console.log('')
+  console.log(`Reflections: ${r.total}`)
+  console.log('Titles by theme:')
+  Object.entries(r.titles).forEach(([theme, s]) => console.log(titleRow(theme, s)))
+  console.log(`Identical reflections (same theme, title, scripture, quote, prayer, questions): ${r.identical}`)
+  console.log(`Quotes: ${r.quotes.used} used, ${r.quotes.min}–${r.quotes.max} uses each (max/min ${r.quotes.ratio})`)
+  console.log(`Scripture: ${r.scripture.used} used, ${r.scripture.min}–${r.scripture.max} uses each (max/min ${r.scripture.ratio})`)
+
+  const out = env('REPORT_JSON')
+  if (out) {
+    mkdirSync(dirname(out), { recursive: true })
+    writeFileSync(out, JSON.stringify(report, null, 2) + '\n')
+    console.log(`\nWrote ${out}`)
+  }
+}
+
+main()